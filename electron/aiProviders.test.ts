@@ -0,0 +1,137 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import os from 'node:os'
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { streamText } from 'ai'
+import { getAIProvider, normalizeOpenAICompatibleBaseUrl, resolveAIModel } from './aiProviders'
+import { CorruptConfigError } from './projectConfig'
+
+// A stand-in for a local OpenAI-compatible server (Ollama, LM Studio, the
+// llama.cpp server), mounted under `/api/openai` to check the URL is used as
+// entered. Requests are recorded so the tests can see what was sent.
+type RecordedRequest = { url: string; authorization?: string; body: any };
+
+function chunk(delta: Record<string, unknown>, finishReason: string | null = null) {
+    return `data: ${JSON.stringify({
+        id: 'chatcmpl-stub',
+        object: 'chat.completion.chunk',
+        created: 0,
+        model: 'stub-model',
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+    })}\n\n`;
+}
+
+function startStubServer(requests: RecordedRequest[]): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', part => { raw += part; });
+        req.on('end', () => {
+            requests.push({ url: req.url || '', authorization: req.headers.authorization, body: raw ? JSON.parse(raw) : null });
+            if (req.method === 'GET' && req.url === '/api/openai/models') {
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ object: 'list', data: [{ id: 'stub-model' }, { id: 'another-model' }] }));
+            } else if (req.method === 'POST' && req.url === '/api/openai/chat/completions') {
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                res.write(chunk({ role: 'assistant', content: 'Once upon' }));
+                res.write(chunk({ content: ' a time' }));
+                res.write(chunk({}, 'stop'));
+                res.end('data: [DONE]\n\n');
+            } else {
+                res.writeHead(404);
+                res.end();
+            }
+        });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('normalizeOpenAICompatibleBaseUrl', () => {
+    it('adds /v1 to a bare server address', () => {
+        expect(normalizeOpenAICompatibleBaseUrl('http://localhost:11434')).toBe('http://localhost:11434/v1');
+        expect(normalizeOpenAICompatibleBaseUrl(' http://localhost:11434/ ')).toBe('http://localhost:11434/v1');
+    });
+
+    it('uses a URL with a path as entered', () => {
+        expect(normalizeOpenAICompatibleBaseUrl('http://localhost:1234/v1/')).toBe('http://localhost:1234/v1');
+        expect(normalizeOpenAICompatibleBaseUrl('http://host/api/openai')).toBe('http://host/api/openai');
+        expect(normalizeOpenAICompatibleBaseUrl('https://host/v1beta')).toBe('https://host/v1beta');
+    });
+
+    it('leaves an empty URL empty', () => {
+        expect(normalizeOpenAICompatibleBaseUrl('  ')).toBe('');
+    });
+});
+
+describe('Custom / Local provider', () => {
+    const provider = getAIProvider('custom');
+    const requests: RecordedRequest[] = [];
+    let server: http.Server;
+    let baseURL: string;
+    let projectRoot: string;
+    const lastRequest = () => requests[requests.length - 1];
+
+    beforeAll(async () => {
+        server = await startStubServer(requests);
+        baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/openai`;
+        projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'auctor-provider-'));
+        await fs.writeFile(path.join(projectRoot, 'auctor.json'), JSON.stringify({
+            settings: { aiProvider: 'custom', customBaseUrl: baseURL, customModel: 'stub-model' },
+        }));
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+        await fs.rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('lists the models the server offers', async () => {
+        const models = await provider.listModels!({ apiKey: '', baseURL });
+        expect(models.map(m => m.id)).toEqual(['another-model', 'stub-model']);
+        expect(lastRequest().authorization).toBeUndefined();
+    });
+
+    it('sends the key when one is set', async () => {
+        await provider.listModels!({ apiKey: 'secret', baseURL });
+        expect(lastRequest().authorization).toBe('Bearer secret');
+    });
+
+    it('streams a completion through the model resolved for the project, without a key', async () => {
+        const { model, modelId } = await resolveAIModel(projectRoot);
+        expect(modelId).toBe('stub-model');
+
+        const result = streamText({ model, prompt: 'Begin the story.' });
+        let text = '';
+        for await (const part of result.textStream) text += part;
+
+        expect(text).toBe('Once upon a time');
+        const request = lastRequest();
+        expect(request.url).toBe('/api/openai/chat/completions');
+        expect(request.body.model).toBe('stub-model');
+        expect(request.body.stream).toBe(true);
+    });
+
+    it('reports a server that cannot be reached', async () => {
+        const closed = await startStubServer([]);
+        const port = (closed.address() as AddressInfo).port;
+        await new Promise(resolve => closed.close(resolve));
+
+        await expect(provider.listModels!({ apiKey: '', baseURL: `http://127.0.0.1:${port}` })).rejects.toThrow();
+    });
+
+    it('reports damaged project settings instead of using the defaults', async () => {
+        const damaged = await fs.mkdtemp(path.join(os.tmpdir(), 'auctor-provider-'));
+        try {
+            await fs.writeFile(path.join(damaged, 'auctor.json'), '{"settings": {"aiProvider": "cus');
+            await expect(resolveAIModel(damaged)).rejects.toBeInstanceOf(CorruptConfigError);
+        } finally {
+            await fs.rm(damaged, { recursive: true, force: true });
+        }
+    });
+
+    it('needs a server URL and a model name', () => {
+        expect(() => provider.createModel({ apiKey: '' }, 'stub-model')).toThrow(/server URL/);
+        expect(() => provider.createModel({ apiKey: '', baseURL }, '')).toThrow(/model name/);
+    });
+});
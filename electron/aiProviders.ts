@@ -0,0 +1,354 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { createOpenAI } from '@ai-sdk/openai';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { LanguageModel } from 'ai';
+import { readProjectConfig } from './projectConfig';
+
+// --- AI Provider Registry ---
+// Every AI feature resolves its model through this registry. Adding a provider
+// means adding one entry to AI_PROVIDERS; settings, model pickers and the
+// IPC handlers in main.ts all iterate over it.
+
+export type AIModelOption = { id: string; name: string };
+
+export type AIProviderConnection = {
+    apiKey: string;
+    /** Only set for providers with a configurable endpoint (see baseUrlSetting). */
+    baseURL?: string;
+};
+
+export interface AIProviderDefinition {
+    id: string;
+    /** Name shown in the settings provider dropdown. */
+    label: string;
+    /** Compact name shown in the status bar / refine dialog pickers. */
+    shortLabel: string;
+    /** Variable the API key is stored under in the project's .env. */
+    keyEnvVar: string;
+    /** Field name used for the key in get/save-project-settings. */
+    keySetting: string;
+    /** Field name used for the model in auctor.json settings. */
+    modelSetting: string;
+    defaultModel: string;
+    keyPlaceholder: string;
+    /** False for providers (e.g. local servers) that work without an API key. */
+    requiresKey: boolean;
+    /** Field name for a user-supplied endpoint URL, for self-hosted providers. */
+    baseUrlSetting?: string;
+    defaultBaseUrl?: string;
+    /** Average characters per token for this provider's tokenizer on English prose; used for budgeting. */
+    charsPerToken: number;
+    /** Fixed model choices for providers without a usable listing endpoint. */
+    models?: AIModelOption[];
+    listModels?: (connection: AIProviderConnection) => Promise<AIModelOption[]>;
+    createModel: (connection: AIProviderConnection, modelId: string) => LanguageModel;
+}
+
+/** Serializable subset of a provider definition, sent to the renderer. */
+export type AIProviderDescriptor = Omit<AIProviderDefinition, 'listModels' | 'createModel'> & {
+    canListModels: boolean;
+};
+
+/**
+ * Normalises a user-entered OpenAI-compatible endpoint. A URL with a path is
+ * used as entered (servers may be mounted at `/api/openai`, `/v1beta` or
+ * behind a proxy prefix); only a bare server address gets the usual `/v1`
+ * root, e.g. `http://localhost:11434/` -> `http://localhost:11434/v1`.
+ */
+export function normalizeOpenAICompatibleBaseUrl(raw: string): string {
+    const trimmed = (raw || '').trim().replace(/\/+$/, '');
+    if (!trimmed) return '';
+    try {
+        const url = new URL(trimmed);
+        return url.pathname === '/' && !url.search ? `${trimmed}/v1` : trimmed;
+    } catch {
+        return trimmed;
+    }
+}
+
+export const AI_PROVIDERS: AIProviderDefinition[] = [
+    {
+        id: 'openai',
+        label: 'OpenAI (GPT-4)',
+        shortLabel: 'OpenAI',
+        keyEnvVar: 'OPENAI_API_KEY',
+        keySetting: 'apiKey',
+        modelSetting: 'openaiModel',
+        defaultModel: 'gpt-4-turbo',
+        keyPlaceholder: 'sk-...',
+        requiresKey: true,
+        charsPerToken: 4,
+        listModels: async ({ apiKey }) => {
+            const response = await fetch('https://api.openai.com/v1/models', {
+                headers: { 'Authorization': `Bearer ${apiKey}` }
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`OpenAI API Error: ${response.status} ${errorText}`);
+            }
+
+            const data = await response.json();
+            return (data.data || [])
+                .filter((m: any) => m.id.startsWith('gpt-') || m.id.startsWith('o') || m.id.startsWith('chatgpt-'))
+                .filter((m: any) => !m.id.includes('instruct') && !m.id.includes('realtime') && !m.id.includes('audio') && !m.id.includes('search') && !m.id.includes('transcribe'))
+                .map((m: any) => ({ id: m.id, name: m.id }))
+                .sort((a: AIModelOption, b: AIModelOption) => a.id.localeCompare(b.id));
+        },
+        createModel: ({ apiKey }, modelId) => createOpenAI({ apiKey })(modelId),
+    },
+    {
+        id: 'google',
+        label: 'Google Gemini',
+        shortLabel: 'Google',
+        keyEnvVar: 'GOOGLE_GENERATIVE_AI_API_KEY',
+        keySetting: 'googleApiKey',
+        modelSetting: 'googleModel',
+        defaultModel: 'models/gemini-2.0-flash-exp',
+        keyPlaceholder: 'AIza...',
+        requiresKey: true,
+        charsPerToken: 4,
+        listModels: async ({ apiKey }) => {
+            const url = `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`;
+            const response = await fetch(url);
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`Google API Error: ${response.status} ${errorText}`);
+            }
+
+            const data = await response.json();
+            // Filter for models that support content generation
+            return (data.models || [])
+                .filter((m: any) => m.supportedGenerationMethods?.includes('generateContent'))
+                .map((m: any) => ({
+                    id: m.name, // e.g. "models/gemini-1.5-pro"
+                    name: m.displayName || m.name
+                }));
+        },
+        createModel: ({ apiKey }, modelId) => {
+            // Ensure model has 'models/' prefix if not present (the listing returns it prefixed)
+            const id = modelId.startsWith('models/') ? modelId : `models/${modelId}`;
+            return createGoogleGenerativeAI({ apiKey })(id);
+        },
+    },
+    {
+        id: 'anthropic',
+        label: 'Anthropic (Claude)',
+        shortLabel: 'Claude',
+        keyEnvVar: 'ANTHROPIC_API_KEY',
+        keySetting: 'anthropicApiKey',
+        modelSetting: 'anthropicModel',
+        defaultModel: 'claude-sonnet-4-20250514',
+        keyPlaceholder: 'sk-ant-...',
+        requiresKey: true,
+        charsPerToken: 3.5,
+        models: [
+            { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4' },
+            { id: 'claude-opus-4-20250514', name: 'Claude Opus 4' },
+            { id: 'claude-3-7-sonnet-20250219', name: 'Claude 3.7 Sonnet' },
+            { id: 'claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet' },
+            { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku' },
+            { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus' },
+        ],
+        createModel: ({ apiKey }, modelId) => createAnthropic({ apiKey })(modelId),
+    },
+    {
+        id: 'xai',
+        label: 'xAI (Grok)',
+        shortLabel: 'Grok',
+        keyEnvVar: 'XAI_API_KEY',
+        keySetting: 'xaiApiKey',
+        modelSetting: 'xaiModel',
+        defaultModel: 'grok-beta',
+        keyPlaceholder: 'xai-...',
+        requiresKey: true,
+        charsPerToken: 4,
+        models: [
+            { id: 'grok-3', name: 'Grok 3' },
+            { id: 'grok-3-fast', name: 'Grok 3 Fast' },
+            { id: 'grok-3-mini', name: 'Grok 3 Mini' },
+            { id: 'grok-3-mini-fast', name: 'Grok 3 Mini Fast' },
+            { id: 'grok-2', name: 'Grok 2' },
+            { id: 'grok-2-mini', name: 'Grok 2 Mini' },
+            { id: 'grok-beta', name: 'Grok Beta' },
+        ],
+        // Grok (xAI) via OpenAI compatible interface
+        createModel: ({ apiKey }, modelId) => createOpenAI({
+            name: 'xai',
+            baseURL: 'https://api.x.ai/v1',
+            apiKey,
+        })(modelId),
+    },
+    {
+        // Any server speaking the OpenAI chat completions API: Ollama, LM Studio,
+        // llama.cpp server, vLLM, or a local stub for testing.
+        id: 'custom',
+        label: 'Custom / Local (OpenAI-compatible)',
+        shortLabel: 'Local',
+        keyEnvVar: 'CUSTOM_OPENAI_API_KEY',
+        keySetting: 'customApiKey',
+        modelSetting: 'customModel',
+        defaultModel: '',
+        keyPlaceholder: 'Optional',
+        requiresKey: false,
+        charsPerToken: 3.5,
+        baseUrlSetting: 'customBaseUrl',
+        defaultBaseUrl: 'http://localhost:11434/v1',
+        listModels: async ({ apiKey, baseURL }) => {
+            const base = normalizeOpenAICompatibleBaseUrl(baseURL || '');
+            if (!base) throw new Error('Server URL is missing');
+
+            const response = await fetch(`${base}/models`, {
+                headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`Local server error: ${response.status} ${errorText}`);
+            }
+
+            const data = await response.json();
+            return (data.data || [])
+                .filter((m: any) => typeof m?.id === 'string')
+                .map((m: any) => ({ id: m.id, name: m.id }))
+                .sort((a: AIModelOption, b: AIModelOption) => a.id.localeCompare(b.id));
+        },
+        createModel: ({ apiKey, baseURL }, modelId) => {
+            const base = normalizeOpenAICompatibleBaseUrl(baseURL || '');
+            if (!base) throw new Error('No server URL configured for the Custom / Local provider.');
+            if (!modelId) throw new Error('No model name configured for the Custom / Local provider.');
+            // Local servers implement chat completions, not the Responses API.
+            // The SDK insists on a key, so send a placeholder when none is set.
+            return createOpenAI({
+                name: 'custom',
+                baseURL: base,
+                apiKey: apiKey || 'local',
+            }).chat(modelId);
+        },
+    },
+];
+
+export const DEFAULT_AI_PROVIDER_ID = 'openai';
+
+export function getAIProvider(id: string | undefined | null): AIProviderDefinition {
+    return AI_PROVIDERS.find(p => p.id === id)
+        ?? AI_PROVIDERS.find(p => p.id === DEFAULT_AI_PROVIDER_ID)!;
+}
+
+export function describeAIProviders(): AIProviderDescriptor[] {
+    return AI_PROVIDERS.map(({ listModels, createModel: _createModel, ...rest }) => ({
+        ...rest,
+        canListModels: typeof listModels === 'function',
+    }));
+}
+
+// --- .env helpers ---
+function envLineRegex(key: string) {
+    return new RegExp(`^${key}=(.*)$`, 'm');
+}
+
+export function readEnvValue(envContent: string, key: string): string {
+    const match = envContent.match(envLineRegex(key));
+    return match ? match[1].trim() : '';
+}
+
+export function updateEnvValue(envContent: string, key: string, value: string): string {
+    const regex = envLineRegex(key);
+    if (regex.test(envContent)) {
+        return envContent.replace(regex, `${key}=${value}`);
+    }
+    return `${envContent}\n${key}=${value}`;
+}
+
+/** Reads every registered provider's key from `<projectRoot>/.env`, keyed by provider id. */
+export async function readProviderKeys(projectRoot: string): Promise<Record<string, string>> {
+    let envContent = '';
+    try {
+        envContent = await fs.readFile(path.join(projectRoot, '.env'), 'utf-8');
+    } catch {
+        // .env may not exist, that's fine — keys will be empty
+    }
+    const keys: Record<string, string> = {};
+    for (const provider of AI_PROVIDERS) {
+        keys[provider.id] = readEnvValue(envContent, provider.keyEnvVar);
+    }
+    return keys;
+}
+
+/** Flattens `auctor.json` settings and .env keys into the field names the settings UI uses. */
+export async function readProviderSettings(projectRoot: string, projectSettings: Record<string, any> | undefined) {
+    const keys = await readProviderKeys(projectRoot);
+    const result: { aiProvider: string; [setting: string]: string } = {
+        aiProvider: getAIProvider(projectSettings?.aiProvider).id,
+    };
+    for (const provider of AI_PROVIDERS) {
+        result[provider.modelSetting] = projectSettings?.[provider.modelSetting] || provider.defaultModel;
+        result[provider.keySetting] = keys[provider.id] || '';
+        if (provider.baseUrlSetting) {
+            result[provider.baseUrlSetting] = projectSettings?.[provider.baseUrlSetting] || provider.defaultBaseUrl || '';
+        }
+    }
+    return result;
+}
+
+export type ResolvedAIModel = {
+    provider: AIProviderDefinition;
+    modelId: string;
+    model: LanguageModel;
+};
+
+/**
+ * Resolves the language model for the project at `projectRoot`, honouring an
+ * optional per-request provider override (e.g. the Refine dialog picker).
+ */
+export async function resolveAIModel(projectRoot: string, providerOverride?: string): Promise<ResolvedAIModel> {
+    const projectSettings: Record<string, any> | undefined = (await readProjectConfig(projectRoot)).settings;
+
+    const provider = getAIProvider(providerOverride || projectSettings?.aiProvider);
+    const modelId = projectSettings?.[provider.modelSetting] || provider.defaultModel;
+    const connection = await resolveProviderConnection(projectRoot, provider, projectSettings);
+
+    return { provider, modelId, model: provider.createModel(connection, modelId) };
+}
+
+/** The stored key and endpoint for `provider`, as used by resolveAIModel. */
+export async function resolveProviderConnection(
+    projectRoot: string,
+    provider: AIProviderDefinition,
+    projectSettings: Record<string, any> | undefined,
+): Promise<AIProviderConnection> {
+    const keys = await readProviderKeys(projectRoot);
+    // Fall back to the process env so keys loaded by dotenv still work.
+    const apiKey = keys[provider.id] || process.env[provider.keyEnvVar] || '';
+    const baseURL = provider.baseUrlSetting
+        ? (projectSettings?.[provider.baseUrlSetting] || provider.defaultBaseUrl)
+        : undefined;
+    return { apiKey, baseURL };
+}
+
+/**
+ * Lists models for a provider. The key and endpoint come from the caller (the
+ * unsaved settings form) and fall back to the project's stored values.
+ */
+export async function listProviderModels(projectRoot: string, providerId: string, apiKey?: string, baseURL?: string): Promise<AIModelOption[]> {
+    const provider = getAIProvider(providerId);
+    if (!provider.listModels) {
+        return provider.models ?? [];
+    }
+
+    let key = apiKey || '';
+    if (!key) {
+        key = (await readProviderKeys(projectRoot))[provider.id] || '';
+    }
+    if (!key && provider.requiresKey) throw new Error('API Key is missing');
+
+    let endpoint = baseURL || '';
+    if (!endpoint && provider.baseUrlSetting) {
+        endpoint = (await readProjectConfig(projectRoot)).settings?.[provider.baseUrlSetting] || provider.defaultBaseUrl || '';
+    }
+
+    return provider.listModels({ apiKey: key, baseURL: endpoint });
+}
@@ -0,0 +1,52 @@
+import { randomUUID } from 'node:crypto';
+
+// --- AI Request Tracking ---
+// Every AI job started over IPC registers an AbortController under a request
+// id chosen by the renderer. `cancel-ai-request` aborts it; the provider call
+// receives the signal so the HTTP request is torn down, not just ignored.
+
+const activeRequests = new Map<string, AbortController>();
+
+export type AIRequestHandle = {
+    requestId: string;
+    signal: AbortSignal;
+    /** Must be called once the job has finished, whatever the outcome. */
+    finish: () => void;
+};
+
+export function beginAIRequest(requestId?: string): AIRequestHandle {
+    const id = requestId || randomUUID();
+    // A retried id replaces (and aborts) the stale job instead of leaking it
+    activeRequests.get(id)?.abort();
+
+    const controller = new AbortController();
+    activeRequests.set(id, controller);
+
+    return {
+        requestId: id,
+        signal: controller.signal,
+        finish: () => {
+            if (activeRequests.get(id) === controller) activeRequests.delete(id);
+        },
+    };
+}
+
+/** Returns false when the request had already finished (or never existed). */
+export function cancelAIRequest(requestId: string): boolean {
+    const controller = activeRequests.get(requestId);
+    if (!controller) return false;
+    controller.abort();
+    activeRequests.delete(requestId);
+    return true;
+}
+
+/** Used when the project changes underneath running jobs. */
+export function cancelAllAIRequests(): void {
+    for (const controller of activeRequests.values()) controller.abort();
+    activeRequests.clear();
+}
+
+export function isAbortError(error: unknown): boolean {
+    const name = (error as any)?.name;
+    return name === 'AbortError' || name === 'ResponseAborted';
+}
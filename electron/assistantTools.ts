@@ -0,0 +1,210 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { tool } from 'ai';
+import { z } from 'zod';
+import { buildTermMatchers, splitAliases } from '../src/utils/chapterText';
+import { findChapter, listChaptersInOrder, readChapter } from './chapters';
+import { readProjectConfig } from './projectConfig';
+import { createProposalTools, ProposedChange } from './proposalTools';
+import { searchRetrievalIndex } from './retrievalIndex';
+
+// --- AI Assistant Tools ---
+// Tools available to the chat assistant (generate-ai-completion). Each tool
+// reports what it consulted through `notify`, which main.ts forwards to the
+// panel as an `ai-tool-call` event. Worldbuilding edits are only proposed
+// (see proposalTools.ts) and reach the panel through `propose`.
+
+// Keeps a single tool result from swallowing the model's context window
+const CHAPTER_TEXT_CHAR_LIMIT = 40000;
+const SEARCH_SNIPPET_RADIUS = 160;
+const SEARCH_SNIPPETS_PER_CHAPTER = 3;
+
+async function readJsonFolder(projectRoot: string, folder: string): Promise<any[]> {
+    const dir = path.join(projectRoot, folder);
+    await fs.mkdir(dir, { recursive: true });
+    const files = await fs.readdir(dir);
+    const items: any[] = [];
+    for (const f of files) {
+        if (!f.endsWith('.json')) continue;
+        try {
+            const raw = await fs.readFile(path.join(dir, f), 'utf-8');
+            items.push(JSON.parse(raw));
+        } catch {}
+    }
+    return items;
+}
+
+function snippetsFor(text: string, matchers: RegExp[]): string[] {
+    const snippets: string[] = [];
+    for (const matcher of matchers) {
+        const global = new RegExp(matcher.source, `${matcher.flags}g`);
+        let match: RegExpExecArray | null;
+        while ((match = global.exec(text)) && snippets.length < SEARCH_SNIPPETS_PER_CHAPTER) {
+            const start = Math.max(0, match.index - SEARCH_SNIPPET_RADIUS);
+            const end = Math.min(text.length, match.index + match[0].length + SEARCH_SNIPPET_RADIUS);
+            snippets.push(`${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`);
+        }
+    }
+    return snippets;
+}
+
+export type AssistantToolCallbacks = {
+    notify: (message: string) => void;
+    propose: (change: ProposedChange) => void;
+};
+
+export function createAssistantTools(projectRoot: string, { notify, propose }: AssistantToolCallbacks) {
+    return {
+        getCharacters: tool({
+            description: 'List all characters in the project with their details (appearance, personality, motivation, relationships)',
+            inputSchema: z.object({}),
+            execute: async () => {
+                notify('Looking up characters...');
+                try {
+                    return { characters: await readJsonFolder(projectRoot, 'Characters') };
+                } catch { return { characters: [] }; }
+            },
+        }),
+        getPlaces: tool({
+            description: 'List all places/locations in the project with their descriptions',
+            inputSchema: z.object({}),
+            execute: async () => {
+                notify('Looking up places...');
+                try {
+                    return { places: await readJsonFolder(projectRoot, 'Places') };
+                } catch { return { places: [] }; }
+            },
+        }),
+        getObjects: tool({
+            description: 'List all objects/items in the project with their descriptions',
+            inputSchema: z.object({}),
+            execute: async () => {
+                notify('Looking up objects...');
+                try {
+                    return { objects: await readJsonFolder(projectRoot, 'Objects') };
+                } catch { return { objects: [] }; }
+            },
+        }),
+        getOrganisations: tool({
+            description: 'List all organisations in the project with their goals and members',
+            inputSchema: z.object({}),
+            execute: async () => {
+                notify('Looking up organisations...');
+                try {
+                    return { organisations: await readJsonFolder(projectRoot, 'Organisations') };
+                } catch { return { organisations: [] }; }
+            },
+        }),
+        listChapters: tool({
+            description: 'List the chapters of the manuscript in reading order, with each chapter\'s position, title and summary',
+            inputSchema: z.object({}),
+            execute: async () => {
+                notify('Listing chapters...');
+                const chapters = await listChaptersInOrder(projectRoot);
+                const result = [];
+                for (const chapter of chapters) {
+                    let summary = '';
+                    let wordCount = 0;
+                    try {
+                        const parsed = await readChapter(projectRoot, chapter.file);
+                        summary = parsed.settings.summary || '';
+                        wordCount = parsed.text ? parsed.text.split(/\s+/).length : 0;
+                    } catch {}
+                    result.push({ ...chapter, summary, wordCount });
+                }
+                return { chapters: result };
+            },
+        }),
+        readChapter: tool({
+            description: 'Read one chapter: its full text, its settings (summary, style notes, age offset, subplots) and any saved critique. Identify the chapter by title, file name or position number.',
+            inputSchema: z.object({
+                chapter: z.string().describe('Chapter title, file name, or 1-based position in reading order'),
+            }),
+            execute: async ({ chapter }) => {
+                const chapters = await listChaptersInOrder(projectRoot);
+                const found = findChapter(chapters, chapter);
+                if (!found) {
+                    notify(`Looking for chapter "${chapter}"...`);
+                    return { error: `No chapter matches "${chapter}".`, chapters: chapters.map(c => c.title) };
+                }
+                notify(`Reading chapter "${found.title}"...`);
+                const parsed = await readChapter(projectRoot, found.file);
+                const truncated = parsed.text.length > CHAPTER_TEXT_CHAR_LIMIT;
+                return {
+                    ...found,
+                    settings: parsed.settings,
+                    text: truncated ? parsed.text.slice(0, CHAPTER_TEXT_CHAR_LIMIT) : parsed.text,
+                    truncated,
+                    critique: parsed.critique,
+                };
+            },
+        }),
+        searchChapters: tool({
+            description: 'Find the chapters that mention a word or phrase (whole-word, case-insensitive), in reading order, with short excerpts around each match. Separate alternative phrasings or aliases with commas.',
+            inputSchema: z.object({
+                query: z.string().describe('Phrase to search for, e.g. "the captain" or "Mara, Marabel"'),
+            }),
+            execute: async ({ query }) => {
+                notify(`Searching chapters for "${query}"...`);
+                const terms = splitAliases(query);
+                const matchers = buildTermMatchers(terms.length > 0 ? terms : [query]);
+                if (matchers.length === 0) return { matches: [] };
+
+                const matches = [];
+                for (const chapter of await listChaptersInOrder(projectRoot)) {
+                    let text = '';
+                    try {
+                        text = (await readChapter(projectRoot, chapter.file)).text;
+                    } catch { continue; }
+                    if (!matchers.some(re => re.test(text))) continue;
+                    matches.push({ ...chapter, excerpts: snippetsFor(text, matchers) });
+                }
+                return { matches };
+            },
+        }),
+        searchManuscript: tool({
+            description: 'Find the chapter passages and worldbuilding entries most related to a topic, question or description, even when they use different words (e.g. "the night Mara learns the truth about her father"). Use this for questions spanning the whole novel; use searchChapters for exact names or phrases. Results are ranked by similarity, best first.',
+            inputSchema: z.object({
+                query: z.string().describe('What to look for, in natural language'),
+                scope: z.enum(['all', 'chapters', 'worldbuilding']).optional().describe('Restrict results to chapter passages or to characters/places/objects/organisations'),
+                limit: z.number().int().min(1).max(20).optional(),
+            }),
+            execute: async ({ query, scope, limit }) => {
+                notify(`Searching the manuscript for "${query}"...`);
+                const hits = await searchRetrievalIndex(projectRoot, query, {
+                    limit: limit ?? 8,
+                    kinds: scope === 'chapters' ? ['Chapter'] : scope === 'worldbuilding' ? ['Character', 'Place', 'Object', 'Organisation'] : undefined,
+                });
+                const chapters = await listChaptersInOrder(projectRoot);
+                return {
+                    results: hits.map(hit => ({
+                        kind: hit.kind,
+                        title: hit.title,
+                        ...(hit.kind === 'Chapter'
+                            ? { position: chapters.find(c => `Chapters/${c.file}` === hit.source)?.position, paragraph: hit.paragraph }
+                            : {}),
+                        text: hit.text,
+                        score: Math.round(hit.score * 1000) / 1000,
+                    })),
+                };
+            },
+        }),
+        getPlotAndSubplots: tool({
+            description: 'Read the project\'s title, author, overall plot and the list of subplots (with their characters)',
+            inputSchema: z.object({}),
+            execute: async () => {
+                notify('Reading plot and subplots...');
+                const config = await readProjectConfig(projectRoot);
+                const { title, subtitle, author, plot, subplots } = config.settings || {};
+                return {
+                    title: title || config.name || '',
+                    subtitle: subtitle || '',
+                    author: author || '',
+                    plot: plot || '',
+                    subplots: Array.isArray(subplots) ? subplots : [],
+                };
+            },
+        }),
+        ...createProposalTools(projectRoot, notify, propose),
+    };
+}
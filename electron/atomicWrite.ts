@@ -0,0 +1,119 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { randomBytes } from 'node:crypto'
+
+// --- Atomic Writes ---
+// Project files are never written in place. The new content goes to a
+// temporary file next to the target, is flushed to disk, and then renamed
+// over the target, so a crash or power loss leaves either the old file or
+// the new one, never a truncated mix. Writes to the same file are queued and
+// run one at a time in the order they were requested, so the last save wins.
+
+const fileQueues = new Map<string, Promise<unknown>>();
+
+// Modification time and size of each file as Auctor last wrote it, so the
+// project watcher can tell its own writes from changes made by other programs
+const ownWrites = new Map<string, string>();
+
+const stampOf = (stats: { mtimeMs: number; size: number }) => `${stats.mtimeMs}:${stats.size}`;
+
+/** Notes the file as it is now as Auctor's own; for changes made without writeFileAtomic, such as a rename. */
+export async function recordOwnWrite(filePath: string) {
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (stats) ownWrites.set(path.resolve(filePath), stampOf(stats));
+}
+
+/** Whether the file, as `stats` describes it, is exactly what Auctor last wrote there. */
+export function isOwnWrite(filePath: string, stats: { mtimeMs: number; size: number }): boolean {
+    return ownWrites.get(path.resolve(filePath)) === stampOf(stats);
+}
+
+/** Runs `task` once every earlier task queued for the same file has finished. */
+export function queueFileTask<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+    const key = path.resolve(filePath);
+    const previous = fileQueues.get(key) ?? Promise.resolve();
+    const result = previous.then(task, task);
+    const settled = result.then(() => {}, () => {});
+    fileQueues.set(key, settled);
+    settled.then(() => {
+        if (fileQueues.get(key) === settled) fileQueues.delete(key);
+    });
+    return result;
+}
+
+/** Temporary files start with a dot so file lists skip them. */
+export function isTemporaryFile(name: string): boolean {
+    return name.startsWith('.') && name.endsWith('.tmp');
+}
+
+// Windows refuses to replace a file another process (an indexer or virus
+// scanner, say) briefly holds open; those errors clear up on a retry
+const RENAME_RETRIES = 5;
+const RETRYABLE_RENAME_ERRORS = new Set(['EPERM', 'EACCES', 'EBUSY']);
+
+async function renameWithRetry(from: string, to: string) {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await fs.rename(from, to);
+            return;
+        } catch (error) {
+            const code = (error as NodeJS.ErrnoException).code;
+            if (attempt >= RENAME_RETRIES || !code || !RETRYABLE_RENAME_ERRORS.has(code)) throw error;
+            await new Promise(resolve => setTimeout(resolve, 50 * attempt));
+        }
+    }
+}
+
+/** Flushes the directory entry so the rename itself survives a crash; not possible on Windows. */
+async function syncDirectory(dir: string) {
+    let handle: fs.FileHandle | undefined;
+    try {
+        handle = await fs.open(dir, 'r');
+        await handle.sync();
+    } catch {
+        // Directories cannot be opened or synced on every platform
+    } finally {
+        await handle?.close().catch(() => {});
+    }
+}
+
+/**
+ * Replaces `filePath` with `data` via a flushed temporary file. Not queued:
+ * call it from inside queueFileTask, or use writeFileAtomic.
+ */
+export async function replaceFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+    const dir = path.dirname(filePath);
+    const temp = path.join(dir, `.${path.basename(filePath)}.${randomBytes(6).toString('hex')}.tmp`);
+    await fs.mkdir(dir, { recursive: true });
+    try {
+        const handle = await fs.open(temp, 'wx');
+        try {
+            await handle.writeFile(data, typeof data === 'string' ? 'utf-8' : undefined);
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+        await renameWithRetry(temp, filePath);
+    } catch (error) {
+        await fs.rm(temp, { force: true }).catch(() => {});
+        throw error;
+    }
+    await recordOwnWrite(filePath);
+    await syncDirectory(dir);
+}
+
+/**
+ * Queues an atomic write of `filePath`. With `exclusive`, fails with an
+ * EEXIST error instead of replacing a file that already exists.
+ */
+export function writeFileAtomic(filePath: string, data: string | Uint8Array, options: { exclusive?: boolean } = {}): Promise<void> {
+    return queueFileTask(filePath, async () => {
+        if (options.exclusive) {
+            const exists = await fs.access(filePath).then(() => true, () => false);
+            if (exists) {
+                throw Object.assign(new Error(`EEXIST: file already exists, '${filePath}'`), { code: 'EEXIST' });
+            }
+        }
+        await replaceFileAtomic(filePath, data);
+    });
+}
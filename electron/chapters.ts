@@ -0,0 +1,91 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { extractChapterPlainText } from '../src/utils/chapterText';
+import { AuctorConfig, readProjectConfig } from './projectConfig';
+
+// --- Chapter Reading ---
+// Read-only access to the manuscript for main-process features (assistant
+// tools, context building). Order follows auctor.json `chapterOrder`, with
+// chapters missing from it appended alphabetically, as in get-chapter-order.
+
+export type ParsedChapter = {
+    /** Editor HTML inside <text>, or the whole file for unstructured chapters. */
+    html: string;
+    text: string;
+    settings: { summary?: string; ageOffset?: string; style?: string; subplots?: string[]; [key: string]: any };
+    critique: string;
+};
+
+export type ChapterInfo = {
+    /** File name as stored in chapterOrder, e.g. "Chapter 1.md". */
+    file: string;
+    /** Display title (file name without extension). */
+    title: string;
+    /** 1-based position in reading order. */
+    position: number;
+};
+
+export function parseChapterFile(raw: string): ParsedChapter {
+    const textMatch = raw.match(/<text>([\s\S]*?)<\/text>/i);
+    const settingsMatch = raw.match(/<settings>([\s\S]*?)<\/settings>/i);
+    const critiqueMatch = raw.match(/<critique>([\s\S]*?)<\/critique>/i);
+
+    let settings: ParsedChapter['settings'] = {};
+    if (settingsMatch) {
+        try { settings = JSON.parse(settingsMatch[1].trim()) || {}; } catch {}
+    }
+
+    return {
+        html: textMatch ? textMatch[1].trim() : raw,
+        text: extractChapterPlainText(raw).replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim(),
+        settings,
+        critique: critiqueMatch ? critiqueMatch[1].trim() : '',
+    };
+}
+
+/** The order comes from `config`, or from auctor.json when it is not given. */
+export async function listChaptersInOrder(projectRoot: string, config?: AuctorConfig): Promise<ChapterInfo[]> {
+    const chaptersDir = path.join(projectRoot, 'Chapters');
+    let files: string[] = [];
+    try {
+        files = (await fs.readdir(chaptersDir)).filter(f => !f.startsWith('.'));
+    } catch {
+        return [];
+    }
+
+    const { settings } = config ?? await readProjectConfig(projectRoot);
+    const savedOrder: string[] = Array.isArray(settings?.chapterOrder) ? settings.chapterOrder : [];
+
+    const fileSet = new Set(files);
+    const ordered = savedOrder.filter(name => fileSet.has(name));
+    const unordered = files.filter(name => !ordered.includes(name)).sort((a, b) => a.localeCompare(b));
+
+    return [...ordered, ...unordered].map((file, idx) => ({
+        file,
+        title: file.replace(/\.[^.]+$/, ''),
+        position: idx + 1,
+    }));
+}
+
+export async function readChapter(projectRoot: string, file: string): Promise<ParsedChapter> {
+    // Chapter names come from the model; never let them escape the folder
+    const safeName = path.basename(file);
+    const raw = await fs.readFile(path.join(projectRoot, 'Chapters', safeName), 'utf-8');
+    return parseChapterFile(raw);
+}
+
+/**
+ * Resolves a loose chapter reference (file name, title, or 1-based position)
+ * the way an author or the model might phrase it.
+ */
+export function findChapter(chapters: ChapterInfo[], reference: string | number): ChapterInfo | undefined {
+    const ref = String(reference).trim();
+    if (/^\d+$/.test(ref)) {
+        const byPosition = chapters.find(c => c.position === Number(ref));
+        if (byPosition) return byPosition;
+    }
+    const lower = ref.toLowerCase();
+    return chapters.find(c => c.file.toLowerCase() === lower)
+        || chapters.find(c => c.title.toLowerCase() === lower)
+        || chapters.find(c => c.title.toLowerCase().includes(lower));
+}
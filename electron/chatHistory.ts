@@ -0,0 +1,152 @@
+import { generateText, LanguageModel, LanguageModelUsage, ModelMessage } from 'ai';
+
+// --- Chat History ---
+// The assistant chat sends its whole conversation on every turn. Long
+// conversations are trimmed to a token budget from the oldest end; trimmed
+// turns are folded into a running summary that rides along in the system prompt.
+
+export const CHAT_HISTORY_TOKEN_BUDGET = 12000;
+// Caps how much of any single message is shown to the summariser
+const SUMMARY_MESSAGE_CHAR_LIMIT = 4000;
+const SUMMARY_CACHE_LIMIT = 20;
+
+/**
+ * Rough token count (~4 characters per token unless the provider says
+ * otherwise, see AIProviderDefinition.charsPerToken); good enough for budgeting.
+ */
+export function estimateTokens(text: string, charsPerToken = 4): number {
+    return Math.ceil(text.length / charsPerToken);
+}
+
+function messageText(message: ModelMessage): string {
+    return typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+}
+
+export function estimateMessageTokens(message: ModelMessage): number {
+    // Small per-message overhead for role/formatting
+    return estimateTokens(messageText(message)) + 4;
+}
+
+/**
+ * Splits a conversation into turns, each starting at a user message, so
+ * trimming never separates a tool result from the assistant call that made it.
+ */
+function groupTurns(messages: ModelMessage[]): ModelMessage[][] {
+    const turns: ModelMessage[][] = [];
+    for (const message of messages) {
+        if (message.role === 'user' || turns.length === 0) {
+            turns.push([message]);
+        } else {
+            turns[turns.length - 1].push(message);
+        }
+    }
+    return turns;
+}
+
+/**
+ * Keeps only text, tool-call and tool-result parts and drops provider-specific
+ * metadata, so a saved history can be replayed against a different provider.
+ */
+export function sanitizeResponseMessages(messages: ModelMessage[]): ModelMessage[] {
+    const result: ModelMessage[] = [];
+    for (const message of messages) {
+        if (message.role !== 'assistant' && message.role !== 'tool') continue;
+        if (typeof message.content === 'string') {
+            result.push({ role: message.role, content: message.content } as ModelMessage);
+            continue;
+        }
+        const parts = (message.content as any[])
+            .filter(part => part.type === 'text' || part.type === 'tool-call' || part.type === 'tool-result')
+            .map(({ providerOptions: _providerOptions, ...part }) => part);
+        if (parts.length > 0) result.push({ role: message.role, content: parts } as ModelMessage);
+    }
+    return result;
+}
+
+function transcriptFor(turns: ModelMessage[][]): string {
+    return turns.flat().map(message => {
+        const text = messageText(message);
+        const clipped = text.length > SUMMARY_MESSAGE_CHAR_LIMIT ? `${text.slice(0, SUMMARY_MESSAGE_CHAR_LIMIT)}…` : text;
+        return `${message.role.toUpperCase()}: ${clipped}`;
+    }).join('\n\n');
+}
+
+const summaryCache = new Map<string, { turnCount: number; summary: string }>();
+
+function rememberSummary(conversationId: string, entry: { turnCount: number; summary: string }) {
+    summaryCache.delete(conversationId);
+    summaryCache.set(conversationId, entry);
+    while (summaryCache.size > SUMMARY_CACHE_LIMIT) {
+        summaryCache.delete(summaryCache.keys().next().value as string);
+    }
+}
+
+export type PreparedChat = {
+    messages: ModelMessage[];
+    /** Summary of the trimmed turns, or null when everything fit. */
+    summary: string | null;
+    trimmedTurns: number;
+};
+
+/**
+ * Fits a conversation into the token budget. The newest turn is always kept.
+ * When turns have to go, they are summarised (incrementally, reusing the
+ * cached summary for this conversation); if summarising fails they are dropped.
+ */
+export async function prepareChatMessages(options: {
+    conversationId?: string;
+    messages: ModelMessage[];
+    model: LanguageModel;
+    abortSignal?: AbortSignal;
+    budget?: number;
+    onSummarising?: () => void;
+    /** Token usage of the summarising call, for the usage ledger. */
+    onUsage?: (usage: LanguageModelUsage) => void;
+}): Promise<PreparedChat> {
+    const { conversationId, messages, model, abortSignal, onSummarising, onUsage } = options;
+    const budget = options.budget ?? CHAT_HISTORY_TOKEN_BUDGET;
+    const turns = groupTurns(messages);
+
+    let keepFrom = turns.length;
+    let used = 0;
+    while (keepFrom > 0) {
+        const cost = turns[keepFrom - 1].reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+        if (keepFrom < turns.length && used + cost > budget) break;
+        used += cost;
+        keepFrom--;
+    }
+
+    const kept = turns.slice(keepFrom).flat();
+    if (keepFrom === 0) {
+        return { messages: kept, summary: null, trimmedTurns: 0 };
+    }
+
+    const trimmed = turns.slice(0, keepFrom);
+    const cached = conversationId ? summaryCache.get(conversationId) : undefined;
+    if (cached && cached.turnCount === trimmed.length) {
+        return { messages: kept, summary: cached.summary, trimmedTurns: trimmed.length };
+    }
+
+    // Extend the previous summary when only newly-trimmed turns need folding in
+    const canExtend = !!cached && cached.turnCount < trimmed.length;
+    const newTurns = canExtend ? trimmed.slice(cached!.turnCount) : trimmed;
+
+    onSummarising?.();
+    try {
+        const { text, totalUsage } = await generateText({
+            model,
+            abortSignal,
+            prompt: `Summarise the following conversation between a novelist and their writing assistant so the assistant can continue it without the original messages. Keep decisions, requests, named characters/places, and any text the assistant produced that the author may refer back to. Be concise (at most 250 words).
+${canExtend ? `\nSummary of the conversation so far:\n${cached!.summary}\n\nConversation continues:\n` : '\nConversation:\n'}
+${transcriptFor(newTurns)}`,
+        });
+        onUsage?.(totalUsage);
+        const summary = text.trim();
+        if (conversationId) rememberSummary(conversationId, { turnCount: trimmed.length, summary });
+        return { messages: kept, summary, trimmedTurns: trimmed.length };
+    } catch (error) {
+        if (abortSignal?.aborted) throw error;
+        console.error('Error summarising chat history:', error);
+        return { messages: kept, summary: cached?.summary ?? null, trimmedTurns: trimmed.length };
+    }
+}
@@ -0,0 +1,148 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { writeFileAtomic } from './atomicWrite'
+
+// --- Chat Sessions ---
+// AI Assistant conversations are stored per project as one JSON file each in
+// .auctor/chats/. A session may be pinned to a chapter (by chapter file name,
+// as in chapterOrder) so it reopens when that chapter is opened.
+
+export type ChatDisplayMessage = { role: 'user' | 'ai' | 'tool'; content: string };
+
+export type ChatSession = {
+    id: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    pinnedChapter: string | null;
+    /** Bubbles as rendered in the panel. */
+    messages: ChatDisplayMessage[];
+    /** Model messages (including tool calls/results) replayed on the next turn. */
+    history: any[];
+};
+
+export type ChatSessionSummary = Omit<ChatSession, 'messages' | 'history'> & {
+    messageCount: number;
+    preview: string;
+};
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function chatsDir(projectRoot: string) {
+    return path.join(projectRoot, '.auctor', 'chats');
+}
+
+function sessionPath(projectRoot: string, id: string) {
+    if (!SESSION_ID_PATTERN.test(id)) throw new Error(`Invalid chat session id: ${id}`);
+    return path.join(chatsDir(projectRoot), `${id}.json`);
+}
+
+async function readAllSessions(projectRoot: string): Promise<ChatSession[]> {
+    let files: string[] = [];
+    try {
+        files = await fs.readdir(chatsDir(projectRoot));
+    } catch {
+        return [];
+    }
+
+    const sessions: ChatSession[] = [];
+    for (const file of files) {
+        if (!file.endsWith('.json')) continue;
+        try {
+            const raw = await fs.readFile(path.join(chatsDir(projectRoot), file), 'utf-8');
+            sessions.push(normalizeSession(JSON.parse(raw), path.basename(file, '.json')));
+        } catch (error) {
+            console.error('Error reading chat session:', file, error);
+        }
+    }
+    return sessions;
+}
+
+function normalizeSession(data: any, fallbackId: string): ChatSession {
+    return {
+        id: typeof data?.id === 'string' ? data.id : fallbackId,
+        title: typeof data?.title === 'string' ? data.title : 'Untitled conversation',
+        createdAt: data?.createdAt || new Date(0).toISOString(),
+        updatedAt: data?.updatedAt || data?.createdAt || new Date(0).toISOString(),
+        pinnedChapter: typeof data?.pinnedChapter === 'string' ? data.pinnedChapter : null,
+        messages: Array.isArray(data?.messages) ? data.messages : [],
+        history: Array.isArray(data?.history) ? data.history : [],
+    };
+}
+
+function summarize(session: ChatSession): ChatSessionSummary {
+    const { messages, history: _history, ...rest } = session;
+    const lastText = [...messages].reverse().find(m => m.role !== 'tool')?.content || '';
+    return { ...rest, messageCount: messages.filter(m => m.role !== 'tool').length, preview: lastText.slice(0, 120) };
+}
+
+/** Newest first. `query` matches the title or any message text, case-insensitively. */
+export async function listChatSessions(projectRoot: string, query?: string): Promise<ChatSessionSummary[]> {
+    const needle = (query || '').trim().toLowerCase();
+    const sessions = (await readAllSessions(projectRoot)).filter(session => {
+        if (!needle) return true;
+        if (session.title.toLowerCase().includes(needle)) return true;
+        return session.messages.some(m => m.content.toLowerCase().includes(needle));
+    });
+    return sessions
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(summarize);
+}
+
+export async function readChatSession(projectRoot: string, id: string): Promise<ChatSession> {
+    const raw = await fs.readFile(sessionPath(projectRoot, id), 'utf-8');
+    return normalizeSession(JSON.parse(raw), id);
+}
+
+async function writeChatSession(projectRoot: string, session: ChatSession) {
+    await writeFileAtomic(sessionPath(projectRoot, session.id), JSON.stringify(session, null, 2));
+}
+
+/** Creates or replaces a session; the pin is owned by pinChatSession and kept as stored. */
+export async function saveChatSession(projectRoot: string, session: Omit<ChatSession, 'updatedAt' | 'pinnedChapter'>): Promise<ChatSession> {
+    let pinnedChapter: string | null = null;
+    try {
+        pinnedChapter = (await readChatSession(projectRoot, session.id)).pinnedChapter;
+    } catch {}
+
+    const saved = normalizeSession({ ...session, pinnedChapter, updatedAt: new Date().toISOString() }, session.id);
+    await writeChatSession(projectRoot, saved);
+    return saved;
+}
+
+export async function renameChatSession(projectRoot: string, id: string, title: string): Promise<void> {
+    const session = await readChatSession(projectRoot, id);
+    session.title = title.trim() || session.title;
+    await writeChatSession(projectRoot, session);
+}
+
+export async function deleteChatSession(projectRoot: string, id: string): Promise<void> {
+    await fs.unlink(sessionPath(projectRoot, id));
+}
+
+/** Pins a session to a chapter (or unpins with null). A chapter has at most one pinned session. */
+export async function pinChatSession(projectRoot: string, id: string, chapter: string | null): Promise<void> {
+    if (chapter) {
+        for (const other of await readAllSessions(projectRoot)) {
+            if (other.id !== id && other.pinnedChapter === chapter) {
+                await writeChatSession(projectRoot, { ...other, pinnedChapter: null });
+            }
+        }
+    }
+    const session = await readChatSession(projectRoot, id);
+    await writeChatSession(projectRoot, { ...session, pinnedChapter: chapter });
+}
+
+export async function findPinnedChatSession(projectRoot: string, chapter: string): Promise<string | null> {
+    const sessions = await readAllSessions(projectRoot);
+    return sessions.find(s => s.pinnedChapter === chapter)?.id ?? null;
+}
+
+/** Keeps pins pointing at the right chapter after a rename (newName) or delete (null). */
+export async function repinChatSessions(projectRoot: string, oldChapter: string, newChapter: string | null): Promise<void> {
+    for (const session of await readAllSessions(projectRoot)) {
+        if (session.pinnedChapter === oldChapter) {
+            await writeChatSession(projectRoot, { ...session, pinnedChapter: newChapter });
+        }
+    }
+}
@@ -0,0 +1,303 @@
+import { buildTermMatchers, splitAliases } from '../src/utils/chapterText';
+import { parseChapterFile } from './chapters';
+import { estimateTokens } from './chatHistory';
+import { getAIProvider } from './aiProviders';
+import { readProjectConfig } from './projectConfig';
+import { EntityKind, formatEntity, listEntityFiles } from './entities';
+import { RetrievalHit, searchRetrievalIndex } from './retrievalIndex';
+
+// --- AI Context Builder ---
+// One place that decides what project context goes into a prompt (rewrite,
+// refine, critique). Entities are ranked by relevance to the chapter and
+// selection, then packed into the project's token budget; everything that
+// didn't fit is listed in the report so the UI can say what was left out.
+// Rewrites also get passages from other chapters that the retrieval index
+// (retrievalIndex.ts) finds closest to the selection.
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 16000;
+const MIN_CONTEXT_TOKEN_BUDGET = 2000;
+// Share of the budget left after the required sections that the chapter reference may always claim
+const CHAPTER_MIN_SHARE = 0.5;
+const RELATED_PASSAGE_LIMIT = 6;
+
+export type ContextTask = 'rewrite' | 'refine' | 'critique';
+
+export type ChapterContextSettings = {
+    summary?: string;
+    ageOffset?: string;
+    style?: string;
+    /** Point-of-view character name. */
+    pov?: string;
+    /** Subplot ids active in this chapter. */
+    subplots?: string[];
+};
+
+export type ContextRequest = {
+    task: ContextTask;
+    /** The chapter as currently edited: a full chapter file (<text>/<settings>) or just its text. */
+    chapter: string;
+    /** The chapter's file name, so related passages come from other chapters. */
+    chapterFile?: string;
+    /** Overrides the settings parsed from `chapter`, e.g. unsaved edits in the settings tab. */
+    chapterSettings?: ChapterContextSettings;
+    selection?: string;
+    providerOverride?: string;
+};
+
+export type ContextReportItem = {
+    kind: 'Overview' | 'Chapter notes' | 'Subplots' | 'Chapter' | 'Passage' | 'Character' | 'Place' | 'Object' | 'Organisation';
+    name: string;
+    tokens: number;
+    reason: string;
+};
+
+export type ContextReport = {
+    provider: string;
+    budget: number;
+    usedTokens: number;
+    included: ContextReportItem[];
+    dropped: ContextReportItem[];
+    /** True when only a window of the chapter around the selection was included. */
+    chapterTruncated: boolean;
+};
+
+export type BuiltContext = {
+    projectOverview: string;
+    chapterNotes: string;
+    subplots: string;
+    entities: string;
+    /** Passages from other chapters related to the selection (rewrite/refine only). */
+    relatedPassages: string;
+    /** Plain text for rewrite/refine; the chapter HTML for critique (paragraph ratings count <p>s). */
+    chapterText: string;
+    report: ContextReport;
+};
+
+type EntityCandidate = {
+    kind: EntityKind;
+    name: string;
+    terms: string[];
+    data: any;
+    text: string;
+    tokens: number;
+    score: number;
+    reasons: string[];
+};
+
+const normalizeName = (s: string) => s.trim().toLowerCase();
+
+async function loadEntities(projectRoot: string, charsPerToken: number): Promise<EntityCandidate[]> {
+    return (await listEntityFiles(projectRoot)).map(({ kind, name, data }) => {
+        const text = formatEntity(kind, name, data);
+        return {
+            kind, name, data, text,
+            terms: [name, ...splitAliases(data.aka)],
+            tokens: estimateTokens(text, charsPerToken),
+            score: 0,
+            reasons: [],
+        };
+    });
+}
+
+function countMatches(text: string, matchers: RegExp[]): number {
+    let count = 0;
+    for (const matcher of matchers) {
+        count += (text.match(new RegExp(matcher.source, `${matcher.flags}g`)) || []).length;
+    }
+    return count;
+}
+
+/** Scores entities by how much the task at hand is about them; higher is more relevant. */
+function rankEntities(entities: EntityCandidate[], chapterText: string, selection: string, pov: string, activeSubplots: any[]) {
+    const povName = normalizeName(pov);
+    for (const entity of entities) {
+        const matchers = buildTermMatchers(entity.terms);
+        const isPov = !!povName && entity.kind === 'Character' && entity.terms.some(t => normalizeName(t) === povName);
+        if (isPov) {
+            entity.score += 1000;
+            entity.reasons.push('point of view');
+        }
+        if (selection && matchers.some(re => re.test(selection))) {
+            entity.score += 500;
+            entity.reasons.push('mentioned in selection');
+        }
+        const mentions = countMatches(chapterText, matchers);
+        if (mentions > 0) {
+            entity.score += 100 + Math.min(mentions, 20) * 10;
+            entity.reasons.push(`mentioned ${mentions}× in chapter`);
+        }
+        if (entity.kind === 'Character') {
+            const subplot = activeSubplots.find(sp => Array.isArray(sp.characters)
+                && sp.characters.some((c: string) => entity.terms.some(t => normalizeName(t) === normalizeName(c))));
+            if (subplot) {
+                entity.score += 150;
+                entity.reasons.push(`in subplot "${subplot.title || 'Untitled'}"`);
+            }
+        }
+    }
+
+    // Second pass: pull in what the relevant entities point at
+    const relevant = entities.filter(e => e.score > 0);
+    const relevantNames = new Set(relevant.flatMap(e => e.terms.map(normalizeName)));
+    for (const entity of entities) {
+        if (entity.score > 0) continue;
+        if (entity.kind === 'Organisation' && Array.isArray(entity.data.members)
+            && entity.data.members.some((m: any) => relevantNames.has(normalizeName(String(m?.name ?? ''))))) {
+            entity.score += 20;
+            entity.reasons.push('has a member in this chapter');
+        } else if (entity.kind === 'Character' && relevant.some(e => e.kind === 'Character' && Array.isArray(e.data.relationships)
+            && e.data.relationships.some((r: any) => entity.terms.some(t => normalizeName(t) === normalizeName(String(r?.target ?? '')))))) {
+            entity.score += 20;
+            entity.reasons.push('related to a character in this chapter');
+        }
+    }
+
+    return [...entities].sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
+
+/** Cuts `text` to roughly `maxChars`, centred on the selection when it can be found. */
+function windowAroundSelection(text: string, selection: string, maxChars: number): string {
+    if (text.length <= maxChars) return text;
+    if (maxChars <= 0) return '';
+    const probe = selection.trim().slice(0, 200);
+    const at = probe ? text.indexOf(probe) : -1;
+    const centre = at === -1 ? 0 : at + Math.min(selection.length, maxChars) / 2;
+    const start = Math.max(0, Math.min(text.length - maxChars, Math.round(centre - maxChars / 2)));
+    const end = start + maxChars;
+    return `${start > 0 ? '[…]\n' : ''}${text.slice(start, end)}${end < text.length ? '\n[…]' : ''}`;
+}
+
+export async function buildAIContext(projectRoot: string, request: ContextRequest): Promise<BuiltContext> {
+    const settings: Record<string, any> = (await readProjectConfig(projectRoot)).settings || {};
+
+    const provider = getAIProvider(request.providerOverride || settings.aiProvider);
+    const tokens = (text: string) => estimateTokens(text, provider.charsPerToken);
+    const budget = Math.max(MIN_CONTEXT_TOKEN_BUDGET, Number(settings.contextTokenBudget) || DEFAULT_CONTEXT_TOKEN_BUDGET);
+
+    const parsed = parseChapterFile(request.chapter || '');
+    const chapterSettings: ChapterContextSettings = { ...parsed.settings, ...request.chapterSettings };
+    const selection = request.selection || '';
+    const included: ContextReportItem[] = [];
+    const dropped: ContextReportItem[] = [];
+
+    // Required sections: always sent, whatever the budget says
+    let projectOverview = '';
+    if (settings.title) projectOverview += `Novel: ${settings.title}`;
+    if (settings.author) projectOverview += ` by ${settings.author}`;
+    if (projectOverview) projectOverview += '\n';
+    if (settings.plot) projectOverview += `Overall Plot: ${settings.plot}\n`;
+
+    let chapterNotes = '';
+    if (chapterSettings.summary?.trim()) chapterNotes += `Chapter Summary: ${chapterSettings.summary.trim()}\n`;
+    if (chapterSettings.pov?.trim()) chapterNotes += `Point of View: ${chapterSettings.pov.trim()}\n`;
+    if (chapterSettings.ageOffset?.trim() && chapterSettings.ageOffset !== '0') {
+        chapterNotes += `Age Offset: ${chapterSettings.ageOffset} years (characters are shifted by this amount from their base ages)\n`;
+    }
+    if (chapterSettings.style?.trim()) chapterNotes += `Writing Style Notes: ${chapterSettings.style.trim()}\n`;
+
+    const allSubplots: any[] = Array.isArray(settings.subplots) ? settings.subplots : [];
+    const activeSubplots = Array.isArray(chapterSettings.subplots)
+        ? allSubplots.filter(sp => chapterSettings.subplots!.includes(sp.id))
+        : [];
+    const subplots = activeSubplots.map(sp => {
+        let entry = sp.title || 'Untitled subplot';
+        if (sp.description) entry += `: ${sp.description}`;
+        if (sp.characters?.length) entry += ` (Characters: ${sp.characters.join(', ')})`;
+        return `- ${entry}`;
+    }).join('\n');
+
+    let used = tokens(selection);
+    for (const [kind, text] of [['Overview', projectOverview], ['Chapter notes', chapterNotes], ['Subplots', subplots]] as const) {
+        if (!text) continue;
+        const t = tokens(text);
+        used += t;
+        included.push({ kind, name: kind, tokens: t, reason: 'always included' });
+    }
+
+    // A critique is of the whole chapter, so it can't be windowed
+    let chapterText = request.task === 'critique' ? parsed.html : parsed.text;
+    let chapterTruncated = false;
+    const candidates = await loadEntities(projectRoot, provider.charsPerToken);
+
+    let related: RetrievalHit[] = [];
+    if (request.task !== 'critique' && selection.trim()) {
+        try {
+            related = await searchRetrievalIndex(projectRoot, selection, {
+                limit: RELATED_PASSAGE_LIMIT * 2,
+                excludeSources: request.chapterFile ? [`Chapters/${request.chapterFile}`] : [],
+            });
+        } catch (error) {
+            // Retrieval is a bonus; a failing embedding backend must not block the rewrite
+            console.warn('Retrieval index unavailable for context:', error);
+        }
+        for (const hit of related.filter(h => h.kind !== 'Chapter' && h.score > 0)) {
+            const entity = candidates.find(c => c.kind === hit.kind && c.name === hit.title);
+            if (entity) {
+                entity.score += 50;
+                entity.reasons.push('similar to the selection');
+            }
+        }
+    }
+    const entities = rankEntities(candidates, parsed.text, selection, chapterSettings.pov || '', activeSubplots);
+
+    if (request.task === 'critique') {
+        used += tokens(chapterText);
+        included.push({ kind: 'Chapter', name: 'Chapter text', tokens: tokens(chapterText), reason: 'being critiqued' });
+    } else if (chapterText) {
+        const remaining = Math.max(0, budget - used);
+        const entityTokens = entities.reduce((sum, e) => sum + e.tokens, 0);
+        const share = Math.max(Math.floor(remaining * CHAPTER_MIN_SHARE), remaining - entityTokens);
+        const fullTokens = tokens(chapterText);
+        if (fullTokens > share) {
+            chapterText = windowAroundSelection(chapterText, selection, Math.floor(share * provider.charsPerToken));
+            chapterTruncated = true;
+        }
+        const t = tokens(chapterText);
+        used += t;
+        included.push({
+            kind: 'Chapter',
+            name: 'Chapter reference',
+            tokens: t,
+            reason: chapterTruncated ? `cut to the passage around the selection (${fullTokens} tokens in full)` : 'fits',
+        });
+    }
+
+    const fits = (item: ContextReportItem) => {
+        if (used + item.tokens > budget) {
+            dropped.push(item);
+            return false;
+        }
+        used += item.tokens;
+        included.push(item);
+        return true;
+    };
+
+    // Relevant entities first, then related passages, then whatever else still fits
+    const entityLines: string[] = [];
+    const addEntities = (list: EntityCandidate[]) => {
+        for (const entity of list) {
+            const item = { kind: entity.kind, name: entity.name, tokens: entity.tokens, reason: entity.reasons.join(', ') || 'not mentioned in this chapter' };
+            if (fits(item)) entityLines.push(entity.text);
+        }
+    };
+    addEntities(entities.filter(e => e.score > 0));
+
+    const passageLines: string[] = [];
+    for (const hit of related.filter(h => h.kind === 'Chapter' && h.score > 0).slice(0, RELATED_PASSAGE_LIMIT)) {
+        const text = `[${hit.title}, from paragraph ${hit.paragraph}]\n${hit.text}`;
+        const item: ContextReportItem = { kind: 'Passage', name: `${hit.title} ¶${hit.paragraph}`, tokens: tokens(text), reason: `similarity ${hit.score.toFixed(2)}` };
+        if (fits(item)) passageLines.push(text);
+    }
+
+    addEntities(entities.filter(e => e.score <= 0));
+
+    return {
+        projectOverview,
+        chapterNotes,
+        subplots,
+        entities: entityLines.join('\n'),
+        relatedPassages: passageLines.join('\n\n'),
+        chapterText,
+        report: { provider: provider.id, budget, usedTokens: used, included, dropped, chapterTruncated },
+    };
+}
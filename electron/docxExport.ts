@@ -0,0 +1,338 @@
+import { createWriteStream } from 'node:fs';
+import archiver from 'archiver';
+import { ExportBlock, ExportManuscript, ExportSection, InlineRun, runsText } from './manuscriptExport';
+import { DocxExportOptions } from '../src/utils/docxExportOptions';
+
+// --- DOCX Export ---
+// Writes the manuscript as a Word document, built directly as WordprocessingML
+// (no Word library). Two profiles:
+// - "smf": Standard Manuscript Format for agents and editors. 12pt Courier New
+//   or Times New Roman, double-spaced, 1" margins on US Letter, every
+//   paragraph indented, a "Surname / TITLE / page" header from page 2, a
+//   title page with the word count, chapters starting a third of the way down
+//   a new page, "#" scene breaks and END after the last chapter.
+// - "clean": a plain book-like document with Word heading styles, 1.15 line
+//   spacing, "* * *" scene breaks and centred page numbers.
+// Italics, bold and strikethrough from the editor are kept in both.
+
+// Word measures in twentieths of a point (twips) and font sizes in half-points
+const INCH = 1440;
+const PAGE = { width: 12240, height: 15840, margin: INCH };
+const TEXT_WIDTH = PAGE.width - 2 * PAGE.margin;
+// Drops chapter titles to about a third of the way down the page
+const CHAPTER_DROP = 2.5 * INCH;
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const wordCountOf = (text: string) => (text.match(/\S+/g) || []).length;
+
+function manuscriptWordCount(manuscript: ExportManuscript): number {
+    let words = 0;
+    for (const chapter of manuscript.chapters) {
+        for (const block of chapter.blocks) {
+            if (block.type === 'code') words += wordCountOf(block.text);
+            else if (block.type !== 'sceneBreak') words += wordCountOf(runsText(block.runs));
+        }
+    }
+    return words;
+}
+
+/** SMF rounds the count: to the nearest 100 for short works, 1,000 for long ones. */
+function roundedWordCount(words: number): string {
+    const step = words < 10000 ? 100 : 1000;
+    return Math.max(step, Math.round(words / step) * step).toLocaleString('en-US');
+}
+
+/** The surname for the running header: the last word of the author's name. */
+function surnameOf(author: string): string {
+    const parts = author.trim().split(/\s+/);
+    return parts[parts.length - 1] || '';
+}
+
+// --- Runs and Paragraphs ---
+
+function textRun(text: string, props = ''): string {
+    const rPr = props ? `<w:rPr>${props}</w:rPr>` : '';
+    return text.split('\n').map((line, i) =>
+        `${i > 0 ? `<w:r>${rPr}<w:br/></w:r>` : ''}${line ? `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>` : ''}`
+    ).join('');
+}
+
+function runsXml(runs: InlineRun[], codeFont: string, extraProps = ''): string {
+    return runs.map(run => {
+        const props = [
+            run.code ? `<w:rFonts w:ascii="${codeFont}" w:hAnsi="${codeFont}" w:cs="${codeFont}"/>` : '',
+            run.bold ? '<w:b/>' : '',
+            run.italic ? '<w:i/>' : '',
+            run.strike ? '<w:strike/>' : '',
+            extraProps,
+        ].join('');
+        return textRun(run.text, props);
+    }).join('');
+}
+
+// Word rejects paragraph properties that are out of schema order
+const PPR_ORDER = ['pStyle', 'keepNext', 'pageBreakBefore', 'tabs', 'spacing', 'ind', 'jc', 'outlineLvl'];
+
+function paragraph(content: string, pPr = ''): string {
+    const props = (pPr.match(/<w:(\w+)(?:[^>]*\/>|[^>]*>[\s\S]*?<\/w:\1>)/g) || [])
+        .sort((a, b) => PPR_ORDER.indexOf(a.slice(3).split(/[\s/>]/)[0]) - PPR_ORDER.indexOf(b.slice(3).split(/[\s/>]/)[0]));
+    return `<w:p>${props.length ? `<w:pPr>${props.join('')}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+type Profile = {
+    options: DocxExportOptions;
+    font: string;
+    /** Paragraph properties for body text. */
+    body: string;
+    sceneBreak: string;
+};
+
+function blocksXml(blocks: ExportBlock[], profile: Profile): string[] {
+    const { options } = profile;
+    const out: string[] = [];
+    // The clean profile, like a printed book, doesn't indent after a heading or break
+    let indentNext = options.profile === 'smf';
+    for (const block of blocks) {
+        switch (block.type) {
+            case 'paragraph':
+                out.push(paragraph(runsXml(block.runs, 'Courier New'), indentNext ? profile.body : `${profile.body}<w:ind w:firstLine="0"/>`));
+                indentNext = true;
+                break;
+            case 'heading':
+                out.push(paragraph(runsXml(block.runs.map(r => ({ ...r, bold: true })), 'Courier New'), '<w:keepNext/><w:ind w:firstLine="0"/>'));
+                indentNext = options.profile === 'smf';
+                break;
+            case 'quote':
+                out.push(paragraph(runsXml(block.runs, 'Courier New'), `${profile.body}<w:ind w:left="720" w:right="720" w:firstLine="0"/>`));
+                indentNext = options.profile === 'smf';
+                break;
+            case 'listItem': {
+                const marker = block.ordered ? `${block.number}.` : '•';
+                const left = 720 * (block.depth + 1);
+                out.push(paragraph(`${textRun(`${marker}\t`)}${runsXml(block.runs, 'Courier New')}`,
+                    `${profile.body}<w:tabs><w:tab w:val="left" w:pos="${left}"/></w:tabs><w:ind w:left="${left}" w:hanging="360"/>`));
+                indentNext = options.profile === 'smf';
+                break;
+            }
+            case 'code':
+                out.push(paragraph(textRun(block.text, '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>'), '<w:ind w:firstLine="0"/>'));
+                indentNext = options.profile === 'smf';
+                break;
+            case 'sceneBreak':
+                out.push(paragraph(textRun(profile.sceneBreak), '<w:jc w:val="center"/><w:ind w:firstLine="0"/>'));
+                indentNext = options.profile === 'smf';
+                break;
+        }
+    }
+    return out;
+}
+
+// --- Document Parts ---
+
+function titlePageXml(manuscript: ExportManuscript, profile: Profile): string[] {
+    if (profile.options.profile === 'smf') {
+        // Name on the left and word count on the right, then the title centred halfway down
+        const words = `about ${roundedWordCount(manuscriptWordCount(manuscript))} words`;
+        const contact = (profile.options.contact || manuscript.author).split('\n').map(line => line.trim()).filter(Boolean);
+        const single = '<w:spacing w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0"/>';
+        const [first = '', ...rest] = contact;
+        return [
+            paragraph(`${textRun(first)}<w:r><w:tab/></w:r>${textRun(words)}`,
+                `<w:tabs><w:tab w:val="right" w:pos="${TEXT_WIDTH}"/></w:tabs>${single}`),
+            ...rest.map(line => paragraph(textRun(line), single)),
+            paragraph(textRun(manuscript.title.toUpperCase()), `<w:pStyle w:val="Title"/><w:spacing w:before="${4 * INCH - rest.length * 240}"/>`),
+            ...(manuscript.subtitle ? [paragraph(textRun(manuscript.subtitle), '<w:jc w:val="center"/><w:ind w:firstLine="0"/>')] : []),
+            ...(manuscript.author ? [paragraph(textRun(`by ${manuscript.author}`), '<w:jc w:val="center"/><w:ind w:firstLine="0"/>')] : []),
+        ];
+    }
+    return [
+        paragraph(textRun(manuscript.title), `<w:pStyle w:val="Title"/><w:spacing w:before="${3 * INCH}"/>`),
+        ...(manuscript.subtitle ? [paragraph(textRun(manuscript.subtitle), '<w:pStyle w:val="Subtitle"/>')] : []),
+        ...(manuscript.author ? [paragraph(textRun(manuscript.author), `<w:jc w:val="center"/><w:spacing w:before="${INCH}"/><w:ind w:firstLine="0"/>`)] : []),
+    ];
+}
+
+/** A copyright or dedication page: centred on a page of its own, without a heading. */
+function setApartPageXml(section: ExportSection): string[] {
+    const copyright = section.kind === 'copyright';
+    return section.blocks.map((block, i) => {
+        const runs = 'runs' in block ? block.runs : [];
+        const pPr = [
+            i === 0 ? `<w:pageBreakBefore/><w:spacing w:before="${3 * INCH}" w:after="240" w:line="240" w:lineRule="auto"/>` : '<w:spacing w:after="240" w:line="240" w:lineRule="auto"/>',
+            '<w:jc w:val="center"/><w:ind w:firstLine="0"/>',
+        ].join('');
+        const styled = copyright ? runs : runs.map(r => ({ ...r, italic: !r.italic }));
+        return paragraph(runsXml(styled, 'Courier New', copyright ? '<w:sz w:val="20"/>' : ''), pPr);
+    });
+}
+
+function documentXml(manuscript: ExportManuscript, profile: Profile): string {
+    const body: string[] = titlePageXml(manuscript, profile);
+    const drop = profile.options.profile === 'smf' ? `<w:spacing w:before="${CHAPTER_DROP}"/>` : '';
+    const chapterXml = (chapter: { title: string; blocks: ExportBlock[] }) => [
+        paragraph(textRun(chapter.title), `<w:pStyle w:val="Heading1"/><w:pageBreakBefore/>${drop}`),
+        ...blocksXml(chapter.blocks, profile),
+    ];
+    for (const section of manuscript.frontMatter) {
+        body.push(...(section.kind === 'section' ? chapterXml(section) : setApartPageXml(section)));
+    }
+    for (const chapter of manuscript.chapters) body.push(...chapterXml(chapter));
+    for (const section of manuscript.backMatter) {
+        body.push(...(section.kind === 'section' ? chapterXml(section) : setApartPageXml(section)));
+    }
+    if (profile.options.profile === 'smf') {
+        body.push(paragraph(textRun('END'), '<w:jc w:val="center"/><w:ind w:firstLine="0"/>'));
+    }
+
+    // The title page has its own (empty) header and footer
+    const sectPr = `<w:sectPr>
+<w:headerReference w:type="default" r:id="rIdHeader"/>
+<w:headerReference w:type="first" r:id="rIdHeaderFirst"/>
+<w:footerReference w:type="default" r:id="rIdFooter"/>
+<w:footerReference w:type="first" r:id="rIdFooterFirst"/>
+<w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/>
+<w:pgMar w:top="${PAGE.margin}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin}" w:left="${PAGE.margin}" w:header="720" w:footer="720" w:gutter="0"/>
+<w:pgNumType w:start="${profile.options.profile === 'smf' ? 1 : 0}"/>
+<w:titlePg/>
+</w:sectPr>`;
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<w:body>
+${body.join('\n')}
+${sectPr}
+</w:body>
+</w:document>
+`;
+}
+
+const PAGE_FIELD = '<w:fldSimple w:instr="PAGE"><w:r><w:t>1</w:t></w:r></w:fldSimple>';
+
+function headerXml(manuscript: ExportManuscript, profile: Profile): string {
+    const content = profile.options.profile === 'smf'
+        ? paragraph(`${textRun(`${[surnameOf(manuscript.author), manuscript.title.toUpperCase()].filter(Boolean).join(' / ')} / `)}${PAGE_FIELD}`, '<w:jc w:val="right"/>')
+        : paragraph('');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">${content}</w:hdr>
+`;
+}
+
+function footerXml(profile: Profile | null): string {
+    const content = profile?.options.profile === 'clean' ? paragraph(PAGE_FIELD, '<w:jc w:val="center"/>') : paragraph('');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:ftr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">${content}</w:ftr>
+`;
+}
+
+function emptyHeaderXml(): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">${paragraph('')}</w:hdr>
+`;
+}
+
+function stylesXml(manuscript: ExportManuscript, profile: Profile): string {
+    const smf = profile.options.profile === 'smf';
+    const font = profile.font;
+    const fonts = `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/>`;
+    // Chapter titles stay in the body font in SMF, but are still outline level 1 for Word's navigation pane
+    const heading1 = smf
+        ? '<w:pPr><w:keepNext/><w:ind w:firstLine="0"/><w:jc w:val="center"/><w:outlineLvl w:val="0"/></w:pPr>'
+        : `<w:pPr><w:keepNext/><w:spacing w:before="${2 * INCH}" w:after="480"/><w:ind w:firstLine="0"/><w:jc w:val="center"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:sz w:val="36"/></w:rPr>`;
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults>
+<w:rPrDefault><w:rPr>${fonts}<w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="${escapeXml(manuscript.language)}"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:before="0" w:after="0" w:line="${smf ? 480 : 276}" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:firstLine="${smf ? 720 : 432}"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>${heading1}</w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:firstLine="0"/><w:jc w:val="center"/></w:pPr>${smf ? '' : '<w:rPr><w:sz w:val="56"/></w:rPr>'}</w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:before="240"/><w:ind w:firstLine="0"/><w:jc w:val="center"/></w:pPr><w:rPr><w:i/><w:sz w:val="32"/></w:rPr></w:style>
+</w:styles>
+`;
+}
+
+function coreXml(manuscript: ExportManuscript): string {
+    const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(manuscript.title)}</dc:title>
+<dc:creator>${escapeXml(manuscript.author)}</dc:creator>
+<dc:language>${escapeXml(manuscript.language)}</dc:language>
+<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>
+</cp:coreProperties>
+`;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+<Override PartName="/word/header2.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+<Override PartName="/word/footer2.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>
+`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>
+`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rIdHeader" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>
+<Relationship Id="rIdHeaderFirst" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header2.xml"/>
+<Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>
+<Relationship Id="rIdFooterFirst" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer2.xml"/>
+</Relationships>
+`;
+
+export async function writeManuscriptDocx(manuscript: ExportManuscript, options: DocxExportOptions, filePath: string): Promise<void> {
+    const smf = options.profile === 'smf';
+    const font = smf ? options.font : 'Times New Roman';
+    const profile: Profile = {
+        options,
+        font,
+        body: smf ? '' : '<w:jc w:val="both"/>',
+        sceneBreak: smf ? '#' : '* * *',
+    };
+
+    const files: [string, string][] = [
+        ['[Content_Types].xml', CONTENT_TYPES],
+        ['_rels/.rels', PACKAGE_RELS],
+        ['docProps/core.xml', coreXml(manuscript)],
+        ['word/_rels/document.xml.rels', DOCUMENT_RELS],
+        ['word/document.xml', documentXml(manuscript, profile)],
+        ['word/styles.xml', stylesXml(manuscript, profile)],
+        ['word/header1.xml', headerXml(manuscript, profile)],
+        ['word/header2.xml', emptyHeaderXml()],
+        ['word/footer1.xml', footerXml(profile)],
+        ['word/footer2.xml', footerXml(null)],
+    ];
+
+    const output = createWriteStream(filePath);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const completion = new Promise<void>((resolve, reject) => {
+        output.on('close', () => resolve());
+        output.on('error', reject);
+        archive.on('error', reject);
+    });
+    archive.pipe(output);
+    for (const [name, content] of files) archive.append(content, { name });
+    await archive.finalize();
+    await completion;
+}
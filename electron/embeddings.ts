@@ -0,0 +1,135 @@
+import { embedMany, EmbeddingModel } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { AIProviderConnection, normalizeOpenAICompatibleBaseUrl } from './aiProviders';
+
+// --- Embedding Backends ---
+// Backends for the retrieval index (retrievalIndex.ts), registered like the
+// chat providers in aiProviders.ts. Remote backends reuse the key and
+// endpoint of the chat provider named by `providerId`; the local backend
+// needs nothing and always gives the same vector for the same text, so the
+// index works offline and its results are reproducible.
+
+export type EmbeddingBackendDefinition = {
+    id: string;
+    label: string;
+    /** Chat provider whose key/endpoint this backend uses; null for the local backend. */
+    providerId: string | null;
+    defaultModel: string;
+    /** Texts per request; remote APIs cap batch sizes. */
+    batchSize: number;
+    /** Returns one L2-normalised vector per text. */
+    embed: (connection: AIProviderConnection, modelId: string, texts: string[], abortSignal?: AbortSignal) => Promise<number[][]>;
+};
+
+/** Serializable subset sent to the settings screen. */
+export type EmbeddingBackendDescriptor = Omit<EmbeddingBackendDefinition, 'embed'>;
+
+const LOCAL_DIMENSIONS = 512;
+
+const STOPWORDS = new Set((
+    'a an and are as at be been but by did do does for from had has have he her hers him his i if in into is it its ' +
+    'me my no not of on or our she so than that the their them then there these they this to too up us was we were ' +
+    'what when where which who will with would you your'
+).split(' '));
+
+// FNV-1a; stable across runs and platforms, unlike anything seeded
+function hashString(s: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < s.length; i++) {
+        h ^= s.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+// Crude suffix stripping so "walked"/"walking"/"walks" share a feature
+function stem(word: string): string {
+    if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+    if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+    return word;
+}
+
+/**
+ * Deterministic local embedding: hashed bag of stemmed words and word pairs,
+ * L2-normalised. Finds passages that share vocabulary, not meaning, but needs
+ * no model or network.
+ */
+export function embedLocally(text: string): number[] {
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+        .filter(w => w.length > 1 && !STOPWORDS.has(w))
+        .map(stem);
+
+    const add = (feature: string, weight: number) => {
+        const h = hashString(feature);
+        vector[h % LOCAL_DIMENSIONS] += (h & 0x80000000) ? -weight : weight;
+    };
+    words.forEach((word, i) => {
+        add(word, 1);
+        if (i > 0) add(`${words[i - 1]} ${word}`, 0.5);
+    });
+
+    return normalizeVector(vector);
+}
+
+export function normalizeVector(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+async function embedWithModel(model: EmbeddingModel, texts: string[], abortSignal?: AbortSignal): Promise<number[][]> {
+    const { embeddings } = await embedMany({ model, values: texts, abortSignal, maxParallelCalls: 2 });
+    return embeddings.map(normalizeVector);
+}
+
+export const EMBEDDING_BACKENDS: EmbeddingBackendDefinition[] = [
+    {
+        id: 'local',
+        label: 'Built-in (offline, keyword-based)',
+        providerId: null,
+        defaultModel: 'hashed-bow-512',
+        batchSize: 1000,
+        embed: async (_connection, _modelId, texts) => texts.map(embedLocally),
+    },
+    {
+        id: 'openai',
+        label: 'OpenAI embeddings',
+        providerId: 'openai',
+        defaultModel: 'text-embedding-3-small',
+        batchSize: 256,
+        embed: ({ apiKey }, modelId, texts, abortSignal) => embedWithModel(createOpenAI({ apiKey }).embedding(modelId), texts, abortSignal),
+    },
+    {
+        id: 'google',
+        label: 'Google Gemini embeddings',
+        providerId: 'google',
+        defaultModel: 'text-embedding-004',
+        batchSize: 100,
+        embed: ({ apiKey }, modelId, texts, abortSignal) => embedWithModel(createGoogleGenerativeAI({ apiKey }).embedding(modelId), texts, abortSignal),
+    },
+    {
+        id: 'custom',
+        label: 'Custom / Local server embeddings',
+        providerId: 'custom',
+        defaultModel: 'nomic-embed-text',
+        batchSize: 64,
+        embed: async ({ apiKey, baseURL }, modelId, texts, abortSignal) => {
+            const base = normalizeOpenAICompatibleBaseUrl(baseURL || '');
+            if (!base) throw new Error('No server URL configured for the Custom / Local provider.');
+            return embedWithModel(createOpenAI({ name: 'custom', baseURL: base, apiKey: apiKey || 'local' }).embedding(modelId), texts, abortSignal);
+        },
+    },
+];
+
+export const DEFAULT_EMBEDDING_BACKEND_ID = 'local';
+
+export function getEmbeddingBackend(id: string | undefined | null): EmbeddingBackendDefinition {
+    return EMBEDDING_BACKENDS.find(b => b.id === id)
+        ?? EMBEDDING_BACKENDS.find(b => b.id === DEFAULT_EMBEDDING_BACKEND_ID)!;
+}
+
+export function describeEmbeddingBackends(): EmbeddingBackendDescriptor[] {
+    return EMBEDDING_BACKENDS.map(({ embed: _embed, ...rest }) => rest);
+}
@@ -0,0 +1,74 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+
+// --- Worldbuilding Entities ---
+// Read-only access to Characters/Places/Objects/Organisations for main-process
+// features (context builder, retrieval index), with the one-line summary
+// format those features put in front of the model.
+
+export type EntityKind = 'Character' | 'Place' | 'Object' | 'Organisation';
+
+export const ENTITY_FOLDERS: Record<EntityKind, string> = {
+    Character: 'Characters',
+    Place: 'Places',
+    Object: 'Objects',
+    Organisation: 'Organisations',
+};
+
+export type EntityFile = {
+    kind: EntityKind;
+    /** Project-relative path with forward slashes, e.g. "Characters/Mara.json". */
+    relPath: string;
+    name: string;
+    data: any;
+};
+
+export function entityKindForFolder(folder: string): EntityKind | null {
+    const entry = (Object.entries(ENTITY_FOLDERS) as [EntityKind, string][]).find(([, f]) => f === folder);
+    return entry ? entry[0] : null;
+}
+
+export function formatEntity(kind: EntityKind, name: string, json: any): string {
+    const aka = json.aka ? ` (aka ${json.aka})` : '';
+    if (kind === 'Character') {
+        const stage = json.lifeStages?.[0] || {};
+        const relationships = Array.isArray(json.relationships) && json.relationships.length > 0
+            ? ` Relationships: ${json.relationships.map((r: any) => `${r.target} (${r.description})`).join(', ')}.`
+            : '';
+        return `[Character: ${name}${aka}. Appearance: ${stage.appearance || 'N/A'}. Personality: ${stage.personality || 'N/A'}. Motivation: ${stage.motivation || 'N/A'}.${relationships}]`;
+    }
+    if (kind === 'Organisation') {
+        const members = Array.isArray(json.members) ? json.members.map((m: any) => `${m.name}${m.role ? ' (' + m.role + ')' : ''}`).join(', ') : 'N/A';
+        return `[Organisation: ${name}. Goals: ${json.goals || 'N/A'}. Members: ${members}]`;
+    }
+    const properties = kind === 'Object' && json.properties ? ` Properties: ${json.properties}.` : '';
+    return `[${kind}: ${name}${aka}. Description: ${json.description || 'N/A'}.${properties}]`;
+}
+
+export async function readEntityFile(projectRoot: string, relPath: string): Promise<EntityFile | null> {
+    const [folder, file] = relPath.split('/');
+    const kind = entityKindForFolder(folder);
+    if (!kind || !file?.endsWith('.json')) return null;
+    try {
+        const data = JSON.parse(await fs.readFile(path.join(projectRoot, folder, path.basename(file)), 'utf-8'));
+        return { kind, relPath, name: data.name || file.replace(/\.json$/i, ''), data };
+    } catch {
+        return null;
+    }
+}
+
+/** Every parseable entity file in the project; unreadable files are skipped. */
+export async function listEntityFiles(projectRoot: string): Promise<EntityFile[]> {
+    const entities: EntityFile[] = [];
+    for (const folder of Object.values(ENTITY_FOLDERS)) {
+        let files: string[] = [];
+        try {
+            files = (await fs.readdir(path.join(projectRoot, folder))).filter(f => f.endsWith('.json'));
+        } catch { continue; }
+        for (const file of files) {
+            const entity = await readEntityFile(projectRoot, `${folder}/${file}`);
+            if (entity) entities.push(entity);
+        }
+    }
+    return entities;
+}
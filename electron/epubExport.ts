@@ -0,0 +1,302 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { createHash } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import archiver from 'archiver';
+import { ExportBlock, ExportManuscript, ExportSection, InlineRun } from './manuscriptExport';
+
+// --- EPUB Export ---
+// Writes the manuscript as an EPUB 3: a navigation document (plus an NCX for
+// older readers), a title page, one XHTML file per chapter in reading order
+// and per front and back matter section, an embedded stylesheet and, when the project has one, a cover image. The
+// book identifier is derived from the title and author, so re-exporting the
+// same book updates it in a reader's library rather than adding a copy.
+
+const COVER_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+};
+
+export const EPUB_COVER_EXTENSIONS = Object.keys(COVER_TYPES).map(ext => ext.slice(1));
+
+const STYLESHEET = `body { margin: 0 5%; font-family: serif; line-height: 1.5; }
+h1.title { margin-top: 30%; text-align: center; font-size: 2em; }
+p.subtitle { text-align: center; font-style: italic; font-size: 1.2em; text-indent: 0; }
+p.author { margin-top: 3em; text-align: center; font-size: 1.2em; text-indent: 0; }
+h1.chapter { margin: 3em 0 2em; text-align: center; font-size: 1.5em; font-weight: normal; }
+h2, h3, h4, h5, h6 { margin: 1.5em 0 0.5em; font-size: 1.1em; }
+p { margin: 0; text-indent: 1.5em; text-align: justify; }
+h1 + p, h2 + p, h3 + p, h4 + p, h5 + p, h6 + p, p.scene-break + p, blockquote + p, ul + p, ol + p, pre + p { text-indent: 0; }
+p.scene-break { margin: 1em 0; text-align: center; text-indent: 0; }
+blockquote { margin: 1em 2em; }
+blockquote p { text-indent: 0; }
+pre { font-size: 0.9em; white-space: pre-wrap; }
+nav ol { list-style: none; padding-left: 0; }
+nav li { margin: 0.3em 0; }
+div.cover { text-align: center; padding: 0; margin: 0; }
+div.cover img { max-width: 100%; max-height: 100%; }
+section.dedication { margin-top: 30%; text-align: center; font-style: italic; }
+section.dedication p, section.copyright p { text-indent: 0; text-align: center; }
+section.copyright { margin-top: 50%; font-size: 0.8em; }
+section.copyright p { text-align: left; margin-bottom: 0.5em; }
+`;
+
+// epub:type for each kind of front and back matter section
+const SECTION_TYPES: Record<ExportSection['kind'], string> = {
+    dedication: 'dedication',
+    copyright: 'copyright-page',
+    section: 'appendix',
+};
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+function runsXhtml(runs: InlineRun[]): string {
+    return runs.map(run => {
+        let html = escapeXml(run.text).replace(/\n/g, '<br/>');
+        if (run.code) html = `<code>${html}</code>`;
+        if (run.strike) html = `<s>${html}</s>`;
+        if (run.italic) html = `<em>${html}</em>`;
+        if (run.bold) html = `<strong>${html}</strong>`;
+        return html;
+    }).join('');
+}
+
+/** Chapter body XHTML; runs of list items and quotes are grouped into their elements. */
+function blocksXhtml(blocks: ExportBlock[]): string {
+    const out: string[] = [];
+    // Open <ul>/<ol> elements, innermost last
+    const lists: ('ul' | 'ol')[] = [];
+    let inQuote = false;
+
+    const closeLists = (depth: number) => {
+        while (lists.length > depth) out.push(`</li></${lists.pop()}>`);
+    };
+
+    for (const block of blocks) {
+        if (block.type !== 'listItem') closeLists(0);
+        if (block.type !== 'quote' && inQuote) {
+            out.push('</blockquote>');
+            inQuote = false;
+        }
+        switch (block.type) {
+            case 'paragraph':
+                out.push(`<p>${runsXhtml(block.runs)}</p>`);
+                break;
+            case 'heading':
+                out.push(`<h${Math.min(6, block.level + 1)}>${runsXhtml(block.runs)}</h${Math.min(6, block.level + 1)}>`);
+                break;
+            case 'quote':
+                if (!inQuote) out.push('<blockquote>');
+                inQuote = true;
+                out.push(`<p>${runsXhtml(block.runs)}</p>`);
+                break;
+            case 'listItem': {
+                const tag = block.ordered ? 'ol' : 'ul';
+                closeLists(block.depth + 1);
+                if (lists.length === block.depth + 1 && lists[block.depth] !== tag) closeLists(block.depth);
+                if (lists.length === block.depth + 1) {
+                    out.push('</li>');
+                } else {
+                    while (lists.length < block.depth + 1) {
+                        out.push(`<${tag}>`);
+                        lists.push(tag);
+                    }
+                }
+                out.push(`<li>${runsXhtml(block.runs)}`);
+                break;
+            }
+            case 'code':
+                out.push(`<pre>${escapeXml(block.text)}</pre>`);
+                break;
+            case 'sceneBreak':
+                out.push('<p class="scene-break">* * *</p>');
+                break;
+        }
+    }
+    closeLists(0);
+    if (inQuote) out.push('</blockquote>');
+    return out.join('\n');
+}
+
+function xhtmlDocument(title: string, language: string, body: string, bodyAttrs = ''): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body${bodyAttrs}>
+${body}
+</body>
+</html>
+`;
+}
+
+/** A UUID-formatted identifier that stays the same for the same title and author. */
+function bookIdentifier(manuscript: ExportManuscript): string {
+    const hex = createHash('sha1').update(`auctor:${manuscript.title}:${manuscript.author}`).digest('hex');
+    return `urn:uuid:${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${(8 + (parseInt(hex[16], 16) & 3)).toString(16)}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/** A content document in the spine: front matter, a chapter or back matter. */
+type ContentDocument = { file: string; title: string; body: string; inToc: boolean };
+
+export async function writeManuscriptEpub(manuscript: ExportManuscript, filePath: string): Promise<void> {
+    const { title, author, language } = manuscript;
+
+    const sectionDocument = (section: ExportSection, file: string, matter: 'frontmatter' | 'backmatter'): ContentDocument => {
+        const titled = section.kind === 'section';
+        const heading = titled ? `<h1 class="chapter">${escapeXml(section.title)}</h1>\n` : '';
+        const type = titled && matter === 'frontmatter' ? 'preface' : SECTION_TYPES[section.kind];
+        return {
+            file,
+            title: section.title,
+            body: `<section epub:type="${matter} ${type}" class="${section.kind}">\n${heading}${blocksXhtml(section.blocks)}\n</section>`,
+            inToc: titled,
+        };
+    };
+    const number = (i: number) => String(i + 1).padStart(3, '0');
+    const frontDocuments = manuscript.frontMatter.map((section, i) => sectionDocument(section, `front-${number(i)}.xhtml`, 'frontmatter'));
+    const chapterDocuments = manuscript.chapters.map((chapter, i): ContentDocument => ({
+        file: `chapter-${number(i)}.xhtml`,
+        title: chapter.title,
+        body: `<section epub:type="bodymatter chapter">\n<h1 class="chapter">${escapeXml(chapter.title)}</h1>\n${blocksXhtml(chapter.blocks)}\n</section>`,
+        inToc: true,
+    }));
+    const backDocuments = manuscript.backMatter.map((section, i) => sectionDocument(section, `back-${number(i)}.xhtml`, 'backmatter'));
+    const documents = [...frontDocuments, ...chapterDocuments, ...backDocuments];
+    const tocDocuments = documents.filter(d => d.inToc);
+
+    let cover: { data: Buffer; name: string; type: string } | null = null;
+    if (manuscript.coverImage) {
+        const ext = path.extname(manuscript.coverImage).toLowerCase();
+        if (!COVER_TYPES[ext]) throw new Error(`The cover image must be a ${EPUB_COVER_EXTENSIONS.join(', ')} file.`);
+        try {
+            cover = { data: await fs.readFile(manuscript.coverImage), name: `images/cover${ext}`, type: COVER_TYPES[ext] };
+        } catch {
+            throw new Error(`Could not read the cover image at ${manuscript.coverImage}.`);
+        }
+    }
+
+    const files: { name: string; content: string | Buffer }[] = [];
+    files.push({ name: 'META-INF/container.xml', content: `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+` });
+    files.push({ name: 'OEBPS/styles.css', content: STYLESHEET });
+
+    if (cover) {
+        files.push({ name: `OEBPS/${cover.name}`, content: cover.data });
+        files.push({
+            name: 'OEBPS/cover.xhtml',
+            content: xhtmlDocument(title, language, `<div class="cover"><img src="${cover.name}" alt="${escapeXml(title)}"/></div>`, ' epub:type="cover"'),
+        });
+    }
+
+    const titleBody = [
+        `<h1 class="title">${escapeXml(title)}</h1>`,
+        manuscript.subtitle ? `<p class="subtitle">${escapeXml(manuscript.subtitle)}</p>` : '',
+        author ? `<p class="author">${escapeXml(author)}</p>` : '',
+    ].filter(Boolean).join('\n');
+    files.push({ name: 'OEBPS/title.xhtml', content: xhtmlDocument(title, language, `<section epub:type="titlepage">\n${titleBody}\n</section>`) });
+
+    for (const document of documents) {
+        files.push({ name: `OEBPS/${document.file}`, content: xhtmlDocument(document.title, language, document.body) });
+    }
+
+    const navItems = tocDocuments.map(d => `<li><a href="${d.file}">${escapeXml(d.title)}</a></li>`).join('\n');
+    files.push({
+        name: 'OEBPS/nav.xhtml',
+        content: xhtmlDocument('Contents', language, `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${navItems}
+</ol>
+</nav>
+<nav epub:type="landmarks" hidden="">
+<ol>
+${cover ? '<li><a epub:type="cover" href="cover.xhtml">Cover</a></li>\n' : ''}<li><a epub:type="titlepage" href="title.xhtml">Title Page</a></li>
+<li><a epub:type="bodymatter" href="${chapterDocuments[0]?.file ?? 'title.xhtml'}">Start</a></li>
+</ol>
+</nav>`),
+    });
+
+    const identifier = bookIdentifier(manuscript);
+    const navPoints = tocDocuments.map((d, i) => `<navPoint id="nav-${i + 1}" playOrder="${i + 1}">
+<navLabel><text>${escapeXml(d.title)}</text></navLabel>
+<content src="${d.file}"/>
+</navPoint>`).join('\n');
+    files.push({ name: 'OEBPS/toc.ncx', content: `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head>
+<meta name="dtb:uid" content="${identifier}"/>
+</head>
+<docTitle><text>${escapeXml(title)}</text></docTitle>
+<navMap>
+${navPoints}
+</navMap>
+</ncx>
+` });
+
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const manifest = [
+        '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+        '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+        '<item id="css" href="styles.css" media-type="text/css"/>',
+        ...(cover ? [
+            `<item id="cover-image" href="${cover.name}" media-type="${cover.type}" properties="cover-image"/>`,
+            '<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>',
+        ] : []),
+        '<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>',
+        ...documents.map(d => `<item id="${d.file.replace(/\.xhtml$/, '')}" href="${d.file}" media-type="application/xhtml+xml"/>`),
+    ];
+    const spine = [
+        ...(cover ? ['<itemref idref="cover" linear="no"/>'] : []),
+        '<itemref idref="title"/>',
+        ...frontDocuments.map(d => `<itemref idref="${d.file.replace(/\.xhtml$/, '')}"/>`),
+        '<itemref idref="nav"/>',
+        ...[...chapterDocuments, ...backDocuments].map(d => `<itemref idref="${d.file.replace(/\.xhtml$/, '')}"/>`),
+    ];
+    files.push({ name: 'OEBPS/content.opf', content: `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(language)}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${identifier}</dc:identifier>
+<dc:title>${escapeXml(title)}</dc:title>
+${author ? `<dc:creator id="author">${escapeXml(author)}</dc:creator>\n<meta refines="#author" property="role" scheme="marc:relators">aut</meta>\n` : ''}<dc:language>${escapeXml(language)}</dc:language>
+${manuscript.subtitle ? `<dc:description>${escapeXml(manuscript.subtitle)}</dc:description>\n` : ''}<meta property="dcterms:modified">${modified}</meta>
+${cover ? '<meta name="cover" content="cover-image"/>\n' : ''}</metadata>
+<manifest>
+${manifest.join('\n')}
+</manifest>
+<spine toc="ncx">
+${spine.join('\n')}
+</spine>
+</package>
+` });
+
+    // The mimetype entry must come first and be stored uncompressed
+    const output = createWriteStream(filePath);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const completion = new Promise<void>((resolve, reject) => {
+        output.on('close', () => resolve());
+        output.on('error', reject);
+        archive.on('error', reject);
+    });
+    archive.pipe(output);
+    archive.append('application/epub+zip', { name: 'mimetype', store: true });
+    for (const file of files) archive.append(file.content, { name: file.name });
+    await archive.finalize();
+    await completion;
+}
@@ -0,0 +1,370 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { writeFileAtomic } from './atomicWrite';
+import { EntityFile, EntityKind, ENTITY_FOLDERS, listEntityFiles } from './entities';
+import { ImportAnalysis, ImportedSubplot, normalizeName } from './importPipeline';
+
+// --- Import Merge ---
+// Compares an analysed import with the project it is going into, so the
+// author can review it before anything is written: each chapter, entity,
+// subplot and the plot is new, matches something that exists (by name or
+// `aka`), or conflicts (a chapter file of the same name, or an entity that
+// matches several existing ones). The author's per-item choice (create,
+// merge or skip) is then applied by applyImportDecisions; merging fills in
+// what the project is missing and never overwrites the author's own text.
+
+export type ImportItemKind = 'Chapter' | EntityKind | 'Subplot' | 'Plot';
+export type ImportItemStatus = 'new' | 'match' | 'conflict';
+export type ImportAction = 'create' | 'merge' | 'skip';
+
+export type ImportPreviewItem = {
+    /** Stable within one import, e.g. "Character:3". */
+    id: string;
+    kind: ImportItemKind;
+    name: string;
+    /** Short description of the imported item. */
+    summary: string;
+    status: ImportItemStatus;
+    /** Why the item has its status, e.g. "Matches Mara Vell by alias". */
+    detail: string;
+    /** What a merge can go into: project-relative path, or subplot id. */
+    targets: { ref: string; label: string }[];
+    actions: ImportAction[];
+    defaultAction: ImportAction;
+};
+
+export type ImportDecision = { action: ImportAction; target?: string };
+
+export type ImportCounts = {
+    chapters: number;
+    characters: number;
+    places: number;
+    objects: number;
+    organisations: number;
+};
+
+export type ImportApplyResult = {
+    /** Items written (created or merged) per kind. */
+    summary: ImportCounts & { merged: number; skipped: number };
+    /** Chapter files created, in manuscript order, to append to chapterOrder. */
+    createdChapters: string[];
+    /** New values for auctor.json settings; absent keys are left as they are. */
+    settings: { plot?: string; subplots?: ImportedSubplot[] };
+};
+
+type ProjectSettings = { plot?: string; subplots?: any[]; [key: string]: any };
+
+const ENTITY_KINDS: EntityKind[] = ['Character', 'Place', 'Object', 'Organisation'];
+
+const COUNT_KEYS: Record<EntityKind, keyof ImportCounts> = {
+    Character: 'characters',
+    Place: 'places',
+    Object: 'objects',
+    Organisation: 'organisations',
+};
+
+const sanitize = (name: string) => name.trim().replace(/[<>:"/\\|?*]/g, '').replace(/\s+/g, ' ').trim();
+const splitAka = (aka: unknown) => typeof aka === 'string' ? aka.split(/[,\n;]/).map(a => a.trim()).filter(Boolean) : [];
+const truncate = (text: string, max = 160) => text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+
+function importedEntities(analysis: ImportAnalysis): Record<EntityKind, any[]> {
+    return {
+        Character: analysis.characters,
+        Place: analysis.places,
+        Object: analysis.objects,
+        Organisation: analysis.organisations,
+    };
+}
+
+function entitySummary(kind: EntityKind, item: any): string {
+    if (kind === 'Character') return [item.appearance, item.personality].filter(Boolean).join(' ');
+    if (kind === 'Organisation') return item.goals || '';
+    return item.description || '';
+}
+
+/** Existing entities sharing a name or alias with `item`, best match (same name) first. */
+function matchingEntities(existing: EntityFile[], kind: EntityKind, item: { name: string; aka?: string }): { entity: EntityFile; byAlias: boolean }[] {
+    const name = normalizeName(item.name);
+    const keys = new Set([name, ...splitAka(item.aka).map(normalizeName)].filter(Boolean));
+    const found: { entity: EntityFile; byAlias: boolean }[] = [];
+    for (const entity of existing) {
+        if (entity.kind !== kind) continue;
+        const stem = normalizeName(entity.relPath.split('/').pop()!.replace(/\.json$/i, ''));
+        const ownNames = [stem, normalizeName(entity.name)];
+        const aliases = splitAka(entity.data?.aka).map(normalizeName);
+        if (ownNames.includes(name)) found.push({ entity, byAlias: false });
+        else if ([...ownNames, ...aliases].some(n => keys.has(n))) found.push({ entity, byAlias: true });
+    }
+    return found.sort((a, b) => Number(a.byAlias) - Number(b.byAlias));
+}
+
+async function fileExists(filePath: string) {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export async function buildImportPreview(projectRoot: string, analysis: ImportAnalysis, settings: ProjectSettings): Promise<ImportPreviewItem[]> {
+    const items: ImportPreviewItem[] = [];
+
+    for (let i = 0; i < analysis.chapters.length; i++) {
+        const chapter = analysis.chapters[i];
+        const fileName = `${sanitize(chapter.title) || `Chapter ${i + 1}`}.md`;
+        const exists = await fileExists(path.join(projectRoot, 'Chapters', fileName));
+        items.push({
+            id: `Chapter:${i}`,
+            kind: 'Chapter',
+            name: chapter.title,
+            summary: truncate(chapter.summary),
+            status: exists ? 'conflict' : 'new',
+            detail: exists ? `Chapters/${fileName} already exists` : `New chapter ${fileName}`,
+            targets: exists ? [{ ref: `Chapters/${fileName}`, label: fileName }] : [],
+            actions: exists ? ['create', 'merge', 'skip'] : ['create', 'skip'],
+            defaultAction: exists ? 'skip' : 'create',
+        });
+    }
+
+    const existing = await listEntityFiles(projectRoot);
+    const imported = importedEntities(analysis);
+    for (const kind of ENTITY_KINDS) {
+        imported[kind].forEach((item, i) => {
+            const matches = matchingEntities(existing, kind, item);
+            const targets = matches.map(m => ({ ref: m.entity.relPath, label: m.entity.name }));
+            const base = { id: `${kind}:${i}`, kind, name: item.name, summary: truncate(entitySummary(kind, item)), targets };
+            if (matches.length === 0) {
+                items.push({ ...base, status: 'new', detail: `New ${kind.toLowerCase()}`, actions: ['create', 'skip'], defaultAction: 'create' });
+            } else if (matches.length === 1) {
+                const [match] = matches;
+                items.push({
+                    ...base,
+                    status: 'match',
+                    detail: `Matches ${match.entity.name}${match.byAlias ? ' by alias' : ''}`,
+                    actions: ['merge', 'create', 'skip'],
+                    defaultAction: 'merge',
+                });
+            } else {
+                items.push({
+                    ...base,
+                    status: 'conflict',
+                    detail: `Matches ${matches.length} existing entries: ${matches.map(m => m.entity.name).join(', ')}`,
+                    actions: ['merge', 'create', 'skip'],
+                    defaultAction: 'skip',
+                });
+            }
+        });
+    }
+
+    const existingSubplots = Array.isArray(settings.subplots) ? settings.subplots : [];
+    analysis.subplots.forEach((subplot, i) => {
+        const match = existingSubplots.find(s => normalizeName(String(s?.title ?? '')) === normalizeName(subplot.title));
+        items.push({
+            id: `Subplot:${i}`,
+            kind: 'Subplot',
+            name: subplot.title,
+            summary: truncate(subplot.description),
+            status: match ? 'match' : 'new',
+            detail: match ? `Matches subplot ${match.title}` : 'New subplot',
+            targets: match ? [{ ref: String(match.id), label: String(match.title) }] : [],
+            actions: match ? ['merge', 'create', 'skip'] : ['create', 'skip'],
+            defaultAction: match ? 'merge' : 'create',
+        });
+    });
+
+    if (analysis.plot) {
+        const hasPlot = !!settings.plot?.trim();
+        items.push({
+            id: 'Plot:0',
+            kind: 'Plot',
+            name: 'Overall plot',
+            summary: truncate(analysis.plot),
+            status: hasPlot ? 'conflict' : 'new',
+            detail: hasPlot ? 'The project already has a plot' : 'Sets the project plot',
+            targets: [],
+            actions: hasPlot ? ['create', 'merge', 'skip'] : ['create', 'skip'],
+            defaultAction: hasPlot ? 'skip' : 'create',
+        });
+    }
+
+    return items;
+}
+
+// --- Applying ---
+
+/** A file name in `dir` that is neither on disk nor already used by this import. */
+async function uniqueFileName(dir: string, stem: string, ext: string, used: Set<string>) {
+    let fileName = `${stem}${ext}`;
+    for (let n = 2; used.has(fileName.toLowerCase()) || await fileExists(path.join(dir, fileName)); n++) {
+        fileName = `${stem} (${n})${ext}`;
+    }
+    used.add(fileName.toLowerCase());
+    return fileName;
+}
+
+const fillBlank = (current: unknown, incoming: string) =>
+    typeof current === 'string' && current.trim() ? current : incoming;
+
+function mergeAka(current: unknown, names: string[], ownName: string): string {
+    const all = splitAka(current);
+    const seen = new Set([normalizeName(ownName), ...all.map(normalizeName)]);
+    for (const name of names) {
+        const key = normalizeName(name);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        all.push(name);
+    }
+    return all.join(', ');
+}
+
+/** Entries of `incoming` whose `key` isn't in `current` yet, appended. */
+function unionBy<T extends Record<string, any>>(current: unknown, incoming: T[], key: keyof T): T[] {
+    const list: T[] = Array.isArray(current) ? [...current] : [];
+    for (const item of incoming) {
+        if (!list.some(existing => normalizeName(String(existing?.[key] ?? '')) === normalizeName(String(item[key] ?? '')))) {
+            list.push(item);
+        }
+    }
+    return list;
+}
+
+function newEntityData(kind: EntityKind, item: any): any {
+    if (kind === 'Character') {
+        return {
+            name: item.name,
+            aka: item.aka,
+            lifeStages: [{ id: 'default', age: item.age || 'Current', appearance: item.appearance, personality: item.personality, motivation: item.motivation }],
+            relationships: item.relationships,
+        };
+    }
+    return { ...item };
+}
+
+function mergeEntityData(kind: EntityKind, current: any, item: any): any {
+    const merged = { ...current };
+    if (kind !== 'Organisation') merged.aka = mergeAka(current.aka, [item.name, ...splitAka(item.aka)], current.name || item.name);
+    if (kind === 'Character') {
+        const stages = Array.isArray(current.lifeStages) && current.lifeStages.length > 0 ? [...current.lifeStages] : [{ id: 'default', age: 'Current' }];
+        const first = { ...stages[0] };
+        first.age = fillBlank(first.age, item.age);
+        first.appearance = fillBlank(first.appearance, item.appearance);
+        first.personality = fillBlank(first.personality, item.personality);
+        first.motivation = fillBlank(first.motivation, item.motivation);
+        stages[0] = first;
+        merged.lifeStages = stages;
+        merged.relationships = unionBy(current.relationships, item.relationships, 'target');
+    } else if (kind === 'Organisation') {
+        merged.goals = fillBlank(current.goals, item.goals);
+        merged.members = unionBy(current.members, item.members, 'name');
+    } else {
+        merged.description = fillBlank(current.description, item.description);
+        if (kind === 'Object') merged.properties = fillBlank(current.properties, item.properties);
+    }
+    return merged;
+}
+
+/** Writes the chosen items; items without a decision get their default action. */
+export async function applyImportDecisions(
+    projectRoot: string,
+    analysis: ImportAnalysis,
+    preview: ImportPreviewItem[],
+    decisions: Record<string, ImportDecision>,
+    settings: ProjectSettings,
+    onProgress: (detail: string) => void,
+): Promise<ImportApplyResult> {
+    const summary = { chapters: 0, characters: 0, places: 0, objects: 0, organisations: 0, merged: 0, skipped: 0 };
+    const createdChapters: string[] = [];
+    const resultSettings: ImportApplyResult['settings'] = {};
+    const used = new Map<string, Set<string>>();
+    const usedIn = (dir: string) => used.get(dir) ?? used.set(dir, new Set()).get(dir)!;
+
+    // A decision is only honoured when the preview offered it
+    const decide = (item: ImportPreviewItem): ImportDecision => {
+        const decision = decisions[item.id];
+        if (!decision || !item.actions.includes(decision.action)) return { action: item.defaultAction, target: item.targets[0]?.ref };
+        const target = item.targets.find(t => t.ref === decision.target)?.ref ?? item.targets[0]?.ref;
+        return { action: decision.action, target };
+    };
+
+    for (const dir of ['Chapters', ...Object.values(ENTITY_FOLDERS)]) {
+        await fs.mkdir(path.join(projectRoot, dir), { recursive: true });
+    }
+
+    const subplots: any[] = Array.isArray(settings.subplots) ? settings.subplots.map(s => ({ ...s })) : [];
+    let subplotsChanged = false;
+
+    for (const item of preview) {
+        const { action, target } = decide(item);
+        if (action === 'skip') {
+            summary.skipped++;
+            continue;
+        }
+        const index = Number(item.id.split(':')[1]);
+
+        if (item.kind === 'Chapter') {
+            const chapter = analysis.chapters[index];
+            if (action === 'merge' && target) {
+                // Replace the chapter text and summary; its other settings and critique stay
+                const filePath = path.join(projectRoot, target);
+                const raw = await fs.readFile(filePath, 'utf-8');
+                let chapterSettings: Record<string, any> = {};
+                const settingsMatch = raw.match(/<settings>([\s\S]*?)<\/settings>/i);
+                if (settingsMatch) {
+                    try { chapterSettings = JSON.parse(settingsMatch[1].trim()) || {}; } catch {}
+                }
+                chapterSettings.summary = chapter.summary || chapterSettings.summary || '';
+                const critique = raw.match(/<critique>([\s\S]*?)<\/critique>/i)?.[1].trim() ?? '';
+                await writeFileAtomic(filePath, `<text>\n${chapter.html}\n</text>\n<settings>\n${JSON.stringify(chapterSettings)}\n</settings>\n<critique>\n${critique}\n</critique>`);
+                summary.merged++;
+                onProgress(`Replaced chapter text: ${chapter.title}`);
+            } else {
+                const fileName = await uniqueFileName(path.join(projectRoot, 'Chapters'), sanitize(chapter.title) || `Chapter ${index + 1}`, '.md', usedIn('Chapters'));
+                const settingsJson = JSON.stringify({ summary: chapter.summary, ageOffset: '', style: '', subplots: [] });
+                await writeFileAtomic(path.join(projectRoot, 'Chapters', fileName), `<text>\n${chapter.html}\n</text>\n<settings>\n${settingsJson}\n</settings>\n<critique>\n</critique>`);
+                createdChapters.push(fileName);
+                onProgress(`Created chapter: ${chapter.title}`);
+            }
+            summary.chapters++;
+        } else if (item.kind === 'Subplot') {
+            const subplot = analysis.subplots[index];
+            const existing = action === 'merge' ? subplots.find(s => String(s.id) === target) : undefined;
+            if (existing) {
+                existing.description = fillBlank(existing.description, subplot.description);
+                summary.merged++;
+            } else {
+                let id = subplot.id;
+                for (let n = 2; subplots.some(s => s.id === id); n++) id = `${subplot.id}-${n}`;
+                subplots.push({ ...subplot, id });
+            }
+            subplotsChanged = true;
+        } else if (item.kind === 'Plot') {
+            if (action === 'merge' && settings.plot?.trim()) {
+                resultSettings.plot = `${settings.plot.trim()}\n\n${analysis.plot}`;
+                summary.merged++;
+            } else {
+                resultSettings.plot = analysis.plot;
+            }
+        } else {
+            const kind = item.kind;
+            const folder = ENTITY_FOLDERS[kind];
+            const source = importedEntities(analysis)[kind][index];
+            if (action === 'merge' && target) {
+                const filePath = path.join(projectRoot, target);
+                let current: any = {};
+                try { current = JSON.parse(await fs.readFile(filePath, 'utf-8')) || {}; } catch {}
+                await writeFileAtomic(filePath, JSON.stringify(mergeEntityData(kind, current, source), null, 2));
+                summary.merged++;
+                onProgress(`Merged ${kind.toLowerCase()}: ${source.name}`);
+            } else {
+                const fileName = await uniqueFileName(path.join(projectRoot, folder), sanitize(source.name) || `Unknown ${kind}`, '.json', usedIn(folder));
+                await writeFileAtomic(path.join(projectRoot, folder, fileName), JSON.stringify(newEntityData(kind, source), null, 2));
+                onProgress(`Created ${kind.toLowerCase()}: ${source.name}`);
+            }
+            summary[COUNT_KEYS[kind]]++;
+        }
+    }
+
+    if (subplotsChanged) resultSettings.subplots = subplots;
+    return { summary, createdChapters, settings: resultSettings };
+}
@@ -0,0 +1,443 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { writeFileAtomic } from './atomicWrite';
+import { createHash } from 'node:crypto';
+import { generateText, LanguageModel, LanguageModelUsage } from 'ai';
+import { renderPromptTemplate } from '../src/utils/promptTemplates';
+import { chapterHtml, chunkManuscript, ManuscriptChapter, ManuscriptChunk } from './manuscriptSplitter';
+
+// --- Import Pipeline ---
+// Turns a split manuscript (see manuscriptSplitter.ts) into chapters and
+// worldbuilding. Each passage is sent to the model on its own for entities
+// and a summary; the results are merged and deduplicated across the whole
+// book, then one last call writes the plot and subplots from the chapter
+// summaries. Every finished call is checkpointed under .auctor/import, so an
+// import that fails or is cancelled picks up where it stopped when the same
+// file is imported again.
+
+// Bump when the checkpoint format or what a chunk result means changes
+const PIPELINE_VERSION = 1;
+const CHUNK_OUTPUT_TOKENS = 4000;
+const SYNTHESIS_OUTPUT_TOKENS = 4000;
+// Names passed to later passages so the model reuses their spelling
+const MAX_KNOWN_NAMES = 150;
+const MAX_SUBPLOT_CANDIDATES = 200;
+// Merged descriptions stop growing past this
+const MAX_MERGED_TEXT_CHARS = 1500;
+
+export type ImportedRelationship = { target: string; description: string };
+
+export type ImportedCharacter = {
+    name: string;
+    aka: string;
+    age: string;
+    appearance: string;
+    personality: string;
+    motivation: string;
+    relationships: ImportedRelationship[];
+};
+
+export type ImportedPlace = { name: string; aka: string; description: string };
+
+export type ImportedObject = { name: string; aka: string; description: string; properties: string };
+
+export type ImportedOrganisation = { name: string; goals: string; members: { name: string; role: string }[] };
+
+export type ImportedSubplot = { id: string; title: string; description: string };
+
+export type ImportedChapter = {
+    title: string;
+    /** Editor HTML built from the source paragraphs. */
+    html: string;
+    summary: string;
+};
+
+export type ImportAnalysis = {
+    chapters: ImportedChapter[];
+    characters: ImportedCharacter[];
+    places: ImportedPlace[];
+    objects: ImportedObject[];
+    organisations: ImportedOrganisation[];
+    plot: string;
+    subplots: ImportedSubplot[];
+};
+
+export type ImportProgress = {
+    stage: 'analyzing' | 'parsing';
+    detail: string;
+    /** AI calls done out of the total (passages plus the plot summary). */
+    chunk?: { done: number; total: number; resumed: number };
+};
+
+type ChunkResult = {
+    summary: string;
+    characters: ImportedCharacter[];
+    places: ImportedPlace[];
+    objects: ImportedObject[];
+    organisations: ImportedOrganisation[];
+    subplots: { title: string; description: string }[];
+};
+
+type ImportCheckpoint = {
+    version: number;
+    key: string;
+    chunks: Record<string, ChunkResult>;
+    synthesis?: { plot: string; subplots: ImportedSubplot[] };
+};
+
+export type ImportPipelineOptions = {
+    model: LanguageModel;
+    /** Template text for `import-chunk` and `import-synthesis`. */
+    chunkTemplate: string;
+    synthesisTemplate: string;
+    signal: AbortSignal;
+    onUsage: (usage: LanguageModelUsage) => void;
+    onProgress: (progress: ImportProgress) => void;
+};
+
+// --- Checkpoints ---
+
+function checkpointKey(chapters: ManuscriptChapter[], options: ImportPipelineOptions) {
+    const hash = createHash('sha256');
+    hash.update(String(PIPELINE_VERSION));
+    hash.update(options.chunkTemplate);
+    hash.update(options.synthesisTemplate);
+    for (const chapter of chapters) {
+        hash.update(`\u0000${chapter.title}\u0000`);
+        for (const p of chapter.paragraphs) hash.update(p.text + '\n');
+    }
+    return hash.digest('hex').slice(0, 16);
+}
+
+const checkpointPath = (projectRoot: string, key: string) =>
+    path.join(projectRoot, '.auctor', 'import', `checkpoint-${key}.json`);
+
+async function readCheckpoint(projectRoot: string, key: string): Promise<ImportCheckpoint> {
+    try {
+        const data = JSON.parse(await fs.readFile(checkpointPath(projectRoot, key), 'utf-8'));
+        if (data?.version === PIPELINE_VERSION && data.key === key && data.chunks && typeof data.chunks === 'object') {
+            return data;
+        }
+    } catch {}
+    return { version: PIPELINE_VERSION, key, chunks: {} };
+}
+
+async function writeCheckpoint(projectRoot: string, checkpoint: ImportCheckpoint) {
+    const file = checkpointPath(projectRoot, checkpoint.key);
+    await writeFileAtomic(file, JSON.stringify(checkpoint));
+}
+
+// --- Model Responses ---
+
+/** The JSON object in a response, tolerating code fences and stray prose around it. */
+function parseJsonObject(text: string): any {
+    const body = text.trim().replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '');
+    const start = body.indexOf('{');
+    const end = body.lastIndexOf('}');
+    if (start < 0 || end <= start) throw new Error('No JSON object in the response.');
+    const value = JSON.parse(body.slice(start, end + 1));
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('The response is not a JSON object.');
+    return value;
+}
+
+const str = (value: unknown) => typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+const list = (value: unknown): any[] => Array.isArray(value) ? value.filter(v => v && typeof v === 'object') : [];
+
+function toChunkResult(raw: any): ChunkResult {
+    return {
+        summary: str(raw.summary),
+        characters: list(raw.characters).filter(c => str(c.name)).map(c => ({
+            name: str(c.name),
+            aka: str(c.aka),
+            age: str(c.age),
+            appearance: str(c.appearance),
+            personality: str(c.personality),
+            motivation: str(c.motivation),
+            relationships: list(c.relationships)
+                .filter(r => str(r.target))
+                .map(r => ({ target: str(r.target), description: str(r.description) })),
+        })),
+        places: list(raw.places).filter(p => str(p.name)).map(p => ({
+            name: str(p.name), aka: str(p.aka), description: str(p.description),
+        })),
+        objects: list(raw.objects).filter(o => str(o.name)).map(o => ({
+            name: str(o.name), aka: str(o.aka), description: str(o.description), properties: str(o.properties),
+        })),
+        organisations: list(raw.organisations).filter(o => str(o.name)).map(o => ({
+            name: str(o.name),
+            goals: str(o.goals),
+            members: list(o.members).filter(m => str(m.name)).map(m => ({ name: str(m.name), role: str(m.role) })),
+        })),
+        subplots: list(raw.subplots).filter(s => str(s.title)).map(s => ({ title: str(s.title), description: str(s.description) })),
+    };
+}
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'subplot';
+
+function toSynthesis(raw: any): { plot: string; subplots: ImportedSubplot[] } {
+    const ids = new Set<string>();
+    const subplots = list(raw.subplots).filter(s => str(s.title)).map(s => {
+        const base = slugify(str(s.id) || str(s.title));
+        let id = base;
+        for (let n = 2; ids.has(id); n++) id = `${base}-${n}`;
+        ids.add(id);
+        return { id, title: str(s.title), description: str(s.description) };
+    });
+    return { plot: str(raw.plot), subplots };
+}
+
+/** One call, retried once when the response can't be parsed. */
+async function generateJson<T>(prompt: string, maxOutputTokens: number, options: ImportPipelineOptions, convert: (raw: any) => T): Promise<T> {
+    let lastError: unknown;
+    for (let attempt = 0; attempt < 2; attempt++) {
+        const result = await generateText({
+            model: options.model,
+            prompt,
+            maxOutputTokens,
+            abortSignal: options.signal,
+        });
+        options.onUsage(result.totalUsage);
+        try {
+            return convert(parseJsonObject(result.text));
+        } catch (error) {
+            lastError = error;
+            console.error('Import: unparseable AI response:', result.text);
+        }
+    }
+    throw lastError;
+}
+
+// --- Merging ---
+
+/** "The Old Mill" and "old mill." are the same name. */
+export function normalizeName(name: string): string {
+    return name.toLowerCase().replace(/^the\s+/, '').replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+const splitAka = (aka: string) => aka.split(/[,;]/).map(a => a.trim()).filter(Boolean);
+
+function mergeText(existing: string, incoming: string): string {
+    if (!incoming) return existing;
+    if (!existing) return incoming;
+    const have = existing.toLowerCase();
+    if (have.includes(incoming.toLowerCase())) return existing;
+    if (incoming.toLowerCase().includes(have)) return incoming.length <= MAX_MERGED_TEXT_CHARS ? incoming : existing;
+    const joined = `${existing.replace(/[.\s]*$/, '.')} ${incoming}`;
+    return joined.length <= MAX_MERGED_TEXT_CHARS ? joined : existing;
+}
+
+function mergeAka(existing: string, incoming: string[], name: string): string {
+    const seen = new Set([normalizeName(name)]);
+    const all: string[] = [];
+    for (const alias of [...splitAka(existing), ...incoming]) {
+        const key = normalizeName(alias);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        all.push(alias);
+    }
+    return all.join(', ');
+}
+
+type Named = { name: string; aka?: string };
+
+/**
+ * Finds the entity an incoming one refers to: any shared name or alias, or,
+ * for characters, a lone first name ("Mara") matching exactly one full name
+ * ("Mara Vell") or the other way round.
+ */
+function findMatch<T extends Named>(items: T[], incoming: Named, byFirstName: boolean): T | undefined {
+    const keys = new Set([incoming.name, ...splitAka(incoming.aka || '')].map(normalizeName).filter(Boolean));
+    const direct = items.find(item =>
+        [item.name, ...splitAka(item.aka || '')].some(n => keys.has(normalizeName(n))));
+    if (direct || !byFirstName) return direct;
+
+    const words = normalizeName(incoming.name).split(' ');
+    const first = words[0];
+    const candidates = items.filter(item => {
+        const itemWords = normalizeName(item.name).split(' ');
+        if (itemWords[0] !== first) return false;
+        return words.length === 1 || itemWords.length === 1;
+    });
+    return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/** Adds or merges `incoming`, keeping the longer name as the main one. */
+function upsert<T extends Named>(items: T[], incoming: T, byFirstName: boolean, merge: (into: T, from: T) => void) {
+    const match = findMatch(items, incoming, byFirstName);
+    if (!match) {
+        items.push({ ...incoming, ...(incoming.aka !== undefined ? { aka: mergeAka(incoming.aka, [], incoming.name) } : {}) });
+        return;
+    }
+    const aliases = [incoming.name, ...splitAka(incoming.aka || '')];
+    if (normalizeName(incoming.name).length > normalizeName(match.name).length) {
+        aliases.push(match.name);
+        match.name = incoming.name;
+    }
+    if (match.aka !== undefined) match.aka = mergeAka(match.aka, aliases, match.name);
+    merge(match, incoming);
+}
+
+function mergeChunkResults(results: ChunkResult[]) {
+    const characters: ImportedCharacter[] = [];
+    const places: ImportedPlace[] = [];
+    const objects: ImportedObject[] = [];
+    const organisations: ImportedOrganisation[] = [];
+
+    for (const result of results) {
+        for (const c of result.characters) {
+            upsert(characters, { ...c, relationships: [...c.relationships] }, true, (into, from) => {
+                into.age = into.age || from.age;
+                into.appearance = mergeText(into.appearance, from.appearance);
+                into.personality = mergeText(into.personality, from.personality);
+                into.motivation = mergeText(into.motivation, from.motivation);
+                into.relationships.push(...from.relationships);
+            });
+        }
+        for (const p of result.places) {
+            upsert(places, { ...p }, false, (into, from) => {
+                into.description = mergeText(into.description, from.description);
+            });
+        }
+        for (const o of result.objects) {
+            upsert(objects, { ...o }, false, (into, from) => {
+                into.description = mergeText(into.description, from.description);
+                into.properties = mergeText(into.properties, from.properties);
+            });
+        }
+        for (const o of result.organisations) {
+            upsert(organisations, { ...o, members: [...o.members] }, false, (into, from) => {
+                into.goals = mergeText(into.goals, from.goals);
+                into.members.push(...from.members);
+            });
+        }
+    }
+
+    // Point relationships and memberships at the merged names, one entry per person
+    const canonicalCharacter = (name: string) => findMatch(characters, { name }, true)?.name ?? name;
+    for (const character of characters) {
+        const byTarget = new Map<string, ImportedRelationship>();
+        for (const rel of character.relationships) {
+            const target = canonicalCharacter(rel.target);
+            if (normalizeName(target) === normalizeName(character.name)) continue;
+            const key = normalizeName(target);
+            const existing = byTarget.get(key);
+            if (existing) existing.description = mergeText(existing.description, rel.description);
+            else byTarget.set(key, { target, description: rel.description });
+        }
+        character.relationships = [...byTarget.values()];
+    }
+    for (const organisation of organisations) {
+        const byName = new Map<string, { name: string; role: string }>();
+        for (const member of organisation.members) {
+            const name = canonicalCharacter(member.name);
+            const existing = byName.get(normalizeName(name));
+            if (existing) existing.role = existing.role || member.role;
+            else byName.set(normalizeName(name), { name, role: member.role });
+        }
+        organisation.members = [...byName.values()];
+    }
+
+    return { characters, places, objects, organisations };
+}
+
+function knownNames(results: ChunkResult[]): string {
+    const names = new Map<string, string>();
+    for (const result of results) {
+        for (const item of [...result.characters, ...result.places, ...result.objects, ...result.organisations]) {
+            const key = normalizeName(item.name);
+            if (key && !names.has(key)) names.set(key, item.name);
+        }
+    }
+    return [...names.values()].slice(0, MAX_KNOWN_NAMES).join(', ');
+}
+
+// --- Pipeline ---
+
+const RESUME_HINT = 'Progress so far is saved; run the import again to resume.';
+const errorText = (error: unknown) => String((error as any)?.message || error).replace(/\.$/, '');
+
+const chunkId = (chunk: ManuscriptChunk) => `${chunk.chapter}.${chunk.part}`;
+
+function chapterSummary(chunks: ManuscriptChunk[], results: Record<string, ChunkResult>, chapter: number): string {
+    return chunks
+        .filter(c => c.chapter === chapter)
+        .map(c => results[chunkId(c)]?.summary || '')
+        .filter(Boolean)
+        .join(' ');
+}
+
+/**
+ * Analyses the manuscript, resuming from a checkpoint of an earlier attempt
+ * at the same text. The checkpoint is kept until clearImportCheckpoints is
+ * called, so a failure while writing the project can still resume.
+ */
+export async function analyseManuscript(projectRoot: string, chapters: ManuscriptChapter[], options: ImportPipelineOptions): Promise<ImportAnalysis> {
+    const chunks = chunkManuscript(chapters);
+    const key = checkpointKey(chapters, options);
+    const checkpoint = await readCheckpoint(projectRoot, key);
+    const total = chunks.length + 1;
+    const resumed = chunks.filter(c => checkpoint.chunks[chunkId(c)]).length + (checkpoint.synthesis ? 1 : 0);
+    let done = resumed;
+
+    const progress = (detail: string) => options.onProgress({ stage: 'analyzing', detail, chunk: { done, total, resumed } });
+
+    for (const chunk of chunks) {
+        const id = chunkId(chunk);
+        if (checkpoint.chunks[id]) continue;
+        if (options.signal.aborted) throw new DOMException('Import cancelled.', 'AbortError');
+
+        const title = chapters[chunk.chapter].title;
+        const position = chunk.parts > 1 ? `part ${chunk.part + 1} of ${chunk.parts}` : '';
+        progress(`Reading "${title}"${position ? ` (${position})` : ''}...`);
+
+        const prompt = renderPromptTemplate(options.chunkTemplate, {
+            text: chunk.text,
+            chapterTitle: title,
+            position,
+            knownNames: knownNames(Object.values(checkpoint.chunks)),
+        });
+        try {
+            checkpoint.chunks[id] = await generateJson(prompt, CHUNK_OUTPUT_TOKENS, options, toChunkResult);
+        } catch (error) {
+            if (options.signal.aborted) throw error;
+            throw new Error(`Could not analyse "${title}"${position ? ` (${position})` : ''}: ${errorText(error)}. ${RESUME_HINT}`);
+        }
+        await writeCheckpoint(projectRoot, checkpoint);
+        done++;
+    }
+
+    const results = chunks.map(c => checkpoint.chunks[chunkId(c)]);
+    const summaries = chapters.map((_, i) => chapterSummary(chunks, checkpoint.chunks, i));
+
+    if (!checkpoint.synthesis) {
+        if (options.signal.aborted) throw new DOMException('Import cancelled.', 'AbortError');
+        progress('Summarising plot and subplots...');
+        const candidates = results.flatMap(r => r.subplots).slice(0, MAX_SUBPLOT_CANDIDATES);
+        const prompt = renderPromptTemplate(options.synthesisTemplate, {
+            chapterSummaries: chapters.map((c, i) => `${c.title}: ${summaries[i] || '(no summary)'}`).join('\n'),
+            subplotCandidates: candidates.map(s => `- ${s.title}${s.description ? `: ${s.description}` : ''}`).join('\n'),
+        });
+        try {
+            checkpoint.synthesis = await generateJson(prompt, SYNTHESIS_OUTPUT_TOKENS, options, toSynthesis);
+        } catch (error) {
+            if (options.signal.aborted) throw error;
+            throw new Error(`Could not summarise the plot: ${errorText(error)}. ${RESUME_HINT}`);
+        }
+        await writeCheckpoint(projectRoot, checkpoint);
+        done++;
+    }
+
+    options.onProgress({ stage: 'parsing', detail: `Merging results from ${chunks.length} passages...`, chunk: { done, total, resumed } });
+    const merged = mergeChunkResults(results);
+
+    return {
+        chapters: chapters.map((chapter, i) => ({ title: chapter.title, html: chapterHtml(chapter), summary: summaries[i] })),
+        ...merged,
+        plot: checkpoint.synthesis.plot,
+        subplots: checkpoint.synthesis.subplots,
+    };
+}
+
+export async function clearImportCheckpoints(projectRoot: string) {
+    await fs.rm(path.join(projectRoot, '.auctor', 'import'), { recursive: true, force: true });
+}
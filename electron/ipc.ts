@@ -0,0 +1,33 @@
+import { ipcMain, type IpcMainEvent, type IpcMainInvokeEvent, type WebContents } from 'electron'
+import type {
+    EventArgs,
+    EventChannel,
+    InvokeArgs,
+    InvokeChannel,
+    InvokeResult,
+    SendArgs,
+    SendChannel,
+} from '../src/utils/ipcContract'
+
+// --- Typed IPC ---
+// Main-process side of src/utils/ipcContract.ts. Handlers and events go
+// through these wrappers instead of ipcMain and webContents directly, so a
+// handler whose arguments or result drift from the contract fails to compile.
+
+/** Registers the handler for a request/response channel. */
+export function handle<C extends InvokeChannel>(
+    channel: C,
+    handler: (event: IpcMainInvokeEvent, ...args: InvokeArgs<C>) => InvokeResult<C> | Promise<InvokeResult<C>>,
+) {
+    ipcMain.handle(channel, (event, ...args) => handler(event, ...(args as InvokeArgs<C>)));
+}
+
+/** Listens for a one-way message from the renderer. */
+export function listen<C extends SendChannel>(channel: C, listener: (event: IpcMainEvent, ...args: SendArgs<C>) => void) {
+    ipcMain.on(channel, (event, ...args) => listener(event, ...(args as SendArgs<C>)));
+}
+
+/** Sends an event to a renderer; does nothing when there is no window. */
+export function emit<C extends EventChannel>(target: WebContents | null | undefined, channel: C, ...args: EventArgs<C>) {
+    if (target && !target.isDestroyed()) target.send(channel, ...args);
+}
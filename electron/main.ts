@@ -1,19 +1,48 @@
-import { app, BrowserWindow, ipcMain, dialog, Menu, MenuItemConstructorOptions } from 'electron'
+import { app, BrowserWindow, dialog, Menu, MenuItemConstructorOptions } from 'electron'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
 import fs from 'node:fs/promises'
-import { createOpenAI } from '@ai-sdk/openai';
-import { createGoogleGenerativeAI } from '@ai-sdk/google';
-import { createAnthropic } from '@ai-sdk/anthropic';
-import { streamText, generateText, LanguageModel, tool, stepCountIs } from 'ai';
+import { streamText, stepCountIs, LanguageModelUsage, ModelMessage } from 'ai';
 import { config } from 'dotenv';
-import { z } from 'zod';
-import PDFDocument from 'pdfkit';
 import { createWriteStream, createReadStream } from 'node:fs'; // Use fs directly for streams
 import { updateElectronApp } from 'update-electron-app';
 import archiver from 'archiver';
 import * as unzipper from 'unzipper';
 import os from 'node:os';
+import { AI_PROVIDERS, describeAIProviders, listProviderModels, readProviderSettings, resolveAIModel, updateEnvValue } from './aiProviders';
+import { beginAIRequest, cancelAIRequest, cancelAllAIRequests, isAbortError } from './aiRequests';
+import { prepareChatMessages, sanitizeResponseMessages } from './chatHistory';
+import { createAssistantTools } from './assistantTools';
+import { buildAIContext, ContextRequest, DEFAULT_CONTEXT_TOKEN_BUDGET } from './contextBuilder';
+import { DEFAULT_EMBEDDING_BACKEND_ID, describeEmbeddingBackends } from './embeddings';
+import { rebuildRetrievalIndex, resetRetrievalIndex, scheduleRetrievalIndexUpdate } from './retrievalIndex';
+import { buildUsageReport, normalizePriceTable, recordUsage, usageFromSteps, UsageFeature } from './usageLedger';
+import { readPromptLibrary, savePromptLibrary } from './promptLibrary';
+import { analyseManuscript, clearImportCheckpoints, ImportAnalysis, ImportProgress } from './importPipeline';
+import { applyImportDecisions, buildImportPreview, ImportDecision, ImportPreviewItem } from './importMerge';
+import { IMPORT_FILE_EXTENSIONS, readManuscript } from './manuscriptReaders';
+import { readScrivenerProject } from './scrivenerImport';
+import { applyExportProfile, loadManuscript } from './manuscriptExport';
+import { writeManuscriptPdf } from './pdfExport';
+import { EPUB_COVER_EXTENSIONS, writeManuscriptEpub } from './epubExport';
+import { normalizePdfExportOptions } from '../src/utils/pdfExportOptions';
+import { writeManuscriptDocx } from './docxExport';
+import { normalizeDocxExportOptions } from '../src/utils/docxExportOptions';
+import { normalizeAutosaveOptions } from '../src/utils/autosaveOptions';
+import { EXPORT_FORMATS, ExportProfile, normalizeExportProfile, normalizeExportProfiles } from '../src/utils/exportProfiles';
+import { listChaptersInOrder } from './chapters';
+import { emit, handle, listen } from './ipc';
+import { isTemporaryFile, recordOwnWrite, writeFileAtomic } from './atomicWrite';
+import { watchProject } from './projectWatcher';
+import { clearUnsavedBuffers, readRecoveredBuffers, setUnsavedBuffer, UnsavedBuffer, unsavedBuffers } from './unsavedBuffers';
+import { AuctorConfig, configPath, CorruptConfigError, readConfigBackup, readProjectConfig, recoverProjectConfig, updateProjectConfig, writeProjectConfig } from './projectConfig';
+import { checkFileName, fileErrorResult, isSameFile, requireAbsent, requireExisting, resolveProjectFile, resolveProjectPath } from './projectFiles';
+import { PROJECT_CATEGORIES, sanitizeFilenamePart } from '../src/utils/projectFiles';
+import type { ChatHistoryMessage, GenerateAICompletionRequest, ImportStage, IpcFailure, RefineTextRequest, RewriteTextRequest } from '../src/utils/ipcContract';
+import { loadStoryBible, storyBibleHtml } from './storyBible';
+import { writeStoryBiblePdf } from './storyBiblePdf';
+import { findPromptTemplate, getBuiltInPromptTemplate, resolvePromptTemplates } from '../src/utils/promptTemplates';
+import { deleteChatSession, findPinnedChatSession, listChatSessions, pinChatSession, readChatSession, renameChatSession, repinChatSessions, saveChatSession } from './chatSessions';
 
 // Auto-update via update.electronjs.org
 updateElectronApp();
@@ -29,14 +58,6 @@ let win: BrowserWindow | null
 let isEditorSelected = false
 const RECENT_PROJECTS_FILE = path.join(app.getPath('userData'), 'recent_projects.json');
 
-type AuctorConfig = {
-    settings?: {
-        chapterOrder?: string[];
-        [key: string]: any;
-    };
-    [key: string]: any;
-};
-
 // Ensure project root exists
 fs.mkdir(PROJECT_ROOT, { recursive: true }).catch(console.error)
 
@@ -53,47 +74,150 @@ async function getRecentProjects(): Promise<string[]> {
 async function addToRecentProjects(projectPath: string) {
     let recent = await getRecentProjects();
     recent = [projectPath, ...recent.filter(p => p !== projectPath)].slice(0, 10);
-    await fs.writeFile(RECENT_PROJECTS_FILE, JSON.stringify(recent), 'utf-8');
+    await writeFileAtomic(RECENT_PROJECTS_FILE, JSON.stringify(recent));
     updateMenu();
 }
 
 async function loadProject(projectPath: string) {
+    if (!(await resolveUnsavedChanges('opening another project'))) return;
+    cancelAllAIRequests();
+    resetRetrievalIndex();
+    discardPendingImports();
     PROJECT_ROOT = projectPath;
+    watchCurrentProject();
     await addToRecentProjects(projectPath);
     if (win) {
         win.reload();
     }
 }
 
-async function readAuctorConfig(): Promise<AuctorConfig> {
-    const auctorPath = path.join(PROJECT_ROOT, 'auctor.json');
+// Tells the renderer about changes made to the open project by other programs
+let stopWatchingProject: (() => void) | null = null;
+
+function watchCurrentProject() {
+    stopWatchingProject?.();
+    const projectRoot = PROJECT_ROOT;
+    stopWatchingProject = watchProject(projectRoot, changes => {
+        for (const change of changes) scheduleRetrievalIndexUpdate(projectRoot, change.path);
+        emit(win?.webContents, 'project-files-changed', changes);
+    });
+}
+
+// --- Project Config ---
+// A damaged auctor.json is never read as empty settings: the author is asked
+// once whether to restore the last saved copy or start with empty settings,
+// and the operation is retried afterwards. Cancelling fails the operation.
+let configRecoveryPrompt: Promise<boolean> | null = null;
+
+async function promptConfigRecovery(error: CorruptConfigError): Promise<boolean> {
+    const hasBackup = (await readConfigBackup(PROJECT_ROOT)) !== null;
+    const choices: Array<'backup' | 'empty' | null> = hasBackup ? ['backup', 'empty', null] : ['empty', null];
+    const options = {
+        type: 'warning' as const,
+        title: 'Project Settings Damaged',
+        message: 'The project settings file (auctor.json) is damaged and cannot be read.',
+        detail: `${error.reason}\n\nThe damaged file will be kept next to it so nothing is lost. `
+            + (hasBackup
+                ? 'You can restore the settings as they were last saved, or start with empty settings (the chapter order and other settings will need to be set again).'
+                : 'There is no saved copy to restore; you can start with empty settings (the chapter order and other settings will need to be set again).'),
+        buttons: hasBackup
+            ? ['Restore Last Saved Copy', 'Start With Empty Settings', 'Cancel']
+            : ['Start With Empty Settings', 'Cancel'],
+        defaultId: 0,
+        cancelId: choices.length - 1,
+        noLink: true
+    };
+    const { response } = win ? await dialog.showMessageBox(win, options) : await dialog.showMessageBox(options);
+    const source = choices[response];
+    if (!source) return false;
     try {
-        const data = await fs.readFile(auctorPath, 'utf-8');
-        return JSON.parse(data);
-    } catch {
-        return {};
+        const corruptPath = await recoverProjectConfig(PROJECT_ROOT, source);
+        console.warn(`Recovered auctor.json from ${source}; the damaged file was kept as ${corruptPath}`);
+        return true;
+    } catch (recoveryError) {
+        dialog.showErrorBox('Recovery Failed', String(recoveryError));
+        return false;
     }
 }
 
+async function withConfigRecovery<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+        return await operation();
+    } catch (error) {
+        if (!(error instanceof CorruptConfigError)) throw error;
+        // Several handlers may hit the damaged file at once; ask only once
+        configRecoveryPrompt ??= promptConfigRecovery(error).finally(() => { configRecoveryPrompt = null; });
+        if (!(await configRecoveryPrompt)) throw error;
+        return operation();
+    }
+}
+
+function readAuctorConfig(): Promise<AuctorConfig> {
+    return withConfigRecovery(() => readProjectConfig(PROJECT_ROOT));
+}
+
+function updateAuctorConfig(update: (configData: AuctorConfig) => void): Promise<AuctorConfig> {
+    return withConfigRecovery(() => updateProjectConfig(PROJECT_ROOT, update));
+}
+
+// --- Unsaved Changes ---
+/** Writes a project file given by its `<category>/<name>` path, as save-file does. */
+async function saveProjectFile(relativePath: string, content: string) {
+    const file = await resolveProjectPath(PROJECT_ROOT, relativePath);
+    // Saving creates the file again if it was deleted meanwhile; a new file needs a valid name
+    if (!(await pathExists(file.filePath))) checkFileName(file.name);
+    await writeFileAtomic(file.filePath, content);
+    scheduleRetrievalIndexUpdate(PROJECT_ROOT, file.relativePath);
+}
+
+/**
+ * Before `action` (closing the window, opening another project) would lose
+ * the renderer's unsaved edits, asks whether to save them. True when it may
+ * go ahead: there were none, they were saved, or the author discarded them.
+ */
+async function resolveUnsavedChanges(action: string): Promise<boolean> {
+    const buffers = unsavedBuffers(PROJECT_ROOT);
+    if (buffers.length === 0) return true;
+
+    const options = {
+        type: 'warning' as const,
+        title: 'Unsaved Changes',
+        message: buffers.length === 1
+            ? `Do you want to save the changes to ${buffers[0].path} before ${action}?`
+            : `Do you want to save the changes to ${buffers.length} files before ${action}?`,
+        detail: buffers.length === 1 ? 'Your changes will be lost if you don\'t save them.' : buffers.map(b => b.path).join('\n'),
+        buttons: ['Save', 'Don\'t Save', 'Cancel'],
+        defaultId: 0,
+        cancelId: 2,
+        noLink: true
+    };
+    const { response } = win ? await dialog.showMessageBox(win, options) : await dialog.showMessageBox(options);
+    if (response === 2) return false;
+
+    if (response === 0) {
+        for (const buffer of buffers) {
+            try {
+                await saveProjectFile(buffer.path, buffer.content);
+            } catch (error) {
+                console.error('Error saving unsaved changes:', error);
+                dialog.showErrorBox('Save Failed', `${buffer.path} could not be saved: ${fileErrorResult(error).error}`);
+                return false;
+            }
+        }
+    }
+    await clearUnsavedBuffers(PROJECT_ROOT);
+    return true;
+}
+
 async function projectIsLoaded(): Promise<boolean> {
     try {
-        await fs.access(path.join(PROJECT_ROOT, 'auctor.json'));
+        await fs.access(configPath(PROJECT_ROOT));
         return true;
     } catch {
         return false;
     }
 }
 
-function sanitizeFilenamePart(input: string): string {
-    const cleaned = (input || '')
-        .replace(/[<>:"/\\|?*\x00-\x1F]/g, '')
-        .replace(/\s+/g, ' ')
-        .trim()
-        .replace(/[. ]+$/g, '')
-        .slice(0, 120);
-    return cleaned.length > 0 ? cleaned : 'Auctor Project';
-}
-
 function formatLocalTimestampForFilename(date: Date): string {
     const pad = (n: number) => String(n).padStart(2, '0');
     return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
@@ -145,6 +269,8 @@ async function restoreProjectFromBackupZip(window: BrowserWindow) {
     if (open.canceled || open.filePaths.length === 0) return;
     const zipPath = open.filePaths[0];
 
+    if (!(await resolveUnsavedChanges('restoring a backup'))) return;
+
     const confirm = await dialog.showMessageBox(window, {
         type: 'warning',
         title: 'Confirm Restore',
@@ -203,6 +329,8 @@ async function restoreProjectFromBackupZip(window: BrowserWindow) {
             // @ts-ignore
             await fs.cp(src, dest, { recursive: true, force: true });
         }
+        // Edits made before the restore must not come back as recovered changes after the reload
+        await clearUnsavedBuffers(PROJECT_ROOT);
 
         await dialog.showMessageBox(window, {
             type: 'info',
@@ -210,6 +338,8 @@ async function restoreProjectFromBackupZip(window: BrowserWindow) {
             message: 'Project restored successfully.'
         });
 
+        cancelAllAIRequests();
+        resetRetrievalIndex();
         if (win) {
             win.reload();
         }
@@ -269,7 +399,9 @@ async function createProjectBackup(window: BrowserWindow) {
     archive.glob('**/*', {
         cwd: PROJECT_ROOT,
         dot: true,
-        ignore: ['**/* - Backup - *.zip']
+        // The retrieval index is derived from the project files and rebuilt on demand;
+        // unsaved edits belong to this session, not to a restored project
+        ignore: ['**/* - Backup - *.zip', '.auctor/index/**', '.auctor/recovery.json']
     }, {
         prefix: projectFolderName
     });
@@ -285,11 +417,6 @@ async function createProjectBackup(window: BrowserWindow) {
     });
 }
 
-async function writeAuctorConfig(configData: AuctorConfig) {
-    const auctorPath = path.join(PROJECT_ROOT, 'auctor.json');
-    await fs.writeFile(auctorPath, JSON.stringify(configData, null, 2), 'utf-8');
-}
-
 async function getChapterOrder(): Promise<string[]> {
     const configData = await readAuctorConfig();
     return Array.isArray(configData.settings?.chapterOrder)
@@ -299,10 +426,9 @@ async function getChapterOrder(): Promise<string[]> {
 
 async function setChapterOrder(order: string[]) {
     const normalizedOrder = Array.from(new Set(order.filter(name => typeof name === 'string' && name.trim().length > 0)));
-    const configData = await readAuctorConfig();
-    configData.settings = configData.settings || {};
-    configData.settings.chapterOrder = normalizedOrder;
-    await writeAuctorConfig(configData);
+    await updateAuctorConfig(configData => {
+        configData.settings = { ...configData.settings, chapterOrder: normalizedOrder };
+    });
 }
 
 // --- Menu Logic ---
@@ -333,7 +459,7 @@ async function updateMenu() {
                 accelerator: 'CmdOrCtrl+F',
                 click: () => {
                     if (win) {
-                        win.webContents.send('editor-find');
+                        emit(win.webContents, 'editor-find');
                     }
                 }
             },
@@ -342,7 +468,7 @@ async function updateMenu() {
                 accelerator: 'F3',
                 click: () => {
                     if (win) {
-                        win.webContents.send('editor-find-next');
+                        emit(win.webContents, 'editor-find-next');
                     }
                 }
             },
@@ -351,7 +477,7 @@ async function updateMenu() {
                 accelerator: 'Shift+F3',
                 click: () => {
                     if (win) {
-                        win.webContents.send('editor-find-previous');
+                        emit(win.webContents, 'editor-find-previous');
                     }
                 }
             },
@@ -360,7 +486,7 @@ async function updateMenu() {
                 accelerator: 'CmdOrCtrl+H',
                 click: () => {
                     if (win) {
-                        win.webContents.send('editor-replace');
+                        emit(win.webContents, 'editor-replace');
                     }
                 }
             },
@@ -369,7 +495,7 @@ async function updateMenu() {
                 accelerator: 'CmdOrCtrl+Shift+H',
                 click: () => {
                     if (win) {
-                        win.webContents.send('editor-replace-selection');
+                        emit(win.webContents, 'editor-replace-selection');
                     }
                 }
             }
@@ -387,7 +513,7 @@ async function updateMenu() {
                         console.log("Main: New Project menu clicked");
                         if (win) {
                             console.log("Main: Sending new-project event");
-                            win.webContents.send('new-project');
+                            emit(win.webContents, 'new-project');
                         } else {
                             console.error("Main: Window is null!");
                         }
@@ -407,12 +533,19 @@ async function updateMenu() {
                     }
                 },
                 {
-                   label: 'Export to PDF...',
-                   click: async () => {
-                       if (win) {
-                           await exportToPDF(win);
-                       }
-                   }
+                    label: 'Export...',
+                    accelerator: 'CmdOrCtrl+E',
+                    click: () => {
+                        if (win) emit(win.webContents, 'open-export');
+                    }
+                },
+                {
+                    label: 'Export Story Bible...',
+                    click: async () => {
+                        if (win) {
+                            await exportStoryBible(win);
+                        }
+                    }
                 },
                 {
                     label: 'Backup',
@@ -446,10 +579,23 @@ async function updateMenu() {
                         if (!win) return;
                         const result = await dialog.showOpenDialog(win, {
                             properties: ['openFile'],
-                            filters: [{ name: 'Text Files', extensions: ['txt', 'md', 'text'] }]
+                            filters: [{ name: 'Manuscripts', extensions: IMPORT_FILE_EXTENSIONS }]
                         });
                         if (!result.canceled && result.filePaths.length > 0) {
-                            win.webContents.send('import-text-start', result.filePaths[0]);
+                            emit(win.webContents, 'import-text-start', result.filePaths[0]);
+                        }
+                    }
+                },
+                {
+                    label: 'Import Scrivener Project...',
+                    click: async () => {
+                        if (!win) return;
+                        // macOS shows a .scriv package as a file; elsewhere it is a plain folder
+                        const result = await dialog.showOpenDialog(win, process.platform === 'darwin'
+                            ? { properties: ['openFile'], filters: [{ name: 'Scrivener Projects', extensions: ['scriv'] }] }
+                            : { properties: ['openDirectory'], title: 'Select a Scrivener project (.scriv) folder' });
+                        if (!result.canceled && result.filePaths.length > 0) {
+                            emit(win.webContents, 'import-scrivener-start', result.filePaths[0]);
                         }
                     }
                 },
@@ -457,7 +603,7 @@ async function updateMenu() {
                     label: 'Save',
                     accelerator: 'CmdOrCtrl+S',
                     click: () => {
-                        if (win) win.webContents.send('save-current-file');
+                        if (win) emit(win.webContents, 'save-current-file');
                     }
                 },
                 {
@@ -486,7 +632,7 @@ async function updateMenu() {
                 { 
                    label: 'Project Settings...',
                    click: () => {
-                       if (win) win.webContents.send('open-settings');
+                       if (win) emit(win.webContents, 'open-settings');
                    }
                 },
                 { type: 'separator' },
@@ -499,7 +645,11 @@ async function updateMenu() {
     Menu.setApplicationMenu(menu);
 }
 
-ipcMain.on('editor-selected-changed', (_, isSelected: boolean) => {
+listen('update-unsaved-buffer', (_, relativePath: string, content: string | null) => {
+    setUnsavedBuffer(PROJECT_ROOT, relativePath, content);
+});
+
+listen('editor-selected-changed', (_, isSelected: boolean) => {
     if (isEditorSelected === isSelected) {
         return;
     }
@@ -509,7 +659,7 @@ ipcMain.on('editor-selected-changed', (_, isSelected: boolean) => {
 });
 
 // --- IPC Handlers ---
-ipcMain.handle('select-directory', async () => {
+handle('select-directory', async () => {
   const result = await dialog.showOpenDialog(win!, {
     properties: ['openDirectory']
   });
@@ -519,8 +669,20 @@ ipcMain.handle('select-directory', async () => {
   return null;
 });
 
-ipcMain.handle('create-project', async (_, projectData: { name: string; location: string; overview: string }) => {
+handle('select-cover-image', async () => {
+  const result = await dialog.showOpenDialog(win!, {
+    properties: ['openFile'],
+    filters: [{ name: 'Images', extensions: EPUB_COVER_EXTENSIONS }]
+  });
+  if (result.canceled || result.filePaths.length === 0) return null;
+  // Images inside the project are stored relative to it, so the project can move
+  const relative = path.relative(PROJECT_ROOT, result.filePaths[0]);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative.split(path.sep).join('/') : result.filePaths[0];
+});
+
+handle('create-project', async (_, projectData: { name: string; location: string; overview: string }) => {
   try {
+    if (!(await resolveUnsavedChanges('creating another project'))) return { success: false, cancelled: true };
     const projectPath = path.join(projectData.location, projectData.name);
     
     // 1. Create Subdirectories
@@ -544,13 +706,17 @@ ipcMain.handle('create-project', async (_, projectData: { name: string; location
                                 backupDirectory: projectPath
       }
     };
-    await fs.writeFile(path.join(projectPath, 'auctor.json'), JSON.stringify(settings, null, 2), 'utf-8');
+    await writeProjectConfig(projectPath, settings);
 
     // 2.5 Create .env file
-    await fs.writeFile(path.join(projectPath, '.env'), 'OPENAI_API_KEY=', 'utf-8');
+    await writeFileAtomic(path.join(projectPath, '.env'), 'OPENAI_API_KEY=');
 
     // 3. Update Global Project Root
+    cancelAllAIRequests();
+    resetRetrievalIndex();
+    discardPendingImports();
     PROJECT_ROOT = projectPath;
+    watchCurrentProject();
     await addToRecentProjects(projectPath);
 
     return { success: true, path: projectPath };
@@ -560,17 +726,17 @@ ipcMain.handle('create-project', async (_, projectData: { name: string; location
   }
 });
 
-ipcMain.handle('get-files', async () => {
+handle('get-files', async () => {
     try {
-        const categories = ['Chapters', 'Characters', 'Places', 'Objects', 'Organisations'];
         let allFiles: any[] = [];
 
-        for (const category of categories) {
+        for (const category of PROJECT_CATEGORIES) {
             const dirPath = path.join(PROJECT_ROOT, category);
             // Ensure directory exists
             await fs.mkdir(dirPath, { recursive: true });
             
-            const files = await fs.readdir(dirPath);
+            // Skip the temporary files of saves in progress
+            const files = (await fs.readdir(dirPath)).filter(f => !isTemporaryFile(f));
             const categoryFiles = files.map(f => ({
                 name: f,
                 path: path.join(category, f),
@@ -588,11 +754,11 @@ ipcMain.handle('get-files', async () => {
     }
 })
 
-ipcMain.handle('get-chapter-order', async () => {
+handle('get-chapter-order', async () => {
     try {
         const chaptersDir = path.join(PROJECT_ROOT, 'Chapters');
         await fs.mkdir(chaptersDir, { recursive: true });
-        const chapterFiles = await fs.readdir(chaptersDir);
+        const chapterFiles = (await fs.readdir(chaptersDir)).filter(f => !isTemporaryFile(f));
         const chapterFileSet = new Set(chapterFiles);
 
         const savedOrder = await getChapterOrder();
@@ -611,7 +777,7 @@ ipcMain.handle('get-chapter-order', async () => {
     }
 });
 
-ipcMain.handle('set-chapter-order', async (_, order: string[]) => {
+handle('set-chapter-order', async (_, order: string[]) => {
     try {
         if (!Array.isArray(order)) {
             return { success: false, error: 'Order must be an array of chapter file names.' };
@@ -619,7 +785,7 @@ ipcMain.handle('set-chapter-order', async (_, order: string[]) => {
 
         const chaptersDir = path.join(PROJECT_ROOT, 'Chapters');
         await fs.mkdir(chaptersDir, { recursive: true });
-        const chapterFiles = await fs.readdir(chaptersDir);
+        const chapterFiles = (await fs.readdir(chaptersDir)).filter(f => !isTemporaryFile(f));
         const chapterFileSet = new Set(chapterFiles);
 
         const filteredProvided = Array.from(new Set(order)).filter(name => chapterFileSet.has(name));
@@ -634,95 +800,93 @@ ipcMain.handle('set-chapter-order', async (_, order: string[]) => {
     }
 });
 
-ipcMain.handle('create-file', async (_, fileName: string, content: string = '', category: string = 'Chapters') => {
+handle('create-file', async (_, fileName: string, content: string = '', category: string = 'Chapters') => {
     try {
-        const categoryDir = path.join(PROJECT_ROOT, category);
-        await fs.mkdir(categoryDir, { recursive: true });
-        const filePath = path.join(categoryDir, fileName);
-        await fs.writeFile(filePath, content, 'utf-8')
-
-        if (category === 'Chapters') {
+        const file = await resolveProjectFile(PROJECT_ROOT, category, fileName);
+        await fs.mkdir(path.dirname(file.filePath), { recursive: true });
+        await requireAbsent(file);
+        // Exclusive fails instead of overwriting a file created since the check
+        await writeFileAtomic(file.filePath, content, { exclusive: true });
+        scheduleRetrievalIndexUpdate(PROJECT_ROOT, file.relativePath);
+
+        if (file.category === 'Chapters') {
             const currentOrder = await getChapterOrder();
-            if (!currentOrder.includes(fileName)) {
-                await setChapterOrder([...currentOrder, fileName]);
+            if (!currentOrder.includes(file.name)) {
+                await setChapterOrder([...currentOrder, file.name]);
             }
         }
 
-        return { success: true, path: filePath }
+        return { success: true, path: file.filePath }
     } catch (error) {
         console.error('Error creating file:', error)
-        return { success: false, error: String(error) }
+        return fileErrorResult(error)
     }
 })
 
-ipcMain.handle('delete-file', async (_, fileName: string, category: string) => {
+handle('delete-file', async (_, fileName: string, category: string) => {
     try {
-        // If category is provided, use it. Otherwise fallback to scan (for backward compat if needed, but UI should provide it)
-        if (category) {
-            const filePath = path.join(PROJECT_ROOT, category, fileName);
-            await fs.unlink(filePath);
-
-            if (category === 'Chapters') {
-                const currentOrder = await getChapterOrder();
-                await setChapterOrder(currentOrder.filter(name => name !== fileName));
-            }
+        const file = await resolveProjectFile(PROJECT_ROOT, category, fileName, true);
+        await requireExisting(file);
+        await fs.unlink(file.filePath);
+        scheduleRetrievalIndexUpdate(PROJECT_ROOT, file.relativePath);
 
-            return { success: true };
-        }
-        
-        // Fallback scan (legacy)
-        const categories = ['Chapters', 'Characters', 'Places', 'Objects', 'Organisations'];
-        for (const cat of categories) {
-             try {
-                 await fs.unlink(path.join(PROJECT_ROOT, cat, fileName));
-                 return { success: true };
-             } catch {}
+        if (file.category === 'Chapters') {
+            const currentOrder = await getChapterOrder();
+            await setChapterOrder(currentOrder.filter(name => name !== file.name));
+            await repinChatSessions(PROJECT_ROOT, file.name, null);
         }
 
-        throw new Error('File not found');
+        return { success: true };
     } catch (error) {
          console.error('Error deleting file:', error)
-         return { success: false, error: String(error) }
+         return fileErrorResult(error)
     }
 })
 
-ipcMain.handle('rename-file', async (_, oldName: string, newName: string, category: string) => {
+handle('rename-file', async (_, oldName: string, newName: string, category: string) => {
      try {
-        // If category is provided
-        const subfolder = category || (oldName.endsWith('.json') ? 'Characters' : 'Chapters');
-        
-        const oldPath = path.join(PROJECT_ROOT, subfolder, oldName);
-        const newPath = path.join(PROJECT_ROOT, subfolder, newName); // stay in same folder
-        await fs.rename(oldPath, newPath)
-
-        if (subfolder === 'Chapters') {
+        // Files are renamed within their folder
+        const from = await resolveProjectFile(PROJECT_ROOT, category, oldName, true);
+        const to = await resolveProjectFile(PROJECT_ROOT, category, newName);
+        if (from.name === to.name) return { success: true };
+        await requireExisting(from);
+        // A change of case only is the same file on case-insensitive file systems;
+        // on others the new name may belong to another file
+        if (!(await isSameFile(from.filePath, to.filePath))) await requireAbsent(to);
+        await fs.rename(from.filePath, to.filePath)
+        await recordOwnWrite(to.filePath);
+        scheduleRetrievalIndexUpdate(PROJECT_ROOT, from.relativePath);
+        scheduleRetrievalIndexUpdate(PROJECT_ROOT, to.relativePath);
+
+        if (from.category === 'Chapters') {
             const currentOrder = await getChapterOrder();
-            const renamedOrder = currentOrder.map(name => name === oldName ? newName : name);
-            if (!renamedOrder.includes(newName)) {
-                renamedOrder.push(newName);
+            const renamedOrder = currentOrder.map(name => name === from.name ? to.name : name);
+            if (!renamedOrder.includes(to.name)) {
+                renamedOrder.push(to.name);
             }
             await setChapterOrder(renamedOrder);
+            await repinChatSessions(PROJECT_ROOT, from.name, to.name);
         }
 
         return { success: true }
     } catch (error) {
         console.error('Error renaming file:', error)
-        return { success: false, error: String(error) }
+        return fileErrorResult(error)
     }
 })
 
-ipcMain.handle('read-file', async (_, relativePath: string) => {
+handle('read-file', async (_, relativePath: string) => {
     try {
-        const filePath = path.join(PROJECT_ROOT, relativePath);
-        const content = await fs.readFile(filePath, 'utf-8');
+        const file = await resolveProjectPath(PROJECT_ROOT, relativePath);
+        const content = await fs.readFile(file.filePath, 'utf-8');
         return { success: true, content };
     } catch (error) {
         console.error('Error reading file:', error);
-        return { success: false, error: String(error) };
+        return fileErrorResult(error);
     }
 });
 
-ipcMain.handle('list-characters', async () => {
+handle('list-characters', async () => {
     try {
         const charsDir = path.join(PROJECT_ROOT, 'Characters');
         await fs.mkdir(charsDir, { recursive: true });
@@ -745,38 +909,55 @@ ipcMain.handle('list-characters', async () => {
     }
 });
 
-ipcMain.handle('get-project-settings', async () => {
+handle('restore-unsaved-buffers', async () => {
     try {
-        const auctorPath = path.join(PROJECT_ROOT, 'auctor.json');
-        const envPath = path.join(PROJECT_ROOT, '.env');
-
-        // Read auctor.json
-        const auctorContent = await fs.readFile(auctorPath, 'utf-8');
-        const auctorData = JSON.parse(auctorContent);
-
-        // Read .env
-        let apiKey = '';
-        let googleApiKey = '';
-        let xaiApiKey = '';
-        let anthropicApiKey = '';
-        try {
-            const envContent = await fs.readFile(envPath, 'utf-8');
-            
-            const matchOpenAI = envContent.match(/OPENAI_API_KEY=(.*)/);
-            if (matchOpenAI) apiKey = matchOpenAI[1].trim();
-
-            const matchGoogle = envContent.match(/GOOGLE_GENERATIVE_AI_API_KEY=(.*)/);
-            if (matchGoogle) googleApiKey = matchGoogle[1].trim();
+        const buffers: UnsavedBuffer[] = [];
+        for (const buffer of await readRecoveredBuffers(PROJECT_ROOT)) {
+            // A buffer the file already matches was saved after all
+            try {
+                const file = await resolveProjectPath(PROJECT_ROOT, buffer.path);
+                if (await fs.readFile(file.filePath, 'utf-8') === buffer.content) continue;
+            } catch (error) {
+                // Files deleted since can still be restored; paths outside the project cannot
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') continue;
+            }
+            buffers.push(buffer);
+        }
+        if (buffers.length === 0) {
+            await clearUnsavedBuffers(PROJECT_ROOT);
+            return { success: true, buffers };
+        }
 
-            const matchXAI = envContent.match(/XAI_API_KEY=(.*)/);
-            if (matchXAI) xaiApiKey = matchXAI[1].trim();
+        const options = {
+            type: 'question' as const,
+            title: 'Restore Unsaved Changes',
+            message: buffers.length === 1
+                ? `Auctor closed before the changes to ${buffers[0].path} were saved. Do you want to restore them?`
+                : `Auctor closed before the changes to ${buffers.length} files were saved. Do you want to restore them?`,
+            detail: buffers.map(b => b.path).join('\n'),
+            buttons: ['Restore', 'Discard'],
+            defaultId: 0,
+            cancelId: 0,
+            noLink: true
+        };
+        const { response } = win ? await dialog.showMessageBox(win, options) : await dialog.showMessageBox(options);
+        if (response === 1) {
+            await clearUnsavedBuffers(PROJECT_ROOT);
+            return { success: true, buffers: [] };
+        }
+        return { success: true, buffers };
+    } catch (error) {
+        console.error('Error restoring unsaved changes:', error);
+        return { success: false, error: String(error) };
+    }
+});
 
-            const matchAnthropic = envContent.match(/ANTHROPIC_API_KEY=(.*)/);
-            if (matchAnthropic) anthropicApiKey = matchAnthropic[1].trim();
+handle('get-project-settings', async () => {
+    try {
+        const auctorData = await readAuctorConfig();
 
-        } catch {
-            // env might not exist, that's fine
-        }
+        // Provider selection, models and keys (from .env)
+        const providerSettings = await readProviderSettings(PROJECT_ROOT, auctorData.settings);
 
         return {
             success: true,
@@ -784,6 +965,8 @@ ipcMain.handle('get-project-settings', async () => {
                 title: auctorData.settings?.title || '',
                 subtitle: auctorData.settings?.subtitle || '',
                 author: auctorData.settings?.author || '',
+                language: auctorData.settings?.language || 'en',
+                coverImage: auctorData.settings?.coverImage || '',
                 plot: auctorData.settings?.plot || '',
                 subplots: Array.isArray(auctorData.settings?.subplots) ? auctorData.settings.subplots : [],
                 theme: auctorData.settings?.theme || 'dark', // default fallbacks
@@ -792,15 +975,15 @@ ipcMain.handle('get-project-settings', async () => {
                 backupDirectory: (typeof auctorData.settings?.backupDirectory === 'string' && auctorData.settings.backupDirectory.trim().length > 0)
                     ? auctorData.settings.backupDirectory
                     : PROJECT_ROOT,
-                aiProvider: auctorData.settings?.aiProvider || 'openai',
-                openaiModel: auctorData.settings?.openaiModel || 'gpt-4-turbo',
-                googleModel: auctorData.settings?.googleModel || 'models/gemini-2.0-flash-exp',
-                anthropicModel: auctorData.settings?.anthropicModel || 'claude-sonnet-4-20250514',
-                xaiModel: auctorData.settings?.xaiModel || 'grok-beta',
-                apiKey,
-                googleApiKey,
-                xaiApiKey,
-                anthropicApiKey
+                contextTokenBudget: Number(auctorData.settings?.contextTokenBudget) || DEFAULT_CONTEXT_TOKEN_BUDGET,
+                embeddingBackend: auctorData.settings?.embeddingBackend || DEFAULT_EMBEDDING_BACKEND_ID,
+                embeddingModel: auctorData.settings?.embeddingModel || '',
+                aiPrices: normalizePriceTable(auctorData.settings?.aiPrices),
+                monthlyBudget: Number(auctorData.settings?.monthlyBudget) || 0,
+                pdfExport: normalizePdfExportOptions(auctorData.settings?.pdfExport),
+                docxExport: normalizeDocxExportOptions(auctorData.settings?.docxExport),
+                autosave: normalizeAutosaveOptions(auctorData.settings?.autosave),
+                ...providerSettings
             }
         };
     } catch (error) {
@@ -809,35 +992,44 @@ ipcMain.handle('get-project-settings', async () => {
     }
 });
 
-ipcMain.handle('save-project-settings', async (_, newSettings: any) => {
+handle('save-project-settings', async (_, newSettings: any) => {
     try {
-        const auctorPath = path.join(PROJECT_ROOT, 'auctor.json');
         const envPath = path.join(PROJECT_ROOT, '.env');
 
         // Update auctor.json
-        const auctorContent = await fs.readFile(auctorPath, 'utf-8');
-        const auctorData = JSON.parse(auctorContent);
-        
-        auctorData.settings = {
-            ...auctorData.settings,
-            title: newSettings.title || '',
-            subtitle: newSettings.subtitle || '',
-            author: newSettings.author || '',
-            plot: newSettings.plot || '',
-            subplots: Array.isArray(newSettings.subplots) ? newSettings.subplots : [],
-            theme: newSettings.theme,
-            fontFamily: newSettings.fontFamily,
-            fontSize: newSettings.fontSize,
-            backupDirectory: (typeof newSettings.backupDirectory === 'string' && newSettings.backupDirectory.trim().length > 0)
-                ? newSettings.backupDirectory.trim()
-                : PROJECT_ROOT,
-            aiProvider: newSettings.aiProvider,
-            openaiModel: newSettings.openaiModel,
-            googleModel: newSettings.googleModel,
-            anthropicModel: newSettings.anthropicModel,
-            xaiModel: newSettings.xaiModel
-        };
-        await fs.writeFile(auctorPath, JSON.stringify(auctorData, null, 2), 'utf-8');
+        await updateAuctorConfig(auctorData => {
+            auctorData.settings = {
+                ...auctorData.settings,
+                title: newSettings.title || '',
+                subtitle: newSettings.subtitle || '',
+                author: newSettings.author || '',
+                language: (newSettings.language || '').trim() || 'en',
+                coverImage: (newSettings.coverImage || '').trim(),
+                plot: newSettings.plot || '',
+                subplots: Array.isArray(newSettings.subplots) ? newSettings.subplots : [],
+                theme: newSettings.theme,
+                fontFamily: newSettings.fontFamily,
+                fontSize: newSettings.fontSize,
+                backupDirectory: (typeof newSettings.backupDirectory === 'string' && newSettings.backupDirectory.trim().length > 0)
+                    ? newSettings.backupDirectory.trim()
+                    : PROJECT_ROOT,
+                contextTokenBudget: Number(newSettings.contextTokenBudget) || DEFAULT_CONTEXT_TOKEN_BUDGET,
+                embeddingBackend: newSettings.embeddingBackend || DEFAULT_EMBEDDING_BACKEND_ID,
+                embeddingModel: (newSettings.embeddingModel || '').trim(),
+                aiPrices: normalizePriceTable(newSettings.aiPrices),
+                monthlyBudget: Math.max(0, Number(newSettings.monthlyBudget) || 0),
+                pdfExport: normalizePdfExportOptions(newSettings.pdfExport),
+                docxExport: normalizeDocxExportOptions(newSettings.docxExport),
+                autosave: normalizeAutosaveOptions(newSettings.autosave),
+                aiProvider: newSettings.aiProvider
+            };
+            for (const provider of AI_PROVIDERS) {
+                auctorData.settings[provider.modelSetting] = newSettings[provider.modelSetting];
+                if (provider.baseUrlSetting) {
+                    auctorData.settings[provider.baseUrlSetting] = (newSettings[provider.baseUrlSetting] || '').trim();
+                }
+            }
+        });
 
         // Update .env
         let envContent = '';
@@ -845,27 +1037,14 @@ ipcMain.handle('save-project-settings', async (_, newSettings: any) => {
             envContent = await fs.readFile(envPath, 'utf-8');
         } catch {}
 
-        const updateEnvVar = (key: string, value: string) => {
-            const regex = new RegExp(`${key}=(.*)`);
-            if (envContent.match(regex)) {
-                envContent = envContent.replace(regex, `${key}=${value}`);
-            } else {
-                envContent += `\n${key}=${value}`;
-            }
-        };
-
-        updateEnvVar('OPENAI_API_KEY', newSettings.apiKey || '');
-        updateEnvVar('GOOGLE_GENERATIVE_AI_API_KEY', newSettings.googleApiKey || '');
-        updateEnvVar('XAI_API_KEY', newSettings.xaiApiKey || '');
-        updateEnvVar('ANTHROPIC_API_KEY', newSettings.anthropicApiKey || '');
+        for (const provider of AI_PROVIDERS) {
+            const value = newSettings[provider.keySetting] || '';
+            envContent = updateEnvValue(envContent, provider.keyEnvVar, value);
+            // Update process env for immediate use
+            process.env[provider.keyEnvVar] = value;
+        }
 
-        await fs.writeFile(envPath, envContent.trim(), 'utf-8');
-        
-        // Update process env for immediate use
-        process.env.OPENAI_API_KEY = newSettings.apiKey;
-        process.env.GOOGLE_GENERATIVE_AI_API_KEY = newSettings.googleApiKey;
-        process.env.XAI_API_KEY = newSettings.xaiApiKey;
-        process.env.ANTHROPIC_API_KEY = newSettings.anthropicApiKey;
+        await writeFileAtomic(envPath, envContent.trim());
 
         updateMenu().catch(console.error);
         return { success: true };
@@ -875,7 +1054,7 @@ ipcMain.handle('save-project-settings', async (_, newSettings: any) => {
     }
 });
 
-ipcMain.handle('import-llm-settings', async () => {
+handle('import-llm-settings', async () => {
     try {
         const result = await dialog.showOpenDialog(win!, {
             title: 'Select Auctor Project to Import LLM Settings From',
@@ -887,7 +1066,6 @@ ipcMain.handle('import-llm-settings', async () => {
 
         const sourceDir = result.filePaths[0];
         const auctorPath = path.join(sourceDir, 'auctor.json');
-        const envPath = path.join(sourceDir, '.env');
 
         // Verify it's a valid Auctor project
         try {
@@ -896,41 +1074,11 @@ ipcMain.handle('import-llm-settings', async () => {
             return { success: false, error: 'Selected folder does not contain an auctor.json file.' };
         }
 
-        const auctorContent = await fs.readFile(auctorPath, 'utf-8');
-        const auctorData = JSON.parse(auctorContent);
-
-        let apiKey = '';
-        let googleApiKey = '';
-        let xaiApiKey = '';
-        let anthropicApiKey = '';
-
-        try {
-            const envContent = await fs.readFile(envPath, 'utf-8');
-            const matchOpenAI = envContent.match(/OPENAI_API_KEY=(.*)/);
-            if (matchOpenAI) apiKey = matchOpenAI[1].trim();
-            const matchGoogle = envContent.match(/GOOGLE_GENERATIVE_AI_API_KEY=(.*)/);
-            if (matchGoogle) googleApiKey = matchGoogle[1].trim();
-            const matchXAI = envContent.match(/XAI_API_KEY=(.*)/);
-            if (matchXAI) xaiApiKey = matchXAI[1].trim();
-            const matchAnthropic = envContent.match(/ANTHROPIC_API_KEY=(.*)/);
-            if (matchAnthropic) anthropicApiKey = matchAnthropic[1].trim();
-        } catch {
-            // .env may not exist, that's fine — keys will be empty
-        }
+        const auctorData = await readProjectConfig(sourceDir);
 
         return {
             success: true,
-            settings: {
-                aiProvider: auctorData.settings?.aiProvider || 'openai',
-                openaiModel: auctorData.settings?.openaiModel || 'gpt-4-turbo',
-                googleModel: auctorData.settings?.googleModel || 'models/gemini-2.0-flash-exp',
-                anthropicModel: auctorData.settings?.anthropicModel || 'claude-sonnet-4-20250514',
-                xaiModel: auctorData.settings?.xaiModel || 'grok-beta',
-                apiKey,
-                googleApiKey,
-                xaiApiKey,
-                anthropicApiKey
-            }
+            settings: await readProviderSettings(sourceDir, auctorData.settings)
         };
     } catch (error) {
         console.error('Error importing LLM settings:', error);
@@ -938,829 +1086,519 @@ ipcMain.handle('import-llm-settings', async () => {
     }
 });
 
-ipcMain.handle('save-file', async (_, relativePath: string, content: string) => {
+handle('save-file', async (_, relativePath: string, content: string) => {
     try {
-        const filePath = path.join(PROJECT_ROOT, relativePath);
-        await fs.writeFile(filePath, content, 'utf-8');
+        await saveProjectFile(relativePath, content);
         return { success: true };
     } catch (error) {
         console.error('Error saving file:', error);
-        return { success: false, error: String(error) };
+        return fileErrorResult(error);
     }
 });
 
 // --- AI Handlers ---
-ipcMain.handle('list-openai-models', async (_, apiKey: string) => {
-    try {
-        if (!apiKey) {
-            const envPath = path.join(PROJECT_ROOT, '.env');
-            try {
-                const envContent = await fs.readFile(envPath, 'utf-8');
-                const match = envContent.match(/OPENAI_API_KEY=(.*)/);
-                if (match) apiKey = match[1].trim();
-            } catch {}
-        }
+handle('list-ai-providers', async () => {
+    return { success: true, providers: describeAIProviders() };
+});
 
-        if (!apiKey) throw new Error('API Key is missing');
+handle('list-embedding-backends', async () => {
+    return { success: true, backends: describeEmbeddingBackends() };
+});
 
-        const response = await fetch('https://api.openai.com/v1/models', {
-            headers: { 'Authorization': `Bearer ${apiKey}` }
-        });
+handle('rebuild-retrieval-index', async () => {
+    try {
+        return { success: true, ...(await withConfigRecovery(() => rebuildRetrievalIndex(PROJECT_ROOT))) };
+    } catch (error) {
+        console.error('Error rebuilding retrieval index:', error);
+        return { success: false, error: String(error) };
+    }
+});
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`OpenAI API Error: ${response.status} ${errorText}`);
-        }
+handle('build-ai-context', async (_, request: ContextRequest) => {
+    try {
+        return { success: true, context: await withConfigRecovery(() => buildAIContext(PROJECT_ROOT, request)) };
+    } catch (error) {
+        console.error('Error building AI context:', error);
+        return { success: false, error: String(error) };
+    }
+});
 
-        const data = await response.json();
-        const chatModels = (data.data || [])
-            .filter((m: any) => m.id.startsWith('gpt-') || m.id.startsWith('o') || m.id.startsWith('chatgpt-'))
-            .filter((m: any) => !m.id.includes('instruct') && !m.id.includes('realtime') && !m.id.includes('audio') && !m.id.includes('search') && !m.id.includes('transcribe'))
-            .map((m: any) => ({ id: m.id, name: m.id }))
-            .sort((a: any, b: any) => a.id.localeCompare(b.id));
+// --- Export Profiles ---
+handle('get-export-profiles', async () => {
+    try {
+        const configData = await readAuctorConfig();
+        const chapters = (await listChaptersInOrder(PROJECT_ROOT, configData))
+            .filter(c => /\.(md|txt)$/i.test(c.file))
+            .map(c => ({ file: c.file, title: c.title }));
+        return { success: true, profiles: normalizeExportProfiles(configData.settings?.exportProfiles), chapters };
+    } catch (error) {
+        console.error('Error reading export profiles:', error);
+        return { success: false, error: String(error) };
+    }
+});
 
-        return { success: true, models: chatModels };
+handle('save-export-profiles', async (_, profiles: unknown) => {
+    try {
+        const exportProfiles = normalizeExportProfiles(profiles);
+        await updateAuctorConfig(configData => {
+            configData.settings = { ...configData.settings, exportProfiles };
+        });
+        return { success: true, profiles: exportProfiles };
     } catch (error) {
-        console.error('Error listing OpenAI models:', error);
+        console.error('Error saving export profiles:', error);
         return { success: false, error: String(error) };
     }
 });
 
-ipcMain.handle('list-google-models', async (_, apiKey: string) => {
+handle('export-manuscript', async (event, profile: unknown) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    if (!window) return { success: false, error: 'No window to export from.' };
     try {
-        if (!apiKey) {
-            // Try to load from env if not provided
-            const envPath = path.join(PROJECT_ROOT, '.env');
-            try {
-                const envContent = await fs.readFile(envPath, 'utf-8');
-                const match = envContent.match(/GOOGLE_GENERATIVE_AI_API_KEY=(.*)/);
-                if (match) apiKey = match[1].trim();
-            } catch {}
-        }
+        const filePath = await exportManuscript(window, normalizeExportProfile(profile));
+        return filePath ? { success: true, filePath } : { success: false, cancelled: true };
+    } catch (error) {
+        console.error('Error exporting manuscript:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+});
 
-        if (!apiKey) throw new Error('API Key is missing');
+// --- Prompt Library ---
+handle('get-prompt-library', async () => {
+  try {
+    return { success: true, library: await readPromptLibrary(PROJECT_ROOT) };
+  } catch (error) {
+    console.error('Error reading prompt library:', error);
+    return { success: false, error: String(error) };
+  }
+});
 
-        const url = `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`;
-        const response = await fetch(url);
-        
-        if (!response.ok) {
-             const errorText = await response.text();
-             throw new Error(`Google API Error: ${response.status} ${errorText}`);
-        }
+handle('save-prompt-library', async (_, library) => {
+  try {
+    return { success: true, library: await savePromptLibrary(PROJECT_ROOT, library) };
+  } catch (error) {
+    console.error('Error saving prompt library:', error);
+    return { success: false, error: String(error) };
+  }
+});
+
+// --- AI Usage ---
+// Returns a callback that records a call's token usage in the project ledger.
+// The project root is captured up front, so a call that finishes after the
+// project was switched is still booked to the project it ran in.
+function trackUsage(call: { feature: UsageFeature; provider: string; model: string; chapter?: string | null }) {
+  const projectRoot = PROJECT_ROOT;
+  return (usage: LanguageModelUsage | null | undefined, cancelled = false) => {
+    if (!usage) return;
+    recordUsage(projectRoot, { ...call, cancelled }, usage)
+      .then(() => {
+        if (projectRoot === PROJECT_ROOT) emit(win?.webContents, 'ai-usage-recorded');
+      })
+      .catch(error => console.error('Error recording AI usage:', error));
+  };
+}
 
-        const data = await response.json();
-        // Filter for models that support content generation
-        const models = (data.models || [])
-             .filter((m: any) => m.supportedGenerationMethods?.includes('generateContent'))
-             .map((m: any) => ({
-                 id: m.name, // e.g. "models/gemini-1.5-pro"
-                 name: m.displayName || m.name
-             }));
+handle('get-usage-report', async (_, days?: number) => {
+  try {
+    const settings = (await readAuctorConfig()).settings;
+    const report = await buildUsageReport(PROJECT_ROOT, {
+      prices: normalizePriceTable(settings?.aiPrices),
+      monthlyBudget: Number(settings?.monthlyBudget) || 0,
+      days,
+    });
+    return { success: true, report };
+  } catch (error) {
+    console.error('Error building usage report:', error);
+    return { success: false, error: String(error) };
+  }
+});
 
+handle('list-ai-models', async (_, providerId: string, apiKey: string, baseUrl?: string) => {
+    try {
+        const models = await withConfigRecovery(() => listProviderModels(PROJECT_ROOT, providerId, apiKey, baseUrl));
         return { success: true, models };
     } catch (error) {
-        console.error('Error listing google models:', error);
+        console.error(`Error listing ${providerId} models:`, error);
         return { success: false, error: String(error) };
     }
 });
 
-ipcMain.on('generate-ai-completion', async (event, { prompt }) => {
-  try {
-    // Determine provider from settings
-    let provider = 'openai';
-    let apiKey = '';
-    let googleApiKey = '';
-    let xaiApiKey = '';
-    let anthropicApiKey = '';
-    let googleModel = 'models/gemini-1.5-flash'; // Default
-    let openaiModel = 'gpt-4-turbo'; // Default
-    let anthropicModel = 'claude-sonnet-4-20250514'; // Default
-    let xaiModel = 'grok-beta'; // Default
+// --- Chat Sessions ---
+handle('list-chat-sessions', async (_, query?: string) => {
+    try {
+        return { success: true, sessions: await listChatSessions(PROJECT_ROOT, query) };
+    } catch (error) {
+        console.error('Error listing chat sessions:', error);
+        return { success: false, error: String(error) };
+    }
+});
 
+handle('read-chat-session', async (_, id: string) => {
     try {
-        const auctorPath = path.join(PROJECT_ROOT, 'auctor.json');
-        const auctorContent = await fs.readFile(auctorPath, 'utf-8');
-        const auctorData = JSON.parse(auctorContent);
-        provider = auctorData.settings?.aiProvider || 'openai';
-        if (auctorData.settings?.googleModel) {
-            googleModel = auctorData.settings.googleModel;
-        }
-        if (auctorData.settings?.openaiModel) {
-            openaiModel = auctorData.settings.openaiModel;
-        }
-        if (auctorData.settings?.anthropicModel) {
-            anthropicModel = auctorData.settings.anthropicModel;
-        }
-        if (auctorData.settings?.xaiModel) {
-            xaiModel = auctorData.settings.xaiModel;
-        }
+        return { success: true, session: await readChatSession(PROJECT_ROOT, id) };
+    } catch (error) {
+        console.error('Error reading chat session:', error);
+        return { success: false, error: String(error) };
+    }
+});
 
-        // Load keys from .env directly to ensure we have latest even if app restarted
-        const envPath = path.join(PROJECT_ROOT, '.env');
-        const envContent = await fs.readFile(envPath, 'utf-8');
-        
-        const matchOpenAI = envContent.match(/OPENAI_API_KEY=(.*)/);
-        if (matchOpenAI) apiKey = matchOpenAI[1].trim();
+handle('save-chat-session', async (_, session) => {
+    try {
+        return { success: true, session: await saveChatSession(PROJECT_ROOT, session) };
+    } catch (error) {
+        console.error('Error saving chat session:', error);
+        return { success: false, error: String(error) };
+    }
+});
 
-        const matchGoogle = envContent.match(/GOOGLE_GENERATIVE_AI_API_KEY=(.*)/);
-        if (matchGoogle) googleApiKey = matchGoogle[1].trim();
+handle('rename-chat-session', async (_, id: string, title: string) => {
+    try {
+        await renameChatSession(PROJECT_ROOT, id, title);
+        return { success: true };
+    } catch (error) {
+        console.error('Error renaming chat session:', error);
+        return { success: false, error: String(error) };
+    }
+});
 
-        const matchXAI = envContent.match(/XAI_API_KEY=(.*)/);
-        if (matchXAI) xaiApiKey = matchXAI[1].trim();
+handle('delete-chat-session', async (_, id: string) => {
+    try {
+        await deleteChatSession(PROJECT_ROOT, id);
+        return { success: true };
+    } catch (error) {
+        console.error('Error deleting chat session:', error);
+        return { success: false, error: String(error) };
+    }
+});
 
-        const matchAnthropic = envContent.match(/ANTHROPIC_API_KEY=(.*)/);
-        if (matchAnthropic) anthropicApiKey = matchAnthropic[1].trim();
+handle('pin-chat-session', async (_, id: string, chapter: string | null) => {
+    try {
+        await pinChatSession(PROJECT_ROOT, id, chapter);
+        return { success: true };
+    } catch (error) {
+        console.error('Error pinning chat session:', error);
+        return { success: false, error: String(error) };
+    }
+});
 
-    } catch (e) {
-        console.warn("Could not read settings for AI provider, defaulting to OpenAI", e);
+handle('get-pinned-chat-session', async (_, chapter: string) => {
+    try {
+        return { success: true, id: await findPinnedChatSession(PROJECT_ROOT, chapter) };
+    } catch (error) {
+        console.error('Error finding pinned chat session:', error);
+        return { success: false, error: String(error) };
     }
+});
 
-    let model: LanguageModel;
+// Streaming AI jobs carry a renderer-chosen requestId. Chunk and error events
+// pass it as a trailing argument; the end event sends { requestId, cancelled }
+// (plus the new response messages for the assistant chat).
+handle('cancel-ai-request', async (_, requestId: string) => {
+    return { success: true, cancelled: cancelAIRequest(requestId) };
+});
 
-    switch (provider) {
-        case 'google':
-             // Explicitly create google provider with key
-             const googleProvider = createGoogleGenerativeAI({
-                 apiKey: googleApiKey || process.env.GOOGLE_GENERATIVE_AI_API_KEY
-             });
-            // Ensure model has 'models/' prefix if not present (though our list logic adds it or keeps it)
-            if (!googleModel.startsWith('models/')) googleModel = `models/${googleModel}`; 
-            
-            model = googleProvider(googleModel);
-            break;
-        case 'xai':
-             // Grok (xAI) via OpenAI compatible interface
-             const xai = createOpenAI({
-                name: 'xai',
-                baseURL: 'https://api.x.ai/v1',
-                apiKey: xaiApiKey || process.env.XAI_API_KEY,
-            });
-            model = xai(xaiModel);
-            break;
-        case 'anthropic':
-             const anthropicProvider = createAnthropic({
-                 apiKey: anthropicApiKey || process.env.ANTHROPIC_API_KEY,
-             });
-             model = anthropicProvider(anthropicModel);
-             break;
-        case 'openai':
-        default:
-            const openaiProvider = createOpenAI({
-                apiKey: apiKey || process.env.OPENAI_API_KEY
-            });
-            model = openaiProvider(openaiModel);
-            break;
+listen('generate-ai-completion', async (event, { prompt, messages, conversationId, providerOverride, requestId: clientRequestId, chapter, feature }: GenerateAICompletionRequest) => {
+  const { requestId, signal, finish } = beginAIRequest(clientRequestId);
+  try {
+    const { provider, modelId, model } = await withConfigRecovery(() => resolveAIModel(PROJECT_ROOT, providerOverride));
+    const track = trackUsage({ feature: feature === 'critique' ? 'critique' : 'assistant', provider: provider.id, model: modelId, chapter });
+
+    let system = `You are a helpful AI writing assistant for a novel-writing application called Auctor. You have access to tools that let you look up characters, places, objects, and organisations defined in the author's project, and to consult the manuscript itself: list the chapters in reading order, read a chapter, search the chapters for a phrase, search the whole manuscript and worldbuilding by meaning (searchManuscript, best for questions spanning the novel), and read the plot and subplots. Use these tools when the user asks about any of these, or when you need context to answer a question (for example, search for a character's name to find where something happened, then read that chapter). You may call multiple tools if needed. When you rely on the manuscript, say which chapter you are referring to. You can also propose worldbuilding edits (characters, places, objects, organisations, relationships, subplots) with the propose* tools when the author asks for them or agrees to them; these are shown to the author for review and are not saved until accepted, so never claim that a proposed change has been made.`;
+    let input: { prompt: string } | { messages: ModelMessage[] } = { prompt: prompt || '' };
+    if (Array.isArray(messages) && messages.length > 0) {
+      const prepared = await prepareChatMessages({
+        conversationId,
+        messages,
+        model,
+        abortSignal: signal,
+        onSummarising: () => emit(event.sender, 'ai-tool-call', 'Summarising earlier conversation...', requestId),
+        onUsage: (usage) => track(usage),
+      });
+      if (prepared.summary) {
+        system += `\n\nSummary of the earlier part of this conversation (older messages were trimmed to fit):\n${prepared.summary}`;
+      }
+      input = { messages: prepared.messages };
     }
 
     const result = await streamText({
       model: model, 
-      system: `You are a helpful AI writing assistant for a novel-writing application called Auctor. You have access to tools that let you look up characters, places, objects, and organisations defined in the author's project. Use these tools when the user asks about any of these entities or when you need context about them to answer a question. You may call multiple tools if needed.`,
-      prompt: prompt,
-      tools: {
-        getCharacters: tool({
-          description: 'List all characters in the project with their details (appearance, personality, motivation, relationships)',
-          inputSchema: z.object({}),
-          execute: async () => {
-            event.sender.send('ai-tool-call', 'Looking up characters...');
-            const charsDir = path.join(PROJECT_ROOT, 'Characters');
-            try {
-              await fs.mkdir(charsDir, { recursive: true });
-              const files = await fs.readdir(charsDir);
-              const chars: any[] = [];
-              for (const f of files) {
-                if (!f.endsWith('.json')) continue;
-                try {
-                  const raw = await fs.readFile(path.join(charsDir, f), 'utf-8');
-                  chars.push(JSON.parse(raw));
-                } catch {}
-              }
-              return { characters: chars };
-            } catch { return { characters: [] }; }
-          },
-        }),
-        getPlaces: tool({
-          description: 'List all places/locations in the project with their descriptions',
-          inputSchema: z.object({}),
-          execute: async () => {
-            event.sender.send('ai-tool-call', 'Looking up places...');
-            const dir = path.join(PROJECT_ROOT, 'Places');
-            try {
-              await fs.mkdir(dir, { recursive: true });
-              const files = await fs.readdir(dir);
-              const items: any[] = [];
-              for (const f of files) {
-                if (!f.endsWith('.json')) continue;
-                try {
-                  const raw = await fs.readFile(path.join(dir, f), 'utf-8');
-                  items.push(JSON.parse(raw));
-                } catch {}
-              }
-              return { places: items };
-            } catch { return { places: [] }; }
-          },
-        }),
-        getObjects: tool({
-          description: 'List all objects/items in the project with their descriptions',
-          inputSchema: z.object({}),
-          execute: async () => {
-            event.sender.send('ai-tool-call', 'Looking up objects...');
-            const dir = path.join(PROJECT_ROOT, 'Objects');
-            try {
-              await fs.mkdir(dir, { recursive: true });
-              const files = await fs.readdir(dir);
-              const items: any[] = [];
-              for (const f of files) {
-                if (!f.endsWith('.json')) continue;
-                try {
-                  const raw = await fs.readFile(path.join(dir, f), 'utf-8');
-                  items.push(JSON.parse(raw));
-                } catch {}
-              }
-              return { objects: items };
-            } catch { return { objects: [] }; }
-          },
-        }),
-        getOrganisations: tool({
-          description: 'List all organisations in the project with their goals and members',
-          inputSchema: z.object({}),
-          execute: async () => {
-            event.sender.send('ai-tool-call', 'Looking up organisations...');
-            const dir = path.join(PROJECT_ROOT, 'Organisations');
-            try {
-              await fs.mkdir(dir, { recursive: true });
-              const files = await fs.readdir(dir);
-              const items: any[] = [];
-              for (const f of files) {
-                if (!f.endsWith('.json')) continue;
-                try {
-                  const raw = await fs.readFile(path.join(dir, f), 'utf-8');
-                  items.push(JSON.parse(raw));
-                } catch {}
-              }
-              return { organisations: items };
-            } catch { return { organisations: [] }; }
-          },
-        }),
-      },
-      stopWhen: stepCountIs(5),
+      abortSignal: signal,
+      system,
+      ...input,
+      tools: createAssistantTools(PROJECT_ROOT, {
+        notify: (message) => emit(event.sender, 'ai-tool-call', message, requestId),
+        propose: (change) => emit(event.sender, 'ai-proposed-change', change, requestId),
+      }),
+      stopWhen: stepCountIs(8),
+      onFinish: ({ totalUsage }) => track(totalUsage),
+      onAbort: ({ steps }) => track(usageFromSteps(steps), true),
     });
 
     let streamError: string | null = null;
     for await (const part of result.fullStream) {
       if (part.type === 'text-delta') {
-        event.sender.send('ai-completion-chunk', part.text);
+        emit(event.sender, 'ai-completion-chunk', part.text, requestId);
       } else if (part.type === 'error') {
         const err = part.error as any;
+        if (signal.aborted || isAbortError(err)) continue;
         streamError = err?.message || err?.error?.message || String(err);
         console.error("AI stream error:", err);
       }
     }
-    if (streamError) {
-      event.sender.send('ai-completion-error', streamError);
+    if (streamError && !signal.aborted) {
+      emit(event.sender, 'ai-completion-error', streamError, requestId);
+    } else if (signal.aborted) {
+      emit(event.sender, 'ai-completion-end', { requestId, cancelled: true });
     } else {
-      event.sender.send('ai-completion-end');
+      const response = await result.response;
+      emit(event.sender, 'ai-completion-end', {
+        requestId,
+        cancelled: false,
+        // Only assistant and tool messages survive sanitizing
+        responseMessages: sanitizeResponseMessages(response.messages) as ChatHistoryMessage[],
+      });
     }
   } catch (error) {
+    if (signal.aborted || isAbortError(error)) {
+      emit(event.sender, 'ai-completion-end', { requestId, cancelled: true });
+      return;
+    }
     console.error("AI Error:", error);
     const msg = (error as any)?.error?.message || (error as any)?.message || String(error);
-    event.sender.send('ai-completion-error', msg);
+    emit(event.sender, 'ai-completion-error', msg, requestId);
+  } finally {
+    finish();
   }
 });
 
-ipcMain.on('refine-text-completion', async (event, { prompt, channel, providerOverride }: { prompt: string; channel: 'critique' | 'rewrite'; providerOverride?: string }) => {
+listen('refine-text-completion', async (event, { prompt, channel, providerOverride, requestId: clientRequestId, chapter }: RefineTextRequest) => {
+    const { requestId, signal, finish } = beginAIRequest(clientRequestId);
     try {
-      event.sender.send('rewrite-text-start');
-      let provider = 'openai';
-      let apiKey = '';
-      let googleApiKey = '';
-      let xaiApiKey = '';
-      let anthropicApiKey = '';
-      let googleModel = 'models/gemini-1.5-flash';
-      let openaiModel = 'gpt-4-turbo';
-      let anthropicModel = 'claude-sonnet-4-20250514';
-      let xaiModel = 'grok-beta';
-
-      try {
-          const auctorPath = path.join(PROJECT_ROOT, 'auctor.json');
-          const auctorContent = await fs.readFile(auctorPath, 'utf-8');
-          const auctorData = JSON.parse(auctorContent);
-          provider = providerOverride || auctorData.settings?.aiProvider || 'openai';
-          if (auctorData.settings?.googleModel) {
-              googleModel = auctorData.settings.googleModel;
-          }
-          if (auctorData.settings?.openaiModel) {
-              openaiModel = auctorData.settings.openaiModel;
-          }
-          if (auctorData.settings?.anthropicModel) {
-              anthropicModel = auctorData.settings.anthropicModel;
-          }
-          if (auctorData.settings?.xaiModel) {
-              xaiModel = auctorData.settings.xaiModel;
-          }
-
-          const envPath = path.join(PROJECT_ROOT, '.env');
-          const envContent = await fs.readFile(envPath, 'utf-8');
-
-          const matchOpenAI = envContent.match(/OPENAI_API_KEY=(.*)/);
-          if (matchOpenAI) apiKey = matchOpenAI[1].trim();
-
-          const matchGoogle = envContent.match(/GOOGLE_GENERATIVE_AI_API_KEY=(.*)/);
-          if (matchGoogle) googleApiKey = matchGoogle[1].trim();
-
-          const matchXAI = envContent.match(/XAI_API_KEY=(.*)/);
-          if (matchXAI) xaiApiKey = matchXAI[1].trim();
-
-          const matchAnthropic = envContent.match(/ANTHROPIC_API_KEY=(.*)/);
-          if (matchAnthropic) anthropicApiKey = matchAnthropic[1].trim();
-      } catch (e) {
-          console.warn("Could not read settings for AI provider, defaulting to OpenAI", e);
-      }
-
-      let model: LanguageModel;
-
-      switch (provider) {
-          case 'google':
-               const googleProvider = createGoogleGenerativeAI({
-                   apiKey: googleApiKey || process.env.GOOGLE_GENERATIVE_AI_API_KEY
-               });
-              if (!googleModel.startsWith('models/')) googleModel = `models/${googleModel}`;
-              model = googleProvider(googleModel);
-              break;
-          case 'xai':
-               const xai = createOpenAI({
-                  name: 'xai',
-                  baseURL: 'https://api.x.ai/v1',
-                  apiKey: xaiApiKey || process.env.XAI_API_KEY,
-              });
-              model = xai(xaiModel);
-              break;
-          case 'anthropic':
-               const anthropicProvider = createAnthropic({
-                   apiKey: anthropicApiKey || process.env.ANTHROPIC_API_KEY,
-               });
-               model = anthropicProvider(anthropicModel);
-               break;
-          case 'openai':
-          default:
-              const openaiProvider = createOpenAI({
-                  apiKey: apiKey || process.env.OPENAI_API_KEY
-              });
-              model = openaiProvider(openaiModel);
-              break;
-      }
+      emit(event.sender, 'rewrite-text-start', requestId);
+      const { provider, modelId, model } = await withConfigRecovery(() => resolveAIModel(PROJECT_ROOT, providerOverride));
+      const track = trackUsage({ feature: channel === 'critique' ? 'critique' : 'refine', provider: provider.id, model: modelId, chapter });
 
       const result = await streamText({
         model: model,
         prompt: prompt,
+        abortSignal: signal,
+        onFinish: ({ totalUsage }) => track(totalUsage),
+        onAbort: ({ steps }) => track(usageFromSteps(steps), true),
       });
 
       let streamError: string | null = null;
       for await (const textPart of result.fullStream) {
         if (textPart.type === 'text-delta') {
-          event.sender.send(`refine-${channel}-chunk`, textPart.text);
+          emit(event.sender, `refine-${channel}-chunk`, textPart.text, requestId);
         } else if (textPart.type === 'error') {
           const err = textPart.error as any;
+          if (signal.aborted || isAbortError(err)) continue;
           streamError = err?.message || err?.error?.message || String(err);
           console.error("AI Refine stream error:", err);
         }
       }
-      if (streamError) {
-        event.sender.send(`refine-${channel}-error`, streamError);
+      if (streamError && !signal.aborted) {
+        emit(event.sender, `refine-${channel}-error`, streamError, requestId);
       } else {
-        event.sender.send(`refine-${channel}-end`);
+        emit(event.sender, `refine-${channel}-end`, { requestId, cancelled: signal.aborted });
       }
     } catch (error) {
+      if (signal.aborted || isAbortError(error)) {
+        emit(event.sender, `refine-${channel}-end`, { requestId, cancelled: true });
+        return;
+      }
       console.error("AI Refine Error:", error);
       const msg = (error as any)?.error?.message || (error as any)?.message || String(error);
-      event.sender.send(`refine-${channel}-error`, msg);
+      emit(event.sender, `refine-${channel}-error`, msg, requestId);
     } finally {
-      event.sender.send('rewrite-text-end');
+      finish();
+      emit(event.sender, 'rewrite-text-end', { requestId, cancelled: signal.aborted });
     }
 });
 
-ipcMain.on('rewrite-text-completion', async (event, { prompt }) => {
+listen('rewrite-text-completion', async (event, { prompt, providerOverride, requestId: clientRequestId, chapter }: RewriteTextRequest) => {
+    const { requestId, signal, finish } = beginAIRequest(clientRequestId);
     try {
-    event.sender.send('rewrite-text-start');
-      // Determine provider from settings (Reuse logic, ideally this should be a helper function)
-      let provider = 'openai';
-      let apiKey = '';
-      let googleApiKey = '';
-      let xaiApiKey = '';
-      let anthropicApiKey = '';
-      let googleModel = 'models/gemini-1.5-flash';
-      let openaiModel = 'gpt-4-turbo';
-      let anthropicModel = 'claude-sonnet-4-20250514';
-      let xaiModel = 'grok-beta';
-  
-      try {
-          const auctorPath = path.join(PROJECT_ROOT, 'auctor.json');
-          const auctorContent = await fs.readFile(auctorPath, 'utf-8');
-          const auctorData = JSON.parse(auctorContent);
-          provider = auctorData.settings?.aiProvider || 'openai';
-          if (auctorData.settings?.googleModel) {
-              googleModel = auctorData.settings.googleModel;
-          }
-          if (auctorData.settings?.openaiModel) {
-              openaiModel = auctorData.settings.openaiModel;
-          }
-          if (auctorData.settings?.anthropicModel) {
-              anthropicModel = auctorData.settings.anthropicModel;
-          }
-          if (auctorData.settings?.xaiModel) {
-              xaiModel = auctorData.settings.xaiModel;
-          }
-  
-          const envPath = path.join(PROJECT_ROOT, '.env');
-          const envContent = await fs.readFile(envPath, 'utf-8');
-          
-          const matchOpenAI = envContent.match(/OPENAI_API_KEY=(.*)/);
-          if (matchOpenAI) apiKey = matchOpenAI[1].trim();
-  
-          const matchGoogle = envContent.match(/GOOGLE_GENERATIVE_AI_API_KEY=(.*)/);
-          if (matchGoogle) googleApiKey = matchGoogle[1].trim();
-  
-          const matchXAI = envContent.match(/XAI_API_KEY=(.*)/);
-          if (matchXAI) xaiApiKey = matchXAI[1].trim();
-
-          const matchAnthropic = envContent.match(/ANTHROPIC_API_KEY=(.*)/);
-          if (matchAnthropic) anthropicApiKey = matchAnthropic[1].trim();
-  
-      } catch (e) {
-          console.warn("Could not read settings for AI provider, defaulting to OpenAI", e);
-      }
-  
-      let model: LanguageModel;
-  
-      switch (provider) {
-          case 'google':
-               const googleProvider = createGoogleGenerativeAI({
-                   apiKey: googleApiKey || process.env.GOOGLE_GENERATIVE_AI_API_KEY
-               });
-              if (!googleModel.startsWith('models/')) googleModel = `models/${googleModel}`; 
-              model = googleProvider(googleModel);
-              break;
-          case 'xai':
-               const xai = createOpenAI({
-                  name: 'xai',
-                  baseURL: 'https://api.x.ai/v1',
-                  apiKey: xaiApiKey || process.env.XAI_API_KEY,
-              });
-              model = xai(xaiModel);
-              break;
-          case 'anthropic':
-               const anthropicProvider2 = createAnthropic({
-                   apiKey: anthropicApiKey || process.env.ANTHROPIC_API_KEY,
-               });
-               model = anthropicProvider2(anthropicModel);
-               break;
-          case 'openai':
-          default:
-              const openaiProvider = createOpenAI({
-                  apiKey: apiKey || process.env.OPENAI_API_KEY
-              });
-              model = openaiProvider(openaiModel);
-              break;
-      }
+    emit(event.sender, 'rewrite-text-start', requestId);
+      const { provider, modelId, model } = await withConfigRecovery(() => resolveAIModel(PROJECT_ROOT, providerOverride));
+      const track = trackUsage({ feature: 'rewrite', provider: provider.id, model: modelId, chapter });
   
       const result = await streamText({
         model: model, 
         prompt: prompt,
+        abortSignal: signal,
+        onFinish: ({ totalUsage }) => track(totalUsage),
+        onAbort: ({ steps }) => track(usageFromSteps(steps), true),
       });
   
       let streamError: string | null = null;
       for await (const textPart of result.fullStream) {
         if (textPart.type === 'text-delta') {
-          event.sender.send('rewrite-text-chunk', textPart.text);
+          emit(event.sender, 'rewrite-text-chunk', textPart.text, requestId);
         } else if (textPart.type === 'error') {
           const err = textPart.error as any;
+          if (signal.aborted || isAbortError(err)) continue;
           streamError = err?.message || err?.error?.message || String(err);
           console.error("AI Rewrite stream error:", err);
         }
       }
-      if (streamError) {
-        event.sender.send('rewrite-text-error', streamError);
+      if (streamError && !signal.aborted) {
+        emit(event.sender, 'rewrite-text-error', streamError, requestId);
       } else {
-        event.sender.send('rewrite-text-end');
+        emit(event.sender, 'rewrite-text-end', { requestId, cancelled: signal.aborted });
       }
     } catch (error) {
+      if (signal.aborted || isAbortError(error)) {
+        emit(event.sender, 'rewrite-text-end', { requestId, cancelled: true });
+        return;
+      }
       console.error("AI Error:", error);
       const msg = (error as any)?.error?.message || (error as any)?.message || String(error);
-      event.sender.send('rewrite-text-error', msg);
+      emit(event.sender, 'rewrite-text-error', msg, requestId);
+    } finally {
+      finish();
     }
   });
 
-// --- Helper: resolve the configured AI model ---
-async function resolveAIModel(): Promise<LanguageModel> {
-    let provider = 'openai';
-    let apiKey = '';
-    let googleApiKey = '';
-    let xaiApiKey = '';
-    let anthropicApiKey = '';
-    let googleModel = 'models/gemini-1.5-flash';
-    let openaiModel = 'gpt-4-turbo';
-    let anthropicModel = 'claude-sonnet-4-20250514';
-    let xaiModel = 'grok-beta';
-
-    try {
-        const auctorPath = path.join(PROJECT_ROOT, 'auctor.json');
-        const auctorContent = await fs.readFile(auctorPath, 'utf-8');
-        const auctorData = JSON.parse(auctorContent);
-        provider = auctorData.settings?.aiProvider || 'openai';
-        if (auctorData.settings?.googleModel) {
-            googleModel = auctorData.settings.googleModel;
-        }
-        if (auctorData.settings?.openaiModel) {
-            openaiModel = auctorData.settings.openaiModel;
-        }
-        if (auctorData.settings?.anthropicModel) {
-            anthropicModel = auctorData.settings.anthropicModel;
-        }
-        if (auctorData.settings?.xaiModel) {
-            xaiModel = auctorData.settings.xaiModel;
-        }
-        const envPath = path.join(PROJECT_ROOT, '.env');
-        const envContent = await fs.readFile(envPath, 'utf-8');
-        const matchOpenAI = envContent.match(/OPENAI_API_KEY=(.*)/);
-        if (matchOpenAI) apiKey = matchOpenAI[1].trim();
-        const matchGoogle = envContent.match(/GOOGLE_GENERATIVE_AI_API_KEY=(.*)/);
-        if (matchGoogle) googleApiKey = matchGoogle[1].trim();
-        const matchXAI = envContent.match(/XAI_API_KEY=(.*)/);
-        if (matchXAI) xaiApiKey = matchXAI[1].trim();
-        const matchAnthropic = envContent.match(/ANTHROPIC_API_KEY=(.*)/);
-        if (matchAnthropic) anthropicApiKey = matchAnthropic[1].trim();
-    } catch (e) {
-        console.warn("Could not read settings for AI provider, defaulting to OpenAI", e);
-    }
-
-    switch (provider) {
-        case 'google': {
-            const googleProvider = createGoogleGenerativeAI({
-                apiKey: googleApiKey || process.env.GOOGLE_GENERATIVE_AI_API_KEY
-            });
-            if (!googleModel.startsWith('models/')) googleModel = `models/${googleModel}`;
-            return googleProvider(googleModel);
-        }
-        case 'xai': {
-            const xai = createOpenAI({
-                name: 'xai',
-                baseURL: 'https://api.x.ai/v1',
-                apiKey: xaiApiKey || process.env.XAI_API_KEY,
-            });
-            return xai(xaiModel);
-        }
-        case 'anthropic': {
-            const anthropicProvider = createAnthropic({
-                apiKey: anthropicApiKey || process.env.ANTHROPIC_API_KEY,
-            });
-            return anthropicProvider(anthropicModel);
-        }
-        case 'openai':
-        default: {
-            const openaiProvider = createOpenAI({
-                apiKey: apiKey || process.env.OPENAI_API_KEY
-            });
-            return openaiProvider(openaiModel);
-        }
-    }
-}
-
 // --- Import Text Handler ---
-ipcMain.handle('import-text', async (_event, filePath: string) => {
-    const sendProgress = (stage: string, detail: string) => {
-        if (win) win.webContents.send('import-text-progress', { stage, detail });
-    };
-
-    try {
-        // 1. Read the text file
-        sendProgress('reading', 'Reading text file...');
-        const rawText = await fs.readFile(filePath, 'utf-8');
-        if (!rawText.trim()) {
-            return { success: false, error: 'The selected file is empty.' };
-        }
-
-        const model = await resolveAIModel();
-
-        // 2. Analyze the text with LLM to extract structure
-        sendProgress('analyzing', 'Analyzing text structure with AI...');
-
-        const analysisPrompt = `You are analysing a novel/story text that has been imported. Your task is to extract the full structure of this work into a precise JSON format.
-
-Analyse the following text and extract:
-
-1. **Chapters**: Break the text into logical chapters. If the text already has chapter markers, use those. Otherwise, identify natural story breaks. For each chapter provide:
-   - A chapter title/name
-   - The full text content of that chapter
-   - A brief summary/overview of what happens in that chapter (2-3 sentences)
-
-2. **Characters**: Identify all significant characters. For each provide:
-   - name: Full name
-   - aka: Any aliases or nicknames (comma-separated, or empty string)
-   - lifeStages: An array with at least one entry containing: id (unique string), age (string like "Adult" or "30s"), appearance (physical description from the text), personality (personality traits from the text), motivation (what drives this character)
-   - relationships: Array of {target: "other character name", description: "relationship description"}
-
-3. **Places**: Identify all significant locations. For each provide:
-   - name: Place name
-   - aka: Alternative names (or empty string)
-   - description: Description of the place from the text
-
-4. **Objects**: Identify significant objects/items that play a role in the story. For each provide:
-   - name: Object name
-   - aka: Alternative names (or empty string)
-   - description: What the object is
-   - properties: Notable properties or significance
-
-5. **Organisations**: Identify any organisations, groups, factions. For each provide:
-   - name: Organisation name
-   - goals: The organisation's goals or purpose
-   - members: Array of {name: "member name", role: "their role"}
-
-6. **Plot**: Describe the overall plot of the story (a paragraph).
-
-7. **Subplots**: Identify any subplots. For each provide:
-   - id: A unique kebab-case identifier
-   - title: Short title
-   - description: Brief description of the subplot
-
-Respond with ONLY valid JSON in this exact structure (no markdown code fences):
-{
-  "chapters": [
-    { "title": "...", "text": "...", "summary": "..." }
-  ],
-  "characters": [
-    { "name": "...", "aka": "...", "lifeStages": [{"id": "...", "age": "...", "appearance": "...", "personality": "...", "motivation": "..."}], "relationships": [{"target": "...", "description": "..."}] }
-  ],
-  "places": [
-    { "name": "...", "aka": "...", "description": "..." }
-  ],
-  "objects": [
-    { "name": "...", "aka": "...", "description": "...", "properties": "..." }
-  ],
-  "organisations": [
-    { "name": "...", "goals": "...", "members": [{"name": "...", "role": "..."}] }
-  ],
-  "plot": "...",
-  "subplots": [
-    { "id": "...", "title": "...", "description": "..." }
-  ]
+// The manuscript is split into chapters without AI, so chapter text is the
+// author's own; the AI only reads it (see importPipeline.ts). `import-text`
+// stops at a preview of what would be created or merged (importMerge.ts);
+// nothing is written until the author confirms it with `apply-import`.
+const pendingImports = new Map<string, { projectRoot: string; analysis: ImportAnalysis; preview: ImportPreviewItem[] }>();
+// Bumped whenever the previews are dropped, so an analysis still running then is not kept either
+let importGeneration = 0;
+
+/** Drops the previews once no one can confirm them: another project was opened, or the window reloaded or crashed. */
+function discardPendingImports() {
+    pendingImports.clear();
+    importGeneration++;
 }
 
-Here is the text to analyse:
-
-${rawText}`;
-
-        const result = await generateText({
-            model,
-            prompt: analysisPrompt,
-            maxTokens: 16000,
-        } as any);
-
-        sendProgress('parsing', 'Parsing AI response...');
-
-        // Parse the JSON response
-        let analysisText = result.text.trim();
-        // Strip markdown code fences if present
-        if (analysisText.startsWith('```')) {
-            analysisText = analysisText.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '');
-        }
-
-        let analysis: any;
-        try {
-            analysis = JSON.parse(analysisText);
-        } catch (parseError) {
-            console.error('Failed to parse AI response:', analysisText);
-            return { success: false, error: 'Failed to parse AI analysis. The AI response was not valid JSON.' };
-        }
+const sendImportProgress = (stage: ImportStage, detail: string, chunk?: ImportProgress['chunk']) => {
+    if (win) emit(win.webContents, 'import-text-progress', { stage, detail, chunk });
+};
 
-        // 3. Create project files from the analysis
-        sendProgress('creating', 'Creating project files...');
+handle('import-text', async (_event, filePath: string, clientRequestId?: string) => {
+    const { requestId, signal, finish } = beginAIRequest(clientRequestId);
+    const cancelledResult: IpcFailure = { success: false, cancelled: true, error: 'Import cancelled.' };
+    const projectRoot = PROJECT_ROOT;
+    const generation = importGeneration;
 
-        // Ensure directories exist
-        const dirs = ['Chapters', 'Characters', 'Places', 'Objects', 'Organisations'];
-        for (const dir of dirs) {
-            await fs.mkdir(path.join(PROJECT_ROOT, dir), { recursive: true });
+    try {
+        // 1. Read the file and split it into chapters
+        sendImportProgress('reading', `Reading ${path.basename(filePath)}...`);
+        const manuscript = await readManuscript(filePath);
+        if (manuscript.every(chapter => chapter.paragraphs.length === 0)) {
+            return { success: false, error: 'The selected file has no text to import.' };
         }
+        sendImportProgress('reading', `Found ${manuscript.length} chapter${manuscript.length === 1 ? '' : 's'}.`);
 
-        const sanitize = (name: string) => name.trim().replace(/[<>:"/\\|?*]/g, '').replace(/\s+/g, ' ').trim();
-
-        // Create chapters
-        const chapterOrder: string[] = [];
-        if (Array.isArray(analysis.chapters)) {
-            for (let i = 0; i < analysis.chapters.length; i++) {
-                const ch = analysis.chapters[i];
-                const title = sanitize(ch.title || `Chapter ${i + 1}`);
-                const fileName = `${title}.md`;
-                chapterOrder.push(fileName);
-
-                const settingsJson = JSON.stringify({
-                    summary: ch.summary || '',
-                    ageOffset: '',
-                    style: '',
-                    subplots: []
-                });
+        const { provider, modelId, model } = await withConfigRecovery(() => resolveAIModel(projectRoot));
+        const track = trackUsage({ feature: 'import', provider: provider.id, model: modelId });
 
-                const chapterContent = `<text>\n${ch.text || ''}\n</text>\n<settings>\n${settingsJson}\n</settings>\n<critique>\n</critique>`;
-                await fs.writeFile(path.join(PROJECT_ROOT, 'Chapters', fileName), chapterContent, 'utf-8');
-                sendProgress('creating', `Created chapter: ${title}`);
-            }
-        }
-
-        // Save chapter order
-        if (chapterOrder.length > 0) {
-            await setChapterOrder(chapterOrder);
-        }
+        // 2. Analyse each passage, then merge
+        const library = await readPromptLibrary(projectRoot);
+        const template = (id: string) => (findPromptTemplate(library, id) ?? getBuiltInPromptTemplate(id)).template;
+        const analysis = await analyseManuscript(projectRoot, manuscript, {
+            model,
+            chunkTemplate: template('import-chunk'),
+            synthesisTemplate: template('import-synthesis'),
+            signal,
+            onUsage: usage => track(usage),
+            onProgress: progress => sendImportProgress(progress.stage, progress.detail, progress.chunk),
+        });
+        if (signal.aborted) return cancelledResult;
+
+        // 3. Compare with what the project already has
+        sendImportProgress('review', 'Comparing with the project...');
+        const settings = (await readAuctorConfig()).settings || {};
+        const preview = await buildImportPreview(projectRoot, analysis, settings);
+        if (generation !== importGeneration) return cancelledResult;
+        pendingImports.set(requestId, { projectRoot, analysis, preview });
+        return { success: true, importId: requestId, preview };
+    } catch (error) {
+        if (signal.aborted || isAbortError(error)) return cancelledResult;
+        console.error('Import text error:', error);
+        const message = error instanceof Error ? error.message : String(error);
+        sendImportProgress('error', message);
+        return { success: false, error: message };
+    } finally {
+        finish();
+    }
+});
 
-        // Create characters
-        if (Array.isArray(analysis.characters)) {
-            for (const char of analysis.characters) {
-                const name = sanitize(char.name || 'Unknown');
-                const fileName = `${name}.json`;
-                const data = {
-                    name: char.name || name,
-                    aka: char.aka || '',
-                    lifeStages: Array.isArray(char.lifeStages) ? char.lifeStages : [{ id: 'default', age: 'Current', appearance: '', personality: '', motivation: '' }],
-                    relationships: Array.isArray(char.relationships) ? char.relationships : []
-                };
-                await fs.writeFile(path.join(PROJECT_ROOT, 'Characters', fileName), JSON.stringify(data, null, 2), 'utf-8');
-                sendProgress('creating', `Created character: ${name}`);
-            }
-        }
+// A Scrivener project is read without AI (scrivenerImport.ts) and then goes
+// through the same review as a text import.
+handle('import-scrivener', async (_event, scrivPath: string, clientRequestId?: string) => {
+    const { requestId, signal, finish } = beginAIRequest(clientRequestId);
+    const cancelledResult: IpcFailure = { success: false, cancelled: true, error: 'Import cancelled.' };
+    const projectRoot = PROJECT_ROOT;
+    const generation = importGeneration;
 
-        // Create places
-        if (Array.isArray(analysis.places)) {
-            for (const place of analysis.places) {
-                const name = sanitize(place.name || 'Unknown Place');
-                const fileName = `${name}.json`;
-                const data = {
-                    name: place.name || name,
-                    aka: place.aka || '',
-                    description: place.description || ''
-                };
-                await fs.writeFile(path.join(PROJECT_ROOT, 'Places', fileName), JSON.stringify(data, null, 2), 'utf-8');
-                sendProgress('creating', `Created place: ${name}`);
-            }
+    try {
+        sendImportProgress('reading', `Reading ${path.basename(scrivPath)}...`);
+        const analysis = await readScrivenerProject(scrivPath, detail => sendImportProgress('reading', detail), signal);
+        if (analysis.chapters.length === 0) {
+            return { success: false, error: 'The Scrivener project has no text in its Draft folder.' };
         }
 
-        // Create objects
-        if (Array.isArray(analysis.objects)) {
-            for (const obj of analysis.objects) {
-                const name = sanitize(obj.name || 'Unknown Object');
-                const fileName = `${name}.json`;
-                const data = {
-                    name: obj.name || name,
-                    aka: obj.aka || '',
-                    description: obj.description || '',
-                    properties: obj.properties || ''
-                };
-                await fs.writeFile(path.join(PROJECT_ROOT, 'Objects', fileName), JSON.stringify(data, null, 2), 'utf-8');
-                sendProgress('creating', `Created object: ${name}`);
-            }
-        }
+        sendImportProgress('review', 'Comparing with the project...');
+        const settings = (await readAuctorConfig()).settings || {};
+        const preview = await buildImportPreview(projectRoot, analysis, settings);
+        if (generation !== importGeneration) return cancelledResult;
+        pendingImports.set(requestId, { projectRoot, analysis, preview });
+        return { success: true, importId: requestId, preview };
+    } catch (error) {
+        if (signal.aborted || isAbortError(error)) return cancelledResult;
+        console.error('Scrivener import error:', error);
+        const message = error instanceof Error ? error.message : String(error);
+        sendImportProgress('error', message);
+        return { success: false, error: message };
+    } finally {
+        finish();
+    }
+});
 
-        // Create organisations
-        if (Array.isArray(analysis.organisations)) {
-            for (const org of analysis.organisations) {
-                const name = sanitize(org.name || 'Unknown Organisation');
-                const fileName = `${name}.json`;
-                const data = {
-                    name: org.name || name,
-                    goals: org.goals || '',
-                    members: Array.isArray(org.members) ? org.members : []
-                };
-                await fs.writeFile(path.join(PROJECT_ROOT, 'Organisations', fileName), JSON.stringify(data, null, 2), 'utf-8');
-                sendProgress('creating', `Created organisation: ${name}`);
-            }
-        }
+handle('apply-import', async (_event, importId: string, decisions: Record<string, ImportDecision>) => {
+    const pending = pendingImports.get(importId);
+    if (!pending) return { success: false, error: 'This import is no longer available. Please import the file again.' };
+    if (pending.projectRoot !== PROJECT_ROOT) {
+        pendingImports.delete(importId);
+        return { success: false, error: 'The project changed since the file was analysed. Please import it again.' };
+    }
+    pendingImports.delete(importId);
 
-        // Update auctor.json with plot and subplots
-        sendProgress('finalizing', 'Updating project settings...');
-        const configData = await readAuctorConfig();
-        configData.settings = configData.settings || {};
-        if (analysis.plot) {
-            configData.settings.plot = analysis.plot;
+    try {
+        sendImportProgress('creating', 'Writing project files...');
+        const settings = (await readAuctorConfig()).settings || {};
+        const result = await applyImportDecisions(pending.projectRoot, pending.analysis, pending.preview, decisions || {}, settings,
+            detail => sendImportProgress('creating', detail));
+
+        sendImportProgress('finalizing', 'Updating project settings...');
+        if (result.createdChapters.length > 0) {
+            await setChapterOrder([...await getChapterOrder(), ...result.createdChapters]);
         }
-        if (Array.isArray(analysis.subplots)) {
-            configData.settings.subplots = analysis.subplots;
+        if (result.settings.plot !== undefined || result.settings.subplots !== undefined) {
+            await updateAuctorConfig(configData => {
+                configData.settings = { ...configData.settings, ...result.settings };
+            });
         }
-        await writeAuctorConfig(configData);
+        await clearImportCheckpoints(pending.projectRoot);
 
-        sendProgress('done', 'Import complete!');
-        return {
-            success: true,
-            summary: {
-                chapters: Array.isArray(analysis.chapters) ? analysis.chapters.length : 0,
-                characters: Array.isArray(analysis.characters) ? analysis.characters.length : 0,
-                places: Array.isArray(analysis.places) ? analysis.places.length : 0,
-                objects: Array.isArray(analysis.objects) ? analysis.objects.length : 0,
-                organisations: Array.isArray(analysis.organisations) ? analysis.organisations.length : 0,
-            }
-        };
+        sendImportProgress('done', 'Import complete!');
+        return { success: true, summary: result.summary };
     } catch (error) {
-        console.error('Import text error:', error);
-        sendProgress('error', String(error));
-        return { success: false, error: String(error) };
+        console.error('Apply import error:', error);
+        const message = error instanceof Error ? error.message : String(error);
+        sendImportProgress('error', message);
+        return { success: false, error: message };
     }
 });
 
+handle('discard-import', async (_event, importId: string) => {
+    pendingImports.delete(importId);
+    return { success: true };
+});
 
 // The built directory structure
 //
@@ -1788,6 +1626,7 @@ async function createWindow() {
   if(recent.length > 0) {
       PROJECT_ROOT = recent[0];
   }
+  watchCurrentProject();
   await updateMenu();
 
   win = new BrowserWindow({
@@ -1797,13 +1636,29 @@ async function createWindow() {
     },
   })
 
+  // Ask before closing would lose unsaved edits; once they are dealt with, close for real
+  let closeConfirmed = false;
+  win.on('close', (event) => {
+    if (closeConfirmed || unsavedBuffers(PROJECT_ROOT).length === 0) return;
+    event.preventDefault();
+    resolveUnsavedChanges('closing').then(proceed => {
+      if (!proceed) return;
+      closeConfirmed = true;
+      win?.close();
+    }).catch(console.error);
+  });
+
+  // A reloaded or crashed renderer has lost its import previews
+  win.webContents.on('did-start-loading', discardPendingImports);
+  win.webContents.on('render-process-gone', discardPendingImports);
+
   // Test active push message to Renderer-process.
   win.webContents.on('did-finish-load', () => {
-    win?.webContents.send('main-process-message', (new Date).toLocaleString())
+    emit(win?.webContents, 'main-process-message', (new Date).toLocaleString())
   })
 
     // Context Menu
-    win.webContents.on('context-menu', (_, params) => {
+    win.webContents.on('context-menu', async (_, params) => {
         const menuTemplate: MenuItemConstructorOptions[] = [];
 
         // Spell Check
@@ -1838,36 +1693,30 @@ async function createWindow() {
             menuTemplate.push(
                 {
                     label: '𝐁  Bold',
-                    click: () => win?.webContents.send('format-bold'),
+                    click: () => emit(win?.webContents, 'format-bold'),
                 },
                 {
                     label: '𝐼  Italic',
-                    click: () => win?.webContents.send('format-italic'),
+                    click: () => emit(win?.webContents, 'format-italic'),
                 }
             );
 
-            // Rewrite Selection (only if text is selected)
+            // Selection actions (only if text is selected): the built-in
+            // rewrites followed by the project's custom actions
             if (params.selectionText.trim().length > 0) {
                  menuTemplate.push({ type: 'separator' });
-                 menuTemplate.push({
-                     label: '✨ Rewrite Text',
-                     click: () => win?.webContents.send('rewrite-selection'),
-                 });
-
-                 menuTemplate.push({
-                     label: '✂️ Make Shorter',
-                     click: () => win?.webContents.send('make-shorter-selection'),
-                 });
-
-                 menuTemplate.push({
-                     label: '➕ Make Longer',
-                     click: () => win?.webContents.send('make-longer-selection'),
-                 });
+                 const library = await readPromptLibrary(PROJECT_ROOT);
+                 for (const action of resolvePromptTemplates(library).filter(t => t.kind === 'selection')) {
+                     menuTemplate.push({
+                         label: action.menuLabel || action.name,
+                         click: () => emit(win?.webContents, 'run-selection-action', action.id),
+                     });
+                 }
 
                  menuTemplate.push({ type: 'separator' });
                  menuTemplate.push({
                      label: '🔍 Refine',
-                     click: () => win?.webContents.send('refine-selection'),
+                     click: () => emit(win?.webContents, 'refine-selection'),
                  });
             }
         }
@@ -1909,125 +1758,65 @@ app.whenReady().then(() => {
 
 // ... (previous functions)
 
-async function exportToPDF(window: BrowserWindow) {
+/**
+ * Exports the manuscript as the profile describes. Returns the file written,
+ * or null when the save dialog was cancelled.
+ */
+async function exportManuscript(window: BrowserWindow, profile: ExportProfile): Promise<string | null> {
+    // Read first, so a damaged config is recovered before the manuscript is built from it
+    const configData = await readAuctorConfig();
+    const manuscript = applyExportProfile(await loadManuscript(PROJECT_ROOT, configData), profile);
+    if (manuscript.chapters.length === 0) {
+        throw new Error('No chapters to export. Check the chapter selection in the export profile.');
+    }
+
+    const format = EXPORT_FORMATS.find(f => f.id === profile.format) ?? EXPORT_FORMATS[0];
     const { filePath } = await dialog.showSaveDialog(window, {
-        title: 'Export Novel to PDF',
-        defaultPath: 'novel.pdf',
-        filters: [{ name: 'PDF Document', extensions: ['pdf'] }]
+        title: `Export Novel to ${format.label}`,
+        defaultPath: `${sanitizeFilenamePart(manuscript.title)}.${format.extension}`,
+        filters: [{ name: `${format.label} Document`, extensions: [format.extension] }]
     });
+    if (!filePath) return null;
 
-    if (!filePath) return;
+    if (profile.format === 'epub') {
+        await writeManuscriptEpub(manuscript, filePath);
+    } else if (profile.format === 'docx') {
+        await writeManuscriptDocx(manuscript, normalizeDocxExportOptions(configData.settings?.docxExport), filePath);
+    } else {
+        await writeManuscriptPdf(manuscript, normalizePdfExportOptions(configData.settings?.pdfExport), filePath);
+    }
+    return filePath;
+}
 
+async function exportStoryBible(window: BrowserWindow) {
     try {
-        // 1. Get Project Metadata
-        let title = "Untitled Novel";
-        try {
-            const auctorPath = path.join(PROJECT_ROOT, 'auctor.json');
-            const data = JSON.parse(await fs.readFile(auctorPath, 'utf-8'));
-            if (data.name) title = data.name;
-        } catch (e) {
-            console.error("No project metadata found, using default.");
-        }
-
-        // 2. Get Chapters
-        const chaptersDir = path.join(PROJECT_ROOT, 'Chapters');
-        let chapterFiles: string[] = [];
-        try {
-            chapterFiles = await fs.readdir(chaptersDir);
-        } catch {
-            dialog.showErrorBox("Export Failed", "Could not find Chapters directory.");
+        const bible = await loadStoryBible(PROJECT_ROOT, await readAuctorConfig());
+        if (!bible.plot && bible.sections.length === 0) {
+            dialog.showErrorBox("Export Failed", "The project has no plot, subplots, characters, places, objects or organisations to export.");
             return;
         }
 
-        // Filter and sort
-        chapterFiles = chapterFiles.filter(f => f.endsWith('.md') || f.endsWith('.txt')).sort((a,b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
-
-        if (chapterFiles.length === 0) {
-            dialog.showErrorBox("Export Failed", "No chapters found to export.");
-            return;
-        }
-
-        // 3. Setup PDF
-        const doc = new PDFDocument({ bufferPages: true, autoFirstPage: false, size: 'A4', margin: 50 });
-        const stream = createWriteStream(filePath);
-        doc.pipe(stream);
-
-        // --- Title Page ---
-        doc.addPage();
-        doc.moveDown(10);
-        doc.font('Helvetica-Bold').fontSize(32).text(title, { align: 'center' });
-        doc.moveDown(2);
-        doc.font('Helvetica').fontSize(14).text("A Novel", { align: 'center' });
-        
-        // --- Table of Contents Placeholder ---
-        doc.addPage();
-        const tocInfo = {
-             pageIndex: 1 // 0-based index of this TOC page
-        };
-        doc.font('Helvetica-Bold').fontSize(18).text("Table of Contents", { align: 'center', underline: true });
-        doc.moveDown(2);
-        
-        // --- Content ---
-        const tocEntries: string[] = [];
-        
-        for (const file of chapterFiles) {
-            const contentPath = path.join(chaptersDir, file);
-            const rawContent = await fs.readFile(contentPath, 'utf-8');
-            
-            // Extract Text part
-            let text = rawContent;
-            const textMatch = rawContent.match(/<text>([\s\S]*?)<\/text>/);
-            if (textMatch) {
-                text = textMatch[1].trim();
-            }
-
-            // Strip HTML tags
-            let plainText = text
-                .replace(/<\/p>/g, '\n\n')
-                .replace(/<br\s*\/?>/g, '\n')
-                .replace(/<[^>]+>/g, '') // remove remaining tags
-                .replace(/&nbsp;/g, ' ')
-                .replace(/&amp;/g, '&')
-                .replace(/&lt;/g, '<')
-                .replace(/&gt;/g, '>')
-                .replace(/&quot;/g, '"');
-
-            // Add Page for Chapter
-            doc.addPage();
-            
-            // Format Title
-            const chapterTitle = file.replace(/\.(md|txt)$/, '');
-            tocEntries.push(chapterTitle);
+        const { filePath } = await dialog.showSaveDialog(window, {
+            title: 'Export Story Bible',
+            defaultPath: `${sanitizeFilenamePart(bible.title)} - Story Bible.pdf`,
+            filters: [
+                { name: 'PDF Document', extensions: ['pdf'] },
+                { name: 'Web Page', extensions: ['html'] }
+            ]
+        });
+        if (!filePath) return;
 
-            doc.font('Helvetica-Bold').fontSize(18).text(chapterTitle, { align: 'center' });
-            doc.moveDown();
-            doc.font('Helvetica').fontSize(12).text(plainText, { align: 'justify', lineGap: 2 });
+        if (/\.html?$/i.test(filePath)) {
+            await fs.writeFile(filePath, storyBibleHtml(bible), 'utf-8');
+        } else {
+            await writeStoryBiblePdf(bible, filePath);
         }
 
-        // 4. Fill TOC (Go back to page 2)
-        doc.switchToPage(tocInfo.pageIndex); 
-        doc.font('Helvetica').fontSize(12);
-        
-        tocEntries.forEach((title, index) => {
-             doc.text(`${index + 1}. ${title}`, { align: 'left' });
-             doc.moveDown(0.5);
-        });
-        
-        // 5. Finalize
-        doc.end();
-        
-        // Simple manual Promise wrapper for stream finish
-        await new Promise<void>((resolve, reject) => {
-            stream.on('finish', () => resolve());
-            stream.on('error', reject);
-        });
-        
-        dialog.showMessageBox(window, { 
-            type: 'info', 
-            title: 'Export Successful', 
-            message: `Successfully exported to ${filePath}` 
+        dialog.showMessageBox(window, {
+            type: 'info',
+            title: 'Export Successful',
+            message: `Successfully exported to ${filePath}`
         });
-
     } catch (e) {
         console.error(e);
         dialog.showErrorBox("Export Error", String(e));
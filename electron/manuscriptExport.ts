@@ -0,0 +1,272 @@
+import path from 'node:path'
+import { listChaptersInOrder, readChapter } from './chapters';
+import { AuctorConfig } from './projectConfig';
+import { tokenizeMarkup } from './manuscriptReaders';
+import { isSceneBreak, plainTextParagraphs } from './manuscriptSplitter';
+import { ExportProfile, chapterHeading } from '../src/utils/exportProfiles';
+
+// --- Manuscript Export ---
+// The manuscript as the exporters see it: chapters in reading order, each
+// parsed from the editor HTML in its <text> block into paragraphs of
+// formatted runs, plus the title, subtitle, author, language and cover from
+// Project Settings. An export profile (src/utils/exportProfiles.ts) then picks
+// the chapters, sets their headings and adds front and back matter.
+// Format-specific writers (pdfExport.ts, epubExport.ts, docxExport.ts) lay
+// these blocks out.
+
+export type InlineRun = { text: string; bold?: boolean; italic?: boolean; strike?: boolean; code?: boolean };
+
+export type ExportBlock =
+    | { type: 'paragraph'; runs: InlineRun[] }
+    | { type: 'heading'; level: number; runs: InlineRun[] }
+    | { type: 'quote'; runs: InlineRun[] }
+    | { type: 'listItem'; ordered: boolean; number: number; depth: number; runs: InlineRun[] }
+    | { type: 'code'; text: string }
+    | { type: 'sceneBreak' };
+
+export type ExportChapter = {
+    file: string;
+    title: string;
+    summary: string;
+    critique: string;
+    blocks: ExportBlock[];
+};
+
+export type ExportSection = {
+    /**
+     * Dedication and copyright pages are untitled and set apart on their own
+     * page; other sections are laid out like chapters.
+     */
+    kind: 'dedication' | 'copyright' | 'section';
+    title: string;
+    blocks: ExportBlock[];
+};
+
+export type ExportManuscript = {
+    title: string;
+    subtitle: string;
+    author: string;
+    /** BCP 47 language tag, e.g. "en" or "en-GB". */
+    language: string;
+    /** Absolute path of the cover image, if the project has one. */
+    coverImage: string | null;
+    /** Pages between the title page and the first chapter. */
+    frontMatter: ExportSection[];
+    chapters: ExportChapter[];
+    backMatter: ExportSection[];
+};
+
+type Marks = Omit<InlineRun, 'text'>;
+
+const MARK_TAGS: Record<string, keyof Marks> = {
+    strong: 'bold', b: 'bold',
+    em: 'italic', i: 'italic',
+    s: 'strike', strike: 'strike', del: 'strike',
+    code: 'code',
+};
+
+const TEXT_BLOCKS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'pre', 'div']);
+
+export const runsText = (runs: InlineRun[]) => runs.map(r => r.text).join('');
+
+/** Joins neighbouring runs with the same marks and trims the ends of the block. */
+function tidyRuns(runs: InlineRun[]): InlineRun[] {
+    const merged: InlineRun[] = [];
+    for (const run of runs) {
+        const last = merged[merged.length - 1];
+        if (last && last.bold === run.bold && last.italic === run.italic && last.strike === run.strike && last.code === run.code) {
+            last.text += run.text;
+        } else {
+            merged.push({ ...run });
+        }
+    }
+    for (const run of merged) run.text = run.text.replace(/ *\n */g, '\n');
+    if (merged.length > 0) {
+        merged[0].text = merged[0].text.replace(/^\s+/, '');
+        const last = merged[merged.length - 1];
+        last.text = last.text.replace(/\s+$/, '');
+    }
+    return merged.filter(r => r.text);
+}
+
+/** Parses TipTap editor HTML into export blocks. */
+export function htmlToBlocks(html: string): ExportBlock[] {
+    const blocks: ExportBlock[] = [];
+    const marks: Record<keyof Marks, number> = { bold: 0, italic: 0, strike: 0, code: 0 };
+    const lists: { ordered: boolean; count: number }[] = [];
+    let quoteDepth = 0;
+    let block: { tag: string; runs: InlineRun[] } | null = null;
+    let preText: string | null = null;
+
+    const flush = () => {
+        if (!block) return;
+        const runs = tidyRuns(block.runs);
+        const tag = block.tag;
+        block = null;
+        if (runs.length === 0) return;
+        if (isSceneBreak(runsText(runs))) {
+            blocks.push({ type: 'sceneBreak' });
+        } else if (/^h[1-6]$/.test(tag)) {
+            blocks.push({ type: 'heading', level: Number(tag[1]), runs });
+        } else if (tag === 'li' && lists.length > 0) {
+            const list = lists[lists.length - 1];
+            blocks.push({ type: 'listItem', ordered: list.ordered, number: list.count, depth: lists.length - 1, runs });
+        } else if (quoteDepth > 0) {
+            blocks.push({ type: 'quote', runs });
+        } else {
+            blocks.push({ type: 'paragraph', runs });
+        }
+    };
+    const addText = (text: string) => {
+        if (preText !== null) {
+            preText += text;
+            return;
+        }
+        if (!block) block = { tag: 'p', runs: [] };
+        const run: InlineRun = { text };
+        for (const key of Object.keys(marks) as (keyof Marks)[]) if (marks[key] > 0) run[key] = true;
+        block.runs.push(run);
+    };
+
+    for (const token of tokenizeMarkup(html)) {
+        if (token.type === 'text') {
+            if (preText !== null) addText(token.text);
+            else if (block || token.text.trim()) addText(token.text.replace(/\s+/g, ' '));
+            continue;
+        }
+        const name = token.name;
+        if (token.type === 'open') {
+            if (name === 'br') {
+                addText('\n');
+            } else if (name === 'hr') {
+                flush();
+                blocks.push({ type: 'sceneBreak' });
+            } else if (name === 'pre') {
+                flush();
+                preText = '';
+            } else if (MARK_TAGS[name] && !token.selfClosing) {
+                if (preText === null) marks[MARK_TAGS[name]]++;
+            } else if (name === 'ul' || name === 'ol') {
+                flush();
+                lists.push({ ordered: name === 'ol', count: 0 });
+            } else if (name === 'blockquote') {
+                flush();
+                quoteDepth++;
+            } else if (TEXT_BLOCKS.has(name)) {
+                // A <p> inside an <li> continues the list item
+                if (name === 'p' && block?.tag === 'li' && block.runs.length === 0) continue;
+                flush();
+                if (name === 'li' && lists.length > 0) lists[lists.length - 1].count++;
+                block = { tag: name, runs: [] };
+            }
+            continue;
+        }
+        if (name === 'pre') {
+            if (preText !== null && preText.trim()) blocks.push({ type: 'code', text: preText.replace(/^\n+|\s+$/g, '') });
+            preText = null;
+        } else if (MARK_TAGS[name]) {
+            if (preText === null) marks[MARK_TAGS[name]] = Math.max(0, marks[MARK_TAGS[name]] - 1);
+        } else if (name === 'ul' || name === 'ol') {
+            flush();
+            lists.pop();
+        } else if (name === 'blockquote') {
+            flush();
+            quoteDepth = Math.max(0, quoteDepth - 1);
+        } else if (TEXT_BLOCKS.has(name)) {
+            if (name === 'p' && block?.tag === 'li') continue;
+            flush();
+        }
+    }
+    flush();
+    return blocks;
+}
+
+/** Blocks for a chapter body, which is editor HTML or, in older files, plain text. */
+export function chapterBlocks(body: string): ExportBlock[] {
+    if (/<\/?(p|h[1-6]|br|div|ul|ol|blockquote|hr)\b/i.test(body)) return htmlToBlocks(body);
+    return plainTextParagraphs(body).map((text): ExportBlock =>
+        isSceneBreak(text) ? { type: 'sceneBreak' } : { type: 'paragraph', runs: [{ text }] });
+}
+
+/** The manuscript with the title and chapter order from `config`, which the caller has read. */
+export async function loadManuscript(projectRoot: string, config: AuctorConfig): Promise<ExportManuscript> {
+    const settings = config.settings || {};
+
+    const chapters: ExportChapter[] = [];
+    for (const info of await listChaptersInOrder(projectRoot, config)) {
+        if (!/\.(md|txt)$/i.test(info.file)) continue;
+        const chapter = await readChapter(projectRoot, info.file);
+        chapters.push({
+            file: info.file,
+            title: info.title,
+            summary: typeof chapter.settings.summary === 'string' ? chapter.settings.summary : '',
+            critique: chapter.critique,
+            blocks: chapterBlocks(chapter.html),
+        });
+    }
+
+    return {
+        title: (settings.title || config.name || 'Untitled').trim(),
+        subtitle: (settings.subtitle || '').trim(),
+        author: (settings.author || '').trim(),
+        language: (settings.language || '').trim() || 'en',
+        coverImage: typeof settings.coverImage === 'string' && settings.coverImage.trim()
+            ? path.resolve(projectRoot, settings.coverImage.trim())
+            : null,
+        frontMatter: [],
+        chapters,
+        backMatter: [],
+    };
+}
+
+/**
+ * The manuscript as a profile exports it: the chosen chapters with their
+ * headings, summaries and critiques, between the front and back matter.
+ * Chapters keep their number in the full manuscript, so exporting chapters
+ * 5 to 8 still heads the first one "Chapter 5".
+ */
+export function applyExportProfile(manuscript: ExportManuscript, profile: ExportProfile): ExportManuscript {
+    const selected = new Set(profile.selectedChapters);
+    const chapters = manuscript.chapters
+        .map((chapter, i) => ({ chapter, n: i + 1 }))
+        .filter(({ chapter, n }) => {
+            if (profile.chapters === 'range') return n >= profile.rangeFrom && n <= profile.rangeTo;
+            if (profile.chapters === 'selected') return selected.has(chapter.file);
+            return true;
+        })
+        .map(({ chapter, n }): ExportChapter => {
+            const blocks = [...chapter.blocks];
+            if (profile.includeSummaries && chapter.summary.trim()) {
+                blocks.unshift({ type: 'quote', runs: [{ text: chapter.summary.trim(), italic: true }] });
+            }
+            if (profile.includeCritiques && chapter.critique.trim()) {
+                blocks.push({ type: 'heading', level: 2, runs: [{ text: 'Critique' }] }, ...chapterBlocks(chapter.critique));
+            }
+            return { ...chapter, title: chapterHeading(profile, n, chapter.title), blocks };
+        });
+
+    const frontMatter: ExportSection[] = [];
+    if (profile.copyrightPage) {
+        const notice = profile.copyright.trim()
+            || `Copyright © ${new Date().getFullYear()}${manuscript.author ? ` ${manuscript.author}` : ''}. All rights reserved.`;
+        frontMatter.push({ kind: 'copyright', title: 'Copyright', blocks: chapterBlocks(notice) });
+    }
+    if (profile.dedication.trim()) {
+        frontMatter.push({ kind: 'dedication', title: 'Dedication', blocks: chapterBlocks(profile.dedication.trim()) });
+    }
+
+    const backMatter: ExportSection[] = [];
+    if (profile.acknowledgements.trim()) {
+        backMatter.push({ kind: 'section', title: 'Acknowledgements', blocks: chapterBlocks(profile.acknowledgements.trim()) });
+    }
+    if (profile.aboutTheAuthor.trim()) {
+        backMatter.push({ kind: 'section', title: 'About the Author', blocks: chapterBlocks(profile.aboutTheAuthor.trim()) });
+    }
+
+    return {
+        ...manuscript,
+        frontMatter: [...manuscript.frontMatter, ...frontMatter],
+        chapters,
+        backMatter: [...manuscript.backMatter, ...backMatter],
+    };
+}
@@ -0,0 +1,55 @@
+import os from 'node:os'
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { createWriteStream } from 'node:fs'
+import archiver from 'archiver'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { readManuscript } from './manuscriptReaders'
+
+async function writeZip(filePath: string, entries: Record<string, string>) {
+    const output = createWriteStream(filePath);
+    const archive = archiver('zip');
+    const done = new Promise<void>((resolve, reject) => {
+        output.on('close', () => resolve());
+        archive.on('error', reject);
+    });
+    archive.pipe(output);
+    for (const [name, content] of Object.entries(entries)) archive.append(content, { name });
+    await archive.finalize();
+    await done;
+}
+
+const xhtml = (title: string, body: string) =>
+    `<?xml version="1.0"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>${title}</title></head><body>${body}</body></html>`;
+
+describe('readManuscript (EPUB)', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'auctor-epub-'));
+    });
+
+    afterAll(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('reads documents whose manifest href has a stray or encoded %', async () => {
+        const epub = path.join(dir, 'book.epub');
+        await writeZip(epub, {
+            'mimetype': 'application/epub+zip',
+            'META-INF/container.xml': '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>',
+            'OEBPS/content.opf': [
+                '<package><manifest>',
+                '<item id="one" href="100%.xhtml" media-type="application/xhtml+xml"/>',
+                '<item id="two" href="Chapter%202.xhtml" media-type="application/xhtml+xml"/>',
+                '</manifest><spine><itemref idref="one"/><itemref idref="two"/></spine></package>',
+            ].join(''),
+            'OEBPS/100%.xhtml': xhtml('Full Strength', '<p>The engines ran at full power.</p>'),
+            'OEBPS/Chapter 2.xhtml': xhtml('The Quiet', '<p>Then everything stopped.</p>'),
+        });
+
+        const chapters = await readManuscript(epub);
+        expect(chapters.map(c => c.title)).toEqual(['Full Strength', 'The Quiet']);
+        expect(chapters[0].paragraphs.map(p => p.text)).toEqual(['The engines ran at full power.']);
+    });
+});
@@ -0,0 +1,645 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import * as unzipper from 'unzipper';
+import {
+    escapeHtml,
+    isSceneBreak,
+    ManuscriptChapter,
+    ManuscriptParagraph,
+    splitIntoChapters,
+    splitPlainTextManuscript,
+} from './manuscriptSplitter';
+
+// --- Manuscript Readers ---
+// Converts the formats File → Import Text accepts into manuscript paragraphs
+// (editor HTML with bold, italics and strikethrough kept) for the chapter
+// splitter. Heading styles (Word "Heading 1", ODT outline levels, HTML <h1>,
+// RTF \outlinelevel) mark the chapters; anything else falls back to the
+// plain-text heading rules. Everything is read with a small tag tokenizer
+// rather than a DOM, since these run in the main process.
+
+export const IMPORT_FILE_EXTENSIONS = ['txt', 'md', 'text', 'docx', 'odt', 'epub', 'rtf', 'html', 'htm', 'xhtml'];
+
+export async function readManuscript(filePath: string): Promise<ManuscriptChapter[]> {
+    const ext = path.extname(filePath).slice(1).toLowerCase();
+    switch (ext) {
+        case 'txt':
+        case 'md':
+        case 'text':
+            return splitPlainTextManuscript(await fs.readFile(filePath, 'utf-8'));
+        case 'docx':
+            return splitIntoChapters(await readDocx(filePath));
+        case 'odt':
+            return splitIntoChapters(await readOdt(filePath));
+        case 'epub':
+            return readEpub(filePath);
+        case 'rtf':
+            return splitIntoChapters(readRtf(await fs.readFile(filePath, 'latin1')));
+        case 'html':
+        case 'htm':
+        case 'xhtml':
+            return splitIntoChapters(readHtml(await fs.readFile(filePath, 'utf-8')));
+        default:
+            throw new Error(`Unsupported file type ".${ext}". Import accepts ${IMPORT_FILE_EXTENSIONS.map(e => `.${e}`).join(', ')}.`);
+    }
+}
+
+// --- Paragraph Building ---
+
+type Marks = { bold: boolean; italic: boolean; strike: boolean };
+
+const NO_MARKS: Marks = { bold: false, italic: false, strike: false };
+const MARK_TAGS: [keyof Marks, string][] = [['bold', 'strong'], ['italic', 'em'], ['strike', 's']];
+
+/** Accumulates formatted text runs into paragraphs of editor HTML. */
+function createParagraphCollector() {
+    const paragraphs: ManuscriptParagraph[] = [];
+    let html = '';
+    let text = '';
+    let open: Marks = NO_MARKS;
+
+    const setMarks = (marks: Marks) => {
+        if (MARK_TAGS.every(([key]) => open[key] === marks[key])) return;
+        for (const [key, tag] of [...MARK_TAGS].reverse()) if (open[key]) html += `</${tag}>`;
+        for (const [key, tag] of MARK_TAGS) if (marks[key]) html += `<${tag}>`;
+        open = { ...marks };
+    };
+
+    return {
+        paragraphs,
+        text(value: string, marks: Marks = NO_MARKS) {
+            if (!text) value = value.replace(/^\s+/, '');
+            if (!value) return;
+            setMarks(marks);
+            html += escapeHtml(value);
+            text += value;
+        },
+        lineBreak() {
+            if (!text) return;
+            setMarks(NO_MARKS);
+            html += '<br>';
+            text += '\n';
+        },
+        sceneBreak() {
+            this.end();
+            paragraphs.push({ text: '* * *', html: '<p>* * *</p>', sceneBreak: true });
+        },
+        end(heading?: number) {
+            setMarks(NO_MARKS);
+            const trimmedText = text.trim();
+            const inner = html.replace(/(?:\s|<br>)+((?:<\/[a-z]+>)*)$/, '$1');
+            html = '';
+            text = '';
+            if (!trimmedText) return;
+            if (isSceneBreak(trimmedText)) {
+                paragraphs.push({ text: trimmedText, html: `<p>${escapeHtml(trimmedText)}</p>`, sceneBreak: true });
+            } else if (heading !== undefined) {
+                // Headings drop their run formatting; most are bold throughout
+                const tag = `h${Math.min(6, Math.max(1, heading))}`;
+                paragraphs.push({ text: trimmedText, html: `<${tag}>${escapeHtml(trimmedText.replace(/\s+/g, ' '))}</${tag}>`, heading });
+            } else {
+                paragraphs.push({ text: trimmedText, html: `<p>${inner}</p>` });
+            }
+        },
+    };
+}
+
+// --- Markup Tokenizer ---
+
+export type MarkupToken =
+    | { type: 'text'; text: string }
+    | { type: 'open'; name: string; attrs: Record<string, string>; selfClosing: boolean }
+    | { type: 'close'; name: string };
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+    mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+    laquo: '«', raquo: '»', copy: '©', shy: '\u00ad', eacute: 'é', egrave: 'è', agrave: 'à',
+    ccedil: 'ç', uuml: 'ü', ouml: 'ö', auml: 'ä', szlig: 'ß', iuml: 'ï', ntilde: 'ñ',
+};
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+const TAG_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+const ATTR_PATTERN = /([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/** Tags (names lower-cased, namespace prefixes kept) and decoded text, in order. */
+export function* tokenizeMarkup(source: string): Generator<MarkupToken> {
+    let last = 0;
+    TAG_PATTERN.lastIndex = 0;
+    for (let match = TAG_PATTERN.exec(source); match; match = TAG_PATTERN.exec(source)) {
+        if (match.index > last) yield { type: 'text', text: decodeEntities(source.slice(last, match.index)) };
+        last = TAG_PATTERN.lastIndex;
+        if (match[1] !== undefined) {
+            yield { type: 'text', text: match[1] };
+        } else if (match[2]) {
+            yield { type: 'close', name: match[2].toLowerCase() };
+        } else if (match[3]) {
+            const attrs: Record<string, string> = {};
+            for (const attr of (match[4] || '').matchAll(ATTR_PATTERN)) {
+                attrs[attr[1].toLowerCase()] = decodeEntities(attr[2] ?? attr[3] ?? attr[4] ?? '');
+            }
+            yield { type: 'open', name: match[3].toLowerCase(), attrs, selfClosing: match[5] === '/' };
+        }
+    }
+    if (last < source.length) yield { type: 'text', text: decodeEntities(source.slice(last)) };
+}
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ');
+
+// --- HTML (and EPUB chapters) ---
+
+const HTML_BLOCK_TAGS = new Set(['p', 'div', 'li', 'blockquote', 'section', 'article', 'header', 'footer', 'main', 'td', 'th', 'pre', 'figure', 'figcaption', 'aside', 'dd', 'dt', 'ul', 'ol', 'table', 'tr', 'body']);
+const HTML_SKIP_TAGS = new Set(['head', 'script', 'style', 'nav', 'svg', 'math', 'title', 'noscript', 'template']);
+const HTML_VOID_TAGS = new Set(['br', 'hr', 'img', 'meta', 'link', 'input', 'col', 'wbr', 'source']);
+
+function htmlMarks(name: string, attrs: Record<string, string>): Partial<Marks> {
+    const marks: Partial<Marks> = {};
+    if (['em', 'i', 'cite', 'dfn', 'var'].includes(name)) marks.italic = true;
+    if (['strong', 'b'].includes(name)) marks.bold = true;
+    if (['s', 'strike', 'del'].includes(name)) marks.strike = true;
+    const style = (attrs.style || '').toLowerCase();
+    if (/font-style\s*:\s*(italic|oblique)/.test(style)) marks.italic = true;
+    if (/font-weight\s*:\s*(bold|[6-9]00)/.test(style)) marks.bold = true;
+    if (/text-decoration[^;]*line-through/.test(style)) marks.strike = true;
+    return marks;
+}
+
+function readHtml(source: string, collector = createParagraphCollector()): ManuscriptParagraph[] {
+    const stack: { name: string; marks: Partial<Marks> }[] = [];
+    let skipDepth = 0;
+    let heading: number | undefined;
+
+    const currentMarks = (): Marks => ({
+        bold: stack.some(e => e.marks.bold),
+        italic: stack.some(e => e.marks.italic),
+        strike: stack.some(e => e.marks.strike),
+    });
+
+    for (const token of tokenizeMarkup(source)) {
+        if (token.type === 'text') {
+            if (skipDepth === 0) collector.text(collapseWhitespace(token.text), currentMarks());
+            continue;
+        }
+        const name = token.name.replace(/^.*:/, '');
+        if (token.type === 'open') {
+            if (HTML_SKIP_TAGS.has(name) && !token.selfClosing) {
+                skipDepth++;
+                continue;
+            }
+            if (skipDepth > 0) continue;
+            if (name === 'br') collector.lineBreak();
+            else if (name === 'hr') collector.sceneBreak();
+            else if (/^h[1-6]$/.test(name)) {
+                collector.end(heading);
+                heading = Number(name[1]);
+            } else if (HTML_BLOCK_TAGS.has(name)) collector.end(heading);
+            if (!token.selfClosing && !HTML_VOID_TAGS.has(name)) stack.push({ name, marks: htmlMarks(name, token.attrs) });
+            continue;
+        }
+        if (HTML_SKIP_TAGS.has(name)) {
+            skipDepth = Math.max(0, skipDepth - 1);
+            continue;
+        }
+        if (skipDepth > 0) continue;
+        const index = stack.map(e => e.name).lastIndexOf(name);
+        if (index >= 0) stack.length = index;
+        if (/^h[1-6]$/.test(name)) {
+            collector.end(heading);
+            heading = undefined;
+        } else if (HTML_BLOCK_TAGS.has(name)) {
+            collector.end(heading);
+        }
+    }
+    collector.end(heading);
+    return collector.paragraphs;
+}
+
+// --- Zip Containers ---
+
+async function openZip(filePath: string) {
+    const directory = await unzipper.Open.file(filePath);
+    const files = new Map(directory.files.map(f => [f.path.replace(/\\/g, '/'), f]));
+    return {
+        has: (entry: string) => files.has(entry),
+        read: async (entry: string) => {
+            const file = files.get(entry);
+            if (!file) throw new Error(`${path.basename(filePath)} is missing ${entry}.`);
+            return (await file.buffer()).toString('utf-8');
+        },
+    };
+}
+
+const isOn = (attrs: Record<string, string>) => !['0', 'false', 'off', 'none'].includes((attrs['w:val'] ?? '').toLowerCase());
+
+// --- Word (.docx) ---
+
+/** Heading level per paragraph style id, from the style name ("heading 2") or its outline level. */
+function docxHeadingStyles(stylesXml: string): Map<string, number> {
+    const levels = new Map<string, number>();
+    let styleId: string | null = null;
+    for (const token of tokenizeMarkup(stylesXml)) {
+        if (token.type === 'open' && token.name === 'w:style') {
+            styleId = token.attrs['w:type'] === 'paragraph' ? token.attrs['w:styleid'] ?? null : null;
+        } else if (token.type === 'open' && styleId) {
+            if (token.name === 'w:name') {
+                const name = (token.attrs['w:val'] || '').toLowerCase();
+                const match = name.match(/^heading\s*(\d)$/);
+                if (match) levels.set(styleId, Number(match[1]));
+                else if (name === 'title') levels.set(styleId, 0);
+            } else if (token.name === 'w:outlinelvl' && !levels.has(styleId)) {
+                const level = Number(token.attrs['w:val']);
+                if (level >= 0 && level < 9) levels.set(styleId, level + 1);
+            }
+        } else if (token.type === 'close' && token.name === 'w:style') {
+            styleId = null;
+        }
+    }
+    return levels;
+}
+
+async function readDocx(filePath: string): Promise<ManuscriptParagraph[]> {
+    const zip = await openZip(filePath);
+    const styles = zip.has('word/styles.xml') ? docxHeadingStyles(await zip.read('word/styles.xml')) : new Map<string, number>();
+    const documentXml = await zip.read('word/document.xml');
+
+    const collector = createParagraphCollector();
+    // Text boxes nest whole paragraphs; alternate content repeats what it wraps
+    const skipTags = new Set(['w:txbxcontent', 'mc:fallback', 'w:footnotereference', 'w:endnotereference', 'w:commentreference']);
+    let skipDepth = 0;
+    let inParagraphProps = false;
+    let inText = false;
+    let heading: number | undefined;
+    let marks: Marks = NO_MARKS;
+
+    for (const token of tokenizeMarkup(documentXml)) {
+        if (token.type === 'text') {
+            if (inText && skipDepth === 0) collector.text(token.text, marks);
+            continue;
+        }
+        if (skipTags.has(token.name)) {
+            if (token.type === 'open' && !token.selfClosing) skipDepth++;
+            else if (token.type === 'close') skipDepth = Math.max(0, skipDepth - 1);
+            continue;
+        }
+        if (skipDepth > 0) continue;
+
+        if (token.type === 'close') {
+            if (token.name === 'w:p') {
+                collector.end(heading);
+                heading = undefined;
+            } else if (token.name === 'w:ppr') inParagraphProps = false;
+            else if (token.name === 'w:t') inText = false;
+            continue;
+        }
+
+        switch (token.name) {
+            case 'w:p':
+                heading = undefined;
+                if (token.selfClosing) collector.end();
+                break;
+            case 'w:ppr':
+                inParagraphProps = !token.selfClosing;
+                break;
+            case 'w:pstyle':
+                if (styles.has(token.attrs['w:val'])) heading = styles.get(token.attrs['w:val']);
+                else if (/^heading(\d)$/i.test(token.attrs['w:val'] || '')) heading = Number(token.attrs['w:val'].slice(-1));
+                break;
+            case 'w:outlinelvl':
+                if (inParagraphProps && Number(token.attrs['w:val']) < 9) heading = Number(token.attrs['w:val']) + 1;
+                break;
+            case 'w:r':
+                marks = NO_MARKS;
+                break;
+            case 'w:b':
+                if (!inParagraphProps) marks = { ...marks, bold: isOn(token.attrs) };
+                break;
+            case 'w:i':
+                if (!inParagraphProps) marks = { ...marks, italic: isOn(token.attrs) };
+                break;
+            case 'w:strike':
+            case 'w:dstrike':
+                if (!inParagraphProps) marks = { ...marks, strike: isOn(token.attrs) };
+                break;
+            case 'w:t':
+                inText = !token.selfClosing;
+                break;
+            case 'w:tab':
+                if (!inParagraphProps) collector.text(' ', marks);
+                break;
+            case 'w:nobreakhyphen':
+                collector.text('-', marks);
+                break;
+            case 'w:br':
+            case 'w:cr':
+                // Page and column breaks are layout, not line breaks
+                if (!token.attrs['w:type'] || token.attrs['w:type'] === 'textWrapping') collector.lineBreak();
+                break;
+        }
+    }
+    collector.end();
+    return collector.paragraphs;
+}
+
+// --- OpenDocument (.odt) ---
+
+type OdtStyle = { parent?: string; marks: Partial<Marks>; outline?: number };
+
+function odtStyles(xml: string, styles: Map<string, OdtStyle>) {
+    let current: OdtStyle | null = null;
+    for (const token of tokenizeMarkup(xml)) {
+        if (token.type === 'open' && token.name === 'style:style') {
+            current = { parent: token.attrs['style:parent-style-name'], marks: {} };
+            const outline = Number(token.attrs['style:default-outline-level']);
+            if (outline > 0) current.outline = outline;
+            styles.set(token.attrs['style:name'], current);
+            if (token.selfClosing) current = null;
+        } else if (token.type === 'open' && token.name === 'style:text-properties' && current) {
+            const a = token.attrs;
+            if (a['fo:font-style'] === 'italic' || a['fo:font-style'] === 'oblique') current.marks.italic = true;
+            else if (a['fo:font-style'] === 'normal') current.marks.italic = false;
+            if (a['fo:font-weight'] === 'bold' || Number(a['fo:font-weight']) >= 600) current.marks.bold = true;
+            else if (a['fo:font-weight'] === 'normal') current.marks.bold = false;
+            if (a['style:text-line-through-style'] && a['style:text-line-through-style'] !== 'none') current.marks.strike = true;
+        } else if (token.type === 'close' && token.name === 'style:style') {
+            current = null;
+        }
+    }
+}
+
+function resolveOdtStyle(styles: Map<string, OdtStyle>, name: string | undefined): OdtStyle {
+    const resolved: OdtStyle = { marks: {} };
+    for (let style = name ? styles.get(name) : undefined, depth = 0; style && depth < 10; style = style.parent ? styles.get(style.parent) : undefined, depth++) {
+        for (const key of ['bold', 'italic', 'strike'] as (keyof Marks)[]) {
+            if (resolved.marks[key] === undefined && style.marks[key] !== undefined) resolved.marks[key] = style.marks[key];
+        }
+        if (resolved.outline === undefined) resolved.outline = style.outline;
+    }
+    return resolved;
+}
+
+async function readOdt(filePath: string): Promise<ManuscriptParagraph[]> {
+    const zip = await openZip(filePath);
+    const styles = new Map<string, OdtStyle>();
+    if (zip.has('styles.xml')) odtStyles(await zip.read('styles.xml'), styles);
+    const content = await zip.read('content.xml');
+    odtStyles(content, styles);
+
+    const collector = createParagraphCollector();
+    const skipTags = new Set(['text:note', 'office:annotation', 'text:tracked-changes', 'draw:frame', 'office:automatic-styles', 'office:font-face-decls', 'text:sequence-decls']);
+    let skipDepth = 0;
+    let depth = 0;
+    let heading: number | undefined;
+    const spans: Partial<Marks>[] = [];
+    const marks = (): Marks => {
+        const merged = { ...NO_MARKS };
+        for (const span of spans) Object.assign(merged, span);
+        return merged;
+    };
+
+    for (const token of tokenizeMarkup(content)) {
+        if (token.type === 'text') {
+            if (depth > 0 && skipDepth === 0) collector.text(collapseWhitespace(token.text), marks());
+            continue;
+        }
+        if (skipTags.has(token.name)) {
+            if (token.type === 'open' && !token.selfClosing) skipDepth++;
+            else if (token.type === 'close') skipDepth = Math.max(0, skipDepth - 1);
+            continue;
+        }
+        if (skipDepth > 0) continue;
+
+        if (token.type === 'open') {
+            if (token.name === 'text:p' || token.name === 'text:h') {
+                const style = resolveOdtStyle(styles, token.attrs['text:style-name']);
+                heading = token.name === 'text:h' ? Number(token.attrs['text:outline-level']) || 1 : style.outline;
+                spans.length = 0;
+                spans.push(style.marks);
+                depth++;
+                if (token.selfClosing) {
+                    depth--;
+                    collector.end();
+                }
+            } else if (token.name === 'text:span' && !token.selfClosing) {
+                spans.push(resolveOdtStyle(styles, token.attrs['text:style-name']).marks);
+            } else if (token.name === 'text:s') {
+                collector.text(' '.repeat(Math.max(1, Number(token.attrs['text:c']) || 1)), marks());
+            } else if (token.name === 'text:tab') {
+                collector.text(' ', marks());
+            } else if (token.name === 'text:line-break') {
+                collector.lineBreak();
+            }
+        } else if (token.name === 'text:span') {
+            if (spans.length > 1) spans.pop();
+        } else if (token.name === 'text:p' || token.name === 'text:h') {
+            depth = Math.max(0, depth - 1);
+            collector.end(heading);
+            heading = undefined;
+        }
+    }
+    collector.end();
+    return collector.paragraphs;
+}
+
+// --- EPUB ---
+
+// Manifest hrefs are URL-encoded; one with a stray `%` is taken as written
+function hrefToPath(href: string | undefined): string {
+    const file = (href || '').split('#')[0];
+    try {
+        return decodeURIComponent(file);
+    } catch {
+        return file;
+    }
+}
+
+async function readEpub(filePath: string): Promise<ManuscriptChapter[]> {
+    const zip = await openZip(filePath);
+    const container = await zip.read('META-INF/container.xml');
+    const rootfile = [...tokenizeMarkup(container)].find(t => t.type === 'open' && t.name === 'rootfile');
+    const opfPath = rootfile && rootfile.type === 'open' ? rootfile.attrs['full-path'] : undefined;
+    if (!opfPath) throw new Error('The EPUB has no package document.');
+    const opfDir = path.posix.dirname(opfPath);
+
+    const manifest = new Map<string, { href: string; properties: string }>();
+    const spine: string[] = [];
+    for (const token of tokenizeMarkup(await zip.read(opfPath))) {
+        if (token.type !== 'open') continue;
+        const name = token.name.replace(/^.*:/, '');
+        if (name === 'item') {
+            manifest.set(token.attrs.id, { href: token.attrs.href, properties: token.attrs.properties || '' });
+        } else if (name === 'itemref' && token.attrs.linear !== 'no') {
+            spine.push(token.attrs.idref);
+        }
+    }
+
+    // One paragraph list per spine document, skipping the navigation document
+    const documents: { title: string; paragraphs: ManuscriptParagraph[] }[] = [];
+    for (const idref of spine) {
+        const item = manifest.get(idref);
+        if (!item || /\bnav\b/.test(item.properties)) continue;
+        const entry = path.posix.normalize(path.posix.join(opfDir === '.' ? '' : opfDir, hrefToPath(item.href)));
+        if (!zip.has(entry)) continue;
+        const source = await zip.read(entry);
+        const titleMatch = source.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+        documents.push({
+            title: titleMatch ? collapseWhitespace(decodeEntities(titleMatch[1])).trim() : '',
+            paragraphs: readHtml(source),
+        });
+    }
+
+    const all = documents.flatMap(d => d.paragraphs);
+    if (all.some(p => p.heading !== undefined)) return splitIntoChapters(all);
+
+    // No headings at all: each document is a chapter, front matter included
+    const chapters: ManuscriptChapter[] = [];
+    for (const doc of documents) {
+        if (doc.paragraphs.length === 0) continue;
+        chapters.push({ title: doc.title || `Chapter ${chapters.length + 1}`, paragraphs: doc.paragraphs });
+    }
+    // Documents sharing the book's title as their <title> get numbered instead
+    const titles = chapters.map(c => c.title);
+    chapters.forEach((chapter, i) => {
+        if (titles.filter(t => t === chapter.title).length > 1) chapter.title = `Chapter ${i + 1}`;
+    });
+    return chapters;
+}
+
+// --- Rich Text (.rtf) ---
+
+// Windows-1252 characters in the 0x80-0x9F range, which latin1 leaves as controls
+const CP1252: Record<number, string> = {
+    0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡', 0x88: 'ˆ', 0x89: '‰',
+    0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž', 0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•',
+    0x96: '–', 0x97: '—', 0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›', 0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ',
+};
+
+const RTF_SKIP_DESTINATIONS = new Set([
+    'fonttbl', 'colortbl', 'info', 'pict', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl',
+    'footerr', 'footerf', 'footnote', 'object', 'fldinst', 'themedata', 'colorschememapping', 'latentstyles',
+    'datastore', 'xmlnstbl', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'pgdsctbl', 'revtbl',
+    'filetbl', 'annotation', 'atnid', 'atnauthor', 'bkmkstart', 'bkmkend', 'shppict', 'nonshppict',
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+    emdash: '—', endash: '–', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”', bullet: '•', tab: ' ',
+};
+
+type RtfState = Marks & { skip: boolean; stylesheet: boolean; uc: number };
+
+export function readRtf(source: string): ManuscriptParagraph[] {
+    if (!source.startsWith('{\\rtf')) throw new Error('The file is not a valid RTF document.');
+    const collector = createParagraphCollector();
+    const styleNames = new Map<number, string>();
+    let state: RtfState = { ...NO_MARKS, skip: false, stylesheet: false, uc: 1 };
+    const stack: RtfState[] = [];
+    let heading: number | undefined;
+    let styleNumber = 0;
+    let styleName = '';
+    // Characters still to skip after a \u escape (its ANSI fallback)
+    let fallbackSkip = 0;
+
+    const headingForStyle = (n: number) => {
+        const match = (styleNames.get(n) || '').toLowerCase().match(/^heading\s*(\d)/);
+        return match ? Number(match[1]) : undefined;
+    };
+    const emit = (char: string) => {
+        if (fallbackSkip > 0) {
+            fallbackSkip--;
+            return;
+        }
+        if (state.stylesheet) {
+            if (state.skip) return;
+            if (char === ';') {
+                styleNames.set(styleNumber, styleName.trim());
+                styleName = '';
+            } else {
+                styleName += char;
+            }
+            return;
+        }
+        if (!state.skip) collector.text(char, state);
+    };
+
+    for (let i = 0; i < source.length; i++) {
+        const c = source[i];
+        if (c === '{') {
+            stack.push(state);
+            state = { ...state };
+            fallbackSkip = 0;
+        } else if (c === '}') {
+            state = stack.pop() ?? state;
+        } else if (c === '\r' || c === '\n') {
+            continue;
+        } else if (c !== '\\') {
+            emit(c);
+        } else {
+            const next = source[i + 1];
+            if (next === "'") {
+                const code = parseInt(source.substr(i + 2, 2), 16);
+                i += 3;
+                if (Number.isFinite(code)) emit(CP1252[code] ?? String.fromCharCode(code));
+                continue;
+            }
+            if (next === undefined) break;
+            if (!/[a-z]/i.test(next)) {
+                i++;
+                if (next === '*') state.skip = true;
+                else if (next === '~') emit(' ');
+                else if (next === '_') emit('-');
+                else if (next === '\\' || next === '{' || next === '}') emit(next);
+                else if (next === '\n' || next === '\r') {
+                    if (!state.skip && !state.stylesheet) collector.end(heading);
+                }
+                continue;
+            }
+            const match = /^([a-z]+)(-?\d+)? ?/i.exec(source.slice(i + 1, i + 40));
+            if (!match) continue;
+            i += match[0].length;
+            const word = match[1];
+            const param = match[2] !== undefined ? Number(match[2]) : undefined;
+
+            if (RTF_SKIP_DESTINATIONS.has(word)) {
+                state.skip = true;
+            } else if (word === 'stylesheet') {
+                state.stylesheet = true;
+            } else if (state.stylesheet) {
+                if (word === 's') styleNumber = param ?? 0;
+            } else if (word === 'bin' && param) {
+                i += param;
+            } else if (word === 'u' && param !== undefined) {
+                emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+                fallbackSkip = state.uc;
+            } else if (word === 'uc') {
+                state.uc = param ?? 1;
+            } else if (word === 'par') {
+                if (!state.skip) collector.end(heading);
+            } else if (word === 'line') {
+                if (!state.skip) collector.lineBreak();
+            } else if (word === 'pard') {
+                heading = undefined;
+            } else if (word === 's') {
+                heading = headingForStyle(param ?? 0);
+            } else if (word === 'outlinelevel' && param !== undefined && param < 9) {
+                heading = param + 1;
+            } else if (word === 'plain') {
+                Object.assign(state, NO_MARKS);
+            } else if (word === 'b' || word === 'i' || word === 'strike' || word === 'striked') {
+                const key = word === 'b' ? 'bold' : word === 'i' ? 'italic' : 'strike';
+                state[key] = param !== 0;
+            } else if (RTF_SYMBOLS[word]) {
+                emit(RTF_SYMBOLS[word]);
+            }
+        }
+    }
+    collector.end(heading);
+    return collector.paragraphs;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { splitPlainTextManuscript } from './manuscriptSplitter'
+
+describe('splitPlainTextManuscript', () => {
+    it('keeps a short epigraph before the first chapter as an Opening chapter', () => {
+        const chapters = splitPlainTextManuscript([
+            '"All that is gold does not glitter."',
+            'Chapter 1',
+            'It began in the harbour.',
+            'Chapter 2',
+            'It ended on the hill.',
+        ].join('\n\n'));
+
+        expect(chapters.map(c => c.title)).toEqual(['Opening', 'Chapter 1', 'Chapter 2']);
+        expect(chapters[0].paragraphs.map(p => p.text)).toEqual(['"All that is gold does not glitter."']);
+    });
+
+    it('adds no Opening chapter when the text starts with a heading', () => {
+        const chapters = splitPlainTextManuscript('Chapter 1\n\nIt began in the harbour.');
+        expect(chapters.map(c => c.title)).toEqual(['Chapter 1']);
+    });
+});
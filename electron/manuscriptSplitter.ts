@@ -0,0 +1,271 @@
+// --- Manuscript Splitting ---
+// Deterministic, AI-free splitting of an imported manuscript into chapters
+// and of each chapter into passages small enough to analyse in one call. The
+// chapter text written to the project is built from the source paragraphs,
+// never from model output, so the prose arrives exactly as written.
+
+export type ManuscriptParagraph = {
+    /** Plain text, used for analysis. */
+    text: string;
+    /** Editor HTML for the paragraph, written into the chapter's <text> block. */
+    html: string;
+    sceneBreak?: boolean;
+    /** Heading level from the source's paragraph styles (1 = top); rich formats only. */
+    heading?: number;
+};
+
+export type ManuscriptChapter = {
+    title: string;
+    paragraphs: ManuscriptParagraph[];
+};
+
+export type ManuscriptChunk = {
+    /** Index into the chapter list. */
+    chapter: number;
+    /** 0-based part of the chapter and number of parts. */
+    part: number;
+    parts: number;
+    text: string;
+};
+
+// A generous passage per call keeps the number of calls down; the extraction
+// response stays small because the model never repeats the prose.
+export const MAX_CHUNK_CHARS = 16000;
+// Without chapter headings the text is cut into chapters of about this size
+const FALLBACK_CHAPTER_WORDS = 5000;
+const MAX_HEADING_CHARS = 80;
+
+const NUMBER_WORDS = 'one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred|first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|last|final';
+const CHAPTER_HEADING = new RegExp(`^(chapter|ch\\.)\\s+(\\d+|[ivxlcdm]+|(${NUMBER_WORDS})([\\s-]+(${NUMBER_WORDS}))*|the\\s+\\w+)\\b`, 'i');
+const PART_HEADING = new RegExp(`^(part|book)\\s+(\\d+|[ivxlcdm]+|${NUMBER_WORDS})\\b`, 'i');
+const SECTION_HEADING = /^(prologue|epilogue|interlude|afterword|foreword)\b/i;
+const MARKDOWN_HEADING = /^#{1,3}\s+(\S.*)$/;
+const SCENE_BREAK = /^(?:(?:\*\s*){3,}|#|(?:-\s*){3,}|(?:~\s*){3,}|(?:•\s*){3,})$/;
+
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function isSceneBreak(line: string): boolean {
+    return SCENE_BREAK.test(line.trim());
+}
+
+export const wordCount = (text: string) => (text.match(/\S+/g) || []).length;
+
+/** Chapter title for a heading line, or null when the line is prose. */
+export function headingTitle(line: string): string | null {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.length > MAX_HEADING_CHARS) return null;
+    const markdown = trimmed.match(MARKDOWN_HEADING);
+    if (markdown) return markdown[1].replace(/\s*#+$/, '').trim();
+    // A sentence that happens to start with "Chapter one" is not a heading
+    if (/[,;]$/.test(trimmed) || wordCount(trimmed) > 12) return null;
+    if (CHAPTER_HEADING.test(trimmed) || PART_HEADING.test(trimmed) || SECTION_HEADING.test(trimmed)) {
+        return trimmed.replace(/[.:]$/, '');
+    }
+    return null;
+}
+
+function textParagraph(text: string): ManuscriptParagraph {
+    return { text, html: `<p>${escapeHtml(text)}</p>`, sceneBreak: isSceneBreak(text) || undefined };
+}
+
+/**
+ * Splits plain text or Markdown into paragraphs: blank-line separated blocks
+ * (hard-wrapped lines joined with spaces), or one paragraph per line when the
+ * file has no blank lines. A heading on the first line of a block is split off.
+ */
+export function plainTextParagraphs(raw: string): string[] {
+    const text = raw.replace(/^﻿/, '').replace(/\r\n?/g, '\n');
+    const blocks = /\n[ \t]*\n/.test(text) ? text.split(/\n[ \t]*\n+/) : text.split('\n');
+    const paragraphs: string[] = [];
+    for (const block of blocks) {
+        const lines = block.split('\n').map(l => l.trim()).filter(Boolean);
+        if (lines.length === 0) continue;
+        if (lines.length > 1 && headingTitle(lines[0]) !== null) {
+            paragraphs.push(lines.shift()!);
+        }
+        paragraphs.push(lines.join(' '));
+    }
+    return paragraphs;
+}
+
+/**
+ * The heading level chapters start at in a styled document: the top level
+ * used more than once, so a lone title heading above the chapters isn't one.
+ */
+function chapterHeadingLevel(paragraphs: ManuscriptParagraph[]): number | null {
+    const counts = new Map<number, number>();
+    for (const p of paragraphs) {
+        if (p.heading !== undefined) counts.set(p.heading, (counts.get(p.heading) || 0) + 1);
+    }
+    if (counts.size === 0) return null;
+    const levels = [...counts.keys()].sort((a, b) => a - b);
+    return levels.find(level => counts.get(level)! > 1) ?? levels[0];
+}
+
+/**
+ * Groups paragraphs into chapters. Styled documents split at their chapter
+ * heading level (higher levels are parts); plain text at lines that look
+ * like chapter headings (see headingTitle).
+ */
+export function splitIntoChapters(paragraphs: ManuscriptParagraph[]): ManuscriptChapter[] {
+    const styledLevel = chapterHeadingLevel(paragraphs);
+    const isHeading = (p: ManuscriptParagraph): string | null => {
+        if (styledLevel === null) return headingTitle(p.text);
+        return p.heading !== undefined && p.heading <= styledLevel && p.text.trim() ? p.text.replace(/\s+/g, ' ').trim() : null;
+    };
+    const isPart = (p: ManuscriptParagraph, title: string) =>
+        styledLevel === null ? PART_HEADING.test(title) : p.heading! < styledLevel;
+
+    const chapters: ManuscriptChapter[] = [];
+    const front: ManuscriptParagraph[] = [];
+    let current: ManuscriptChapter | null = null;
+    // Headings with no text of their own ("Part One") are carried into the next title
+    let pendingTitle: string[] = [];
+
+    for (let i = 0; i < paragraphs.length; i++) {
+        const paragraph = paragraphs[i];
+        let title = isHeading(paragraph);
+        // A document title above the first chapter is front matter, not a part
+        if (title !== null && isPart(paragraph, title) && styledLevel !== null && chapters.length === 0 && !PART_HEADING.test(title)) {
+            title = null;
+        }
+        if (title === null) {
+            if (current) current.paragraphs.push(paragraph);
+            else front.push(paragraph);
+            continue;
+        }
+        if (current && current.paragraphs.length === 0) {
+            chapters.pop();
+            pendingTitle.push(current.title);
+        }
+        let fullTitle = title;
+        // "Chapter 3" followed by a short untitled line is "Chapter 3: The Ferry"
+        const next = paragraphs[i + 1];
+        if (styledLevel === null && CHAPTER_HEADING.test(title) && next && isHeading(next) === null && !next.sceneBreak
+            && next.text.length <= 60 && !/[.!?"'”’…,;]$/.test(next.text) && paragraphs[i + 2]) {
+            fullTitle = `${title}: ${next.text}`;
+            i++;
+        }
+        if (isPart(paragraph, title)) {
+            pendingTitle.push(fullTitle);
+            current = null;
+            continue;
+        }
+        current = { title: [...pendingTitle, fullTitle].join(' — '), paragraphs: [] };
+        pendingTitle = [];
+        chapters.push(current);
+    }
+
+    const withText = chapters.filter(c => c.paragraphs.length > 0);
+    if (withText.length === 0) {
+        return splitBySize(front);
+    }
+    // Text before the first heading (a title page, an epigraph, a short
+    // prologue) is kept as it stands; the author can skip it in the preview
+    if (front.some(p => !p.sceneBreak && p.text.trim())) {
+        withText.unshift({ title: 'Opening', paragraphs: front });
+    }
+    return withText;
+}
+
+/** Chapters of about FALLBACK_CHAPTER_WORDS, preferring to end at a scene break. */
+function splitBySize(paragraphs: ManuscriptParagraph[]): ManuscriptChapter[] {
+    const chapters: ManuscriptChapter[] = [];
+    let current: ManuscriptParagraph[] = [];
+    let words = 0;
+    const flush = () => {
+        // Trailing scene breaks belong to nobody once the chapter ends
+        while (current.length > 0 && current[current.length - 1].sceneBreak) current.pop();
+        if (current.length > 0) chapters.push({ title: `Chapter ${chapters.length + 1}`, paragraphs: current });
+        current = [];
+        words = 0;
+    };
+    for (const paragraph of paragraphs) {
+        if (paragraph.sceneBreak && words >= FALLBACK_CHAPTER_WORDS / 2) {
+            flush();
+            continue;
+        }
+        if (current.length === 0 && paragraph.sceneBreak) continue;
+        current.push(paragraph);
+        words += wordCount(paragraph.text);
+        if (words >= FALLBACK_CHAPTER_WORDS) flush();
+    }
+    flush();
+    return chapters;
+}
+
+export function splitPlainTextManuscript(raw: string): ManuscriptChapter[] {
+    return splitIntoChapters(plainTextParagraphs(raw).map(textParagraph));
+}
+
+export function chapterHtml(chapter: ManuscriptChapter): string {
+    return chapter.paragraphs.map(p => p.html).join('\n');
+}
+
+/** Splits an over-long paragraph at sentence ends (or anywhere, as a last resort). */
+function splitLongText(text: string, limit: number): string[] {
+    const sentences = text.match(/[^.!?…]+(?:[.!?…]+["'”’)]*\s*|$)/g) || [text];
+    const pieces: string[] = [];
+    let piece = '';
+    for (const sentence of sentences) {
+        if (piece && piece.length + sentence.length > limit) {
+            pieces.push(piece.trim());
+            piece = '';
+        }
+        piece += sentence;
+        while (piece.length > limit) {
+            pieces.push(piece.slice(0, limit));
+            piece = piece.slice(limit);
+        }
+    }
+    if (piece.trim()) pieces.push(piece.trim());
+    return pieces;
+}
+
+/**
+ * Cuts every chapter into passages of at most `limit` characters. A passage
+ * that has to end early ends at the last scene break in its second half when
+ * there is one, otherwise between paragraphs.
+ */
+export function chunkManuscript(chapters: ManuscriptChapter[], limit = MAX_CHUNK_CHARS): ManuscriptChunk[] {
+    const chunks: ManuscriptChunk[] = [];
+    chapters.forEach((chapter, chapterIndex) => {
+        const texts: string[] = [];
+        let current: ManuscriptParagraph[] = [];
+        let size = 0;
+        const flush = (count = current.length) => {
+            const taken = current.slice(0, count);
+            const text = taken.map(p => p.text).join('\n\n').trim();
+            if (text) texts.push(text);
+            current = current.slice(count);
+            size = current.reduce((n, p) => n + p.text.length + 2, 0);
+        };
+
+        for (const paragraph of chapter.paragraphs) {
+            if (paragraph.text.length > limit) {
+                flush();
+                texts.push(...splitLongText(paragraph.text, limit));
+                continue;
+            }
+            if (size + paragraph.text.length > limit && current.length > 0) {
+                let breakAt = -1;
+                let running = 0;
+                current.forEach((p, i) => {
+                    running += p.text.length + 2;
+                    if (p.sceneBreak && running >= limit / 2) breakAt = i;
+                });
+                flush(breakAt > 0 ? breakAt + 1 : current.length);
+            }
+            current.push(paragraph);
+            size += paragraph.text.length + 2;
+        }
+        flush();
+
+        texts.forEach((text, part) => {
+            chunks.push({ chapter: chapterIndex, part, parts: texts.length, text });
+        });
+    });
+    return chunks;
+}
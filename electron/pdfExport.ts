@@ -0,0 +1,302 @@
+import PDFDocument from 'pdfkit';
+import { createWriteStream } from 'node:fs';
+import { ExportBlock, ExportManuscript, ExportSection, InlineRun } from './manuscriptExport';
+import { PDF_TRIM_SIZES, PdfExportOptions, PdfFontFamily } from '../src/utils/pdfExportOptions';
+
+// --- PDF Export ---
+// Lays the manuscript out as a book: a title page, the front matter (copyright
+// and dedication pages), a contents page with the page each chapter starts
+// on, then the chapters and back matter, each on a new page with its title
+// set a fifth of the way down. Body pages carry the author (left-hand
+// pages) or the title (right-hand pages) as a running header and a page
+// number in the footer; chapter openings show only the number. Inside and
+// outside margins are mirrored between left- and right-hand pages.
+
+type PdfDoc = InstanceType<typeof PDFDocument>;
+
+const POINTS_PER_INCH = 72;
+
+const FONT_VARIANTS: Record<PdfFontFamily, { regular: string; bold: string; italic: string; boldItalic: string }> = {
+    Times: { regular: 'Times-Roman', bold: 'Times-Bold', italic: 'Times-Italic', boldItalic: 'Times-BoldItalic' },
+    Helvetica: { regular: 'Helvetica', bold: 'Helvetica-Bold', italic: 'Helvetica-Oblique', boldItalic: 'Helvetica-BoldOblique' },
+    Courier: { regular: 'Courier', bold: 'Courier-Bold', italic: 'Courier-Oblique', boldItalic: 'Courier-BoldOblique' },
+};
+
+function fontName(family: PdfFontFamily, bold?: boolean, italic?: boolean): string {
+    const variants = FONT_VARIANTS[family];
+    if (bold && italic) return variants.boldItalic;
+    if (bold) return variants.bold;
+    if (italic) return variants.italic;
+    return variants.regular;
+}
+
+type Layout = {
+    doc: PdfDoc;
+    options: PdfExportOptions;
+    width: number;
+    left: number;
+    /** Body line gap that gives the configured line spacing. */
+    lineGap: number;
+    indent: number;
+};
+
+/** Line gap (added below each line) that makes lines `spacing` times the font size apart. */
+function lineGapFor(doc: PdfDoc, font: string, size: number, spacing: number): number {
+    doc.font(font).fontSize(size);
+    return Math.max(0, size * spacing - doc.currentLineHeight(true));
+}
+
+function writeRuns(layout: Layout, runs: InlineRun[], textOptions: PDFKit.Mixins.TextOptions, family = layout.options.bodyFont, size = layout.options.fontSize) {
+    const { doc } = layout;
+    runs.forEach((run, i) => {
+        doc.font(run.code ? fontName('Courier', run.bold, run.italic) : fontName(family, run.bold, run.italic)).fontSize(size);
+        doc.text(run.text, { ...textOptions, strike: !!run.strike, continued: i < runs.length - 1 });
+    });
+}
+
+/** Starts a new page when fewer than `lines` body lines fit on this one. */
+function keepLines(layout: Layout, lines: number) {
+    const { doc, options } = layout;
+    if (doc.y + lines * options.fontSize * options.lineSpacing > doc.page.maxY()) doc.addPage();
+}
+
+function writeBlocks(layout: Layout, blocks: ExportBlock[]) {
+    const { doc, options, left, width, lineGap, indent } = layout;
+    const lineHeight = options.fontSize * options.lineSpacing;
+    // Book convention: no indent on a chapter's first paragraph or after a break
+    let indentNext = false;
+
+    for (const block of blocks) {
+        doc.x = left;
+        switch (block.type) {
+            case 'paragraph':
+                writeRuns(layout, block.runs, { width, align: 'justify', lineGap, indent: indentNext ? indent : 0 });
+                indentNext = true;
+                break;
+            case 'heading': {
+                keepLines(layout, 3);
+                const size = options.fontSize * (block.level <= 2 ? 1.3 : 1.1);
+                doc.moveDown(0.5);
+                writeRuns(layout, block.runs.map(r => ({ ...r, bold: true })), { width, align: 'left', lineGap: lineGapFor(doc, fontName(options.headingFont, true), size, 1.2) }, options.headingFont, size);
+                doc.y += lineHeight * 0.5;
+                indentNext = false;
+                break;
+            }
+            case 'quote':
+                doc.x = left + indent * 1.5;
+                writeRuns(layout, block.runs, { width: width - indent * 3, align: 'left', lineGap });
+                doc.y += lineHeight * 0.3;
+                indentNext = false;
+                break;
+            case 'listItem': {
+                const textX = left + indent * (block.depth + 1.5);
+                const marker = block.ordered ? `${block.number}.` : '•';
+                const y = doc.y;
+                doc.font(fontName(options.bodyFont)).fontSize(options.fontSize);
+                doc.text(marker, textX - indent, y, { width: indent * 0.9, lineBreak: false });
+                doc.x = textX;
+                doc.y = y;
+                writeRuns(layout, block.runs, { width: width - (textX - left), align: 'left', lineGap });
+                indentNext = false;
+                break;
+            }
+            case 'code':
+                doc.font('Courier').fontSize(options.fontSize * 0.9);
+                doc.text(block.text, { width, align: 'left', lineGap });
+                indentNext = false;
+                break;
+            case 'sceneBreak':
+                keepLines(layout, 3);
+                doc.y += lineHeight * 0.5;
+                doc.font(fontName(options.bodyFont)).fontSize(options.fontSize);
+                doc.text(options.sceneBreak, left, doc.y, { width, align: 'center', lineGap });
+                doc.y += lineHeight * 0.5;
+                indentNext = false;
+                break;
+        }
+    }
+}
+
+/** A copyright or dedication page: no heading, and set apart from the body text. */
+function writeFrontMatterPage(layout: Layout, section: ExportSection, pageHeight: number) {
+    const { doc, options, left, width } = layout;
+    doc.addPage();
+    if (section.kind === 'section') {
+        doc.y = doc.page.margins.top + (pageHeight - doc.page.margins.top - doc.page.margins.bottom) * 0.2;
+        doc.font(fontName(options.headingFont, true)).fontSize(options.fontSize * 1.6);
+        doc.text(section.title, left, doc.y, { width, align: 'center' });
+        doc.y += options.fontSize * options.lineSpacing * 2;
+        writeBlocks(layout, section.blocks);
+        return;
+    }
+    const copyright = section.kind === 'copyright';
+    const size = copyright ? options.fontSize * 0.8 : options.fontSize;
+    const textOptions: PDFKit.Mixins.TextOptions = { width, align: copyright ? 'left' : 'center', lineGap: size * 0.4, paragraphGap: size * 0.6 };
+    const paragraphs = section.blocks.filter((b): b is Extract<ExportBlock, { runs: InlineRun[] }> => 'runs' in b);
+    doc.font(fontName(options.bodyFont)).fontSize(size);
+    const height = paragraphs.reduce((sum, b) => sum + doc.heightOfString(b.runs.map(r => r.text).join(''), textOptions), 0);
+    // The copyright notice sits at the foot of the page, the dedication a third of the way down
+    doc.y = copyright ? doc.page.maxY() - height : pageHeight * 0.3;
+    for (const block of paragraphs) {
+        doc.x = left;
+        writeRuns(layout, copyright ? block.runs : block.runs.map(r => ({ ...r, italic: !r.italic })), textOptions, options.bodyFont, size);
+    }
+}
+
+// --- Contents ---
+
+type TocPlacement = { page: number; y: number };
+
+/**
+ * Where each contents entry goes, counted in pages from the first contents
+ * page. Worked out before the chapters so the pages can be reserved; the
+ * entries are written once the chapter page numbers are known.
+ */
+function layoutToc(layout: Layout, titles: string[], numberWidth: number): { placements: TocPlacement[]; pages: number } {
+    const { doc, options, width } = layout;
+    const top = doc.page.margins.top;
+    const maxY = doc.page.maxY();
+    doc.font(fontName(options.headingFont, true)).fontSize(options.fontSize * 1.6);
+    let y = top + doc.currentLineHeight(true) * 3;
+    let page = 0;
+
+    doc.font(fontName(options.bodyFont)).fontSize(options.fontSize);
+    const placements = titles.map(title => {
+        const height = doc.heightOfString(title, { width: width - numberWidth - 12, lineGap: layout.lineGap });
+        if (y + height > maxY && y > top) {
+            page++;
+            y = top;
+        }
+        const placement = { page, y };
+        y += height + options.fontSize * 0.4;
+        return placement;
+    });
+    return { placements, pages: page + 1 };
+}
+
+// --- Document ---
+
+export async function writeManuscriptPdf(manuscript: ExportManuscript, options: PdfExportOptions, filePath: string): Promise<void> {
+    const trim = PDF_TRIM_SIZES.find(t => t.id === options.trimSize) ?? PDF_TRIM_SIZES[0];
+    const pageWidth = trim.width * POINTS_PER_INCH;
+    const pageHeight = trim.height * POINTS_PER_INCH;
+    const margins = {
+        top: options.marginTop * POINTS_PER_INCH,
+        bottom: options.marginBottom * POINTS_PER_INCH,
+        // Laid out as a right-hand page; left-hand pages are shifted (see pageAdded)
+        left: options.marginInside * POINTS_PER_INCH,
+        right: options.marginOutside * POINTS_PER_INCH,
+    };
+    const mirrorShift = margins.right - margins.left;
+
+    const doc = new PDFDocument({
+        bufferPages: true,
+        autoFirstPage: false,
+        size: [pageWidth, pageHeight],
+        margins,
+        info: { Title: manuscript.title, Author: manuscript.author, Subject: manuscript.subtitle },
+        displayTitle: true,
+    });
+    const stream = createWriteStream(filePath);
+    const finished = new Promise<void>((resolve, reject) => {
+        stream.on('finish', () => resolve());
+        stream.on('error', reject);
+    });
+    doc.pipe(stream);
+
+    // Even pages are left-hand pages: move everything drawn on them across
+    let pageCount = 0;
+    doc.on('pageAdded', () => {
+        pageCount++;
+        if (pageCount % 2 === 0 && mirrorShift !== 0) doc.translate(mirrorShift, 0);
+    });
+
+    const width = pageWidth - margins.left - margins.right;
+    const layout: Layout = {
+        doc,
+        options,
+        width,
+        left: margins.left,
+        lineGap: lineGapFor(doc, fontName(options.bodyFont), options.fontSize, options.lineSpacing),
+        indent: options.fontSize * 1.5,
+    };
+
+    // Title page
+    doc.addPage();
+    doc.y = pageHeight * 0.3;
+    doc.font(fontName(options.headingFont, true)).fontSize(options.fontSize * 2.6);
+    doc.text(manuscript.title, margins.left, doc.y, { width, align: 'center' });
+    if (manuscript.subtitle) {
+        doc.moveDown(0.6);
+        doc.font(fontName(options.headingFont, false, true)).fontSize(options.fontSize * 1.4);
+        doc.text(manuscript.subtitle, { width, align: 'center' });
+    }
+    if (manuscript.author) {
+        doc.y = pageHeight * 0.62;
+        doc.font(fontName(options.headingFont)).fontSize(options.fontSize * 1.5);
+        doc.text(manuscript.author, margins.left, doc.y, { width, align: 'center' });
+    }
+
+    for (const section of manuscript.frontMatter) writeFrontMatterPage(layout, section, pageHeight);
+
+    // Contents: reserve the pages now, fill them in at the end
+    const body = [...manuscript.chapters, ...manuscript.backMatter];
+    const titles = body.map(c => c.title);
+    doc.font(fontName(options.bodyFont)).fontSize(options.fontSize);
+    const numberWidth = doc.widthOfString('0000');
+    const toc = layoutToc(layout, titles, numberWidth);
+    const tocStart = pageCount;
+    for (let i = 0; i < toc.pages; i++) doc.addPage();
+
+    // Chapters, starting on a right-hand page
+    if (pageCount % 2 === 1) doc.addPage();
+    const firstBodyPage = pageCount;
+    const chapterPages: number[] = [];
+    for (const chapter of body) {
+        doc.addPage();
+        chapterPages.push(pageCount - 1);
+        doc.y = margins.top + (pageHeight - margins.top - margins.bottom) * 0.2;
+        doc.font(fontName(options.headingFont, true)).fontSize(options.fontSize * 1.6);
+        doc.text(chapter.title, margins.left, doc.y, { width, align: 'center' });
+        doc.y += options.fontSize * options.lineSpacing * 2;
+        writeBlocks(layout, chapter.blocks);
+    }
+
+    // Page numbers: the first chapter page is page 1
+    const bookPage = (index: number) => index - firstBodyPage + 1;
+
+    doc.switchToPage(tocStart);
+    doc.font(fontName(options.headingFont, true)).fontSize(options.fontSize * 1.6);
+    doc.text('Contents', margins.left, margins.top, { width, align: 'center' });
+    toc.placements.forEach((placement, i) => {
+        doc.switchToPage(tocStart + placement.page);
+        doc.font(fontName(options.bodyFont)).fontSize(options.fontSize);
+        doc.text(titles[i], margins.left, placement.y, { width: width - numberWidth - 12, lineGap: layout.lineGap });
+        doc.text(String(bookPage(chapterPages[i])), margins.left + width - numberWidth, placement.y, { width: numberWidth, align: 'right', lineBreak: false });
+    });
+
+    // Running headers and footers, drawn into the margins
+    const chapterOpenings = new Set(chapterPages);
+    const range = doc.bufferedPageRange();
+    for (let index = firstBodyPage; index < range.start + range.count; index++) {
+        doc.switchToPage(index);
+        const { top, bottom } = doc.page.margins;
+        doc.page.margins.top = 0;
+        doc.page.margins.bottom = 0;
+        const small = options.fontSize * 0.8;
+        const number = bookPage(index);
+        doc.font(fontName(options.bodyFont)).fontSize(small);
+        doc.text(String(number), margins.left, pageHeight - bottom / 2 - small / 2, { width, align: 'center', lineBreak: false });
+        if (!chapterOpenings.has(index)) {
+            // Left-hand (even) pages carry the author, right-hand pages the title
+            const header = (index + 1) % 2 === 0 ? (manuscript.author || manuscript.title) : manuscript.title;
+            doc.font(fontName(options.bodyFont, false, true)).fontSize(small);
+            doc.text(header, margins.left, top / 2 - small / 2, { width, align: 'center', lineBreak: false });
+        }
+        doc.page.margins.top = top;
+        doc.page.margins.bottom = bottom;
+    }
+
+    doc.end();
+    await finished;
+}
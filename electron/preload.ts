@@ -1,27 +1,27 @@
-import { ipcRenderer, contextBridge } from 'electron'
+import { ipcRenderer, contextBridge, type IpcRendererEvent } from 'electron'
+import { apiName, eventApiName, EVENT_CHANNELS, INVOKE_CHANNELS, SEND_CHANNELS, type AuctorApi } from '../src/utils/ipcContract'
 
-// --------- Expose some API to the Renderer process ---------
-contextBridge.exposeInMainWorld('ipcRenderer', {
-  on(channel: string, listener: (event: any, ...args: any[]) => void) {
-    const subscription = (event: any, ...args: any[]) => listener(event, ...args)
+// --------- Expose the IPC contract to the Renderer process ---------
+// Only the channels declared in src/utils/ipcContract.ts are reachable, each
+// through its own function; the renderer never sees ipcRenderer itself.
+const api: Record<string, (...args: any[]) => unknown> = {}
+
+for (const channel of INVOKE_CHANNELS) {
+  api[apiName(channel)] = (...args: unknown[]) => ipcRenderer.invoke(channel, ...args)
+}
+
+for (const channel of SEND_CHANNELS) {
+  api[apiName(channel)] = (...args: unknown[]) => ipcRenderer.send(channel, ...args)
+}
+
+for (const channel of EVENT_CHANNELS) {
+  api[eventApiName(channel)] = (listener: (...args: any[]) => void) => {
+    const subscription = (_event: IpcRendererEvent, ...args: any[]) => listener(...args)
     ipcRenderer.on(channel, subscription)
     return () => {
       ipcRenderer.removeListener(channel, subscription)
     }
-  },
-  off(...args: Parameters<typeof ipcRenderer.off>) {
-    const [channel, ...omit] = args
-    return ipcRenderer.off(channel, ...omit)
-  },
-  send(...args: Parameters<typeof ipcRenderer.send>) {
-    const [channel, ...omit] = args
-    return ipcRenderer.send(channel, ...omit)
-  },
-  invoke(...args: Parameters<typeof ipcRenderer.invoke>) {
-    const [channel, ...omit] = args
-    return ipcRenderer.invoke(channel, ...omit)
-  },
+  }
+}
 
-  // You can expose other APTs you need here.
-  // ...
-})
+contextBridge.exposeInMainWorld('auctor', api as AuctorApi)
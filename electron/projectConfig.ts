@@ -0,0 +1,111 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { queueFileTask, replaceFileAtomic } from './atomicWrite'
+
+// --- Project Config ---
+// auctor.json marks a folder as an Auctor project and holds its settings.
+// It is written atomically, and every good write is also copied to
+// .auctor/auctor.backup.json. A config that exists but cannot be parsed is
+// reported as a CorruptConfigError rather than read as empty settings, which
+// would lose the chapter order and everything else on the next save; the
+// caller asks the author whether to restore the backup or start over.
+
+export type AuctorConfig = {
+    settings?: {
+        chapterOrder?: string[];
+        [key: string]: any;
+    };
+    [key: string]: any;
+};
+
+export class CorruptConfigError extends Error {
+    constructor(readonly filePath: string, readonly reason: string) {
+        super(`${filePath} is damaged: ${reason}`);
+        this.name = 'CorruptConfigError';
+    }
+}
+
+export function configPath(projectRoot: string) {
+    return path.join(projectRoot, 'auctor.json');
+}
+
+function backupPath(projectRoot: string) {
+    return path.join(projectRoot, '.auctor', 'auctor.backup.json');
+}
+
+function parseConfig(filePath: string, raw: string): AuctorConfig {
+    if (raw.trim().length === 0) throw new CorruptConfigError(filePath, 'the file is empty');
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (error) {
+        throw new CorruptConfigError(filePath, error instanceof Error ? error.message : String(error));
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new CorruptConfigError(filePath, 'the file does not contain a settings object');
+    }
+    return parsed as AuctorConfig;
+}
+
+/** A missing config is empty settings; a damaged one throws CorruptConfigError. */
+export async function readProjectConfig(projectRoot: string): Promise<AuctorConfig> {
+    const filePath = configPath(projectRoot);
+    let raw: string;
+    try {
+        raw = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+        throw error;
+    }
+    return parseConfig(filePath, raw);
+}
+
+/** The last config written successfully, or null when there is none or it is damaged too. */
+export async function readConfigBackup(projectRoot: string): Promise<AuctorConfig | null> {
+    const filePath = backupPath(projectRoot);
+    try {
+        return parseConfig(filePath, await fs.readFile(filePath, 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+async function replaceConfig(projectRoot: string, configData: AuctorConfig) {
+    const data = JSON.stringify(configData, null, 2);
+    await replaceFileAtomic(configPath(projectRoot), data);
+    await replaceFileAtomic(backupPath(projectRoot), data);
+}
+
+export function writeProjectConfig(projectRoot: string, configData: AuctorConfig): Promise<void> {
+    return queueFileTask(configPath(projectRoot), () => replaceConfig(projectRoot, configData));
+}
+
+/**
+ * Reads, changes and writes the config as one queued step, so two updates
+ * made at the same time cannot overwrite each other's changes.
+ */
+export function updateProjectConfig(projectRoot: string, update: (configData: AuctorConfig) => void): Promise<AuctorConfig> {
+    return queueFileTask(configPath(projectRoot), async () => {
+        const configData = await readProjectConfig(projectRoot);
+        update(configData);
+        await replaceConfig(projectRoot, configData);
+        return configData;
+    });
+}
+
+/**
+ * Replaces a damaged config with the backup, or with empty settings. The
+ * damaged file is kept next to it as auctor.json.corrupt-<time>; returns
+ * that file's path.
+ */
+export function recoverProjectConfig(projectRoot: string, source: 'backup' | 'empty'): Promise<string> {
+    const filePath = configPath(projectRoot);
+    return queueFileTask(filePath, async () => {
+        const replacement = source === 'backup' ? await readConfigBackup(projectRoot) : {};
+        if (!replacement) throw new Error('There is no saved copy of the project settings to restore.');
+        const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+        await fs.rename(filePath, corruptPath);
+        await replaceFileAtomic(filePath, JSON.stringify(replacement, null, 2));
+        return corruptPath;
+    });
+}
@@ -0,0 +1,44 @@
+import os from 'node:os'
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { checkFileName, isSameFile, resolveProjectPath } from './projectFiles'
+
+describe('project file access', () => {
+    let projectRoot: string;
+
+    beforeAll(async () => {
+        projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'auctor-files-'));
+        await fs.mkdir(path.join(projectRoot, 'Characters'));
+        await fs.writeFile(path.join(projectRoot, 'Characters', 'a.json'), '{}');
+    });
+
+    afterAll(async () => {
+        await fs.rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('refuses paths outside the project folders', async () => {
+        await expect(resolveProjectPath(projectRoot, '../secret.json')).rejects.toMatchObject({ code: 'outside-project' });
+        await expect(resolveProjectPath(projectRoot, 'Notes/a.json')).rejects.toMatchObject({ code: 'unknown-category' });
+    });
+
+    it('accepts existing names the new-file rules would refuse, but not for new files', async () => {
+        const file = await resolveProjectPath(projectRoot, 'Characters/CON.json');
+        expect(file.relativePath).toBe('Characters/CON.json');
+        expect(() => checkFileName(file.name)).toThrow();
+        expect(() => checkFileName('Mara: the Elder.json')).toThrow();
+        expect(checkFileName('Mara.json')).toBe('Mara.json');
+    });
+
+    it('tells the same file from a different one', async () => {
+        const a = path.join(projectRoot, 'Characters', 'a.json');
+        const upper = path.join(projectRoot, 'Characters', 'A.json');
+        expect(await isSameFile(a, a)).toBe(true);
+        expect(await isSameFile(a, path.join(projectRoot, 'Characters', 'missing.json'))).toBe(false);
+
+        // On a case-sensitive file system A.json is another file
+        await fs.writeFile(upper, '{"other":true}');
+        const caseSensitive = (await fs.readFile(a, 'utf-8')) === '{}';
+        expect(await isSameFile(a, upper)).toBe(!caseSensitive);
+    });
+});
@@ -0,0 +1,135 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import {
+    FILE_ERROR_MESSAGES,
+    fileNameProblem,
+    isProjectCategory,
+    type FileErrorCode,
+    type ProjectCategory,
+} from '../src/utils/projectFiles'
+import type { IpcFailure } from '../src/utils/ipcContract'
+
+// --- Project File Access ---
+// Every path the renderer hands to a file handler goes through here. A file
+// is always `<category>/<name>`: the category must be one of the project
+// folders and the name a single file name. Names for new files must pass
+// the rules in src/utils/projectFiles.ts; files that are already there may
+// keep older names (added outside Auctor, say) as long as they are a single
+// path segment. The resolved path must stay inside the project, also after
+// following symlinks, so `..`, absolute paths and links out of the project
+// are refused.
+
+export class ProjectFileError extends Error {
+    constructor(readonly code: FileErrorCode, message: string = FILE_ERROR_MESSAGES[code]) {
+        super(message);
+        this.name = 'ProjectFileError';
+    }
+}
+
+export type ResolvedProjectFile = {
+    category: ProjectCategory;
+    name: string;
+    /** `<category>/<name>`, as used for the retrieval index and in the renderer. */
+    relativePath: string;
+    /** Absolute path inside the project. */
+    filePath: string;
+};
+
+export function checkCategory(category: unknown): ProjectCategory {
+    if (!isProjectCategory(category)) throw new ProjectFileError('unknown-category');
+    return category;
+}
+
+/** Checks a name for a file about to be created, or for an `existing` file. */
+export function checkFileName(name: unknown, existing = false): string {
+    const problem = existing ? existingFileNameProblem(name) : fileNameProblem(name);
+    if (problem) throw new ProjectFileError(problem, `"${String(name)}" cannot be used. ${FILE_ERROR_MESSAGES[problem]}`);
+    return name as string;
+}
+
+function existingFileNameProblem(name: unknown): FileErrorCode | null {
+    if (typeof name !== 'string' || name.length === 0 || name === '.' || name === '..') return 'invalid-name';
+    if (/[\\/\x00]/.test(name)) return 'invalid-name';
+    return name.startsWith('.') ? 'reserved-name' : null;
+}
+
+function isInside(root: string, target: string): boolean {
+    const relative = path.relative(root, target);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/** Resolves symlinks in the longest part of `target` that exists. */
+async function realPathOfExisting(target: string): Promise<string> {
+    try {
+        return await fs.realpath(target);
+    } catch {
+        const parent = path.dirname(target);
+        if (parent === target) return target;
+        return path.join(await realPathOfExisting(parent), path.basename(target));
+    }
+}
+
+/** The confined path of `name` in a project folder; `existing` as for checkFileName. */
+export async function resolveProjectFile(projectRoot: string, category: unknown, name: unknown, existing = false): Promise<ResolvedProjectFile> {
+    const checkedCategory = checkCategory(category);
+    const checkedName = checkFileName(name, existing);
+    const root = path.resolve(projectRoot);
+    const filePath = path.resolve(root, checkedCategory, checkedName);
+    if (!isInside(root, filePath) || !isInside(await realPathOfExisting(root), await realPathOfExisting(filePath))) {
+        throw new ProjectFileError('outside-project');
+    }
+    return { category: checkedCategory, name: checkedName, relativePath: `${checkedCategory}/${checkedName}`, filePath };
+}
+
+/** Resolves the `<category>/<name>` path of an existing file; either separator is accepted. */
+export async function resolveProjectPath(projectRoot: string, relativePath: unknown): Promise<ResolvedProjectFile> {
+    if (typeof relativePath !== 'string' || relativePath.length === 0) throw new ProjectFileError('invalid-path');
+    if (path.isAbsolute(relativePath) || path.win32.isAbsolute(relativePath)) throw new ProjectFileError('outside-project');
+    const parts = relativePath.split(/[\\/]/);
+    if (parts.includes('..')) throw new ProjectFileError('outside-project');
+    if (parts.length !== 2) throw new ProjectFileError('invalid-path');
+    return resolveProjectFile(projectRoot, parts[0], parts[1], true);
+}
+
+/** Fails with `not-found` unless the file exists. */
+export async function requireExisting(file: ResolvedProjectFile): Promise<void> {
+    try {
+        await fs.access(file.filePath);
+    } catch {
+        throw new ProjectFileError('not-found', `${file.relativePath} does not exist.`);
+    }
+}
+
+/** Fails with `already-exists` if the file exists. */
+export async function requireAbsent(file: ResolvedProjectFile): Promise<void> {
+    try {
+        await fs.access(file.filePath);
+    } catch {
+        return;
+    }
+    throw new ProjectFileError('already-exists', `${file.relativePath} already exists.`);
+}
+
+/**
+ * Whether two paths are the same file, as names differing only in case are
+ * on a case-insensitive file system; false if either does not exist.
+ */
+export async function isSameFile(a: string, b: string): Promise<boolean> {
+    try {
+        const [statA, statB] = await Promise.all([fs.stat(a, { bigint: true }), fs.stat(b, { bigint: true })]);
+        return statA.dev === statB.dev && statA.ino === statB.ino;
+    } catch {
+        return false;
+    }
+}
+
+/** The IPC result for a failed file operation, with its error code. */
+export function fileErrorResult(error: unknown): IpcFailure {
+    if (error instanceof ProjectFileError) {
+        return { success: false, code: error.code, error: error.message };
+    }
+    const code = (error as NodeJS.ErrnoException)?.code;
+    if (code === 'ENOENT') return { success: false, code: 'not-found', error: FILE_ERROR_MESSAGES['not-found'] };
+    if (code === 'EEXIST') return { success: false, code: 'already-exists', error: FILE_ERROR_MESSAGES['already-exists'] };
+    return { success: false, code: 'io-error', error: String(error) };
+}
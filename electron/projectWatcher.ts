@@ -0,0 +1,108 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { watch, type FSWatcher } from 'node:fs'
+import { isOwnWrite } from './atomicWrite'
+import { PROJECT_CATEGORIES } from '../src/utils/projectFiles'
+
+// --- Project Watcher ---
+// Projects are often kept in a synced folder (Dropbox, Syncthing) or edited
+// with other tools, so the project folders and auctor.json are watched for
+// changes made outside Auctor. Events are collected for a moment, since sync
+// clients and editors touch a file several times while saving it, and then
+// reported together. Auctor's own writes are recognised by the stamp
+// writeFileAtomic records and left out.
+
+/** `path` is `<category>/<file>`, or `auctor.json` for the project settings. */
+export type ProjectFileChange = { path: string; kind: 'changed' | 'removed' };
+
+const CHANGE_DELAY_MS = 300;
+
+// Hidden files are temporary files (ours and sync clients') or system files
+// such as .DS_Store; `~` files are editor backups
+function isIgnoredFile(name: string) {
+    return name.startsWith('.') || name.endsWith('~');
+}
+
+async function describeChange(projectRoot: string, relativePath: string): Promise<ProjectFileChange | null> {
+    const filePath = path.join(projectRoot, relativePath);
+    try {
+        const stats = await fs.stat(filePath);
+        if (!stats.isFile() || isOwnWrite(filePath, stats)) return null;
+        return { path: relativePath, kind: 'changed' };
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { path: relativePath, kind: 'removed' };
+        throw error;
+    }
+}
+
+/**
+ * Starts watching the project and calls `onChange` with each batch of
+ * changes. Returns a function that stops watching.
+ */
+export function watchProject(projectRoot: string, onChange: (changes: ProjectFileChange[]) => void): () => void {
+    const watchers: FSWatcher[] = [];
+    const pending = new Set<string>();
+    let timer: NodeJS.Timeout | null = null;
+    let stopped = false;
+
+    const flush = async () => {
+        timer = null;
+        const paths = [...pending];
+        pending.clear();
+        const changes: ProjectFileChange[] = [];
+        for (const relativePath of paths) {
+            try {
+                const change = await describeChange(projectRoot, relativePath);
+                if (change) changes.push(change);
+            } catch (error) {
+                console.error(`Error checking ${relativePath} for changes:`, error);
+            }
+        }
+        if (!stopped && changes.length > 0) onChange(changes);
+    };
+
+    const record = (relativePath: string) => {
+        if (stopped) return;
+        pending.add(relativePath);
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+            flush().catch(error => console.error('Error reporting project changes:', error));
+        }, CHANGE_DELAY_MS);
+    };
+
+    const watchDirectory = (dir: string, onFile: (name: string) => void) => {
+        try {
+            const watcher = watch(dir, (_eventType, filename) => {
+                if (filename && !isIgnoredFile(filename.toString())) onFile(filename.toString());
+            });
+            // A watched folder that is deleted or unmounted stops reporting; the rest carry on
+            watcher.on('error', error => {
+                console.error(`Stopped watching ${dir}:`, error);
+                watcher.close();
+            });
+            watchers.push(watcher);
+        } catch (error) {
+            console.error(`Could not watch ${dir}:`, error);
+        }
+    };
+
+    const start = async () => {
+        for (const category of PROJECT_CATEGORIES) {
+            const dir = path.join(projectRoot, category);
+            await fs.mkdir(dir, { recursive: true });
+            if (stopped) return;
+            watchDirectory(dir, name => record(`${category}/${name}`));
+        }
+        watchDirectory(projectRoot, name => {
+            if (name === 'auctor.json') record(name);
+        });
+    };
+    start().catch(error => console.error('Error watching the project folder:', error));
+
+    return () => {
+        stopped = true;
+        if (timer) clearTimeout(timer);
+        pending.clear();
+        for (const watcher of watchers) watcher.close();
+    };
+}
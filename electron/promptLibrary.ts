@@ -0,0 +1,28 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { writeFileAtomic } from './atomicWrite'
+import { normalizePromptLibrary, PromptLibrary } from '../src/utils/promptTemplates'
+
+// --- Prompt Library ---
+// A project's prompt template overrides and custom selection actions live in
+// .auctor/prompts.json; the templates themselves and their rendering are in
+// src/utils/promptTemplates.ts so the renderer can preview them.
+
+function libraryPath(projectRoot: string) {
+    return path.join(projectRoot, '.auctor', 'prompts.json');
+}
+
+/** A missing or unreadable file is an empty library (all built-in templates). */
+export async function readPromptLibrary(projectRoot: string): Promise<PromptLibrary> {
+    try {
+        return normalizePromptLibrary(JSON.parse(await fs.readFile(libraryPath(projectRoot), 'utf-8')));
+    } catch {
+        return normalizePromptLibrary(null);
+    }
+}
+
+export async function savePromptLibrary(projectRoot: string, library: unknown): Promise<PromptLibrary> {
+    const normalized = normalizePromptLibrary(library);
+    await writeFileAtomic(libraryPath(projectRoot), JSON.stringify({ version: 1, ...normalized }, null, 2));
+    return normalized;
+}
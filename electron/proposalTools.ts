@@ -0,0 +1,277 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { randomUUID } from 'node:crypto';
+import { tool } from 'ai';
+import { z } from 'zod';
+import { readProjectConfig } from './projectConfig';
+
+// --- Proposed Worldbuilding Changes ---
+// Write-capable assistant tools that never write. Each call computes the
+// full before/after JSON for one entity (or subplot) and hands it to
+// `propose`; the renderer shows it as a diff and, if the author accepts,
+// saves it through the same path the cards use (src/utils/worldbuilding.ts).
+
+export type ProposedChangeCategory = 'Characters' | 'Places' | 'Objects' | 'Organisations' | 'Subplots';
+
+export type ProposedChange = {
+    id: string;
+    kind: 'create' | 'update';
+    category: ProposedChangeCategory;
+    /** Project-relative file path, e.g. "Characters/Mara.json"; null for subplots (stored in auctor.json). */
+    path: string | null;
+    /** Short label, e.g. "Update character Mara". */
+    title: string;
+    /** Why the assistant proposes it, in its own words. */
+    reason: string;
+    /** Current JSON on disk (or the existing subplot), null when creating. */
+    before: any | null;
+    after: any;
+};
+
+const normalizeName = (s: string) => s.trim().toLowerCase();
+const sanitizeFileStem = (s: string) => s.trim().replace(/[<>:"/\\|?*]/g, '').replace(/\s+/g, ' ').trim();
+
+const ENTITY_LABELS: Record<Exclude<ProposedChangeCategory, 'Subplots'>, string> = {
+    Characters: 'character',
+    Places: 'place',
+    Objects: 'object',
+    Organisations: 'organisation',
+};
+
+/** Finds an entity file by file stem, `name` or any `aka` alias. */
+async function findEntity(projectRoot: string, folder: string, name: string): Promise<{ file: string; data: any } | null> {
+    const dir = path.join(projectRoot, folder);
+    let files: string[] = [];
+    try {
+        files = (await fs.readdir(dir)).filter(f => f.endsWith('.json'));
+    } catch {
+        return null;
+    }
+
+    const target = normalizeName(name);
+    const loaded: { file: string; data: any }[] = [];
+    for (const file of files) {
+        try {
+            loaded.push({ file, data: JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8')) });
+        } catch {}
+    }
+
+    return loaded.find(e => normalizeName(e.file.replace(/\.json$/i, '')) === target)
+        || loaded.find(e => normalizeName(String(e.data?.name ?? '')) === target)
+        || loaded.find(e => String(e.data?.aka ?? '').split(/[,\n;]/g).some(a => normalizeName(a) === target))
+        || null;
+}
+
+/** Merges `{ key: value }` pairs into a list of records, matched case-insensitively on `key`. */
+function mergeByKey<T extends Record<string, any>>(existing: T[], updates: T[], key: keyof T): T[] {
+    const merged = [...existing];
+    for (const update of updates) {
+        const idx = merged.findIndex(item => normalizeName(String(item?.[key] ?? '')) === normalizeName(String(update[key] ?? '')));
+        if (idx === -1) merged.push(update);
+        else merged[idx] = { ...merged[idx], ...update };
+    }
+    return merged;
+}
+
+const withoutUndefined = <T extends Record<string, any>>(obj: T): Partial<T> =>
+    Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+
+const reasonField = z.string().describe('One sentence explaining the change to the author, citing the chapter or conversation it comes from');
+
+export function createProposalTools(projectRoot: string, notify: (message: string) => void, propose: (change: ProposedChange) => void) {
+    // Several proposals for the same file in one reply are folded into a single change
+    const proposedByKey = new Map<string, ProposedChange>();
+
+    const submit = (key: string, change: Omit<ProposedChange, 'id'>) => {
+        const previous = proposedByKey.get(key);
+        const full: ProposedChange = previous
+            ? { ...change, id: previous.id, kind: previous.kind, before: previous.before, reason: `${previous.reason} ${change.reason}`.trim() }
+            : { ...change, id: randomUUID() };
+        proposedByKey.set(key, full);
+        propose(full);
+        return {
+            proposed: true,
+            changeId: full.id,
+            note: 'Nothing has been saved yet. The author will review this change and accept or reject it.',
+        };
+    };
+
+    /** Current state of an entity, including anything already proposed in this reply. */
+    const loadEntity = async (folder: Exclude<ProposedChangeCategory, 'Subplots'>, name: string) => {
+        const found = await findEntity(projectRoot, folder, name);
+        const file = found?.file ?? `${sanitizeFileStem(name)}.json`;
+        const relPath = `${folder}/${file}`;
+        const pending = proposedByKey.get(relPath);
+        return {
+            relPath,
+            exists: !!found,
+            before: found?.data ?? null,
+            current: pending ? pending.after : (found?.data ?? null),
+        };
+    };
+
+    const proposeEntity = async (
+        folder: Exclude<ProposedChangeCategory, 'Subplots'>,
+        name: string,
+        reason: string,
+        build: (current: any | null) => any,
+    ) => {
+        if (!sanitizeFileStem(name)) return { error: 'A name is required.' };
+        const { relPath, exists, before, current } = await loadEntity(folder, name);
+        const label = ENTITY_LABELS[folder];
+        notify(`Proposing ${exists ? 'an update to' : 'a new'} ${label}: ${name}`);
+        return submit(relPath, {
+            kind: exists ? 'update' : 'create',
+            category: folder,
+            path: relPath,
+            title: `${exists ? 'Update' : 'Create'} ${label} ${current?.name || name}`,
+            reason,
+            before,
+            after: build(current),
+        });
+    };
+
+    const relationshipSchema = z.object({ target: z.string(), description: z.string() });
+
+    return {
+        proposeCharacterChange: tool({
+            description: 'Propose creating a character or updating an existing one. Only the fields you pass are changed. Life stage fields update the stage whose age label matches `lifeStage.age` (or the first stage when no age is given); an unknown age label adds a new stage. Relationships are merged by target name. The author must accept the proposal before anything is saved.',
+            inputSchema: z.object({
+                name: z.string().describe('Character name (existing name or alias to update; new name to create)'),
+                aka: z.string().optional().describe('Comma-separated aliases; replaces the current value'),
+                lifeStage: z.object({
+                    age: z.string().optional(),
+                    appearance: z.string().optional(),
+                    personality: z.string().optional(),
+                    motivation: z.string().optional(),
+                }).optional(),
+                relationships: z.array(relationshipSchema).optional(),
+                reason: reasonField,
+            }),
+            execute: async ({ name, aka, lifeStage, relationships, reason }) => proposeEntity('Characters', name, reason, (current) => {
+                const base = current ?? {
+                    name,
+                    aka: '',
+                    lifeStages: [{ id: 'default', age: 'Current', appearance: '', personality: '', motivation: '' }],
+                    relationships: [],
+                };
+                let stages: any[] = Array.isArray(base.lifeStages) && base.lifeStages.length > 0
+                    ? base.lifeStages
+                    : [{ id: 'default', age: 'Current', appearance: '', personality: '', motivation: '' }];
+                if (lifeStage) {
+                    const fields = withoutUndefined(lifeStage);
+                    const idx = lifeStage.age
+                        ? stages.findIndex(s => normalizeName(String(s.age ?? '')) === normalizeName(lifeStage.age!))
+                        : 0;
+                    if (idx === -1) {
+                        stages = [...stages, { id: Date.now().toString(), age: '', appearance: '', personality: '', motivation: '', ...fields }];
+                    } else {
+                        stages = stages.map((s, i) => i === idx ? { ...s, ...fields } : s);
+                    }
+                }
+                return {
+                    ...base,
+                    ...(aka !== undefined ? { aka } : {}),
+                    lifeStages: stages,
+                    relationships: mergeByKey(Array.isArray(base.relationships) ? base.relationships : [], relationships ?? [], 'target'),
+                };
+            }),
+        }),
+        proposePlaceChange: tool({
+            description: 'Propose creating a place or updating an existing one. Only the fields you pass are changed. The author must accept the proposal before anything is saved.',
+            inputSchema: z.object({
+                name: z.string(),
+                aka: z.string().optional(),
+                description: z.string().optional(),
+                reason: reasonField,
+            }),
+            execute: async ({ name, aka, description, reason }) => proposeEntity('Places', name, reason, (current) => ({
+                ...(current ?? { name, aka: '', description: '' }),
+                ...withoutUndefined({ aka, description }),
+            })),
+        }),
+        proposeObjectChange: tool({
+            description: 'Propose creating an object/item or updating an existing one. Only the fields you pass are changed. The author must accept the proposal before anything is saved.',
+            inputSchema: z.object({
+                name: z.string(),
+                aka: z.string().optional(),
+                description: z.string().optional(),
+                properties: z.string().optional(),
+                reason: reasonField,
+            }),
+            execute: async ({ name, aka, description, properties, reason }) => proposeEntity('Objects', name, reason, (current) => ({
+                ...(current ?? { name, aka: '', description: '', properties: '' }),
+                ...withoutUndefined({ aka, description, properties }),
+            })),
+        }),
+        proposeOrganisationChange: tool({
+            description: 'Propose creating an organisation or updating an existing one. Members are merged by name. The author must accept the proposal before anything is saved.',
+            inputSchema: z.object({
+                name: z.string(),
+                goals: z.string().optional(),
+                members: z.array(z.object({ name: z.string(), role: z.string() })).optional(),
+                reason: reasonField,
+            }),
+            execute: async ({ name, goals, members, reason }) => proposeEntity('Organisations', name, reason, (current) => {
+                const base = current ?? { name, goals: '', members: [] };
+                return {
+                    ...base,
+                    ...withoutUndefined({ goals }),
+                    members: mergeByKey(Array.isArray(base.members) ? base.members : [], members ?? [], 'name'),
+                };
+            }),
+        }),
+        proposeRelationship: tool({
+            description: 'Propose adding or changing a relationship between two existing characters. When accepted, the other character receives the reciprocal entry automatically, as when editing in the character card.',
+            inputSchema: z.object({
+                character: z.string(),
+                target: z.string(),
+                description: z.string().describe('How `character` relates to `target`'),
+                reason: reasonField,
+            }),
+            execute: async ({ character, target, description, reason }) => {
+                const found = await findEntity(projectRoot, 'Characters', character);
+                if (!found && !proposedByKey.has(`Characters/${sanitizeFileStem(character)}.json`)) {
+                    return { error: `No character named "${character}". Use proposeCharacterChange with relationships to create one.` };
+                }
+                return proposeEntity('Characters', found?.data?.name || character, reason, (current) => ({
+                    ...current,
+                    relationships: mergeByKey(Array.isArray(current?.relationships) ? current.relationships : [], [{ target, description }], 'target'),
+                }));
+            },
+        }),
+        proposeSubplot: tool({
+            description: 'Propose adding a subplot, or updating the subplot with the same title. Characters are listed by name. The author must accept the proposal before anything is saved.',
+            inputSchema: z.object({
+                title: z.string(),
+                description: z.string().optional(),
+                characters: z.array(z.string()).optional(),
+                reason: reasonField,
+            }),
+            execute: async ({ title, description, characters, reason }) => {
+                const { settings } = await readProjectConfig(projectRoot);
+                const subplots: any[] = Array.isArray(settings?.subplots) ? settings.subplots : [];
+
+                const key = `subplot:${normalizeName(title)}`;
+                const existing = subplots.find(sp => normalizeName(String(sp?.title ?? '')) === normalizeName(title)) ?? null;
+                const current = proposedByKey.get(key)?.after ?? existing;
+                const after = {
+                    id: current?.id || title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || randomUUID(),
+                    title: current?.title || title.trim(),
+                    description: description ?? current?.description ?? '',
+                    characters: Array.from(new Set([...(current?.characters ?? []), ...(characters ?? [])])),
+                };
+                notify(`Proposing ${existing ? 'an update to' : 'a new'} subplot: ${title}`);
+                return submit(key, {
+                    kind: existing ? 'update' : 'create',
+                    category: 'Subplots',
+                    path: null,
+                    title: `${existing ? 'Update' : 'Add'} subplot ${after.title}`,
+                    reason,
+                    before: existing,
+                    after,
+                });
+            },
+        }),
+    };
+}
@@ -0,0 +1,118 @@
+import os from 'node:os'
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { chunkChapter, resetRetrievalIndex, searchRetrievalIndex, syncRetrievalIndex } from './retrievalIndex'
+
+// The tests use the default local embedding backend, which needs no network
+// and gives the same vectors on every run.
+
+const words = (text: string) => text.split(/\s+/).filter(Boolean);
+
+function sentences(count: number, label: string) {
+    return Array.from({ length: count }, (_, i) => `The ${label} lantern number ${i} flickered over the quiet harbour wall.`).join(' ');
+}
+
+describe('chunkChapter', () => {
+    it('merges short paragraphs and keeps every word', () => {
+        const paragraphs = Array.from({ length: 12 }, (_, i) => `Paragraph ${i} is short but it says something.`);
+        const chunks = chunkChapter('Chapter 1', paragraphs.join('\n\n'));
+
+        expect(chunks.length).toBeLessThan(paragraphs.length);
+        expect(chunks[0].paragraph).toBe(1);
+        expect(chunks.flatMap(c => words(c.text))).toEqual(words(paragraphs.join(' ')));
+    });
+
+    it('closes a passage before a paragraph would take it past the limit', () => {
+        const short = 'A brief opening line.';
+        const long = sentences(25, 'brass');
+        expect(long.length).toBeLessThan(2000);
+        expect(short.length + long.length).toBeGreaterThan(300);
+
+        const chunks = chunkChapter('Chapter 1', `${short}\n\n${long}\n\n${long}`);
+        for (const chunk of chunks) expect(chunk.text.length).toBeLessThanOrEqual(2000);
+        expect(chunks.flatMap(c => words(c.text))).toEqual(words(`${short} ${long} ${long}`));
+    });
+
+    it('splits a paragraph that is too long on its own between sentences', () => {
+        const paragraph = sentences(80, 'iron');
+        const chunks = chunkChapter('Chapter 1', `Before.\n\n${paragraph}`);
+
+        const pieces = chunks.filter(c => c.paragraph === 2);
+        expect(pieces.length).toBeGreaterThan(1);
+        for (const piece of pieces) {
+            expect(piece.text.length).toBeLessThanOrEqual(2000);
+            expect(piece.text).toMatch(/wall\.$/);
+        }
+        expect(pieces.flatMap(c => words(c.text))).toEqual(words(paragraph));
+    });
+
+    it('splits a sentence longer than a passage between words', () => {
+        const sentence = Array.from({ length: 600 }, (_, i) => `word${i}`).join(' ');
+        const chunks = chunkChapter('Chapter 1', sentence);
+
+        for (const chunk of chunks) expect(chunk.text.length).toBeLessThanOrEqual(2000);
+        expect(chunks.flatMap(c => words(c.text))).toEqual(words(sentence));
+    });
+});
+
+describe('retrieval index with the local backend', () => {
+    let projectRoot: string;
+
+    const writeChapter = async (file: string, paragraphs: string[], mtime: Date) => {
+        const filePath = path.join(projectRoot, 'Chapters', file);
+        const html = paragraphs.map(p => `<p>${p}</p>`).join('');
+        await fs.writeFile(filePath, `<text>${html}</text>\n<settings>{}</settings>\n<critique></critique>`);
+        // Set explicitly: writes within the same clock tick can share an mtime
+        await fs.utimes(filePath, mtime, mtime);
+    };
+
+    beforeAll(async () => {
+        projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'auctor-index-'));
+        await fs.mkdir(path.join(projectRoot, 'Chapters'));
+        await fs.writeFile(path.join(projectRoot, 'auctor.json'), JSON.stringify({ settings: {} }));
+    });
+
+    afterAll(async () => {
+        resetRetrievalIndex();
+        // Queued after the index write the reset starts, so that has finished
+        await syncRetrievalIndex(projectRoot);
+        resetRetrievalIndex();
+        await fs.rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('indexes every passage once and re-embeds only what changed', async () => {
+        const opening = [sentences(20, 'copper'), sentences(20, 'silver'), sentences(20, 'golden')];
+        await writeChapter('Chapter 1.md', opening, new Date(2024, 0, 1));
+        await writeChapter('Chapter 2.md', ['The lighthouse keeper counted the ships.'], new Date(2024, 0, 1));
+
+        const first = await syncRetrievalIndex(projectRoot);
+        expect(first.backend).toBe('local');
+        expect(first.sources).toBe(2);
+        expect(first.embedded).toBe(first.chunks);
+
+        const unchanged = await syncRetrievalIndex(projectRoot);
+        expect(unchanged.embedded).toBe(0);
+
+        await writeChapter('Chapter 1.md', [opening[0], sentences(20, 'velvet'), opening[2]], new Date(2024, 0, 2));
+        const edited = await syncRetrievalIndex(projectRoot);
+        expect(edited.embedded).toBe(1);
+        expect(edited.chunks).toBe(first.chunks);
+    });
+
+    it('finds text far into a long paragraph', async () => {
+        const paragraph = `${sentences(60, 'pewter')} Nobody expected the albatross to return.`;
+        expect(paragraph.length).toBeGreaterThan(4000);
+        await writeChapter('Chapter 3.md', [paragraph], new Date(2024, 0, 3));
+
+        const [hit] = await searchRetrievalIndex(projectRoot, 'albatross return', { limit: 1 });
+        expect(hit.source).toBe('Chapters/Chapter 3.md');
+        expect(hit.text).toContain('Nobody expected the albatross to return.');
+    });
+
+    it('forgets a deleted chapter', async () => {
+        await fs.rm(path.join(projectRoot, 'Chapters', 'Chapter 2.md'));
+        const result = await syncRetrievalIndex(projectRoot);
+        expect(result.sources).toBe(2);
+    });
+});
@@ -0,0 +1,366 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { writeFileAtomic } from './atomicWrite';
+import { createHash } from 'node:crypto';
+import { getAIProvider, resolveProviderConnection, AIProviderConnection } from './aiProviders';
+import { listChaptersInOrder, parseChapterFile } from './chapters';
+import { EmbeddingBackendDefinition, getEmbeddingBackend } from './embeddings';
+import { EntityKind, ENTITY_FOLDERS, formatEntity, listEntityFiles, readEntityFile } from './entities';
+import { readProjectConfig } from './projectConfig';
+
+// --- Retrieval Index ---
+// Embeddings of chapter passages and entity files, kept in
+// .auctor/index/embeddings.json so questions about the whole novel can pull
+// in the few passages that matter. Sources are re-chunked when their file
+// changes; only chunks whose text changed are embedded again. All work runs
+// through one queue, so saves, syncs and searches never interleave.
+
+// Version 2: passages are no longer cut off at MAX_CHUNK_CHARS
+const INDEX_VERSION = 2;
+// Paragraphs shorter than this are merged with the next one
+const MIN_CHUNK_CHARS = 300;
+const MAX_CHUNK_CHARS = 2000;
+const SAVE_DEBOUNCE_MS = 1500;
+const PERSIST_DEBOUNCE_MS = 2000;
+
+export type IndexedKind = 'Chapter' | EntityKind;
+
+type IndexedChunk = {
+    kind: IndexedKind;
+    /** Chapter title or entity name. */
+    title: string;
+    /** 1-based paragraph the chunk starts at (chapters only). */
+    paragraph?: number;
+    text: string;
+    textHash: string;
+    vector: Float32Array;
+};
+
+type IndexedSource = { mtimeMs: number; chunks: IndexedChunk[] };
+
+type LoadedIndex = {
+    projectRoot: string;
+    backend: string;
+    model: string;
+    /** Keyed by project-relative path with forward slashes, e.g. "Chapters/Chapter 1.md". */
+    sources: Map<string, IndexedSource>;
+};
+
+export type RetrievalHit = {
+    source: string;
+    kind: IndexedKind;
+    title: string;
+    paragraph?: number;
+    text: string;
+    score: number;
+};
+
+let current: LoadedIndex | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+const pendingUpdates = new Map<string, ReturnType<typeof setTimeout>>();
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+const indexPath = (projectRoot: string) => path.join(projectRoot, '.auctor', 'index', 'embeddings.json');
+const hashText = (text: string) => createHash('sha1').update(text).digest('hex');
+const normalizeSource = (relPath: string) => relPath.replace(/\\/g, '/').replace(/^\/+/, '');
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(task);
+    queue = run.catch(() => {});
+    return run;
+}
+
+function encodeVector(vector: Float32Array): string {
+    return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+    const buf = Buffer.from(encoded, 'base64');
+    return new Float32Array(buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength));
+}
+
+async function resolveBackend(projectRoot: string) {
+    const settings: Record<string, any> = (await readProjectConfig(projectRoot)).settings || {};
+    const backend = getEmbeddingBackend(settings.embeddingBackend);
+    const model = (typeof settings.embeddingModel === 'string' && settings.embeddingModel.trim()) || backend.defaultModel;
+    const connection: AIProviderConnection = backend.providerId
+        ? await resolveProviderConnection(projectRoot, getAIProvider(backend.providerId), settings)
+        : { apiKey: '' };
+    return { backend, model, connection };
+}
+
+/** The in-memory index for `projectRoot`, loaded from disk; emptied if the backend or model changed. */
+async function loadIndex(projectRoot: string, backendId: string, model: string): Promise<LoadedIndex> {
+    if (current && current.projectRoot === projectRoot && current.backend === backendId && current.model === model) {
+        return current;
+    }
+
+    const index: LoadedIndex = { projectRoot, backend: backendId, model, sources: new Map() };
+    try {
+        const stored = JSON.parse(await fs.readFile(indexPath(projectRoot), 'utf-8'));
+        if (stored.version === INDEX_VERSION && stored.backend === backendId && stored.model === model) {
+            for (const [source, entry] of Object.entries<any>(stored.sources || {})) {
+                index.sources.set(source, {
+                    mtimeMs: entry.mtimeMs,
+                    chunks: entry.chunks.map((c: any) => ({ ...c, vector: decodeVector(c.vector) })),
+                });
+            }
+        }
+    } catch {
+        // No index yet (or unreadable): start empty, it is rebuilt from the files
+    }
+    current = index;
+    return index;
+}
+
+function schedulePersist(index: LoadedIndex) {
+    if (persistTimer) clearTimeout(persistTimer);
+    persistTimer = setTimeout(() => {
+        persistTimer = null;
+        enqueue(() => persistIndex(index)).catch(e => console.error('Error saving retrieval index:', e));
+    }, PERSIST_DEBOUNCE_MS);
+}
+
+async function persistIndex(index: LoadedIndex) {
+    const sources: Record<string, any> = {};
+    for (const [source, entry] of index.sources) {
+        sources[source] = {
+            mtimeMs: entry.mtimeMs,
+            chunks: entry.chunks.map(c => ({ ...c, vector: encodeVector(c.vector) })),
+        };
+    }
+    const file = indexPath(index.projectRoot);
+    await writeFileAtomic(file, JSON.stringify({ version: INDEX_VERSION, backend: index.backend, model: index.model, sources }));
+}
+
+// Where a sentence ends: terminal punctuation, then any closing quotes or brackets
+const SENTENCE_BREAK = /(?<=[.!?…]['"’”)\]]*)\s+/;
+
+/** Cuts text with no sentence break short enough into pieces between words. */
+function splitAtWords(text: string): string[] {
+    const pieces: string[] = [];
+    let rest = text;
+    while (rest.length > MAX_CHUNK_CHARS) {
+        const space = rest.lastIndexOf(' ', MAX_CHUNK_CHARS);
+        const cut = space > 0 ? space : MAX_CHUNK_CHARS;
+        pieces.push(rest.slice(0, cut));
+        rest = rest.slice(cut).trimStart();
+    }
+    if (rest) pieces.push(rest);
+    return pieces;
+}
+
+/** Splits a paragraph too long for one passage between sentences. */
+function splitLongParagraph(paragraph: string): string[] {
+    const pieces: string[] = [];
+    let piece = '';
+    for (const sentence of paragraph.split(SENTENCE_BREAK).flatMap(splitAtWords)) {
+        if (piece && piece.length + 1 + sentence.length > MAX_CHUNK_CHARS) {
+            pieces.push(piece);
+            piece = '';
+        }
+        piece = piece ? `${piece} ${sentence}` : sentence;
+    }
+    if (piece) pieces.push(piece);
+    return pieces;
+}
+
+/**
+ * Splits chapter text into passages of whole paragraphs, none longer than
+ * MAX_CHUNK_CHARS; a paragraph longer than that on its own is split between
+ * sentences. Every word of the chapter ends up in a passage.
+ */
+export function chunkChapter(title: string, text: string): Omit<IndexedChunk, 'textHash' | 'vector'>[] {
+    const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+    const chunks: Omit<IndexedChunk, 'textHash' | 'vector'>[] = [];
+    let buffer = '';
+    let startParagraph = 1;
+    const flush = () => {
+        if (buffer) chunks.push({ kind: 'Chapter', title, paragraph: startParagraph, text: buffer });
+        buffer = '';
+    };
+    paragraphs.forEach((paragraph, idx) => {
+        if (paragraph.length > MAX_CHUNK_CHARS) {
+            flush();
+            for (const piece of splitLongParagraph(paragraph)) {
+                chunks.push({ kind: 'Chapter', title, paragraph: idx + 1, text: piece });
+            }
+            return;
+        }
+        if (buffer && buffer.length + 2 + paragraph.length > MAX_CHUNK_CHARS) flush();
+        if (!buffer) startParagraph = idx + 1;
+        buffer = buffer ? `${buffer}\n\n${paragraph}` : paragraph;
+        if (buffer.length >= MIN_CHUNK_CHARS) flush();
+    });
+    flush();
+    return chunks;
+}
+
+async function chunkSource(projectRoot: string, source: string): Promise<Omit<IndexedChunk, 'textHash' | 'vector'>[] | null> {
+    const [folder, file] = source.split('/');
+    if (folder === 'Chapters') {
+        try {
+            const raw = await fs.readFile(path.join(projectRoot, 'Chapters', path.basename(file)), 'utf-8');
+            return chunkChapter(file.replace(/\.[^.]+$/, ''), parseChapterFile(raw).text);
+        } catch {
+            return null;
+        }
+    }
+    const entity = await readEntityFile(projectRoot, source);
+    if (!entity) return null;
+    return [{ kind: entity.kind, title: entity.name, text: formatEntity(entity.kind, entity.name, entity.data) }];
+}
+
+function isIndexable(source: string): boolean {
+    const [folder, file, ...rest] = source.split('/');
+    if (!file || rest.length > 0 || file.startsWith('.')) return false;
+    return folder === 'Chapters' || (Object.values(ENTITY_FOLDERS).includes(folder) && file.endsWith('.json'));
+}
+
+/** Brings one source up to date; returns how many chunks had to be embedded. */
+async function updateSource(
+    index: LoadedIndex,
+    source: string,
+    backend: EmbeddingBackendDefinition,
+    connection: AIProviderConnection,
+    abortSignal?: AbortSignal,
+): Promise<number> {
+    let mtimeMs: number;
+    try {
+        mtimeMs = (await fs.stat(path.join(index.projectRoot, source))).mtimeMs;
+    } catch {
+        index.sources.delete(source);
+        return 0;
+    }
+    const previous = index.sources.get(source);
+    if (previous && previous.mtimeMs === mtimeMs) return 0;
+
+    const chunks = await chunkSource(index.projectRoot, source);
+    if (!chunks) {
+        index.sources.delete(source);
+        return 0;
+    }
+
+    // Unchanged passages keep their vectors; only new text is embedded
+    const known = new Map((previous?.chunks ?? []).map(c => [c.textHash, c.vector]));
+    const hashed = chunks.map(c => ({ ...c, textHash: hashText(c.text) }));
+    const missing = hashed.filter(c => !known.has(c.textHash));
+    for (let i = 0; i < missing.length; i += backend.batchSize) {
+        const batch = missing.slice(i, i + backend.batchSize);
+        const vectors = await backend.embed(connection, index.model, batch.map(c => c.text), abortSignal);
+        batch.forEach((c, j) => known.set(c.textHash, Float32Array.from(vectors[j])));
+    }
+
+    index.sources.set(source, {
+        mtimeMs,
+        chunks: hashed.map(c => ({ ...c, vector: known.get(c.textHash)! })),
+    });
+    return missing.length;
+}
+
+async function listSources(projectRoot: string): Promise<string[]> {
+    const chapters = (await listChaptersInOrder(projectRoot)).map(c => `Chapters/${c.file}`);
+    const entities = (await listEntityFiles(projectRoot)).map(e => e.relPath);
+    return [...chapters, ...entities];
+}
+
+/** Indexes every chapter and entity that changed since the last sync and forgets deleted ones. */
+export function syncRetrievalIndex(projectRoot: string, abortSignal?: AbortSignal) {
+    return enqueue(async () => {
+        const { backend, model, connection } = await resolveBackend(projectRoot);
+        const index = await loadIndex(projectRoot, backend.id, model);
+        const sources = await listSources(projectRoot);
+        let embedded = 0;
+        for (const source of sources) {
+            embedded += await updateSource(index, source, backend, connection, abortSignal);
+        }
+        const live = new Set(sources);
+        let removed = 0;
+        for (const source of [...index.sources.keys()]) {
+            if (!live.has(source)) {
+                index.sources.delete(source);
+                removed++;
+            }
+        }
+        if (embedded > 0 || removed > 0) schedulePersist(index);
+        const chunks = [...index.sources.values()].reduce((sum, s) => sum + s.chunks.length, 0);
+        return { backend: backend.id, model, sources: index.sources.size, chunks, embedded };
+    });
+}
+
+/** Called after a project file is written, renamed or deleted; debounced per file. */
+export function scheduleRetrievalIndexUpdate(projectRoot: string, relPath: string) {
+    const source = normalizeSource(relPath);
+    if (!isIndexable(source)) return;
+
+    const existing = pendingUpdates.get(source);
+    if (existing) clearTimeout(existing);
+    pendingUpdates.set(source, setTimeout(() => {
+        pendingUpdates.delete(source);
+        enqueue(async () => {
+            // Project switched since the save
+            if (current && current.projectRoot !== projectRoot) return;
+            const { backend, model, connection } = await resolveBackend(projectRoot);
+            const index = await loadIndex(projectRoot, backend.id, model);
+            const hadSource = index.sources.has(source);
+            const embedded = await updateSource(index, source, backend, connection);
+            if (embedded > 0 || hadSource !== index.sources.has(source)) schedulePersist(index);
+        }).catch(e => console.error(`Error updating retrieval index for ${source}:`, e));
+    }, SAVE_DEBOUNCE_MS));
+}
+
+/**
+ * Passages and entities most similar to `query`, best first. Syncs the index
+ * first, so the first search in a project may take a while on remote backends.
+ */
+export async function searchRetrievalIndex(
+    projectRoot: string,
+    query: string,
+    options: { limit?: number; kinds?: IndexedKind[]; excludeSources?: string[]; abortSignal?: AbortSignal } = {},
+): Promise<RetrievalHit[]> {
+    if (!query.trim()) return [];
+    await syncRetrievalIndex(projectRoot, options.abortSignal);
+
+    return enqueue(async () => {
+        const { backend, model, connection } = await resolveBackend(projectRoot);
+        const index = await loadIndex(projectRoot, backend.id, model);
+        const [queryVector] = await backend.embed(connection, model, [query], options.abortSignal);
+        const excluded = new Set((options.excludeSources ?? []).map(normalizeSource));
+
+        const hits: RetrievalHit[] = [];
+        for (const [source, entry] of index.sources) {
+            if (excluded.has(source)) continue;
+            for (const chunk of entry.chunks) {
+                if (options.kinds && !options.kinds.includes(chunk.kind)) continue;
+                let score = 0;
+                for (let i = 0; i < chunk.vector.length; i++) score += chunk.vector[i] * queryVector[i];
+                hits.push({ source, kind: chunk.kind, title: chunk.title, paragraph: chunk.paragraph, text: chunk.text, score });
+            }
+        }
+        return hits.sort((a, b) => b.score - a.score).slice(0, options.limit ?? 8);
+    });
+}
+
+/** Drops the stored index and builds it again from scratch (e.g. after changing the backend). */
+export async function rebuildRetrievalIndex(projectRoot: string) {
+    await enqueue(async () => {
+        current = null;
+        await fs.rm(indexPath(projectRoot), { force: true });
+    });
+    return syncRetrievalIndex(projectRoot);
+}
+
+/** Forgets the in-memory index and pending updates when another project is opened. */
+export function resetRetrievalIndex() {
+    for (const timer of pendingUpdates.values()) clearTimeout(timer);
+    pendingUpdates.clear();
+    if (persistTimer) {
+        clearTimeout(persistTimer);
+        if (current) {
+            const index = current;
+            enqueue(() => persistIndex(index)).catch(e => console.error('Error saving retrieval index:', e));
+        }
+        persistTimer = null;
+    }
+    current = null;
+}
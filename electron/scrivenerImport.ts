@@ -0,0 +1,338 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { ImportAnalysis, ImportedChapter, ImportedCharacter, ImportedPlace } from './importPipeline';
+import { readRtf, tokenizeMarkup } from './manuscriptReaders';
+import { ManuscriptParagraph } from './manuscriptSplitter';
+
+// --- Scrivener Import ---
+// Reads a Scrivener project (a .scriv package: the .scrivx binder XML plus one
+// RTF file per document) into the same ImportAnalysis the AI import produces,
+// so it goes through the same review step (importMerge.ts). Nothing here uses
+// AI: the Draft folder becomes the chapters in binder order, synopses become
+// chapter summaries, and documents in Characters / Places folders outside the
+// Draft become worldbuilding entries. Scrivener 3 (Files/Data/<UUID>/) and
+// Scrivener 2 / Windows 1 (Files/Docs/<ID>.rtf) layouts are both read.
+
+type BinderItem = {
+    uuid: string;
+    id: string;
+    type: string;
+    title: string;
+    includeInCompile: boolean;
+    children: BinderItem[];
+};
+
+type ScrivenerDocument = { paragraphs: ManuscriptParagraph[]; synopsis: string };
+
+export type ScrivenerProgress = (detail: string) => void;
+
+const CHARACTER_FOLDER = /^(characters?|character sketches|cast|people)$/i;
+const PLACE_FOLDER = /^(places?|settings?|locations?|setting sketches)$/i;
+const TEMPLATE_FOLDER = /^template sheets$/i;
+const SCENE_BREAK_HTML = '<p>* * *</p>';
+
+// Scrivener 3 marks paragraph and character styles inline, e.g. "<$Scr_Ps::0>"
+const STYLE_MARKER_TEXT = /<!?\$Scr_[A-Za-z]+::\d+>/g;
+const STYLE_MARKER_HTML = /&lt;!?\$Scr_[A-Za-z]+::\d+&gt;/g;
+
+/** The .scrivx file for a selected .scriv package, or the .scrivx itself. */
+export async function findScrivenerBinder(selectedPath: string): Promise<string> {
+    if (selectedPath.toLowerCase().endsWith('.scrivx')) return selectedPath;
+    let entries: string[];
+    try {
+        entries = await fs.readdir(selectedPath);
+    } catch {
+        throw new Error('Select a Scrivener project (.scriv) folder.');
+    }
+    const binder = entries.find(name => name.toLowerCase().endsWith('.scrivx'));
+    if (!binder) throw new Error('The selected folder is not a Scrivener project: it has no .scrivx file.');
+    return path.join(selectedPath, binder);
+}
+
+// --- Binder ---
+
+function parseBinder(xml: string): { items: BinderItem[]; templateFolder: string } {
+    const roots: BinderItem[] = [];
+    const items: BinderItem[] = [];
+    const elements: string[] = [];
+    let templateFolder = '';
+    let text = '';
+
+    for (const token of tokenizeMarkup(xml)) {
+        if (token.type === 'text') {
+            text += token.text;
+            continue;
+        }
+        if (token.type === 'open') {
+            if (token.selfClosing) continue;
+            elements.push(token.name);
+            text = '';
+            if (token.name === 'binderitem') {
+                items.push({
+                    uuid: token.attrs.uuid || '',
+                    id: token.attrs.id || '',
+                    type: token.attrs.type || 'Text',
+                    title: '',
+                    includeInCompile: true,
+                    children: [],
+                });
+            }
+            continue;
+        }
+
+        const parent = elements[elements.length - 2];
+        const current = items[items.length - 1];
+        if (token.name === 'binderitem') {
+            const item = items.pop();
+            if (item) (items.length > 0 ? items[items.length - 1].children : roots).push(item);
+        } else if (current && token.name === 'title' && parent === 'binderitem') {
+            current.title = text.trim();
+        } else if (current && token.name === 'includeincompile' && parent === 'metadata') {
+            current.includeInCompile = text.trim().toLowerCase() !== 'no';
+        } else if (token.name === 'templatefolderuuid' || token.name === 'templatefolderid') {
+            templateFolder = text.trim();
+        }
+        elements.pop();
+        text = '';
+    }
+    return { items: roots, templateFolder };
+}
+
+// --- Documents ---
+
+async function readOptional(filePath: string, encoding: BufferEncoding): Promise<string | null> {
+    try {
+        return await fs.readFile(filePath, encoding);
+    } catch {
+        return null;
+    }
+}
+
+function cleanParagraph(paragraph: ManuscriptParagraph): ManuscriptParagraph {
+    return {
+        ...paragraph,
+        text: paragraph.text.replace(STYLE_MARKER_TEXT, ''),
+        html: paragraph.html.replace(STYLE_MARKER_HTML, ''),
+    };
+}
+
+async function readDocument(packageDir: string, item: BinderItem): Promise<ScrivenerDocument> {
+    // Scrivener 3 keeps each document in its own folder; older versions use numbered files
+    const dataDir = path.join(packageDir, 'Files', 'Data', item.uuid);
+    const docsDir = path.join(packageDir, 'Files', 'Docs');
+    const rtf = (item.uuid ? await readOptional(path.join(dataDir, 'content.rtf'), 'latin1') : null)
+        ?? (item.id ? await readOptional(path.join(docsDir, `${item.id}.rtf`), 'latin1') : null);
+    const synopsis = (item.uuid ? await readOptional(path.join(dataDir, 'synopsis.txt'), 'utf-8') : null)
+        ?? (item.id ? await readOptional(path.join(docsDir, `${item.id}_synopsis.txt`), 'utf-8') : null);
+
+    let paragraphs: ManuscriptParagraph[] = [];
+    if (rtf?.startsWith('{\\rtf')) {
+        paragraphs = readRtf(rtf).map(cleanParagraph).filter(p => p.text.trim() || p.sceneBreak);
+    }
+    return { paragraphs, synopsis: (synopsis || '').trim() };
+}
+
+// --- Draft → Chapters ---
+
+const hasChildren = (item: BinderItem) => item.children.length > 0;
+const isPart = (item: BinderItem) => item.children.some(hasChildren);
+
+/**
+ * Chapters from the Draft folder, in binder order. A document or a folder of
+ * scenes is a chapter; a folder of folders is a part, whose title goes in
+ * front of its first chapter's title (as the text import does). Documents
+ * left out of compile are skipped.
+ */
+async function draftChapters(packageDir: string, draft: BinderItem, onProgress: ScrivenerProgress): Promise<ImportedChapter[]> {
+    const chapters: ImportedChapter[] = [];
+    let pendingTitle: string[] = [];
+
+    const addChapter = async (item: BinderItem) => {
+        onProgress(`Reading "${item.title}"...`);
+        const own = await readDocument(packageDir, item);
+        const sections: ManuscriptParagraph[][] = own.paragraphs.length > 0 ? [own.paragraphs] : [];
+        const synopses: string[] = [];
+        for (const scene of item.children.filter(c => c.includeInCompile)) {
+            const doc = await readDocument(packageDir, scene);
+            if (doc.paragraphs.length > 0) sections.push(doc.paragraphs);
+            if (doc.synopsis) synopses.push(doc.synopsis);
+        }
+        chapters.push({
+            title: [...pendingTitle, item.title || `Chapter ${chapters.length + 1}`].join(' — '),
+            html: sections.map(paragraphs => paragraphs.map(p => p.html).join('\n')).join(`\n${SCENE_BREAK_HTML}\n`),
+            summary: own.synopsis || synopses.join(' '),
+        });
+        pendingTitle = [];
+    };
+
+    const walk = async (items: BinderItem[]) => {
+        for (const item of items) {
+            if (!item.includeInCompile) continue;
+            if (!isPart(item)) {
+                await addChapter(item);
+                continue;
+            }
+            // Text written on the part itself becomes a chapter of its own
+            const own = await readDocument(packageDir, item);
+            if (own.paragraphs.length > 0) {
+                await addChapter({ ...item, children: [] });
+            } else {
+                pendingTitle.push(item.title);
+            }
+            await walk(item.children);
+        }
+    };
+
+    await walk(draft.children);
+    return chapters.filter(c => c.html.trim());
+}
+
+// --- Character and Setting Sheets ---
+
+type Section = { label: string; text: string };
+
+/**
+ * Splits a sheet into "Label: value" sections as Scrivener's character and
+ * setting sketch templates lay them out; the value may follow on the same
+ * line or in the paragraphs below. Text before the first label has no label.
+ */
+function sheetSections(paragraphs: ManuscriptParagraph[]): Section[] {
+    const sections: Section[] = [];
+    for (const paragraph of paragraphs) {
+        const line = paragraph.text.trim();
+        const labelled = line.match(/^([A-Za-z][\w /&'()-]{0,40}):\s*(.*)$/);
+        if (labelled) {
+            sections.push({ label: labelled[1].trim(), text: labelled[2].trim() });
+        } else if (sections.length > 0) {
+            const last = sections[sections.length - 1];
+            last.text = last.text ? `${last.text}\n${line}` : line;
+        } else {
+            sections.push({ label: '', text: line });
+        }
+    }
+    return sections.filter(s => s.text);
+}
+
+const CHARACTER_FIELDS: Record<string, 'name' | 'aka' | 'age' | 'appearance' | 'personality' | 'motivation'> = {
+    'name': 'name',
+    'full name': 'name',
+    'aka': 'aka',
+    'also known as': 'aka',
+    'alias': 'aka',
+    'aliases': 'aka',
+    'nickname': 'aka',
+    'nicknames': 'aka',
+    'age': 'age',
+    'appearance': 'appearance',
+    'physical description': 'appearance',
+    'description': 'appearance',
+    'looks': 'appearance',
+    'personality': 'personality',
+    'habits/mannerisms': 'personality',
+    'habits': 'personality',
+    'mannerisms': 'personality',
+    'motivation': 'motivation',
+    'motivations': 'motivation',
+    'goal': 'motivation',
+    'goals': 'motivation',
+    'internal conflicts': 'motivation',
+    'external conflicts': 'motivation',
+};
+
+// Labels that are the field itself; others are kept in front of their text
+const FIELD_LABELS = new Set(['appearance', 'physical description', 'description', 'personality', 'motivation', 'motivations']);
+
+const AKA_LABELS = new Set(Object.keys(CHARACTER_FIELDS).filter(label => CHARACTER_FIELDS[label] === 'aka'));
+
+const joinText = (...parts: string[]) => parts.filter(Boolean).join('\n');
+
+/**
+ * A character from a sheet. Labels the Character card has no field for
+ * (role, occupation, background, notes, unlabelled text) are kept under
+ * Personality with their label, so nothing on the sheet is lost.
+ */
+function characterFromSheet(title: string, paragraphs: ManuscriptParagraph[]): ImportedCharacter {
+    const character: ImportedCharacter = { name: title, aka: '', age: '', appearance: '', personality: '', motivation: '', relationships: [] };
+    const extra: string[] = [];
+    for (const section of sheetSections(paragraphs)) {
+        const field = CHARACTER_FIELDS[section.label.toLowerCase()];
+        if (field === 'name') {
+            // The binder title is the name the author knows them by; a fuller name becomes an alias
+            if (section.text.toLowerCase() !== title.toLowerCase()) character.aka = [character.aka, section.text].filter(Boolean).join(', ');
+        } else if (field === 'aka') {
+            character.aka = [character.aka, section.text.replace(/\n/g, ', ')].filter(Boolean).join(', ');
+        } else if (field === 'age') {
+            character.age = section.text;
+        } else if (field) {
+            const text = FIELD_LABELS.has(section.label.toLowerCase()) ? section.text : `${section.label}: ${section.text}`;
+            character[field] = joinText(character[field], text);
+        } else {
+            extra.push(section.label ? `${section.label}: ${section.text}` : section.text);
+        }
+    }
+    character.personality = joinText(character.personality, ...extra);
+    return character;
+}
+
+function placeFromSheet(title: string, paragraphs: ManuscriptParagraph[]): ImportedPlace {
+    const aka: string[] = [];
+    const description: string[] = [];
+    for (const section of sheetSections(paragraphs)) {
+        const label = section.label.toLowerCase();
+        if (AKA_LABELS.has(label)) {
+            aka.push(section.text.replace(/\n/g, ', '));
+        } else if (label === 'name') {
+            if (section.text.toLowerCase() !== title.toLowerCase()) aka.push(section.text);
+        } else {
+            description.push(section.label && label !== 'description' ? `${section.label}: ${section.text}` : section.text);
+        }
+    }
+    return { name: title, aka: aka.join(', '), description: description.join('\n') };
+}
+
+/** Text documents anywhere under a folder, in binder order. */
+function sheetDocuments(folder: BinderItem): BinderItem[] {
+    return folder.children.flatMap(item => [
+        ...(item.type === 'Text' && item.title ? [item] : []),
+        ...sheetDocuments(item),
+    ]);
+}
+
+// --- Project ---
+
+export async function readScrivenerProject(selectedPath: string, onProgress: ScrivenerProgress = () => {}, signal?: AbortSignal): Promise<ImportAnalysis> {
+    const binderPath = await findScrivenerBinder(selectedPath);
+    const packageDir = path.dirname(binderPath);
+    onProgress('Reading the binder...');
+    const { items, templateFolder } = parseBinder(await fs.readFile(binderPath, 'utf-8'));
+
+    const draft = items.find(item => item.type === 'DraftFolder');
+    if (!draft) throw new Error('The Scrivener project has no Draft folder.');
+    const chapters = await draftChapters(packageDir, draft, detail => {
+        signal?.throwIfAborted();
+        onProgress(detail);
+    });
+
+    // Sheet folders can sit at the top level or anywhere in Research, but not in the Draft or Trash
+    const characters: ImportedCharacter[] = [];
+    const places: ImportedPlace[] = [];
+    const visit = async (folder: BinderItem) => {
+        if (folder.type === 'DraftFolder' || folder.type === 'TrashFolder') return;
+        if (TEMPLATE_FOLDER.test(folder.title) || (templateFolder && (folder.uuid === templateFolder || folder.id === templateFolder))) return;
+        const kind = CHARACTER_FOLDER.test(folder.title) ? 'Character' : PLACE_FOLDER.test(folder.title) ? 'Place' : null;
+        if (!kind) {
+            for (const child of folder.children) await visit(child);
+            return;
+        }
+        for (const sheet of sheetDocuments(folder)) {
+            signal?.throwIfAborted();
+            onProgress(`Reading "${sheet.title}"...`);
+            const { paragraphs } = await readDocument(packageDir, sheet);
+            if (kind === 'Character') characters.push(characterFromSheet(sheet.title, paragraphs));
+            else places.push(placeFromSheet(sheet.title, paragraphs));
+        }
+    };
+    for (const item of items) await visit(item);
+
+    return { chapters, characters, places, objects: [], organisations: [], plot: '', subplots: [] };
+}
@@ -0,0 +1,276 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { entityMatchers, extractChapterPlainText, splitAliases } from '../src/utils/chapterText';
+import { listChaptersInOrder, parseChapterFile } from './chapters';
+import { AuctorConfig } from './projectConfig';
+import { EntityFile, EntityKind, listEntityFiles } from './entities';
+
+// --- Story Bible ---
+// A worldbuilding reference for co-authors and illustrators: the plot and
+// subplots, then every character (all life stages and relationships), place,
+// object and organisation (with members), each with the chapters it appears
+// in. Chapter mentions use the same name and alias matching as
+// findChaptersWhereMentioned on the cards. Names of other entries (relationship
+// targets, members, subplot characters) become cross-links. This module builds
+// the document model and the HTML version; storyBiblePdf.ts writes the PDF.
+
+export type BibleField = { label: string; text: string };
+
+/** A reference to another entry; `anchor` is null when no entry has that name. */
+export type BibleLink = { text: string; anchor: string | null; note: string };
+
+export type BibleEntry = {
+    anchor: string;
+    name: string;
+    aka: string;
+    /** Field groups; characters have one per life stage, other entries a single untitled group. */
+    groups: { heading: string; fields: BibleField[] }[];
+    links: { heading: string; items: BibleLink[] }[];
+    /** Titles of the chapters the entry appears in, in reading order. */
+    chapters: string[];
+};
+
+export type BibleSection = { id: string; title: string; entries: BibleEntry[] };
+
+export type StoryBible = {
+    title: string;
+    author: string;
+    plot: string;
+    sections: BibleSection[];
+};
+
+const SECTION_TITLES: Record<EntityKind, string> = {
+    Character: 'Characters',
+    Place: 'Places',
+    Object: 'Objects',
+    Organisation: 'Organisations',
+};
+
+const normalizeName = (s: string) => s.trim().toLowerCase();
+
+const str = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const slug = (text: string) => text.toLowerCase().normalize('NFKD').replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'entry';
+
+const fields = (pairs: [string, unknown][]): BibleField[] =>
+    pairs.map(([label, value]) => ({ label, text: str(value) })).filter(f => f.text);
+
+type ChapterText = { title: string; text: string; subplots: string[] };
+
+async function readChapterTexts(projectRoot: string, config: AuctorConfig): Promise<ChapterText[]> {
+    const chapters: ChapterText[] = [];
+    for (const info of await listChaptersInOrder(projectRoot, config)) {
+        let raw = '';
+        try {
+            raw = await fs.readFile(path.join(projectRoot, 'Chapters', info.file), 'utf-8');
+        } catch { continue; }
+        const settings = parseChapterFile(raw).settings as { subplots?: unknown };
+        chapters.push({
+            title: info.title,
+            text: extractChapterPlainText(raw),
+            subplots: Array.isArray(settings.subplots) ? settings.subplots.filter((id): id is string => typeof id === 'string') : [],
+        });
+    }
+    return chapters;
+}
+
+/** The story bible for the project, with the plot, subplots and title from `config`, which the caller has read. */
+export async function loadStoryBible(projectRoot: string, config: AuctorConfig): Promise<StoryBible> {
+    const settings = config.settings || {};
+    const chapters = await readChapterTexts(projectRoot, config);
+    const entities = (await listEntityFiles(projectRoot)).sort((a, b) => a.name.localeCompare(b.name));
+    const subplots: any[] = Array.isArray(settings.subplots) ? settings.subplots : [];
+
+    // Anchors first, so any entry can link to any other
+    const used = new Set<string>();
+    const anchorFor = (prefix: string, name: string) => {
+        let anchor = `${prefix}-${slug(name)}`;
+        for (let n = 2; used.has(anchor); n++) anchor = `${prefix}-${slug(name)}-${n}`;
+        used.add(anchor);
+        return anchor;
+    };
+    const subplotAnchors = subplots.map(sp => anchorFor('subplot', str(sp?.title) || 'untitled'));
+    const entityAnchors = new Map<EntityFile, string>(entities.map(e => [e, anchorFor(e.kind.toLowerCase(), e.name)]));
+
+    // Characters are found by name or alias
+    const characterAnchors = new Map<string, string>();
+    for (const entity of entities) {
+        if (entity.kind !== 'Character') continue;
+        for (const term of [entity.name, ...splitAliases(entity.data.aka)]) {
+            const key = normalizeName(term);
+            if (key && !characterAnchors.has(key)) characterAnchors.set(key, entityAnchors.get(entity)!);
+        }
+    }
+    const characterLink = (name: string, note = ''): BibleLink =>
+        ({ text: name, anchor: characterAnchors.get(normalizeName(name)) ?? null, note });
+    const isCharacter = (entity: EntityFile, name: string) => characterAnchors.get(normalizeName(name)) === entityAnchors.get(entity);
+
+    const mentionedIn = (name: string, aka?: string) => {
+        const matchers = entityMatchers(name, aka);
+        if (matchers.length === 0) return [];
+        return chapters.filter(c => matchers.some(re => re.test(c.text))).map(c => c.title);
+    };
+
+    const subplotEntries: BibleEntry[] = subplots.map((sp, i) => ({
+        anchor: subplotAnchors[i],
+        name: str(sp?.title) || 'Untitled subplot',
+        aka: '',
+        groups: [{ heading: '', fields: fields([['Description', sp?.description]]) }],
+        links: [{ heading: 'Characters', items: (Array.isArray(sp?.characters) ? sp.characters : []).filter((c: unknown) => str(c)).map((c: string) => characterLink(c)) }],
+        // A subplot appears in the chapters it is assigned to in their settings
+        chapters: chapters.filter(c => sp?.id && c.subplots.includes(sp.id)).map(c => c.title),
+    }));
+
+    const entityEntry = (entity: EntityFile): BibleEntry => {
+        const { kind, name, data } = entity;
+        const entry: BibleEntry = {
+            anchor: entityAnchors.get(entity)!,
+            name,
+            aka: str(data.aka),
+            groups: [],
+            links: [],
+            chapters: mentionedIn(name, data.aka),
+        };
+        if (kind === 'Character') {
+            const stages: any[] = Array.isArray(data.lifeStages) ? data.lifeStages : [];
+            entry.groups = stages.map((stage, i) => ({
+                heading: stages.length > 1 || str(stage?.age) ? str(stage?.age) || `Stage ${i + 1}` : '',
+                fields: fields([['Appearance', stage?.appearance], ['Personality', stage?.personality], ['Motivation', stage?.motivation]]),
+            }));
+            const relationships: any[] = Array.isArray(data.relationships) ? data.relationships : [];
+            entry.links.push({
+                heading: 'Relationships',
+                items: relationships.filter(r => str(r?.target)).map(r => characterLink(str(r.target), str(r.description))),
+            });
+            // Reverse links: the organisations and subplots this character is in
+            entry.links.push({
+                heading: 'Organisations',
+                items: entities
+                    .filter(e => e.kind === 'Organisation' && Array.isArray(e.data.members))
+                    .flatMap(org => org.data.members
+                        .filter((m: any) => isCharacter(entity, str(m?.name)))
+                        .map((m: any) => ({ text: org.name, anchor: entityAnchors.get(org)!, note: str(m.role) }))),
+            });
+            entry.links.push({
+                heading: 'Subplots',
+                items: subplots.flatMap((sp, i) => Array.isArray(sp?.characters) && sp.characters.some((c: unknown) => isCharacter(entity, str(c)))
+                    ? [{ text: subplotEntries[i].name, anchor: subplotAnchors[i], note: '' }]
+                    : []),
+            });
+        } else if (kind === 'Organisation') {
+            entry.groups = [{ heading: '', fields: fields([['Goals', data.goals]]) }];
+            const members: any[] = Array.isArray(data.members) ? data.members : [];
+            entry.links.push({ heading: 'Members', items: members.filter(m => str(m?.name)).map(m => characterLink(str(m.name), str(m.role))) });
+        } else {
+            entry.groups = [{ heading: '', fields: fields([['Description', data.description], ['Properties', kind === 'Object' ? data.properties : '']]) }];
+        }
+        entry.groups = entry.groups.filter(g => g.heading || g.fields.length > 0);
+        entry.links = entry.links.filter(l => l.items.length > 0);
+        return entry;
+    };
+
+    const sections: BibleSection[] = [];
+    if (subplotEntries.length > 0) sections.push({ id: 'subplots', title: 'Subplots', entries: subplotEntries });
+    for (const kind of Object.keys(SECTION_TITLES) as EntityKind[]) {
+        const entries = entities.filter(e => e.kind === kind).map(entityEntry);
+        if (entries.length > 0) sections.push({ id: SECTION_TITLES[kind].toLowerCase(), title: SECTION_TITLES[kind], entries });
+    }
+
+    return {
+        title: str(settings.title) || str(config.name) || 'Untitled',
+        author: str(settings.author),
+        plot: str(settings.plot),
+        sections,
+    };
+}
+
+// --- HTML ---
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** Paragraphs from plain text, keeping single line breaks. */
+const paragraphsHtml = (text: string) => text.split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+const STYLESHEET = `body { max-width: 46em; margin: 2em auto; padding: 0 1.5em; font-family: Georgia, 'Times New Roman', serif; line-height: 1.5; color: #222; }
+header { text-align: center; margin-bottom: 3em; }
+header h1 { font-size: 2.4em; margin-bottom: 0.2em; }
+header p { margin: 0.2em 0; color: #555; }
+nav ol { padding-left: 1.2em; }
+nav > ol > li { margin-top: 0.6em; font-weight: bold; }
+nav li li { font-weight: normal; }
+h2 { margin-top: 2.5em; padding-bottom: 0.2em; border-bottom: 1px solid #ccc; }
+article { margin: 1.5em 0 2em; }
+article h3 { margin-bottom: 0.2em; }
+.aka { margin-top: 0; font-style: italic; color: #555; }
+h4 { margin: 1em 0 0.3em; font-size: 1em; color: #444; }
+dl { margin: 0.3em 0; }
+dt { font-weight: bold; margin-top: 0.4em; }
+dd { margin-left: 1.2em; }
+dd p { margin: 0 0 0.4em; }
+ul.links { margin: 0.2em 0; padding-left: 1.2em; }
+.chapters { font-size: 0.9em; color: #555; }
+a { color: #1d4ed8; }
+@media print { h2 { page-break-before: always; } article { page-break-inside: avoid; } }
+`;
+
+function linkHtml(link: BibleLink): string {
+    const name = link.anchor ? `<a href="#${link.anchor}">${escapeHtml(link.text)}</a>` : escapeHtml(link.text);
+    return `<li>${name}${link.note ? ` — ${escapeHtml(link.note)}` : ''}</li>`;
+}
+
+function entryHtml(entry: BibleEntry): string {
+    const parts = [`<article id="${entry.anchor}">`, `<h3>${escapeHtml(entry.name)}</h3>`];
+    if (entry.aka) parts.push(`<p class="aka">Also known as ${escapeHtml(entry.aka)}</p>`);
+    for (const group of entry.groups) {
+        if (group.heading) parts.push(`<h4>${escapeHtml(group.heading)}</h4>`);
+        if (group.fields.length > 0) {
+            parts.push(`<dl>\n${group.fields.map(f => `<dt>${escapeHtml(f.label)}</dt><dd>${paragraphsHtml(f.text)}</dd>`).join('\n')}\n</dl>`);
+        }
+    }
+    for (const links of entry.links) {
+        parts.push(`<h4>${escapeHtml(links.heading)}</h4>`, `<ul class="links">\n${links.items.map(linkHtml).join('\n')}\n</ul>`);
+    }
+    parts.push(`<p class="chapters"><strong>Appears in:</strong> ${entry.chapters.length > 0 ? entry.chapters.map(escapeHtml).join(', ') : 'no chapters yet'}</p>`);
+    parts.push('</article>');
+    return parts.join('\n');
+}
+
+export function storyBibleHtml(bible: StoryBible): string {
+    const toc = [
+        ...(bible.plot ? ['<li><a href="#plot">Plot</a></li>'] : []),
+        ...bible.sections.map(section => `<li><a href="#${section.id}">${escapeHtml(section.title)}</a>
+<ol>
+${section.entries.map(e => `<li><a href="#${e.anchor}">${escapeHtml(e.name)}</a></li>`).join('\n')}
+</ol>
+</li>`),
+    ].join('\n');
+
+    const body = [
+        `<header>\n<h1>${escapeHtml(bible.title)}</h1>\n<p>Story Bible</p>\n${bible.author ? `<p>${escapeHtml(bible.author)}</p>\n` : ''}</header>`,
+        `<nav>\n<h2>Contents</h2>\n<ol>\n${toc}\n</ol>\n</nav>`,
+        ...(bible.plot ? [`<section id="plot">\n<h2>Plot</h2>\n${paragraphsHtml(bible.plot)}\n</section>`] : []),
+        ...bible.sections.map(section => `<section id="${section.id}">\n<h2>${escapeHtml(section.title)}</h2>\n${section.entries.map(entryHtml).join('\n')}\n</section>`),
+    ].join('\n\n');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(bible.title)} — Story Bible</title>
+<style>
+${STYLESHEET}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
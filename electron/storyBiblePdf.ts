@@ -0,0 +1,182 @@
+import PDFDocument from 'pdfkit';
+import { createWriteStream } from 'node:fs';
+import { BibleEntry, BibleLink, StoryBible } from './storyBible';
+
+// --- Story Bible PDF ---
+// Lays the story bible out on US Letter pages: a title page, a contents list
+// with page numbers, then the plot and one section per kind of entry, each
+// starting on a new page. Contents entries and cross-references are PDF links,
+// and the sections and entries are also in the document outline (bookmarks).
+
+type PdfDoc = InstanceType<typeof PDFDocument>;
+
+const MARGIN = 60;
+const BODY_SIZE = 10.5;
+const LINK_COLOR = '#1d4ed8';
+const TEXT_COLOR = '#222222';
+const MUTED_COLOR = '#555555';
+
+type TocLine = { text: string; anchor: string; level: 0 | 1 };
+
+const TOC_LINE_HEIGHT = { 0: 22, 1: 15 };
+
+function writeParagraphs(doc: PdfDoc, text: string, width: number, indent = 0) {
+    for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+        doc.font('Times-Roman').fontSize(BODY_SIZE).fillColor(TEXT_COLOR);
+        doc.text(paragraph, MARGIN + indent, doc.y, { width: width - indent, lineGap: 2, paragraphGap: 4 });
+    }
+}
+
+function writeLink(doc: PdfDoc, link: BibleLink, width: number) {
+    doc.font('Times-Roman').fontSize(BODY_SIZE).fillColor(TEXT_COLOR);
+    doc.text('•  ', MARGIN + 12, doc.y, { width: width - 12, continued: true, lineGap: 2 });
+    if (link.anchor) {
+        doc.fillColor(LINK_COLOR).text(link.text, { goTo: link.anchor, underline: true, continued: !!link.note });
+    } else {
+        doc.text(link.text, { continued: !!link.note });
+    }
+    // pdfkit carries the link over to the rest of the line, so the note is clickable too
+    if (link.note) doc.fillColor(MUTED_COLOR).text(` — ${link.note}`, { underline: false });
+    doc.fillColor(TEXT_COLOR);
+}
+
+/** Writes an entry and returns the index of the page its name is on. */
+function writeEntry(doc: PdfDoc, entry: BibleEntry, width: number, outline: PDFKit.PDFOutline): number {
+    // Keep the name with at least the start of the entry
+    if (doc.y + 80 > doc.page.maxY()) doc.addPage();
+    doc.moveDown(0.8);
+    const page = doc.bufferedPageRange().count - 1;
+    outline.addItem(entry.name);
+    doc.font('Times-Bold').fontSize(14).fillColor(TEXT_COLOR);
+    doc.text(entry.name, MARGIN, doc.y, { width, destination: entry.anchor });
+    if (entry.aka) {
+        doc.font('Times-Italic').fontSize(BODY_SIZE).fillColor(MUTED_COLOR);
+        doc.text(`Also known as ${entry.aka}`, { width });
+    }
+    doc.moveDown(0.3);
+
+    for (const group of entry.groups) {
+        if (group.heading) {
+            doc.moveDown(0.3);
+            doc.font('Times-Bold').fontSize(11).fillColor(MUTED_COLOR).text(group.heading, MARGIN, doc.y, { width });
+        }
+        for (const field of group.fields) {
+            doc.font('Times-Bold').fontSize(BODY_SIZE).fillColor(TEXT_COLOR).text(field.label, MARGIN, doc.y, { width });
+            writeParagraphs(doc, field.text, width, 12);
+        }
+    }
+    for (const links of entry.links) {
+        doc.moveDown(0.3);
+        doc.font('Times-Bold').fontSize(11).fillColor(MUTED_COLOR).text(links.heading, MARGIN, doc.y, { width });
+        for (const link of links.items) writeLink(doc, link, width);
+    }
+
+    doc.moveDown(0.3);
+    doc.font('Times-Bold').fontSize(9.5).fillColor(MUTED_COLOR).text('Appears in: ', MARGIN, doc.y, { width, continued: true });
+    doc.font('Times-Roman').text(entry.chapters.length > 0 ? entry.chapters.join(', ') : 'no chapters yet');
+    doc.fillColor(TEXT_COLOR);
+    return page;
+}
+
+export async function writeStoryBiblePdf(bible: StoryBible, filePath: string): Promise<void> {
+    const doc = new PDFDocument({
+        size: 'LETTER',
+        bufferPages: true,
+        margins: { top: MARGIN, bottom: MARGIN, left: MARGIN, right: MARGIN },
+        info: { Title: `${bible.title} — Story Bible`, Author: bible.author },
+        displayTitle: true,
+    });
+    const stream = createWriteStream(filePath);
+    const finished = new Promise<void>((resolve, reject) => {
+        stream.on('finish', () => resolve());
+        stream.on('error', reject);
+    });
+    doc.pipe(stream);
+
+    const width = doc.page.width - 2 * MARGIN;
+    const pageHeight = doc.page.height;
+
+    // Title page
+    doc.font('Times-Bold').fontSize(30).fillColor(TEXT_COLOR);
+    doc.text(bible.title, MARGIN, pageHeight * 0.32, { width, align: 'center' });
+    doc.moveDown(0.4);
+    doc.font('Times-Italic').fontSize(16).fillColor(MUTED_COLOR).text('Story Bible', { width, align: 'center' });
+    if (bible.author) {
+        doc.moveDown(1.5);
+        doc.font('Times-Roman').fontSize(14).text(bible.author, { width, align: 'center' });
+    }
+
+    // Contents: reserve the pages now, fill them in once the entries are placed
+    const tocLines: TocLine[] = [
+        ...(bible.plot ? [{ text: 'Plot', anchor: 'plot', level: 0 as const }] : []),
+        ...bible.sections.flatMap(section => [
+            { text: section.title, anchor: section.id, level: 0 as const },
+            ...section.entries.map(e => ({ text: e.name, anchor: e.anchor, level: 1 as const })),
+        ]),
+    ];
+    const tocTop = MARGIN + 50;
+    const tocPlacements: { page: number; y: number }[] = [];
+    let tocPage = 0;
+    let tocY = tocTop;
+    for (const line of tocLines) {
+        if (tocY + TOC_LINE_HEIGHT[line.level] > pageHeight - MARGIN) {
+            tocPage++;
+            tocY = MARGIN;
+        }
+        tocPlacements.push({ page: tocPage, y: tocY });
+        tocY += TOC_LINE_HEIGHT[line.level];
+    }
+    const tocStart = doc.bufferedPageRange().count;
+    for (let i = 0; i <= tocPage; i++) doc.addPage();
+    const firstBodyPage = doc.bufferedPageRange().count;
+
+    // Body, noting the page each contents entry lands on
+    const pageOf = new Map<string, number>();
+    const currentPage = () => doc.bufferedPageRange().count - 1;
+
+    if (bible.plot) {
+        doc.addPage();
+        pageOf.set('plot', currentPage());
+        doc.outline.addItem('Plot');
+        doc.font('Times-Bold').fontSize(22).fillColor(TEXT_COLOR).text('Plot', MARGIN, MARGIN, { width, destination: 'plot' });
+        doc.moveDown(0.5);
+        writeParagraphs(doc, bible.plot, width);
+    }
+    for (const section of bible.sections) {
+        doc.addPage();
+        pageOf.set(section.id, currentPage());
+        const outline = doc.outline.addItem(section.title);
+        doc.font('Times-Bold').fontSize(22).fillColor(TEXT_COLOR).text(section.title, MARGIN, MARGIN, { width, destination: section.id });
+        for (const entry of section.entries) pageOf.set(entry.anchor, writeEntry(doc, entry, width, outline));
+    }
+
+    const bookPage = (index: number) => index - firstBodyPage + 1;
+
+    doc.switchToPage(tocStart);
+    doc.font('Times-Bold').fontSize(22).fillColor(TEXT_COLOR).text('Contents', MARGIN, MARGIN, { width });
+    tocLines.forEach((line, i) => {
+        const placement = tocPlacements[i];
+        doc.switchToPage(tocStart + placement.page);
+        const indent = line.level === 1 ? 18 : 0;
+        const page = pageOf.get(line.anchor);
+        doc.font(line.level === 0 ? 'Times-Bold' : 'Times-Roman').fontSize(line.level === 0 ? 12 : BODY_SIZE).fillColor(TEXT_COLOR);
+        doc.text(line.text, MARGIN + indent, placement.y, { width: width - indent - 40, goTo: line.anchor, ellipsis: true, height: TOC_LINE_HEIGHT[line.level] });
+        if (page !== undefined) {
+            doc.text(String(bookPage(page)), MARGIN + width - 40, placement.y, { width: 40, align: 'right', lineBreak: false });
+        }
+    });
+
+    // Page numbers
+    const range = doc.bufferedPageRange();
+    for (let index = firstBodyPage; index < range.start + range.count; index++) {
+        doc.switchToPage(index);
+        const bottom = doc.page.margins.bottom;
+        doc.page.margins.bottom = 0;
+        doc.font('Times-Roman').fontSize(9).fillColor(MUTED_COLOR);
+        doc.text(String(bookPage(index)), MARGIN, pageHeight - bottom / 2 - 4.5, { width, align: 'center', lineBreak: false });
+        doc.page.margins.bottom = bottom;
+    }
+
+    doc.end();
+    await finished;
+}
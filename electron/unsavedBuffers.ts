@@ -0,0 +1,93 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import { writeFileAtomic } from './atomicWrite'
+
+// --- Unsaved Buffers ---
+// The renderer mirrors every edit it has not saved yet to the main process
+// (`update-unsaved-buffer`). The buffers are kept in .auctor/recovery.json,
+// so the edits survive a crash and can be offered back on the next start,
+// and they let the main process ask before closing the window or switching
+// projects would throw them away.
+
+export type UnsavedBuffer = { path: string; content: string; updatedAt: string };
+
+// Buffers of the open project, by project file path
+const buffers = new Map<string, UnsavedBuffer>();
+let buffersRoot: string | null = null;
+let persistTimer: NodeJS.Timeout | null = null;
+
+// Typing changes the buffers many times a second; the recovery file only
+// needs to be about as fresh as a crash is likely to notice
+const PERSIST_DELAY_MS = 1000;
+
+function recoveryPath(projectRoot: string) {
+    return path.join(projectRoot, '.auctor', 'recovery.json');
+}
+
+function buffersOf(projectRoot: string): Map<string, UnsavedBuffer> {
+    if (buffersRoot !== projectRoot) {
+        buffers.clear();
+        buffersRoot = projectRoot;
+    }
+    return buffers;
+}
+
+async function persistBuffers(projectRoot: string) {
+    const list = [...buffersOf(projectRoot).values()];
+    if (list.length === 0) {
+        await fs.rm(recoveryPath(projectRoot), { force: true });
+    } else {
+        await writeFileAtomic(recoveryPath(projectRoot), JSON.stringify({ version: 1, buffers: list }));
+    }
+}
+
+function schedulePersist(projectRoot: string) {
+    if (persistTimer) clearTimeout(persistTimer);
+    persistTimer = setTimeout(() => {
+        persistTimer = null;
+        persistBuffers(projectRoot).catch(error => console.error('Error writing recovery buffers:', error));
+    }, PERSIST_DELAY_MS);
+}
+
+/** Records the unsaved content of a project file, or with null that it has none. */
+export function setUnsavedBuffer(projectRoot: string, filePath: string, content: string | null) {
+    const current = buffersOf(projectRoot);
+    if (content === null) {
+        if (!current.delete(filePath)) return;
+    } else {
+        current.set(filePath, { path: filePath, content, updatedAt: new Date().toISOString() });
+    }
+    schedulePersist(projectRoot);
+}
+
+export function unsavedBuffers(projectRoot: string): UnsavedBuffer[] {
+    return [...buffersOf(projectRoot).values()];
+}
+
+/** Forgets the buffers (after they were saved or the author discarded them) and removes the recovery file. */
+export async function clearUnsavedBuffers(projectRoot: string) {
+    if (persistTimer) clearTimeout(persistTimer);
+    persistTimer = null;
+    buffersOf(projectRoot).clear();
+    await persistBuffers(projectRoot);
+}
+
+/**
+ * The buffers a previous run left in the recovery file, including any not
+ * written there yet; a missing or unreadable file has none.
+ */
+export async function readRecoveredBuffers(projectRoot: string): Promise<UnsavedBuffer[]> {
+    if (persistTimer) {
+        clearTimeout(persistTimer);
+        persistTimer = null;
+        await persistBuffers(projectRoot);
+    }
+    try {
+        const parsed = JSON.parse(await fs.readFile(recoveryPath(projectRoot), 'utf-8'));
+        return (Array.isArray(parsed?.buffers) ? parsed.buffers : [])
+            .filter((b: any) => typeof b?.path === 'string' && typeof b?.content === 'string')
+            .map((b: any) => ({ path: b.path, content: b.content, updatedAt: typeof b.updatedAt === 'string' ? b.updatedAt : '' }));
+    } catch {
+        return [];
+    }
+}
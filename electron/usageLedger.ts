@@ -0,0 +1,264 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import type { LanguageModelUsage } from 'ai'
+
+// --- AI Usage Ledger ---
+// Token usage of every AI call is appended, one JSON line per call, to
+// .auctor/usage.jsonl in the project. Costs are not stored: they are worked
+// out from the price table (project settings `aiPrices`) whenever a report is
+// built, so adding or correcting a price also re-prices past calls.
+
+export type UsageFeature = 'assistant' | 'critique' | 'refine' | 'rewrite' | 'import';
+
+export type UsageEntry = {
+    timestamp: string;
+    feature: UsageFeature;
+    provider: string;
+    model: string;
+    /** Chapter file name (as in chapterOrder) the call was made for, if any. */
+    chapter: string | null;
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    cachedInputTokens: number;
+    /** The call was cancelled; usage covers only the steps that completed. */
+    cancelled?: boolean;
+};
+
+export type AIPriceEntry = {
+    /** Provider id; empty matches any provider. */
+    provider: string;
+    /** Model id without any "models/" prefix; a trailing "*" matches by prefix. */
+    model: string;
+    /** USD per million tokens. */
+    inputPerMillion: number;
+    outputPerMillion: number;
+};
+
+// List prices when this table was written; the Settings screen edits a copy.
+export const DEFAULT_AI_PRICES: AIPriceEntry[] = [
+    { provider: 'openai', model: 'gpt-4o-mini*', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    { provider: 'openai', model: 'gpt-4o*', inputPerMillion: 2.5, outputPerMillion: 10 },
+    { provider: 'openai', model: 'gpt-4-turbo*', inputPerMillion: 10, outputPerMillion: 30 },
+    { provider: 'google', model: 'gemini-2.0-flash*', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    { provider: 'anthropic', model: 'claude-sonnet-4*', inputPerMillion: 3, outputPerMillion: 15 },
+    { provider: 'anthropic', model: 'claude-opus-4*', inputPerMillion: 15, outputPerMillion: 75 },
+    { provider: 'anthropic', model: 'claude-3-5-haiku*', inputPerMillion: 0.8, outputPerMillion: 4 },
+];
+
+export type UsageTotals = {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    /** USD for the calls that have a price. */
+    cost: number;
+    /** Calls whose provider/model has no entry in the price table. */
+    unpricedCalls: number;
+};
+
+export type UsageReport = {
+    /** Local calendar month, e.g. "2026-03". */
+    month: string;
+    monthTotals: UsageTotals;
+    /** USD; 0 when no budget is set. */
+    monthlyBudget: number;
+    allTime: UsageTotals;
+    /** Most recent day first, limited to `days`. */
+    byDay: (UsageTotals & { day: string })[];
+    /** Current month only, largest cost first. */
+    byFeature: (UsageTotals & { feature: UsageFeature })[];
+    byModel: (UsageTotals & { provider: string; model: string })[];
+    byChapter: (UsageTotals & { chapter: string })[];
+};
+
+function ledgerPath(projectRoot: string) {
+    return path.join(projectRoot, '.auctor', 'usage.jsonl');
+}
+
+// Appends are chained so concurrent calls never interleave partial lines
+let appendQueue: Promise<void> = Promise.resolve();
+
+export function usageFromSteps(steps: { usage: LanguageModelUsage }[]): LanguageModelUsage | null {
+    if (steps.length === 0) return null;
+    const sum = (pick: (u: LanguageModelUsage) => number | undefined) => steps.reduce((total, s) => total + (pick(s.usage) ?? 0), 0);
+    return {
+        inputTokens: sum(u => u.inputTokens),
+        inputTokenDetails: {
+            noCacheTokens: sum(u => u.inputTokenDetails?.noCacheTokens),
+            cacheReadTokens: sum(u => u.inputTokenDetails?.cacheReadTokens),
+            cacheWriteTokens: sum(u => u.inputTokenDetails?.cacheWriteTokens),
+        },
+        outputTokens: sum(u => u.outputTokens),
+        outputTokenDetails: {
+            textTokens: sum(u => u.outputTokenDetails?.textTokens),
+            reasoningTokens: sum(u => u.outputTokenDetails?.reasoningTokens),
+        },
+        totalTokens: sum(u => u.totalTokens),
+    };
+}
+
+export async function recordUsage(
+    projectRoot: string,
+    call: { feature: UsageFeature; provider: string; model: string; chapter?: string | null; cancelled?: boolean },
+    usage: LanguageModelUsage,
+): Promise<UsageEntry> {
+    const inputTokens = usage.inputTokens ?? 0;
+    const outputTokens = usage.outputTokens ?? 0;
+    const entry: UsageEntry = {
+        timestamp: new Date().toISOString(),
+        feature: call.feature,
+        provider: call.provider,
+        model: call.model.replace(/^models\//, ''),
+        chapter: call.chapter || null,
+        inputTokens,
+        outputTokens,
+        totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+        cachedInputTokens: usage.inputTokenDetails?.cacheReadTokens ?? usage.cachedInputTokens ?? 0,
+        ...(call.cancelled ? { cancelled: true } : {}),
+    };
+
+    const file = ledgerPath(projectRoot);
+    const append = appendQueue.then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.appendFile(file, JSON.stringify(entry) + '\n', 'utf-8');
+    });
+    appendQueue = append.catch(() => {});
+    await append;
+    return entry;
+}
+
+export async function readUsageLedger(projectRoot: string): Promise<UsageEntry[]> {
+    let raw = '';
+    try {
+        raw = await fs.readFile(ledgerPath(projectRoot), 'utf-8');
+    } catch {
+        return [];
+    }
+    const entries: UsageEntry[] = [];
+    for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            entries.push(JSON.parse(line));
+        } catch {
+            // A torn last line (crash mid-append) is skipped, not fatal
+        }
+    }
+    return entries;
+}
+
+/** Sanitises a price table from settings; falls back to the defaults when none is stored. */
+export function normalizePriceTable(raw: unknown): AIPriceEntry[] {
+    if (!Array.isArray(raw)) return DEFAULT_AI_PRICES;
+    return raw
+        .filter(p => p && typeof p.model === 'string' && p.model.trim())
+        .map(p => ({
+            provider: typeof p.provider === 'string' ? p.provider.trim() : '',
+            model: p.model.trim().replace(/^models\//, ''),
+            inputPerMillion: Math.max(0, Number(p.inputPerMillion) || 0),
+            outputPerMillion: Math.max(0, Number(p.outputPerMillion) || 0),
+        }));
+}
+
+/** Exact model matches win over wildcards; longer wildcards win over shorter ones. */
+export function findPrice(prices: AIPriceEntry[], provider: string, model: string): AIPriceEntry | null {
+    let best: AIPriceEntry | null = null;
+    let bestScore = -1;
+    for (const price of prices) {
+        if (price.provider && price.provider !== provider) continue;
+        let score: number;
+        if (price.model.endsWith('*')) {
+            const prefix = price.model.slice(0, -1);
+            if (!model.startsWith(prefix)) continue;
+            score = prefix.length;
+        } else {
+            if (price.model !== model) continue;
+            score = 10000;
+        }
+        if (price.provider) score += 1;
+        if (score > bestScore) {
+            best = price;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+export function entryCost(prices: AIPriceEntry[], entry: UsageEntry): number | null {
+    const price = findPrice(prices, entry.provider, entry.model);
+    if (!price) return null;
+    return (entry.inputTokens * price.inputPerMillion + entry.outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+function emptyTotals(): UsageTotals {
+    return { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0, unpricedCalls: 0 };
+}
+
+function addTo(totals: UsageTotals, entry: UsageEntry, cost: number | null) {
+    totals.calls += 1;
+    totals.inputTokens += entry.inputTokens;
+    totals.outputTokens += entry.outputTokens;
+    totals.totalTokens += entry.totalTokens;
+    if (cost === null) totals.unpricedCalls += 1;
+    else totals.cost += cost;
+}
+
+// Local-time keys, so "today" matches the author's calendar
+function dayKey(date: Date) {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export async function buildUsageReport(
+    projectRoot: string,
+    options: { prices: AIPriceEntry[]; monthlyBudget: number; days?: number; now?: Date },
+): Promise<UsageReport> {
+    const entries = await readUsageLedger(projectRoot);
+    const month = dayKey(options.now ?? new Date()).slice(0, 7);
+
+    const monthTotals = emptyTotals();
+    const allTime = emptyTotals();
+    const byDay = new Map<string, UsageTotals>();
+    const byFeature = new Map<UsageFeature, UsageTotals>();
+    const byModel = new Map<string, UsageTotals & { provider: string; model: string }>();
+    const byChapter = new Map<string, UsageTotals>();
+
+    for (const entry of entries) {
+        const cost = entryCost(options.prices, entry);
+        const day = dayKey(new Date(entry.timestamp));
+        addTo(allTime, entry, cost);
+
+        if (!byDay.has(day)) byDay.set(day, emptyTotals());
+        addTo(byDay.get(day)!, entry, cost);
+
+        if (!day.startsWith(month)) continue;
+        addTo(monthTotals, entry, cost);
+
+        if (!byFeature.has(entry.feature)) byFeature.set(entry.feature, emptyTotals());
+        addTo(byFeature.get(entry.feature)!, entry, cost);
+
+        const modelKey = `${entry.provider}/${entry.model}`;
+        if (!byModel.has(modelKey)) byModel.set(modelKey, { ...emptyTotals(), provider: entry.provider, model: entry.model });
+        addTo(byModel.get(modelKey)!, entry, cost);
+
+        if (entry.chapter) {
+            if (!byChapter.has(entry.chapter)) byChapter.set(entry.chapter, emptyTotals());
+            addTo(byChapter.get(entry.chapter)!, entry, cost);
+        }
+    }
+
+    const byCost = (a: UsageTotals, b: UsageTotals) => b.cost - a.cost || b.totalTokens - a.totalTokens;
+    return {
+        month,
+        monthTotals,
+        monthlyBudget: options.monthlyBudget,
+        allTime,
+        byDay: [...byDay.entries()]
+            .sort(([a], [b]) => b.localeCompare(a))
+            .slice(0, options.days ?? 31)
+            .map(([day, totals]) => ({ day, ...totals })),
+        byFeature: [...byFeature.entries()].map(([feature, totals]) => ({ feature, ...totals })).sort(byCost),
+        byModel: [...byModel.values()].sort(byCost),
+        byChapter: [...byChapter.entries()].map(([chapter, totals]) => ({ chapter, ...totals })).sort(byCost),
+    };
+}
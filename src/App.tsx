@@ -1,6 +1,6 @@
 import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
 import { useState, useRef, useEffect } from "react";
-import { Maximize2, Minimize2, Plus, ChevronDown } from "lucide-react";
+import { Maximize2, Minimize2, Plus, ChevronDown, AlertTriangle } from "lucide-react";
 import { FileTree } from "./components/FileTree";
 import { Editor } from "./components/Editor";
 import { NewProjectModal } from "./components/NewProjectModal";
@@ -11,8 +11,27 @@ import { ObjectCard } from "./components/ObjectCard";
 import { OrganisationCard } from "./components/OrganisationCard";
 import { AIChatPanel } from "./components/AIChatPanel";
 import { SettingsModal } from "./components/SettingsModal";
-import { ImportProgressModal } from "./components/ImportProgressModal";
+import { ImportProgressModal, type ImportSource } from "./components/ImportProgressModal";
+import { UsageReportModal } from "./components/UsageReportModal";
+import { ExportDialog } from "./components/ExportDialog";
+import { FileConflictDialog } from "./components/FileConflictDialog";
 import { ToastContainer, showErrorToast } from "./components/Toast";
+import { loadProviderOptions, type ProviderOption } from "./utils/aiProviders";
+import { budgetLevel, formatCost, formatTokens, getUsageReport, type UsageReport } from "./utils/aiUsage";
+import { DEFAULT_AUTOSAVE_OPTIONS, normalizeAutosaveOptions } from "./utils/autosaveOptions";
+import { FILE_ERROR_MESSAGES } from "./utils/projectFiles";
+import { notifyFilesChanged } from "./utils/worldbuilding";
+import { discardUnsavedContent, hasUnsavedChanges, resetUnsavedChanges, restoreUnsavedChanges, saveFileContent, setUnsavedContent, unsavedContent, useUnsavedPaths } from "./utils/unsavedChanges";
+
+// Saves a file's unsaved buffer in the background (autosave, switching
+// files); a failure keeps the buffer and says why
+async function saveUnsavedChanges(path: string): Promise<boolean> {
+  const result = await saveFileContent(path);
+  if (!result.success) {
+    showErrorToast(`${path} could not be saved. ${result.error || FILE_ERROR_MESSAGES[result.code ?? 'io-error']}`);
+  }
+  return result.success;
+}
 
 function App() {
   const [showNewProjectModal, setShowNewProjectModal] = useState(false);
@@ -31,6 +50,52 @@ function App() {
 
   const activeFileRef = useRef(activeFile);
   useEffect(() => { activeFileRef.current = activeFile; }, [activeFile]);
+
+  // Unsaved changes: autosave options, and the files that have unsaved edits
+  const autosaveRef = useRef(DEFAULT_AUTOSAVE_OPTIONS);
+  const autosaveTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const unsavedPaths = useUnsavedPaths();
+  const activeFileUnsaved = !!activeFile && unsavedPaths.includes(activeFile.name.replace(/\\/g, '/'));
+  const activeFileLabel = activeFile ? activeFile.name.split(/[/\\]/).pop() || activeFile.name : '';
+
+  // Files changed on disk while they had unsaved edits, waiting for the author
+  // to pick a version; the dialog shows one at a time
+  const [conflicts, setConflicts] = useState<{ path: string; theirs: string }[]>([]);
+  const conflictsRef = useRef(conflicts);
+  useEffect(() => { conflictsRef.current = conflicts; }, [conflicts]);
+  const conflict = conflicts.length > 0 ? conflicts[0] : null;
+  // Part of the editor's key, bumped to reload the open file even when its content is unchanged
+  const [fileRevision, setFileRevision] = useState(0);
+
+  useEffect(() => {
+    document.title = activeFile ? `${activeFileUnsaved ? '● ' : ''}${activeFileLabel} — Auctor` : 'Auctor';
+  }, [activeFile, activeFileUnsaved, activeFileLabel]);
+
+  // Autosave each file once its buffer has stopped changing for the configured delay
+  useEffect(() => {
+    const timers = autosaveTimersRef.current;
+    const handler = (event: Event) => {
+      const paths = (event as CustomEvent<{ paths: string[] }>).detail?.paths ?? [];
+      for (const path of paths) {
+        clearTimeout(timers.get(path));
+        timers.delete(path);
+        const options = autosaveRef.current;
+        if (!options.enabled || !hasUnsavedChanges(path)) continue;
+        timers.set(path, setTimeout(() => {
+          timers.delete(path);
+          // Saving now would settle a conflict the author has not decided yet
+          if (conflictsRef.current.some(c => c.path.replace(/\\/g, '/') === path)) return;
+          void saveUnsavedChanges(path);
+        }, options.delaySeconds * 1000));
+      }
+    };
+    window.addEventListener('auctor-unsaved-changed', handler);
+    return () => {
+      window.removeEventListener('auctor-unsaved-changed', handler);
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
   
   // Clear forced tab when file changes
   useEffect(() => {
@@ -38,16 +103,22 @@ function App() {
       setParagraphRatings([]);
   }, [activeFile?.name]);
 
-  const [importFilePath, setImportFilePath] = useState<string | null>(null);
+  const [importRequest, setImportRequest] = useState<{ filePath: string; source: ImportSource } | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
 
   const [editorSettings, setEditorSettings] = useState({ theme: 'dark', fontFamily: 'sans-serif', fontSize: 16 });
 
   // LLM provider selector
   const [currentProvider, setCurrentProvider] = useState('openai');
   const [currentProviderLabel, setCurrentProviderLabel] = useState('OpenAI');
-  const [providerOptions, setProviderOptions] = useState<{id: string, label: string}[]>([]);
+  const [providerOptions, setProviderOptions] = useState<ProviderOption[]>([]);
   const [showProviderMenu, setShowProviderMenu] = useState(false);
   const providerMenuRef = useRef<HTMLDivElement>(null);
+
+  // AI usage totals for the status bar
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [showUsageReport, setShowUsageReport] = useState(false);
+  const usageLevelRef = useRef<{ month: string; level: string } | null>(null);
   
   // Use settings to avoid unused var warning (and actually apply font settings eventually)
   useEffect(() => {
@@ -58,67 +129,119 @@ function App() {
 
   // Listen for menu events
   useEffect(() => {
-    const removeSettings = window.ipcRenderer.on('open-settings', () => {
+    const removeSettings = window.auctor.onOpenSettings(() => {
         console.log("App: open-settings event received");
         setShowSettingsModal(true);
     });
-    const removeNewProject = window.ipcRenderer.on('new-project', () => {
+    const removeNewProject = window.auctor.onNewProject(() => {
         console.log("App: new-project event received");
         setShowNewProjectModal(true);
     });
 
-    const removeImportText = window.ipcRenderer.on('import-text-start', (_: any, filePath: string) => {
+    const removeImportText = window.auctor.onImportTextStart((filePath: string) => {
         console.log("App: import-text-start event received", filePath);
-        setImportFilePath(filePath);
+        setImportRequest({ filePath, source: 'text' });
+    });
+    const removeImportScrivener = window.auctor.onImportScrivenerStart((filePath: string) => {
+        console.log("App: import-scrivener-start event received", filePath);
+        setImportRequest({ filePath, source: 'scrivener' });
+    });
+
+    const removeExport = window.auctor.onOpenExport(() => {
+        console.log("App: open-export event received");
+        setShowExportDialog(true);
     });
 
-    const removeSave = window.ipcRenderer.on('save-current-file', async () => {
+    const removeSave = window.auctor.onSaveCurrentFile(async () => {
         const file = activeFileRef.current;
-        if (file) {
+        if (file && hasUnsavedChanges(file.name)) {
             console.log("App: Saving file", file.name);
-            await window.ipcRenderer.invoke('save-file', file.name, file.content);
+            await saveUnsavedChanges(file.name);
         }
     });
 
     // Global LLM error listeners — show toast for any AI error
-    // @ts-ignore
-    const removeAiError = window.ipcRenderer.on('ai-completion-error', (_event: any, error: string) => {
+    const removeAiError = window.auctor.onAiCompletionError((error: string) => {
         showErrorToast(error);
     });
-    // @ts-ignore
-    const removeRewriteError = window.ipcRenderer.on('rewrite-text-error', (_event: any, error: string) => {
+    const removeRewriteError = window.auctor.onRewriteTextError((error: string) => {
         showErrorToast(error || 'Rewrite failed');
     });
-    // @ts-ignore
-    const removeCritiqueError = window.ipcRenderer.on('refine-critique-error', (_event: any, error: string) => {
+    const removeCritiqueError = window.auctor.onRefineCritiqueError((error: string) => {
         showErrorToast(error);
     });
-    // @ts-ignore
-    const removeRewriteRefineError = window.ipcRenderer.on('refine-rewrite-error', (_event: any, error: string) => {
+    const removeRewriteRefineError = window.auctor.onRefineRewriteError((error: string) => {
         showErrorToast(error);
     });
     
+    // Refresh the usage totals whenever the main process books an AI call
+    const removeUsageRecorded = window.auctor.onAiUsageRecorded(() => {
+        refreshUsage();
+    });
+
+    // Changes made outside Auctor (a sync client, another editor) refresh the
+    // file tree and chapter order, the settings, and the open file
+    const removeProjectFilesChanged = window.auctor.onProjectFilesChanged((changes) => {
+        if (changes.some(change => change.path === 'auctor.json')) loadSettings();
+        const open = activeFileRef.current?.name.replace(/\\/g, '/');
+        if (open && changes.some(change => change.kind === 'removed' && change.path === open)) {
+            const name = open.split('/').pop() || open;
+            showErrorToast(hasUnsavedChanges(open)
+                ? `${name} was deleted or moved outside Auctor. Your unsaved edits are kept; saving writes the file again.`
+                : `${name} was deleted or moved outside Auctor.`);
+        }
+        notifyFilesChanged(changes.map(change => change.path));
+    });
+
     // Initial load of settings
     loadSettings();
 
+    // Edits a crash kept from being saved come back as unsaved changes
+    restoreUnsavedChanges().then(paths => {
+        if (paths.length > 0) handleFileSelect(paths[0]);
+    });
+
     return () => { 
         console.log("App: Cleaning up listeners");
         removeSettings();
         removeNewProject();
         removeImportText();
+        removeImportScrivener();
+        removeExport();
         removeSave();
         removeAiError();
         removeRewriteError();
         removeCritiqueError();
         removeRewriteRefineError();
+        removeUsageRecorded();
+        removeProjectFilesChanged();
     };
   }, []);
 
+  const refreshUsage = async () => {
+      const report = await getUsageReport(1);
+      if (!report) return;
+      setUsage(report);
+
+      // Warn once each time this month's spend crosses a budget threshold;
+      // the first load only sets the baseline (the status bar shows the state)
+      const level = budgetLevel(report);
+      const previous = usageLevelRef.current;
+      usageLevelRef.current = { month: report.month, level };
+      if (!previous || previous.month !== report.month) return;
+      const rank = { none: 0, ok: 0, warning: 1, over: 2 } as const;
+      if (rank[level] > rank[previous.level as keyof typeof rank]) {
+          showErrorToast(level === 'over'
+              ? `AI spend this month (${formatCost(report.monthTotals.cost)}) has exceeded the budget of ${formatCost(report.monthlyBudget)}.`
+              : `AI spend this month (${formatCost(report.monthTotals.cost)}) is approaching the budget of ${formatCost(report.monthlyBudget)}.`);
+      }
+  };
+
   const loadSettings = async () => {
-       // @ts-ignore
-       const result = await window.ipcRenderer.invoke('get-project-settings');
+       const result = await window.auctor.getProjectSettings();
        if(result.success && result.settings) {
            setEditorSettings(result.settings);
+           autosaveRef.current = normalizeAutosaveOptions(result.settings.autosave);
            // Apply Theme via Tailwind's dark mode class strategy
            if(result.settings.theme === 'light') {
                document.documentElement.classList.remove('dark');
@@ -126,18 +249,16 @@ function App() {
                document.documentElement.classList.add('dark');
            }
 
+           // Budget or prices may have changed
+           refreshUsage();
+
            // Build LLM provider options from configured keys
-           const s = result.settings;
-           const providers: {id: string, label: string}[] = [];
-           if (s.apiKey) providers.push({ id: 'openai', label: `OpenAI (${s.openaiModel || 'gpt-4-turbo'})` });
-           if (s.googleApiKey) providers.push({ id: 'google', label: `Google (${s.googleModel?.replace('models/', '') || 'Gemini'})` });
-           if (s.anthropicApiKey) providers.push({ id: 'anthropic', label: `Claude (${s.anthropicModel || 'claude-sonnet-4-20250514'})` });
-           if (s.xaiApiKey) providers.push({ id: 'xai', label: `Grok (${s.xaiModel || 'grok-beta'})` });
-           if (providers.length === 0) providers.push({ id: 'openai', label: 'OpenAI' });
-           setProviderOptions(providers);
-           const activeProvider = s.aiProvider || 'openai';
-           setCurrentProvider(activeProvider);
-           setCurrentProviderLabel(providers.find(p => p.id === activeProvider)?.label || activeProvider);
+           const providers = await loadProviderOptions();
+           if (providers) {
+               setProviderOptions(providers.options);
+               setCurrentProvider(providers.active);
+               setCurrentProviderLabel(providers.options.find(p => p.id === providers.active)?.label || providers.active);
+           }
        }
   };
 
@@ -154,12 +275,10 @@ function App() {
 
   const handleSwitchProvider = async (providerId: string) => {
     // Save the provider change to project settings
-    // @ts-ignore
-    const result = await window.ipcRenderer.invoke('get-project-settings');
+    const result = await window.auctor.getProjectSettings();
     if (result.success && result.settings) {
       const updated = { ...result.settings, aiProvider: providerId };
-      // @ts-ignore
-      await window.ipcRenderer.invoke('save-project-settings', updated);
+      await window.auctor.saveProjectSettings(updated);
       setCurrentProvider(providerId);
       setCurrentProviderLabel(providerOptions.find(p => p.id === providerId)?.label || providerId);
     }
@@ -167,24 +286,32 @@ function App() {
   };
 
   const handleCreateProject = async (data: { name: string; location: string; overview: string }) => {
-    // @ts-ignore
-    const result = await window.ipcRenderer.invoke('create-project', data);
+    const result = await window.auctor.createProject(data);
     if(result.success) {
+      // The main process saved or discarded the old project's unsaved changes
+      resetUnsavedChanges();
       setShowNewProjectModal(false);
       setRefreshTrigger(prev => prev + 1); // Force FileTree refresh
       setActiveFile(null);
-    } else {
+      usageLevelRef.current = null;
+      refreshUsage();
+    } else if (!result.cancelled) {
       alert("Failed to create project: " + result.error);
     }
   };
 
   const handleFileSelect = async (filePath: string) => {
       // filePath comes from FileTree as "Category/File.ext"
-      
-      // @ts-ignore
-      const result = await window.ipcRenderer.invoke('read-file', filePath);
+
+      // Leaving a file with unsaved edits saves them, or keeps them as its buffer
+      const previous = activeFileRef.current;
+      if (previous && previous.name !== filePath && autosaveRef.current.saveOnFileSwitch && hasUnsavedChanges(previous.name)) {
+          await saveUnsavedChanges(previous.name);
+      }
+
+      const result = await window.auctor.readFile(filePath);
       if (result.success) {
-          setActiveFile({ name: filePath, content: result.content });
+          setActiveFile({ name: filePath, content: unsavedContent(filePath) ?? result.content });
       } else {
           console.error("Failed to read file");
       }
@@ -213,14 +340,63 @@ function App() {
     return () => window.removeEventListener('auctor-open-file', handler as EventListener);
   }, []);
 
+  // Reload the open file when something else (e.g. an accepted assistant proposal
+  // or another program) rewrote it. Any changed file with unsaved edits, open or
+  // not, waits for the author to pick a version, so autosave cannot overwrite it
+  useEffect(() => {
+    const normalize = (p: string) => p.replace(/\\/g, '/');
+    const checkFile = async (path: string) => {
+      const isOpen = () => normalize(activeFileRef.current?.name ?? '') === path;
+      if (!isOpen() && unsavedContent(path) === undefined) return;
+
+      // A removed file fails to read; onProjectFilesChanged tells the author
+      const result = await window.auctor.readFile(path);
+      if (!result.success) return;
+      const mine = unsavedContent(path);
+      if (mine !== undefined && mine !== result.content) {
+          setConflicts(prev => [...prev.filter(c => normalize(c.path) !== path), { path, theirs: result.content }]);
+          return;
+      }
+      // Both sides made the same change
+      if (mine !== undefined) discardUnsavedContent(path);
+      if (isOpen()) setActiveFile({ name: activeFileRef.current!.name, content: result.content });
+    };
+    const handler = (event: Event) => {
+      const paths = (event as CustomEvent<{ paths?: string[] }>).detail?.paths;
+      if (!paths?.length) return;
+      for (const path of new Set(paths.map(normalize))) void checkFile(path);
+    };
+    window.addEventListener('auctor-files-changed', handler);
+    return () => window.removeEventListener('auctor-files-changed', handler);
+  }, []);
+
+  const handleKeepMine = async () => {
+      if (!conflict) return;
+      setConflicts(prev => prev.slice(1));
+      await saveUnsavedChanges(conflict.path);
+  };
+
+  const handleTakeTheirs = () => {
+      if (!conflict) return;
+      setConflicts(prev => prev.slice(1));
+      discardUnsavedContent(conflict.path);
+      const file = activeFileRef.current;
+      if (file && file.name.replace(/\\/g, '/') === conflict.path.replace(/\\/g, '/')) {
+          setActiveFile({ name: file.name, content: conflict.theirs });
+          setFileRevision(prev => prev + 1);
+      }
+  };
+
   const handleSaveFile = async (content: string) => {
       if (!activeFile) return;
       
       // activeFile.name holds the relative path now
       const relativePath = activeFile.name;
       
-      // @ts-ignore
-      await window.ipcRenderer.invoke('save-file', relativePath, content);
+      const result = await saveFileContent(relativePath, content);
+      if (!result.success) {
+          showErrorToast(`${relativePath} could not be saved. ${result.error || FILE_ERROR_MESSAGES[result.code ?? 'io-error']}`);
+      }
       // update local content state just in case
       setActiveFile({ ...activeFile, content });
   };
@@ -231,8 +407,8 @@ function App() {
           return;
       }
 
-      // We need to inject the critique into the file content
-      const content = activeFile.content || '';
+      // We need to inject the critique into the file content, edits included
+      const content = unsavedContent(activeFile.name) ?? activeFile.content ?? '';
       const textMatch = content.match(/<text>([\s\S]*?)<\/text>/);
       const settingsMatch = content.match(/<settings>([\s\S]*?)<\/settings>/);
       
@@ -271,6 +447,12 @@ function App() {
       <div className="h-8 bg-gray-100 dark:bg-neutral-950 flex items-center justify-between px-4 border-b border-gray-300 dark:border-neutral-800 text-sm text-neutral-500 dark:text-neutral-400 select-none">
         <div className="flex items-center gap-4">
            <span className="font-semibold">Auctor</span>
+           {activeFile && (
+             <span className="text-xs truncate max-w-[240px]" title={activeFileUnsaved ? 'Unsaved changes' : 'All changes saved'}>
+               {activeFileUnsaved && <span className="text-amber-500 mr-1">●</span>}
+               {activeFileLabel}
+             </span>
+           )}
            <button 
              onClick={() => setShowNewProjectModal(true)}
              className="flex items-center gap-1 hover:text-black dark:hover:text-white transition-colors text-xs"
@@ -324,10 +506,29 @@ function App() {
         />
       )}
 
-      {importFilePath && (
+      {showUsageReport && (
+        <UsageReportModal onClose={() => setShowUsageReport(false)} />
+      )}
+
+      {showExportDialog && (
+        <ExportDialog onClose={() => setShowExportDialog(false)} />
+      )}
+
+      {conflict && (
+        <FileConflictDialog
+          fileName={conflict.path.split(/[/\\]/).pop() || conflict.path}
+          mine={unsavedContent(conflict.path) ?? ''}
+          theirs={conflict.theirs}
+          onKeepMine={handleKeepMine}
+          onTakeTheirs={handleTakeTheirs}
+        />
+      )}
+
+      {importRequest && (
         <ImportProgressModal
-          filePath={importFilePath}
-          onClose={() => setImportFilePath(null)}
+          filePath={importRequest.filePath}
+          source={importRequest.source}
+          onClose={() => setImportRequest(null)}
           onComplete={() => {
             setRefreshTrigger(prev => prev + 1);
             setActiveFile(null);
@@ -360,8 +561,7 @@ function App() {
                         <SettingsModal
                             onClose={() => setShowSettingsModal(false)}
                             onSave={async (settings) => {
-                                // @ts-ignore
-                                await window.ipcRenderer.invoke('save-project-settings', settings);
+                                await window.auctor.saveProjectSettings(settings);
                                 setShowSettingsModal(false);
                                 loadSettings();
                             }}
@@ -386,7 +586,8 @@ function App() {
                             initialContent={activeFile.content} 
                             onSave={handleSaveFile}
                             fileName={activeFile.name.split(/[/\\]/).pop() || activeFile.name}
-                            key={activeFile.name} 
+                            filePath={activeFile.name}
+                            key={`${activeFile.name}#${fileRevision}`} 
                         />
                      );
                  }
@@ -397,7 +598,8 @@ function App() {
                             initialContent={activeFile.content} 
                             onSave={handleSaveFile}
                             fileName={activeFile.name.split(/[/\\]/).pop() || activeFile.name}
-                            key={activeFile.name} 
+                            filePath={activeFile.name}
+                            key={`${activeFile.name}#${fileRevision}`} 
                         />
                      );
                  }
@@ -408,7 +610,8 @@ function App() {
                             initialContent={activeFile.content} 
                             onSave={handleSaveFile}
                             fileName={activeFile.name.split(/[/\\]/).pop() || activeFile.name}
-                            key={activeFile.name} 
+                            filePath={activeFile.name}
+                            key={`${activeFile.name}#${fileRevision}`} 
                         />
                      );
                  }
@@ -419,7 +622,8 @@ function App() {
                             initialContent={activeFile.content} 
                             onSave={handleSaveFile}
                             fileName={activeFile.name.split(/[/\\]/).pop() || activeFile.name}
-                            key={activeFile.name} // Force re-render when file changes
+                            filePath={activeFile.name}
+                            key={`${activeFile.name}#${fileRevision}`} // Force re-render when file changes
                         />
                      );
                  }
@@ -428,9 +632,10 @@ function App() {
                      return (
                         <ChapterCard 
                             content={activeFile.content || ''} 
-                            key={activeFile.name} 
+                            key={`${activeFile.name}#${fileRevision}`} 
                             onSave={handleSaveFile}
                             fileName={activeFile.name.split(/[/\\]/).pop() || activeFile.name}
+                            filePath={activeFile.name}
                             forceTab={forcedChapterTab}
                             paragraphRatings={paragraphRatings}
                             reveal={pendingReveal && pendingReveal.path === activeFile.name ? pendingReveal : undefined}
@@ -444,8 +649,11 @@ function App() {
                  return (
                     <Editor 
                         content={activeFile.content || ''} 
-                        key={activeFile.name} 
-                        onChange={(newContent) => setActiveFile({ ...activeFile, content: newContent })}
+                        key={`${activeFile.name}#${fileRevision}`} 
+                        onChange={(newContent) => {
+                            setUnsavedContent(activeFile.name, newContent);
+                            setActiveFile({ ...activeFile, content: newContent });
+                        }}
                         onBlur={(content) => handleSaveFile(content)}
                     />
                  );
@@ -459,6 +667,7 @@ function App() {
               <Panel defaultSize={25} minSize={15} maxSize={40} className="bg-gray-50 dark:bg-neutral-900 border-l border-gray-200 dark:border-neutral-800">
                 <AIChatPanel 
                 contextContent={activeFile?.content || ''} 
+                activeChapter={activeFile && /^Chapters[/\\]/.test(activeFile.name) ? activeFile.name.split(/[/\\]/).pop() : null}
                 onCritique={(critique, ratings) => handleCritiqueReceived(critique, ratings)}
                 />
               </Panel>
@@ -468,8 +677,27 @@ function App() {
       </div>
       
       {/* Status Bar */}
-      <div className="h-6 bg-blue-900 flex items-center px-3 text-xs text-blue-100 select-none">
+      <div className="h-6 bg-blue-900 flex items-center justify-between px-3 text-xs text-blue-100 select-none">
         <span>Ready</span>
+        {usage && (() => {
+          const level = budgetLevel(usage);
+          const totals = usage.monthTotals;
+          const priced = totals.calls > totals.unpricedCalls;
+          return (
+            <button
+              onClick={() => setShowUsageReport(true)}
+              className={`flex items-center gap-1 px-1.5 rounded hover:bg-blue-800 transition-colors ${level === 'over' ? 'text-red-300' : level === 'warning' ? 'text-amber-300' : ''}`}
+              title="Show AI usage report"
+            >
+              {(level === 'over' || level === 'warning') && <AlertTriangle size={11} />}
+              <span>
+                AI this month: {formatTokens(totals.totalTokens)} tokens
+                {priced && ` · ${formatCost(totals.cost)}`}
+                {usage.monthlyBudget > 0 && ` of ${formatCost(usage.monthlyBudget)}`}
+              </span>
+            </button>
+          );
+        })()}
       </div>
     </div>
   );
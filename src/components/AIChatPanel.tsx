@@ -1,33 +1,65 @@
 import { useState, useEffect, useRef } from 'react';
-import { Send, Sparkles, StopCircle, Search } from 'lucide-react';
+import { Send, Sparkles, StopCircle, Search, MessageSquarePlus, History, Pin, PinOff } from 'lucide-react';
+import { cancelAIRequest, createAIRequestId } from '../utils/aiRequests';
+import { ChatSessionList } from './ChatSessionList';
+import { ProposedChangesList, type ReviewedChange } from './ProposedChangesList';
+import { applyProposedChange, type ProposedChange } from '../utils/worldbuilding';
+import { showErrorToast } from './Toast';
+import { buildAIContext, describeContextReport } from '../utils/aiContext';
+import { chapterPromptVariables, getPromptTemplate } from '../utils/promptLibrary';
+import { renderPromptTemplate } from '../utils/promptTemplates';
+import type { ChatCompletionEnd, ChatHistoryMessage } from '../utils/ipcContract';
+
+// The model messages (ChatHistoryMessage) are kept separate from the rendered
+// bubbles, which only show text and tool notices.
+type ChatMessage = { role: 'user' | 'ai' | 'tool'; content: string };
+
+const defaultSessionTitle = (messages: ChatMessage[]) => {
+  const first = messages.find(m => m.role === 'user')?.content.trim() || 'New conversation';
+  return first.length > 60 ? `${first.slice(0, 57)}...` : first;
+};
 
 interface AIChatPanelProps {
   contextContent: string; // The content from the editor
+  activeChapter?: string | null; // Chapter file name (as in chapterOrder) when a chapter is open
   onCritique?: (critique: string, paragraphRatings: {paragraph: number; rating: number}[]) => void;
 }
 
-export function AIChatPanel({ contextContent, onCritique }: AIChatPanelProps) {
+export function AIChatPanel({ contextContent, activeChapter, onCritique }: AIChatPanelProps) {
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<{role: 'user' | 'ai' | 'tool', content: string}[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [streamingContent, setStreamingContent] = useState('');
     const [externalThinkingCount, setExternalThinkingCount] = useState(0);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    // Id of the in-flight chat request; events from any other request are ignored
+    const activeRequestIdRef = useRef<string | null>(null);
+    // Id of a critique whose context is still being built; Stop drops it before it is sent
+    const preparingRequestIdRef = useRef<string | null>(null);
+    const historyRef = useRef<ChatHistoryMessage[]>([]);
+    // The user turn sent with the in-flight request; committed to history once it completes
+    const pendingUserTurnRef = useRef<ChatHistoryMessage | null>(null);
+    // The conversation id is also the id of its saved session in .auctor/chats/
+    const conversationIdRef = useRef<string>(crypto.randomUUID());
+    const createdAtRef = useRef(new Date().toISOString());
+    const needsSaveRef = useRef(false);
+    const [sessionTitle, setSessionTitle] = useState('');
+    const [pinnedChapter, setPinnedChapter] = useState<string | null>(null);
+    const [showSessions, setShowSessions] = useState(false);
+    // Worldbuilding edits proposed by the assistant, awaiting the author's review
+    const [proposedChanges, setProposedChanges] = useState<ReviewedChange[]>([]);
 
     useEffect(() => {
         // Display a "thinking" bubble for non-chat LLM jobs (e.g. rewrite/make shorter/make longer).
-        // @ts-ignore
-        const removeStart = window.ipcRenderer.on('rewrite-text-start', () => {
+        const removeStart = window.auctor.onRewriteTextStart(() => {
             setExternalThinkingCount((prev) => prev + 1);
         });
 
-        // @ts-ignore
-        const removeEnd = window.ipcRenderer.on('rewrite-text-end', () => {
+        const removeEnd = window.auctor.onRewriteTextEnd(() => {
             setExternalThinkingCount((prev) => Math.max(0, prev - 1));
         });
 
-        // @ts-ignore
-        const removeError = window.ipcRenderer.on('rewrite-text-error', (_event: any, error: string) => {
+        const removeError = window.auctor.onRewriteTextError(() => {
             setExternalThinkingCount((prev) => Math.max(0, prev - 1));
         });
 
@@ -40,11 +72,21 @@ export function AIChatPanel({ contextContent, onCritique }: AIChatPanelProps) {
 
   // Listen for tool-call notifications
   useEffect(() => {
-    // @ts-ignore
-    const removeToolCall = window.ipcRenderer.on('ai-tool-call', (_event: any, message: string) => {
+    const removeToolCall = window.auctor.onAiToolCall((message: string, requestId?: string) => {
+      if (requestId && requestId !== activeRequestIdRef.current) return;
       setMessages(prev => [...prev, { role: 'tool', content: message }]);
     });
-    return () => removeToolCall();
+    const removeProposal = window.auctor.onAiProposedChange((change: ProposedChange, requestId?: string) => {
+      if (requestId && requestId !== activeRequestIdRef.current) return;
+      // A later call for the same file in the same reply reuses the change id
+      setProposedChanges(prev => prev.some(c => c.id === change.id)
+        ? prev.map(c => c.id === change.id ? { ...change, status: 'pending' } : c)
+        : [...prev, { ...change, status: 'pending' }]);
+    });
+    return () => {
+      removeToolCall();
+      removeProposal();
+    };
   }, []);
 
   // Auto-scroll on new messages
@@ -57,15 +99,32 @@ export function AIChatPanel({ contextContent, onCritique }: AIChatPanelProps) {
   useEffect(() => { streamingRef.current = streamingContent; }, [streamingContent]);
 
   useEffect(() => {
-    // @ts-ignore
-    const removeChunkListener = window.ipcRenderer.on('ai-completion-chunk', (_event: any, chunk: string) => {
+    const removeChunkListener = window.auctor.onAiCompletionChunk((chunk: string, requestId?: string) => {
+       if (requestId && requestId !== activeRequestIdRef.current) return;
        setStreamingContent(prev => prev + chunk);
     });
 
-    // @ts-ignore
-    const removeEndListener = window.ipcRenderer.on('ai-completion-end', () => {
+    const removeEndListener = window.auctor.onAiCompletionEnd((info?: ChatCompletionEnd) => {
+       if (info?.requestId && info.requestId !== activeRequestIdRef.current) return;
+       activeRequestIdRef.current = null;
+
        const final = streamingRef.current;
-       if (final) {
+       const userTurn = pendingUserTurnRef.current;
+       pendingUserTurnRef.current = null;
+       if (userTurn) {
+         if (!info?.cancelled && info?.responseMessages?.length) {
+           historyRef.current = [...historyRef.current, userTurn, ...info.responseMessages];
+         } else if (final) {
+           historyRef.current = [...historyRef.current, userTurn, { role: 'assistant', content: final }];
+         }
+       }
+
+       if (info?.cancelled) {
+         // Keep whatever arrived before Stop, but never treat it as a finished critique
+         window.sessionStorage.removeItem('ai-mode');
+         setMessages(prev => [...prev, { role: 'ai', content: final ? `${final}\n\n[Stopped]` : '[Stopped]' }]);
+         setStreamingContent('');
+       } else if (final) {
          setMessages(prev => [...prev, { role: 'ai', content: final }]);
 
          const mode = window.sessionStorage.getItem('ai-mode');
@@ -82,11 +141,15 @@ export function AIChatPanel({ contextContent, onCritique }: AIChatPanelProps) {
 
          setStreamingContent('');
        }
+       needsSaveRef.current = true;
        setIsLoading(false);
     });
 
-    // @ts-ignore
-    const removeErrorListener = window.ipcRenderer.on('ai-completion-error', (_event: any, error: string) => {
+    const removeErrorListener = window.auctor.onAiCompletionError((_error: string, requestId?: string) => {
+       if (requestId && requestId !== activeRequestIdRef.current) return;
+       activeRequestIdRef.current = null;
+       pendingUserTurnRef.current = null;
+       needsSaveRef.current = true;
        setIsLoading(false);
        setStreamingContent('');
     });
@@ -98,6 +161,68 @@ export function AIChatPanel({ contextContent, onCritique }: AIChatPanelProps) {
     };
   }, [onCritique]);
 
+  // Save the session once each exchange has settled
+  useEffect(() => {
+    if (isLoading || !needsSaveRef.current || messages.length === 0) return;
+    needsSaveRef.current = false;
+    const title = sessionTitle || defaultSessionTitle(messages);
+    if (!sessionTitle) setSessionTitle(title);
+    window.auctor.saveChatSession({
+      id: conversationIdRef.current,
+      title,
+      createdAt: createdAtRef.current,
+      messages,
+      history: historyRef.current,
+    }).then((result: any) => {
+      if (!result?.success) console.error('Error saving chat session:', result?.error);
+    });
+  }, [messages, isLoading, sessionTitle]);
+
+  const resetConversation = () => {
+      cancelAIRequest(activeRequestIdRef.current);
+      activeRequestIdRef.current = null;
+      preparingRequestIdRef.current = null;
+      pendingUserTurnRef.current = null;
+      needsSaveRef.current = false;
+      window.sessionStorage.removeItem('ai-mode');
+      setStreamingContent('');
+      setIsLoading(false);
+      setProposedChanges([]);
+  };
+
+  const openSession = async (id: string) => {
+      const result = await window.auctor.readChatSession(id);
+      if (!result?.success) return;
+      const session = result.session;
+      resetConversation();
+      conversationIdRef.current = session.id;
+      createdAtRef.current = session.createdAt;
+      historyRef.current = session.history;
+      setMessages(session.messages);
+      setSessionTitle(session.title);
+      setPinnedChapter(session.pinnedChapter);
+      setShowSessions(false);
+  };
+
+  // Opening a chapter brings back the conversation pinned to it, if any
+  useEffect(() => {
+    if (!activeChapter) return;
+    (async () => {
+      const result = await window.auctor.getPinnedChatSession(activeChapter);
+      if (result?.success && result.id && result.id !== conversationIdRef.current && !activeRequestIdRef.current) {
+        openSession(result.id);
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeChapter]);
+
+  const handleTogglePin = async () => {
+      if (!activeChapter) return;
+      const next = pinnedChapter === activeChapter ? null : activeChapter;
+      const result = await window.auctor.pinChatSession(conversationIdRef.current, next);
+      if (result?.success) setPinnedChapter(next);
+  };
+
 
   const sendMessage = (text: string) => {
       if(!text.trim() && !contextContent) return;
@@ -115,8 +240,76 @@ export function AIChatPanel({ contextContent, onCritique }: AIChatPanelProps) {
       // If we are doing "Critique", the text param might be empty or specific instruction
       const prompt = text; 
       
-      // @ts-ignore
-      window.ipcRenderer.send('generate-ai-completion', { prompt });
+      sendTurn(prompt);
+  };
+
+  // Sends the conversation so far plus a new user turn. A turn too long to
+  // send again with every later message keeps `historyContent` in the history.
+  const sendTurn = (
+      content: string,
+      feature: 'assistant' | 'critique' = 'assistant',
+      { requestId = createAIRequestId(), historyContent }: { requestId?: string; historyContent?: string } = {},
+  ) => {
+      pendingUserTurnRef.current = { role: 'user', content: historyContent ?? content };
+      activeRequestIdRef.current = requestId;
+      window.auctor.generateAiCompletion({
+          messages: [...historyRef.current, { role: 'user', content }],
+          conversationId: conversationIdRef.current,
+          requestId,
+          chapter: activeChapter || null,
+          feature,
+      });
+  };
+
+  const handleNewConversation = () => {
+      resetConversation();
+      historyRef.current = [];
+      conversationIdRef.current = crypto.randomUUID();
+      createdAtRef.current = new Date().toISOString();
+      setMessages([]);
+      setSessionTitle('');
+      setPinnedChapter(null);
+      setShowSessions(false);
+  };
+
+  const setChangeStatus = (id: string, status: ReviewedChange['status'], error?: string) => {
+      setProposedChanges(prev => prev.map(c => c.id === id ? { ...c, status, error } : c));
+  };
+
+  const acceptChange = async (change: ReviewedChange) => {
+      setChangeStatus(change.id, 'applying');
+      try {
+          await applyProposedChange(change);
+          setChangeStatus(change.id, 'accepted');
+      } catch (e: any) {
+          const message = e?.message || String(e);
+          setChangeStatus(change.id, 'failed', message);
+          showErrorToast(message);
+      }
+  };
+
+  const handleAcceptChange = (id: string) => {
+      const change = proposedChanges.find(c => c.id === id);
+      if (change) void acceptChange(change);
+  };
+
+  // One at a time, so reciprocal relationship writes don't race each other
+  const handleAcceptAllChanges = async () => {
+      for (const change of proposedChanges.filter(c => c.status === 'pending')) {
+          await acceptChange(change);
+      }
+  };
+
+  // The main process answers a cancel with ai-completion-end { cancelled: true }
+  const handleStop = () => {
+      if (preparingRequestIdRef.current) {
+          preparingRequestIdRef.current = null;
+          window.sessionStorage.removeItem('ai-mode');
+          setMessages(prev => [...prev, { role: 'ai', content: '[Stopped]' }]);
+          setIsLoading(false);
+          return;
+      }
+      cancelAIRequest(activeRequestIdRef.current);
   };
 
   const handleCritique = async () => {
@@ -125,88 +318,80 @@ export function AIChatPanel({ contextContent, onCritique }: AIChatPanelProps) {
           return;
       }
       
-      setMessages(prev => [...prev, { role: 'user', content: "Critique this writing." }]);
+      const instruction = "Critique this writing.";
+      setMessages(prev => [...prev, { role: 'user', content: instruction }]);
       setIsLoading(true);
       setStreamingContent('');
       window.sessionStorage.setItem('ai-mode', 'critique');
-
-      // Fetch project settings (plot, title, author, subplots)
-      let plotContext = "";
-      let allSubplots: { id: string; title: string; description: string; characters: string[] }[] = [];
-      try {
-          // @ts-ignore
-          const settingsResult = await window.ipcRenderer.invoke('get-project-settings');
-          if (settingsResult.success && settingsResult.settings) {
-              const { title, author, plot, subplots } = settingsResult.settings;
-              let header = '';
-              if (title) header += `Novel: ${title}`;
-              if (author) header += ` by ${author}`;
-              if (header) plotContext += header + '\n';
-              if (plot) plotContext += `Plot: ${plot}\n`;
-              if (Array.isArray(subplots)) allSubplots = subplots;
-          }
-      } catch (err) {
-          console.error("Error fetching project settings", err);
-      }
-
-      // Parse chapter settings from file content
-      let chapterSettingsContext = "";
-      let chapterSubplotIds: string[] = [];
-      const settingsMatch = contextContent.match(/<settings>([\s\S]*?)<\/settings>/);
-      if (settingsMatch) {
-          try {
-              const parsed = JSON.parse(settingsMatch[1].trim());
-              if (parsed.summary) chapterSettingsContext += `Chapter Summary: ${parsed.summary}\n`;
-              if (parsed.ageOffset && parsed.ageOffset !== '0') chapterSettingsContext += `Age Offset: ${parsed.ageOffset} years\n`;
-              if (parsed.style) chapterSettingsContext += `Writing Style Notes: ${parsed.style}\n`;
-              if (Array.isArray(parsed.subplots)) chapterSubplotIds = parsed.subplots;
-          } catch {}
-      }
-
-      // Build subplot context from chapter's assigned subplots
-      let subplotContext = "";
-      if (chapterSubplotIds.length > 0 && allSubplots.length > 0) {
-          const relevant = allSubplots.filter(sp => chapterSubplotIds.includes(sp.id));
-          if (relevant.length > 0) {
-              subplotContext = relevant.map(sp => {
-                  let entry = sp.title || 'Untitled subplot';
-                  if (sp.description) entry += `: ${sp.description}`;
-                  if (sp.characters?.length) entry += ` (Characters: ${sp.characters.join(', ')})`;
-                  return `- ${entry}`;
-              }).join('\n');
-          }
-      }
-
-      // Extract plain text from content (strip XML tags if present)
-      const textMatch = contextContent.match(/<text>([\s\S]*?)<\/text>/);
-      const chapterText = textMatch ? textMatch[1].trim() : contextContent;
-
-      const sections: string[] = [];
-      if (plotContext) sections.push(`Project Overview:\n${plotContext}`);
-      if (chapterSettingsContext) sections.push(`Chapter Context:\n${chapterSettingsContext}`);
-      if (subplotContext) sections.push(`Active Subplots in this Chapter:\n${subplotContext}`);
-
-      const prompt = `Critique the following writing sample. Focus on pacing, tone, character voice, and consistency with the established world and plot. Use your tools to look up characters, places, objects, and organisations as needed for context.
-
-${sections.join('\n\n')}
-
----
-${chapterText}
----
-
-After your written critique, rate each text paragraph in the chapter on a scale of 1 (poor) to 10 (excellent) for writing quality and how well it fits the story. Only count <p> elements that contain actual text (skip empty paragraphs and headings). Number them sequentially starting from 1. Output the ratings as a JSON array inside <paragraph_ratings> tags at the very end of your response, like: <paragraph_ratings>[{"paragraph":1,"rating":7},{"paragraph":2,"rating":5}]</paragraph_ratings>`;
+      const requestId = createAIRequestId();
+      preparingRequestIdRef.current = requestId;
+
+      // Ranked, budgeted context from the main process; the chapter itself is always sent whole
+      const [context, template] = await Promise.all([
+          buildAIContext({ task: 'critique', chapter: contextContent }),
+          getPromptTemplate('critique-chapter'),
+      ]);
+      // Stopped, or the conversation was reset, while the context was built
+      if (preparingRequestIdRef.current !== requestId) return;
+      preparingRequestIdRef.current = null;
+      setMessages(prev => [...prev, { role: 'tool', content: describeContextReport(context.report) }]);
+
+      const prompt = renderPromptTemplate(template?.template || '', chapterPromptVariables(context, { chapterFile: activeChapter || undefined }));
       
-      // @ts-ignore
-      window.ipcRenderer.send('generate-ai-completion', { prompt });
+      // The history keeps only the instruction; the chapter and its context are sent with this request alone
+      sendTurn(prompt, 'critique', { requestId, historyContent: instruction });
   };
 
 
   return (
     <div className="flex flex-col h-full bg-gray-50 dark:bg-neutral-900 border-l border-gray-200 dark:border-neutral-800">
       <div className="p-3 border-b border-gray-200 dark:border-neutral-800 bg-gray-100 dark:bg-neutral-950 flex justify-between items-center">
-        <span className="uppercase text-xs font-bold text-gray-400 dark:text-neutral-500 tracking-wider">AI Assistant</span>
+        <div className="flex flex-col min-w-0">
+          <span className="uppercase text-xs font-bold text-gray-400 dark:text-neutral-500 tracking-wider">AI Assistant</span>
+          {sessionTitle && (
+            <span className="text-xs text-gray-500 dark:text-neutral-400 truncate" title={sessionTitle}>{sessionTitle}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {activeChapter && (
+            <button
+              onClick={handleTogglePin}
+              disabled={messages.length === 0 || isLoading}
+              title={pinnedChapter === activeChapter ? 'Unpin from this chapter' : 'Pin to this chapter'}
+              className={`${pinnedChapter === activeChapter ? 'text-teal-500' : 'text-gray-400 dark:text-neutral-500'} hover:text-gray-700 dark:hover:text-neutral-200 disabled:opacity-40 transition-colors`}
+            >
+              {pinnedChapter === activeChapter ? <PinOff size={16} /> : <Pin size={16} />}
+            </button>
+          )}
+          <button
+            onClick={() => setShowSessions(prev => !prev)}
+            title="Saved conversations"
+            className={`${showSessions ? 'text-blue-500' : 'text-gray-400 dark:text-neutral-500'} hover:text-gray-700 dark:hover:text-neutral-200 transition-colors`}
+          >
+            <History size={16} />
+          </button>
+          <button
+            onClick={handleNewConversation}
+            disabled={messages.length === 0 && !isLoading}
+            title="New conversation"
+            className="text-gray-400 dark:text-neutral-500 hover:text-gray-700 dark:hover:text-neutral-200 disabled:opacity-40 transition-colors"
+          >
+            <MessageSquarePlus size={16} />
+          </button>
+        </div>
       </div>
 
+      {showSessions ? (
+        <ChatSessionList
+          activeSessionId={conversationIdRef.current}
+          onOpen={openSession}
+          onRenamed={(id, title) => { if (id === conversationIdRef.current) setSessionTitle(title); }}
+          onDeleted={(id) => { if (id === conversationIdRef.current) { handleNewConversation(); setShowSessions(true); } }}
+          onClose={() => setShowSessions(false)}
+        />
+      ) : (
+      <>
+
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 font-sans text-sm">
          {messages.length === 0 && !isLoading && (
@@ -231,6 +416,15 @@ After your written critique, rate each text paragraph in the chapter on a scale
              </div>
          ))}
 
+         {proposedChanges.length > 0 && (
+             <ProposedChangesList
+                 changes={proposedChanges}
+                 onAccept={handleAcceptChange}
+                 onReject={(id) => setChangeStatus(id, 'rejected')}
+                 onAcceptAll={handleAcceptAllChanges}
+             />
+         )}
+
          {isLoading && !streamingContent && (
              <div className="flex justify-start">
                  <div className="max-w-[85%] p-3 rounded-lg bg-gray-100 dark:bg-neutral-800 text-gray-700 dark:text-neutral-300 border border-blue-500/30">
@@ -289,14 +483,17 @@ After your written critique, rate each text paragraph in the chapter on a scale
                 className="w-full bg-white dark:bg-neutral-900 border border-gray-300 dark:border-neutral-700 rounded p-2 pr-10 text-gray-900 dark:text-white focus:outline-none focus:border-blue-500 text-sm"
              />
              <button 
-                onClick={() => sendMessage(input)}
-                disabled={isLoading || !input}
+                onClick={() => isLoading ? handleStop() : sendMessage(input)}
+                disabled={!isLoading && !input}
+                title={isLoading ? 'Stop generating' : 'Send'}
                 className="absolute right-2 top-2 text-neutral-400 hover:text-white disabled:opacity-50"
              >
                  {isLoading ? <StopCircle size={16} /> : <Send size={16} />}
              </button>
          </div>
       </div>
+      </>
+      )}
     </div>
   );
 }
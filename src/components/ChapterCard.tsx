@@ -1,5 +1,5 @@
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { EditorContent, useEditor } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
@@ -10,7 +10,12 @@ import { Plugin, PluginKey } from '@tiptap/pm/state';
 import { Decoration, DecorationSet } from '@tiptap/pm/view';
 import { Extension } from '@tiptap/core';
 import { RefineDialog } from './RefineDialog';
+import { cancelAIRequest, createAIRequestId, type AIRequestEnd } from '../utils/aiRequests';
+import { buildAIContext } from '../utils/aiContext';
+import { chapterPromptVariables, getPromptTemplate } from '../utils/promptLibrary';
+import { renderPromptTemplate } from '../utils/promptTemplates';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
+import { useUnsavedBuffer } from '../utils/unsavedChanges';
 
 type Tab = 'text' | 'settings' | 'critique';
 
@@ -64,13 +69,14 @@ interface ChapterCardProps {
   content: string;
   onSave: (content: string) => void;
   fileName: string;
+  filePath: string;
   forceTab?: Tab;
   paragraphRatings?: ParagraphRatingItem[];
     reveal?: { requestId: number; path: string; name: string; aka?: string };
     onRevealHandled?: (requestId: number) => void;
 }
 
-export function ChapterCard({ content, onSave, fileName, forceTab, paragraphRatings, reveal, onRevealHandled }: ChapterCardProps) {
+export function ChapterCard({ content, onSave, fileName, filePath, forceTab, paragraphRatings, reveal, onRevealHandled }: ChapterCardProps) {
   const [activeTab, setActiveTab] = useState<Tab>('text');
   const [isRewriting, setIsRewriting] = useState(false);
   const rewriteBufferRef = useRef('');
@@ -97,6 +103,7 @@ export function ChapterCard({ content, onSave, fileName, forceTab, paragraphRati
   const [chapterSummary, setChapterSummary] = useState('');
   const [ageOffset, setAgeOffset] = useState('');
   const [style, setStyle] = useState('');
+  const [pov, setPov] = useState('');
   const [chapterSubplots, setChapterSubplots] = useState<string[]>([]);
   const [availableSubplots, setAvailableSubplots] = useState<{ id: string; title: string; description: string }[]>([]);
 
@@ -128,6 +135,7 @@ export function ChapterCard({ content, onSave, fileName, forceTab, paragraphRati
            setChapterSummary(parsed.summary || '');
            setAgeOffset(parsed.ageOffset || '');
            setStyle(parsed.style || '');
+           setPov(parsed.pov || '');
            setChapterSubplots(Array.isArray(parsed.subplots) ? parsed.subplots : []);
        } catch (e) {
            // Fallback: older format was just the summary text
@@ -144,8 +152,7 @@ export function ChapterCard({ content, onSave, fileName, forceTab, paragraphRati
   useEffect(() => {
     (async () => {
       try {
-        // @ts-ignore
-        const result = await window.ipcRenderer.invoke('get-project-settings');
+        const result = await window.auctor.getProjectSettings();
         if (result.success && Array.isArray(result.settings?.subplots)) {
           setAvailableSubplots(result.settings.subplots.map((s: any) => ({ id: s.id, title: s.title || '', description: s.description || '' })));
         }
@@ -153,17 +160,18 @@ export function ChapterCard({ content, onSave, fileName, forceTab, paragraphRati
     })();
   }, []);
 
-  const handleSave = () => {
+  const serialize = useCallback(() => {
       // Serialize settings
       const settingsJson = JSON.stringify({
           summary: chapterSummary,
           ageOffset: ageOffset,
           style: style,
+          pov: pov,
           subplots: chapterSubplots
       }, null, 2);
 
       // Reconstruct file
-      const fileData = `
+      return `
 <text>
 ${textContent}
 </text>
@@ -174,10 +182,15 @@ ${settingsJson}
 ${critiqueContent}
 </critique>
 `.trim();
-      onSave(fileData);
+  }, [textContent, chapterSummary, ageOffset, style, pov, chapterSubplots, critiqueContent]);
+
+  const handleSave = () => {
+      onSave(serialize());
       setIsDirty(false);
   };
 
+  useUnsavedBuffer(filePath, isDirty, serialize, setIsDirty);
+
   // --- TipTap Editor for Text Section ---
   const editor = useEditor({
     extensions: [
@@ -198,13 +211,13 @@ ${critiqueContent}
   });
 
     useEffect(() => {
-        if (window.ipcRenderer) {
-            window.ipcRenderer.send('editor-selected-changed', true);
+        if (window.auctor) {
+            window.auctor.editorSelectedChanged(true);
         }
 
         return () => {
-            if (window.ipcRenderer) {
-                window.ipcRenderer.send('editor-selected-changed', false);
+            if (window.auctor) {
+                window.auctor.editorSelectedChanged(false);
             }
         };
     }, []);
@@ -404,144 +417,108 @@ ${critiqueContent}
   // Helper ref for rewrite status to avoid stale closures in event listeners
   const isRewritingRef = useRef(false);
   useEffect(() => { isRewritingRef.current = isRewriting; }, [isRewriting]);
+  // The running rewrite job and the document as it was before the selection was replaced
+  const rewriteRequestIdRef = useRef<string | null>(null);
+  const rewriteSnapshotRef = useRef<{ doc: any; from: number; to: number } | null>(null);
+  // Latest (possibly unsaved) chapter settings, read by the rewrite listeners bound below
+  const chapterSettingsRef = useRef({ summary: chapterSummary, ageOffset, style, pov, subplots: chapterSubplots });
+  chapterSettingsRef.current = { summary: chapterSummary, ageOffset, style, pov, subplots: chapterSubplots };
 
   // Re-write the effect to use isRewritingRef
   useEffect(() => {
     if (!editor) return;
 
-    const fetchProjectContext = async () => {
-        // Fetch project-level settings (plot, title, author)
-        let projectOverview = "";
-        try {
-            // @ts-ignore
-            const settingsResult = await window.ipcRenderer.invoke('get-project-settings');
-            if (settingsResult.success && settingsResult.settings) {
-                const { title, author, plot } = settingsResult.settings;
-                let header = '';
-                if (title) header += `Novel: ${title}`;
-                if (author) header += ` by ${author}`;
-                if (header) projectOverview += header + '\n';
-                if (plot) projectOverview += `Overall Plot: ${plot}\n`;
-            }
-        } catch {}
-
-        // @ts-ignore
-        const files: any[] = await window.ipcRenderer.invoke('get-files');
-        const contextFiles = files.filter((f: any) =>
-            f.category === 'Characters' || f.category === 'Places' || f.category === 'Objects' || f.category === 'Organisations'
-        );
-
-        let contextString = "";
-        for (const file of contextFiles) {
-            // @ts-ignore
-            const res = await window.ipcRenderer.invoke('read-file', file.path);
-            if (!res?.success) continue;
-
-            try {
-                const json = JSON.parse(res.content);
-                let summary = '';
-                if (file.category === 'Organisations') {
-                    const members = Array.isArray(json.members) ? json.members.map((m: any) => `${m.name}${m.role ? ' (' + m.role + ')' : ''}`).join(', ') : 'N/A';
-                    summary = `Goals: ${json.goals || 'N/A'}. Members: ${members}`;
-                } else {
-                    summary = json.description || json.summary || json.content || JSON.stringify(json);
-                }
-                contextString += `[${file.category.slice(0, -1)}: ${json.name || file.name}]\n${summary}\n\n`;
-            } catch {
-                contextString += `[${file.category.slice(0, -1)}: ${file.name}]\n${res.content}\n\n`;
-            }
+    const finishRewrite = (rollback: boolean) => {
+        const snapshot = rewriteSnapshotRef.current;
+        if (rollback && snapshot) {
+            // Put back the original selection instead of leaving a half-streamed replacement
+            editor.chain().setContent(snapshot.doc, true).setTextSelection({ from: snapshot.from, to: snapshot.to }).run();
         }
+        rewriteSnapshotRef.current = null;
+        rewriteRequestIdRef.current = null;
+        setIsRewriting(false);
+        isRewritingRef.current = false;
+    };
 
-        return { projectOverview, contextString };
+    const cancelRewrite = () => {
+        if (!isRewritingRef.current) return;
+        cancelAIRequest(rewriteRequestIdRef.current);
+        finishRewrite(true);
     };
 
-    const runRewrite = async (mode: 'rewrite' | 'shorter' | 'longer') => {
+    // Runs a selection action (built-in rewrite/shorter/longer or a custom one) in place
+    const runSelectionAction = async (actionId: string) => {
         if (isRewritingRef.current) return;
 
         const { from, to, empty } = editor.state.selection;
         if (empty) return;
 
+        const requestId = createAIRequestId();
+        rewriteRequestIdRef.current = requestId;
         setIsRewriting(true);
         isRewritingRef.current = true;
 
         const selectedText = editor.state.doc.textBetween(from, to, ' ');
-        const fullText = editor.getText();
-        const { projectOverview, contextString } = await fetchProjectContext();
-
-        let instructionBlock = '';
-        if (mode === 'rewrite') {
-            instructionBlock = `Rewrite the selected text to improve flow, tone, and clarity while maintaining the author's voice.`;
-        } else if (mode === 'shorter') {
-            instructionBlock = `Rewrite the selected text to be more concise while staying true to the author's voice, meaning, tense, and point-of-view. Do not add new information or change events; keep the same intent and key beats, just tighter.`;
-        } else {
-            instructionBlock = `Expand the selected text by adding vivid detail and color while staying true to the author's voice, tense, and point-of-view. Add concrete sensory detail, subtext, action beats, and specificity where it fits. Use the provided Characters/Places/Objects context when relevant to enrich the prose (without inventing new named entities or contradicting established facts).`;
+        const [context, action] = await Promise.all([
+            buildAIContext({
+                task: 'rewrite',
+                chapter: editor.getText(),
+                chapterFile: fileName,
+                chapterSettings: chapterSettingsRef.current,
+                selection: selectedText,
+            }),
+            getPromptTemplate(actionId),
+        ]);
+        // Escape was pressed while the context was loading
+        if (rewriteRequestIdRef.current !== requestId) return;
+        if (!action) {
+            finishRewrite(false);
+            return;
         }
 
-        const styleNotes = style?.trim() ? `\nStyle Notes (from this chapter's settings):\n${style.trim()}\n` : '';
-        const chapterSummaryNotes = chapterSummary?.trim() ? `\nChapter Summary:\n${chapterSummary.trim()}\n` : '';
-        const ageOffsetNotes = ageOffset?.trim() && ageOffset !== '0' ? `\nAge Offset: ${ageOffset} years (characters are shifted by this amount from their base ages)\n` : '';
-
-        const prompt = `
-You are an expert story editor.
-
-Task:
-${instructionBlock}
-${projectOverview ? `Project Overview:\n${projectOverview}` : ''}${chapterSummaryNotes}${ageOffsetNotes}${styleNotes}
-Project Context (Characters, Places, Objects, Organisations):
-${contextString}
-Chapter Reference (DO NOT OUTPUT THIS):
-${fullText}
-
-Selected Text:
-${selectedText}
-
-Output only the rewritten text. Do not include any explanation or markdown formatting unless appropriate for the story (e.g. italics).
-`;
+        const prompt = renderPromptTemplate(action.template, chapterPromptVariables(context, {
+            chapterFile: fileName,
+            chapterSettings: chapterSettingsRef.current,
+            selection: selectedText,
+        }));
 
         rewriteBufferRef.current = '';
-        editor.chain().deleteSelection().run();
+        rewriteSnapshotRef.current = { doc: editor.getJSON(), from, to };
+        editor.chain().setTextSelection({ from, to }).deleteSelection().run();
 
-        // @ts-ignore
-        window.ipcRenderer.send('rewrite-text-completion', { prompt });
+        window.auctor.rewriteTextCompletion({ prompt, requestId, chapter: fileName });
     };
 
-    // @ts-ignore
-    const removeRewriteListener = window.ipcRenderer.on('rewrite-selection', async () => {
-        await runRewrite('rewrite');
-    });
-
-    // @ts-ignore
-    const removeShorterListener = window.ipcRenderer.on('make-shorter-selection', async () => {
-        await runRewrite('shorter');
-    });
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key === 'Escape' && isRewritingRef.current) {
+            e.preventDefault();
+            cancelRewrite();
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
 
-    // @ts-ignore
-    const removeLongerListener = window.ipcRenderer.on('make-longer-selection', async () => {
-        await runRewrite('longer');
+    const removeActionListener = window.auctor.onRunSelectionAction(async (actionId: string) => {
+        await runSelectionAction(actionId);
     });
 
-    // @ts-ignore
-    const removeChunkListener = window.ipcRenderer.on('rewrite-text-chunk', (event, chunk) => {
-        if (!isRewritingRef.current) return;
+    const removeChunkListener = window.auctor.onRewriteTextChunk((chunk, requestId) => {
+        if (!isRewritingRef.current || requestId !== rewriteRequestIdRef.current) return;
         editor.commands.insertContent(chunk);
     });
 
-    // @ts-ignore
-    const removeEndListener = window.ipcRenderer.on('rewrite-text-end', () => {
-        setIsRewriting(false);
-        isRewritingRef.current = false;
+    const removeEndListener = window.auctor.onRewriteTextEnd((info?: AIRequestEnd) => {
+        if (!isRewritingRef.current || info?.requestId !== rewriteRequestIdRef.current) return;
+        finishRewrite(!!info?.cancelled);
     });
 
-    // @ts-ignore
-    const removeErrorListener = window.ipcRenderer.on('rewrite-text-error', (event, error) => {
-        setIsRewriting(false);
-        isRewritingRef.current = false;
+    const removeErrorListener = window.auctor.onRewriteTextError((_error, requestId) => {
+        if (!isRewritingRef.current || requestId !== rewriteRequestIdRef.current) return;
+        finishRewrite(true);
     });
 
     return () => {
-        removeRewriteListener();
-        removeShorterListener();
-        removeLongerListener();
+        window.removeEventListener('keydown', handleKeyDown);
+        removeActionListener();
         removeChunkListener();
         removeEndListener();
         removeErrorListener();
@@ -549,27 +526,27 @@ Output only the rewritten text. Do not include any explanation or markdown forma
   }, [editor]); // Re-bind only if editor instance changes
 
     useEffect(() => {
-        if (!window.ipcRenderer) return;
+        if (!window.auctor) return;
 
-        const cleanupFind = window.ipcRenderer.on('editor-find', () => {
+        const cleanupFind = window.auctor.onEditorFind(() => {
             setFindBarMode('find');
             setFindBarVisible(true);
         });
-        const cleanupFindNext = window.ipcRenderer.on('editor-find-next', () => {
+        const cleanupFindNext = window.auctor.onEditorFindNext(() => {
             setFindBarVisible(true);
             setFindBarMode('find');
             setFindBarAction('next');
         });
-        const cleanupFindPrevious = window.ipcRenderer.on('editor-find-previous', () => {
+        const cleanupFindPrevious = window.auctor.onEditorFindPrevious(() => {
             setFindBarVisible(true);
             setFindBarMode('find');
             setFindBarAction('previous');
         });
-        const cleanupReplace = window.ipcRenderer.on('editor-replace', () => {
+        const cleanupReplace = window.auctor.onEditorReplace(() => {
             setFindBarMode('replace');
             setFindBarVisible(true);
         });
-        const cleanupReplaceSelection = window.ipcRenderer.on('editor-replace-selection', () => {
+        const cleanupReplaceSelection = window.auctor.onEditorReplaceSelection(() => {
             setFindBarMode('replace');
             setFindBarVisible(true);
         });
@@ -585,9 +562,9 @@ Output only the rewritten text. Do not include any explanation or markdown forma
 
     // Listen for Refine context menu event
     useEffect(() => {
-        if (!editor || !window.ipcRenderer) return;
+        if (!editor || !window.auctor) return;
 
-        const cleanupRefine = window.ipcRenderer.on('refine-selection', () => {
+        const cleanupRefine = window.auctor.onRefineSelection(() => {
             const { from, to, empty } = editor.state.selection;
             if (empty) return;
 
@@ -639,6 +616,9 @@ Output only the rewritten text. Do not include any explanation or markdown forma
           chapterSummary={chapterSummary}
           ageOffset={ageOffset}
           style={style}
+          pov={pov}
+          subplots={chapterSubplots}
+          chapterFile={fileName}
           onAccept={handleRefineAccept}
           onReject={handleRefineReject}
         />
@@ -678,7 +658,7 @@ Output only the rewritten text. Do not include any explanation or markdown forma
             {isRewriting && (
                 <div className="flex items-center gap-1 text-yellow-500 text-sm animate-pulse mr-2">
                     <Loader2 size={14} className="animate-spin" />
-                    <span>Rewriting...</span>
+                    <span>Rewriting... (Esc to cancel)</span>
                 </div>
             )}
             <button
@@ -828,6 +808,18 @@ Output only the rewritten text. Do not include any explanation or markdown forma
                     <p className="text-xs text-gray-400 dark:text-neutral-500">Years to offset character ages for this chapter (e.g., -5 for a flashback).</p>
                  </div>
 
+                 <div className="space-y-2">
+                    <label className="text-sm font-semibold text-sky-400 uppercase tracking-wider flex items-center gap-2 block">Point of View</label>
+                    <input
+                        type="text"
+                        className="w-full bg-white dark:bg-neutral-800 border-l-2 border-sky-500 p-3 text-gray-700 dark:text-neutral-200 focus:outline-none transition-colors"
+                        placeholder="Character name"
+                        value={pov}
+                        onChange={(e) => { setPov(e.target.value); setIsDirty(true); }}
+                    />
+                    <p className="text-xs text-gray-400 dark:text-neutral-500">Whose eyes this chapter is told through. The AI always gets this character's details.</p>
+                 </div>
+
                  <div className="space-y-2">
                     <label className="text-sm font-semibold text-indigo-400 uppercase tracking-wider flex items-center gap-2 block">Chapter Summary</label>
                     <textarea 
@@ -1,6 +1,9 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Save, User, UserCheck, Heart, Users, Target, Plus, X, FileText } from 'lucide-react';
 import { findChaptersWhereMentioned } from '../utils/chapterMentions';
+import { syncReciprocalRelationship } from '../utils/worldbuilding';
+import { showErrorToast } from './Toast';
+import { useUnsavedBuffer } from '../utils/unsavedChanges';
 
 interface Relationship {
   target: string;
@@ -26,9 +29,10 @@ interface CharacterCardProps {
   initialContent: string;
   onSave: (content: string) => void;
   fileName: string;
+  filePath: string;
 }
 
-export function CharacterCard({ initialContent, onSave, fileName }: CharacterCardProps) {
+export function CharacterCard({ initialContent, onSave, fileName, filePath }: CharacterCardProps) {
   const [data, setData] = useState<CharacterData>({
     name: fileName.replace('.json', ''),
     aka: '',
@@ -42,15 +46,13 @@ export function CharacterCard({ initialContent, onSave, fileName }: CharacterCar
 
   const [activeStageId, setActiveStageId] = useState<string>('default');
     const [characterFiles, setCharacterFiles] = useState<{ name: string; path: string }[]>([]);
-    const reciprocalGuardRef = useRef<Set<string>>(new Set());
 
     const normalizeName = (s: string) => s.trim().toLowerCase();
     const sanitizeFileStem = (s: string) => s.trim().replace(/[<>:"/\\|?*]/g, '').replace(/\s+/g, ' ').trim();
 
     const refreshCharacterFiles = async () => {
         try {
-            // @ts-ignore
-            const files: any[] = await window.ipcRenderer.invoke('get-files');
+            const files: any[] = await window.auctor.getFiles();
             const chars = (files || [])
                 .filter((f: any) => f.category === 'Characters' && typeof f.name === 'string')
                 .map((f: any) => ({ name: f.name, path: f.path }));
@@ -82,48 +84,11 @@ export function CharacterCard({ initialContent, onSave, fileName }: CharacterCar
         const targetPath = getCharacterPathByName(target);
         if (!targetPath) return;
 
-        // Guard against overlapping writes for the same pair while the user is editing.
-        const guardKey = `${normalizeName(selfName)}->${normalizeName(target)}`;
-        if (reciprocalGuardRef.current.has(guardKey)) return;
-        reciprocalGuardRef.current.add(guardKey);
-
+        // Overlapping writes to the same character are queued by syncReciprocalRelationship
         try {
-            // @ts-ignore
-            const readRes = await window.ipcRenderer.invoke('read-file', targetPath);
-            if (!readRes?.success) return;
-
-            let other: any;
-            try {
-                other = JSON.parse(readRes.content);
-            } catch {
-                other = {};
-            }
-
-            const existing: any[] = Array.isArray(other.relationships) ? other.relationships : [];
-            const idx = existing.findIndex((r: any) => normalizeName(String(r?.target ?? '')) === normalizeName(selfName));
-
-            if (idx === -1) {
-                other.relationships = [...existing, { target: selfName, description }];
-            } else {
-                const currentDesc = String(existing[idx]?.description ?? '');
-                if (currentDesc !== description) {
-                    const updated = [...existing];
-                    updated[idx] = { ...updated[idx], target: selfName, description };
-                    other.relationships = updated;
-                } else {
-                    return;
-                }
-            }
-
-            // @ts-ignore
-            await window.ipcRenderer.invoke('save-file', targetPath, JSON.stringify(other, null, 2));
-
-            // Let other parts of the UI know files may have changed.
-            window.dispatchEvent(new Event('auctor-files-changed'));
+            await syncReciprocalRelationship(selfName, rel, targetPath);
         } catch (e) {
             console.error('Failed to write reciprocal relationship', e);
-        } finally {
-            reciprocalGuardRef.current.delete(guardKey);
         }
     };
 
@@ -191,8 +156,6 @@ export function CharacterCard({ initialContent, onSave, fileName }: CharacterCar
 
     useEffect(() => {
         refreshCharacterFiles();
-        // Reset the guard when switching characters to avoid suppressing legitimate updates
-        reciprocalGuardRef.current = new Set();
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [fileName]);
 
@@ -240,12 +203,16 @@ export function CharacterCard({ initialContent, onSave, fileName }: CharacterCar
       }
   };
 
+    const serialize = useCallback(() => JSON.stringify(data, null, 2), [data]);
+
     const handleSave = () => {
-        onSave(JSON.stringify(data, null, 2));
+        onSave(serialize());
         setIsDirty(false);
         // Ensure reciprocals are synced with the final, full text.
         void Promise.all(data.relationships.map((r) => ensureReciprocalRelationship(r)));
     };
+
+    useUnsavedBuffer(filePath, isDirty, serialize, setIsDirty);
     
   const addRelationship = () => {
       setData({
@@ -279,8 +246,11 @@ export function CharacterCard({ initialContent, onSave, fileName }: CharacterCar
         );
 
         try {
-            // @ts-ignore
-            await window.ipcRenderer.invoke('create-file', file, content, 'Characters');
+            const result = await window.auctor.createFile(file, content, 'Characters');
+            if (!result.success) {
+                showErrorToast(result.error || 'Could not create the character.');
+                return;
+            }
             await refreshCharacterFiles();
 
             window.dispatchEvent(new Event('auctor-files-changed'));
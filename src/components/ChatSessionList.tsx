@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { Search, Pencil, Trash2, Pin, X } from 'lucide-react';
+import type { ChatSessionSummary } from '../utils/ipcContract';
+
+interface ChatSessionListProps {
+  activeSessionId: string;
+  onOpen: (id: string) => void;
+  onDeleted: (id: string) => void;
+  onRenamed: (id: string, title: string) => void;
+  onClose: () => void;
+}
+
+export function ChatSessionList({ activeSessionId, onOpen, onDeleted, onRenamed, onClose }: ChatSessionListProps) {
+  const [query, setQuery] = useState('');
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const refresh = async (q: string) => {
+    const result = await window.auctor.listChatSessions(q);
+    if (result?.success) setSessions(result.sessions);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => refresh(query), 200);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const handleRename = async (id: string) => {
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+    const result = await window.auctor.renameChatSession(id, title);
+    if (result?.success) {
+      onRenamed(id, title);
+      refresh(query);
+    }
+  };
+
+  const handleDelete = async (session: ChatSessionSummary) => {
+    if (!confirm(`Delete the conversation "${session.title}"?`)) return;
+    const result = await window.auctor.deleteChatSession(session.id);
+    if (result?.success) {
+      onDeleted(session.id);
+      refresh(query);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-gray-200 dark:border-neutral-800 flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search size={12} className="absolute left-2 top-2.5 text-gray-400 dark:text-neutral-500" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search conversations..."
+            autoFocus
+            className="w-full bg-white dark:bg-neutral-900 border border-gray-300 dark:border-neutral-700 rounded py-1.5 pl-7 pr-2 text-xs text-gray-900 dark:text-white focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <button onClick={onClose} title="Back to chat" className="text-gray-400 dark:text-neutral-500 hover:text-gray-700 dark:hover:text-neutral-200">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {!loading && sessions.length === 0 && (
+          <p className="text-center text-xs text-gray-400 dark:text-neutral-500 mt-8">
+            {query ? 'No conversations match your search.' : 'No saved conversations yet.'}
+          </p>
+        )}
+        {sessions.map(session => (
+          <div
+            key={session.id}
+            onClick={() => editingId !== session.id && onOpen(session.id)}
+            className={`group px-3 py-2 border-b border-gray-100 dark:border-neutral-800 cursor-pointer hover:bg-gray-100 dark:hover:bg-neutral-800 ${session.id === activeSessionId ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+          >
+            <div className="flex items-center gap-2">
+              {editingId === session.id ? (
+                <input
+                  type="text"
+                  value={editingTitle}
+                  autoFocus
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onBlur={() => handleRename(session.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename(session.id);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 bg-white dark:bg-neutral-900 border border-blue-500 rounded px-1 text-sm text-gray-900 dark:text-white focus:outline-none"
+                />
+              ) : (
+                <span className="flex-1 truncate text-sm text-gray-800 dark:text-neutral-200">{session.title}</span>
+              )}
+              <button
+                onClick={(e) => { e.stopPropagation(); setEditingId(session.id); setEditingTitle(session.title); }}
+                title="Rename"
+                className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-700 dark:hover:text-neutral-200"
+              >
+                <Pencil size={12} />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDelete(session); }}
+                title="Delete"
+                className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+            <div className="flex items-center gap-2 mt-0.5 text-[11px] text-gray-400 dark:text-neutral-500">
+              <span>{new Date(session.updatedAt).toLocaleString()}</span>
+              <span>· {session.messageCount} messages</span>
+              {session.pinnedChapter && (
+                <span className="flex items-center gap-0.5 text-teal-500 truncate">
+                  <Pin size={10} /> {session.pinnedChapter.replace(/\.md$/, '')}
+                </span>
+              )}
+            </div>
+            {session.preview && (
+              <p className="mt-0.5 text-xs text-gray-500 dark:text-neutral-400 truncate">{session.preview}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -39,25 +39,25 @@ export function Editor({ content = '', onChange, onBlur }: EditorProps) {
   });
 
   useEffect(() => {
-    if (window.ipcRenderer) {
-      window.ipcRenderer.send('editor-selected-changed', true);
+    if (window.auctor) {
+      window.auctor.editorSelectedChanged(true);
     }
 
     return () => {
-      if (window.ipcRenderer) {
-        window.ipcRenderer.send('editor-selected-changed', false);
+      if (window.auctor) {
+        window.auctor.editorSelectedChanged(false);
       }
     };
   }, []);
 
   useEffect(() => {
-    if (!editor || !window.ipcRenderer) return;
+    if (!editor || !window.auctor) return;
 
-    const cleanupBold = window.ipcRenderer.on('format-bold', () => {
+    const cleanupBold = window.auctor.onFormatBold(() => {
       editor.chain().focus().toggleBold().run();
     });
 
-    const cleanupItalic = window.ipcRenderer.on('format-italic', () => {
+    const cleanupItalic = window.auctor.onFormatItalic(() => {
       editor.chain().focus().toggleItalic().run();
     });
 
@@ -68,27 +68,27 @@ export function Editor({ content = '', onChange, onBlur }: EditorProps) {
   }, [editor]);
 
   useEffect(() => {
-    if (!window.ipcRenderer) return;
+    if (!window.auctor) return;
 
-    const cleanupFind = window.ipcRenderer.on('editor-find', () => {
+    const cleanupFind = window.auctor.onEditorFind(() => {
       setFindBarMode('find');
       setFindBarVisible(true);
     });
-    const cleanupFindNext = window.ipcRenderer.on('editor-find-next', () => {
+    const cleanupFindNext = window.auctor.onEditorFindNext(() => {
       setFindBarVisible(true);
       setFindBarMode('find');
       setFindBarAction('next');
     });
-    const cleanupFindPrevious = window.ipcRenderer.on('editor-find-previous', () => {
+    const cleanupFindPrevious = window.auctor.onEditorFindPrevious(() => {
       setFindBarVisible(true);
       setFindBarMode('find');
       setFindBarAction('previous');
     });
-    const cleanupReplace = window.ipcRenderer.on('editor-replace', () => {
+    const cleanupReplace = window.auctor.onEditorReplace(() => {
       setFindBarMode('replace');
       setFindBarVisible(true);
     });
-    const cleanupReplaceSelection = window.ipcRenderer.on('editor-replace-selection', () => {
+    const cleanupReplaceSelection = window.auctor.onEditorReplaceSelection(() => {
       setFindBarMode('replace');
       setFindBarVisible(true);
     });
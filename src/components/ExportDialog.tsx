@@ -0,0 +1,393 @@
+import { useState, useEffect } from 'react';
+import { FileOutput, X, Plus, Copy, Trash2, Loader2 } from 'lucide-react';
+import {
+    CHAPTER_HEADING_STYLES,
+    CHAPTER_NUMBERINGS,
+    EXPORT_FORMATS,
+    chapterHeading,
+    newExportProfile,
+    type ChapterHeadingStyle,
+    type ChapterNumbering,
+    type ChapterSelection,
+    type ExportFormat,
+    type ExportProfile,
+} from '../utils/exportProfiles';
+
+interface ExportDialogProps {
+    onClose: () => void;
+}
+
+type ChapterEntry = { file: string; title: string };
+
+const chapterSelectionLabels: Record<ChapterSelection, string> = {
+    all: 'All chapters',
+    range: 'A range',
+    selected: 'Selected chapters',
+};
+
+const inputClass = "w-full bg-white dark:bg-neutral-900 border border-gray-300 dark:border-neutral-700 rounded px-2 py-1.5 text-sm focus:outline-none focus:border-blue-500";
+const labelClass = "block text-xs text-gray-600 dark:text-neutral-400 mb-1";
+const sectionTitleClass = "text-xs font-bold text-gray-500 dark:text-neutral-400 uppercase tracking-wider";
+
+export function ExportDialog({ onClose }: ExportDialogProps) {
+    const [profiles, setProfiles] = useState<ExportProfile[]>([]);
+    const [chapters, setChapters] = useState<ChapterEntry[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+    const [status, setStatus] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+    useEffect(() => {
+        window.auctor.getExportProfiles().then(result => {
+            if (result?.success) {
+                setProfiles(result.profiles);
+                setChapters(result.chapters);
+                setSelectedId(result.profiles[0]?.id ?? null);
+            } else {
+                setStatus({ type: 'error', text: result?.error || 'Could not load the export profiles.' });
+            }
+            setLoading(false);
+        });
+    }, []);
+
+    const profile = profiles.find(p => p.id === selectedId) ?? null;
+
+    const updateProfile = (patch: Partial<ExportProfile>) => {
+        setProfiles(prev => prev.map(p => p.id === selectedId ? { ...p, ...patch } : p));
+        setStatus(null);
+    };
+
+    const addProfile = (base?: ExportProfile) => {
+        const fresh = newExportProfile(base?.format);
+        const created = base ? { ...base, id: fresh.id, name: `${base.name} (copy)` } : fresh;
+        setProfiles(prev => [...prev, created]);
+        setSelectedId(created.id);
+        setStatus(null);
+    };
+
+    const deleteProfile = () => {
+        if (!profile || profiles.length <= 1) return;
+        if (!confirm(`Delete the export profile "${profile.name}"?`)) return;
+        const remaining = profiles.filter(p => p.id !== profile.id);
+        setProfiles(remaining);
+        setSelectedId(remaining[0].id);
+        setStatus(null);
+    };
+
+    const toggleChapter = (file: string) => {
+        if (!profile) return;
+        const selected = profile.selectedChapters.includes(file)
+            ? profile.selectedChapters.filter(f => f !== file)
+            : [...profile.selectedChapters, file];
+        updateProfile({ selectedChapters: selected });
+    };
+
+    const saveProfiles = async (): Promise<boolean> => {
+        const result = await window.auctor.saveExportProfiles(profiles);
+        if (!result?.success) {
+            setStatus({ type: 'error', text: result?.error || 'Could not save the export profiles.' });
+            return false;
+        }
+        setProfiles(result.profiles);
+        return true;
+    };
+
+    const handleSave = async () => {
+        setBusy(true);
+        if (await saveProfiles()) setStatus({ type: 'success', text: 'Profiles saved.' });
+        setBusy(false);
+    };
+
+    const handleExport = async () => {
+        if (!profile) return;
+        setBusy(true);
+        setStatus(null);
+        try {
+            if (!(await saveProfiles())) return;
+            const result = await window.auctor.exportManuscript(profile);
+            if (result?.success) {
+                setStatus({ type: 'success', text: `Exported to ${result.filePath}` });
+            } else if (!result?.cancelled) {
+                setStatus({ type: 'error', text: result?.error || 'Export failed.' });
+            }
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const exampleChapter = profile
+        ? chapterHeading(profile, 1, chapters[0]?.title || 'The Beginning')
+        : '';
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-neutral-800 rounded-lg shadow-2xl w-full max-w-4xl mx-4 overflow-hidden flex flex-col max-h-[90vh]">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-neutral-700">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <FileOutput size={20} />
+                        Export
+                    </h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-200" title="Close">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="px-6 py-8 text-sm text-neutral-500">Loading export profiles...</div>
+                ) : (
+                    <div className="flex flex-1 min-h-0">
+                        {/* Profile list */}
+                        <div className="w-56 shrink-0 border-r border-gray-200 dark:border-neutral-700 flex flex-col">
+                            <div className="flex-1 overflow-y-auto py-2">
+                                {profiles.map(p => (
+                                    <button
+                                        key={p.id}
+                                        onClick={() => { setSelectedId(p.id); setStatus(null); }}
+                                        className={`w-full text-left px-4 py-2 text-sm ${p.id === selectedId ? 'bg-blue-600 text-white' : 'hover:bg-gray-100 dark:hover:bg-neutral-700'}`}
+                                    >
+                                        <div className="truncate">{p.name}</div>
+                                        <div className={`text-xs ${p.id === selectedId ? 'text-blue-100' : 'text-neutral-500'}`}>
+                                            {EXPORT_FORMATS.find(f => f.id === p.format)?.label}
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex gap-1 p-2 border-t border-gray-200 dark:border-neutral-700">
+                                <button onClick={() => addProfile()} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-neutral-700" title="New profile">
+                                    <Plus size={14} />
+                                </button>
+                                <button onClick={() => profile && addProfile(profile)} disabled={!profile} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-neutral-700 disabled:opacity-40" title="Duplicate profile">
+                                    <Copy size={14} />
+                                </button>
+                                <button onClick={deleteProfile} disabled={profiles.length <= 1} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-neutral-700 disabled:opacity-40 ml-auto" title="Delete profile">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* Profile editor */}
+                        {profile && (
+                            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className={labelClass}>Profile Name</label>
+                                        <input
+                                            type="text"
+                                            value={profile.name}
+                                            onChange={(e) => updateProfile({ name: e.target.value })}
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Format</label>
+                                        <select
+                                            value={profile.format}
+                                            onChange={(e) => updateProfile({ format: e.target.value as ExportFormat })}
+                                            className={inputClass}
+                                        >
+                                            {EXPORT_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                                        </select>
+                                    </div>
+                                </div>
+
+                                {/* Chapters */}
+                                <div className="space-y-3">
+                                    <h3 className={sectionTitleClass}>Chapters</h3>
+                                    <div className="flex gap-4 text-sm">
+                                        {(Object.keys(chapterSelectionLabels) as ChapterSelection[]).map(mode => (
+                                            <label key={mode} className="flex items-center gap-1.5">
+                                                <input
+                                                    type="radio"
+                                                    checked={profile.chapters === mode}
+                                                    onChange={() => updateProfile({ chapters: mode })}
+                                                />
+                                                {chapterSelectionLabels[mode]}
+                                            </label>
+                                        ))}
+                                    </div>
+                                    {profile.chapters === 'range' && (
+                                        <div className="flex items-center gap-2 text-sm">
+                                            <span>From chapter</span>
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={Math.max(1, chapters.length)}
+                                                value={profile.rangeFrom}
+                                                onChange={(e) => updateProfile({ rangeFrom: Number(e.target.value) })}
+                                                className={`${inputClass} w-20`}
+                                            />
+                                            <span>to</span>
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={Math.max(1, chapters.length)}
+                                                value={profile.rangeTo}
+                                                onChange={(e) => updateProfile({ rangeTo: Number(e.target.value) })}
+                                                className={`${inputClass} w-20`}
+                                            />
+                                            <span className="text-neutral-500">of {chapters.length}</span>
+                                        </div>
+                                    )}
+                                    {profile.chapters === 'selected' && (
+                                        <div className="max-h-40 overflow-y-auto border border-gray-200 dark:border-neutral-700 rounded p-2 space-y-1">
+                                            {chapters.length === 0 && <p className="text-sm text-neutral-500">The project has no chapters.</p>}
+                                            {chapters.map((chapter, i) => (
+                                                <label key={chapter.file} className="flex items-center gap-2 text-sm">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={profile.selectedChapters.includes(chapter.file)}
+                                                        onChange={() => toggleChapter(chapter.file)}
+                                                    />
+                                                    <span className="text-neutral-500 tabular-nums w-6 text-right">{i + 1}</span>
+                                                    <span className="truncate">{chapter.title}</span>
+                                                </label>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <div className="flex gap-6 text-sm">
+                                        <label className="flex items-center gap-1.5">
+                                            <input
+                                                type="checkbox"
+                                                checked={profile.includeSummaries}
+                                                onChange={(e) => updateProfile({ includeSummaries: e.target.checked })}
+                                            />
+                                            Include chapter summaries
+                                        </label>
+                                        <label className="flex items-center gap-1.5">
+                                            <input
+                                                type="checkbox"
+                                                checked={profile.includeCritiques}
+                                                onChange={(e) => updateProfile({ includeCritiques: e.target.checked })}
+                                            />
+                                            Include critiques
+                                        </label>
+                                    </div>
+                                </div>
+
+                                {/* Chapter headings */}
+                                <div className="space-y-3">
+                                    <h3 className={sectionTitleClass}>Chapter Headings</h3>
+                                    <div className="grid grid-cols-3 gap-4">
+                                        <div>
+                                            <label className={labelClass}>Style</label>
+                                            <select
+                                                value={profile.chapterHeading}
+                                                onChange={(e) => updateProfile({ chapterHeading: e.target.value as ChapterHeadingStyle })}
+                                                className={inputClass}
+                                            >
+                                                {CHAPTER_HEADING_STYLES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Numbering</label>
+                                            <select
+                                                value={profile.numbering}
+                                                onChange={(e) => updateProfile({ numbering: e.target.value as ChapterNumbering })}
+                                                disabled={profile.chapterHeading === 'title'}
+                                                className={`${inputClass} disabled:opacity-50`}
+                                            >
+                                                {CHAPTER_NUMBERINGS.map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Label</label>
+                                            <input
+                                                type="text"
+                                                value={profile.chapterLabel}
+                                                onChange={(e) => updateProfile({ chapterLabel: e.target.value })}
+                                                disabled={profile.chapterHeading === 'title'}
+                                                placeholder="Chapter"
+                                                className={`${inputClass} disabled:opacity-50`}
+                                            />
+                                        </div>
+                                    </div>
+                                    <p className="text-xs text-neutral-500">First chapter: <span className="italic">{exampleChapter}</span></p>
+                                </div>
+
+                                {/* Front matter */}
+                                <div className="space-y-3">
+                                    <h3 className={sectionTitleClass}>Front Matter</h3>
+                                    <label className="flex items-center gap-1.5 text-sm">
+                                        <input
+                                            type="checkbox"
+                                            checked={profile.copyrightPage}
+                                            onChange={(e) => updateProfile({ copyrightPage: e.target.checked })}
+                                        />
+                                        Copyright page
+                                    </label>
+                                    {profile.copyrightPage && (
+                                        <textarea
+                                            value={profile.copyright}
+                                            onChange={(e) => updateProfile({ copyright: e.target.value })}
+                                            rows={3}
+                                            placeholder={`Copyright © ${new Date().getFullYear()} <author>. All rights reserved.`}
+                                            className={inputClass}
+                                        />
+                                    )}
+                                    <div>
+                                        <label className={labelClass}>Dedication</label>
+                                        <textarea
+                                            value={profile.dedication}
+                                            onChange={(e) => updateProfile({ dedication: e.target.value })}
+                                            rows={2}
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                </div>
+
+                                {/* Back matter */}
+                                <div className="space-y-3">
+                                    <h3 className={sectionTitleClass}>Back Matter</h3>
+                                    <div>
+                                        <label className={labelClass}>Acknowledgements</label>
+                                        <textarea
+                                            value={profile.acknowledgements}
+                                            onChange={(e) => updateProfile({ acknowledgements: e.target.value })}
+                                            rows={3}
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>About the Author</label>
+                                        <textarea
+                                            value={profile.aboutTheAuthor}
+                                            onChange={(e) => updateProfile({ aboutTheAuthor: e.target.value })}
+                                            rows={3}
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                    <p className="text-xs text-neutral-500">
+                                        Sections left empty are not exported. Page layout for PDF and Word is set in Project Settings.
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Footer */}
+                <div className="flex items-center gap-3 px-6 py-3 border-t border-gray-200 dark:border-neutral-700">
+                    <div className={`flex-1 text-sm truncate ${status?.type === 'error' ? 'text-red-500' : 'text-neutral-500'}`} title={status?.text}>
+                        {status?.text}
+                    </div>
+                    <button
+                        onClick={handleSave}
+                        disabled={busy || loading}
+                        className="px-4 py-2 text-sm rounded bg-gray-200 dark:bg-neutral-700 hover:bg-gray-300 dark:hover:bg-neutral-600 disabled:opacity-50"
+                    >
+                        Save Profiles
+                    </button>
+                    <button
+                        onClick={handleExport}
+                        disabled={busy || loading || !profile}
+                        className="flex items-center gap-2 px-4 py-2 text-sm rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                    >
+                        {busy && <Loader2 size={14} className="animate-spin" />}
+                        Export
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,96 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { diffLines } from '../utils/lineDiff';
+
+interface FileConflictDialogProps {
+    fileName: string;
+    /** The unsaved edits made in Auctor. */
+    mine: string;
+    /** The file as another program left it on disk. */
+    theirs: string;
+    onKeepMine: () => void;
+    onTakeTheirs: () => void;
+}
+
+// Chapter text is stored as HTML on a single line; one line per paragraph
+// makes the differences readable
+function readableText(content: string) {
+    return content.replace(/(<\/(?:p|h[1-6]|li|blockquote)>|<br\s*\/?>)(?!\n)/gi, '$1\n');
+}
+
+/** Asks which version to keep when the open file was changed both in Auctor and on disk. */
+export function FileConflictDialog({ fileName, mine, theirs, onKeepMine, onTakeTheirs }: FileConflictDialogProps) {
+    const [showDiff, setShowDiff] = useState(false);
+    const lines = useMemo(
+        () => (showDiff ? diffLines(readableText(theirs), readableText(mine)) : []),
+        [showDiff, mine, theirs]
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-neutral-800 rounded-lg shadow-2xl w-full max-w-3xl mx-4 overflow-hidden flex flex-col max-h-[85vh]">
+                <div className="px-6 py-4 border-b border-gray-200 dark:border-neutral-700">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <AlertTriangle size={20} className="text-amber-500" />
+                        {fileName} changed on disk
+                    </h2>
+                    <p className="mt-1 text-sm text-neutral-500">
+                        Another program changed this file while it had unsaved edits here. Choose which version to keep.
+                    </p>
+                </div>
+
+                {showDiff && (
+                    <div className="px-6 py-4 overflow-auto flex-1">
+                        <div className="text-xs text-neutral-500 mb-2">
+                            <span className="text-red-600 dark:text-red-400">- on disk</span>
+                            {'  '}
+                            <span className="text-green-600 dark:text-green-400">+ your edits</span>
+                        </div>
+                        <pre className="rounded bg-white dark:bg-neutral-950 border border-gray-200 dark:border-neutral-800 text-[11px] leading-4 font-mono whitespace-pre-wrap">
+                            {lines.map((line, idx) => (
+                                <div
+                                    key={idx}
+                                    className={
+                                        line.type === 'add'
+                                            ? 'bg-green-500/10 text-green-700 dark:text-green-300'
+                                            : line.type === 'remove'
+                                                ? 'bg-red-500/10 text-red-700 dark:text-red-300'
+                                                : 'text-gray-500 dark:text-neutral-500'
+                                    }
+                                >
+                                    <span className="select-none px-1">{line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}</span>
+                                    {line.text}
+                                </div>
+                            ))}
+                        </pre>
+                    </div>
+                )}
+
+                <div className="px-6 py-4 flex items-center justify-between border-t border-gray-200 dark:border-neutral-700">
+                    <button
+                        onClick={() => setShowDiff(!showDiff)}
+                        className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                        {showDiff ? 'Hide Differences' : 'Show Differences'}
+                    </button>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={onTakeTheirs}
+                            className="px-4 py-2 text-sm rounded border border-gray-300 dark:border-neutral-600 hover:bg-gray-100 dark:hover:bg-neutral-700"
+                            title="Discard your edits and load the file from disk"
+                        >
+                            Take Theirs
+                        </button>
+                        <button
+                            onClick={onKeepMine}
+                            className="px-4 py-2 text-sm rounded bg-blue-600 text-white hover:bg-blue-700"
+                            title="Save your edits over the file on disk"
+                        >
+                            Keep Mine
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
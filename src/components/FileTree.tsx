@@ -11,29 +11,33 @@ import {
   Package,
   Building2
 } from 'lucide-react';
+import { showErrorToast } from './Toast';
+import { FILE_ERROR_MESSAGES, fileNameProblem, PROJECT_CATEGORIES, type ProjectCategory } from '../utils/projectFiles';
+import type { IpcResult, ProjectFile } from '../utils/ipcContract';
+import { discardUnsavedContent, setUnsavedContent, unsavedContent, useUnsavedPaths } from '../utils/unsavedChanges';
 
-interface FileItem {
-  name: string;
-  path: string;
-  category: string;
-  isDirectory: boolean;
-}
+type FileItem = ProjectFile;
 
 interface FileTreeProps {
   onSelectFile: (path: string) => void;
   activeFile?: string | null;
 }
 
-const CATEGORIES = ['Chapters', 'Characters', 'Places', 'Objects', 'Organisations'];
+// Shows why the main process refused a file operation; true when it succeeded
+const reportFileResult = (result: IpcResult) => {
+  if (!result.success) showErrorToast(result.error || FILE_ERROR_MESSAGES[result.code ?? 'io-error']);
+  return result.success;
+};
 
 export function FileTree({ onSelectFile, activeFile }: FileTreeProps) {
   const [files, setFiles] = useState<FileItem[]>([]);
   const [chapterOrder, setChapterOrder] = useState<string[]>([]);
   const [draggedChapterName, setDraggedChapterName] = useState<string | null>(null);
-  const [isCreating, setIsCreating] = useState<{category: string} | null>(null);
+  const [isCreating, setIsCreating] = useState<{category: ProjectCategory} | null>(null);
   const [newFileName, setNewFileName] = useState('');
-  const [editingFile, setEditingFile] = useState<{name: string, category: string} | null>(null);
+  const [editingFile, setEditingFile] = useState<{name: string, category: ProjectCategory} | null>(null);
   const [renameValue, setRenameValue] = useState('');
+  const unsavedPaths = useUnsavedPaths();
   const [expandedCategories, setExpandedCategories] = useState<Record<string, boolean>>({
     'Chapters': true,
     'Characters': true,
@@ -43,10 +47,8 @@ export function FileTree({ onSelectFile, activeFile }: FileTreeProps) {
   });
 
   const refreshFiles = async () => {
-    // @ts-ignore - ipcRenderer exposed in preload
-    const fileList = await window.ipcRenderer.invoke('get-files');
-    // @ts-ignore - ipcRenderer exposed in preload
-    const chapterOrderResult = await window.ipcRenderer.invoke('get-chapter-order');
+    const fileList = await window.auctor.getFiles();
+    const chapterOrderResult = await window.auctor.getChapterOrder();
 
     const normalizedChapterOrder = chapterOrderResult?.success && Array.isArray(chapterOrderResult.order)
       ? chapterOrderResult.order
@@ -54,11 +56,7 @@ export function FileTree({ onSelectFile, activeFile }: FileTreeProps) {
 
     setChapterOrder(normalizedChapterOrder);
 
-    // Ensure we have correct categories associated if coming from legacy
-    setFiles(fileList.map((f: any) => ({
-       ...f,
-       category: f.category || (f.path.includes('Characters') ? 'Characters' : 'Chapters') // fallback
-    })));
+    setFiles(fileList);
   };
 
   useEffect(() => {
@@ -91,10 +89,15 @@ export function FileTree({ onSelectFile, activeFile }: FileTreeProps) {
         finalName += defaultExt;
     }
 
+    const problem = fileNameProblem(finalName);
+    if (problem) {
+        showErrorToast(FILE_ERROR_MESSAGES[problem]);
+        return;
+    }
+
     const defaultContent = finalName.endsWith('.json') ? '{}' : '# New Chapter';
     
-    // @ts-ignore
-    await window.ipcRenderer.invoke('create-file', finalName, defaultContent, isCreating.category);
+    if (!reportFileResult(await window.auctor.createFile(finalName, defaultContent, isCreating.category))) return;
     setNewFileName('');
     setIsCreating(null);
     refreshFiles();
@@ -102,8 +105,9 @@ export function FileTree({ onSelectFile, activeFile }: FileTreeProps) {
 
   const handleDelete = async (file: FileItem) => {
     if (confirm(`Are you sure you want to delete ${file.name}?`)) {
-      // @ts-ignore
-      await window.ipcRenderer.invoke('delete-file', file.name, file.category);
+      if (reportFileResult(await window.auctor.deleteFile(file.name, file.category))) {
+        discardUnsavedContent(file.path);
+      }
       refreshFiles();
     }
   };
@@ -112,8 +116,20 @@ export function FileTree({ onSelectFile, activeFile }: FileTreeProps) {
     e.preventDefault();
     if (!editingFile || !renameValue) return;
 
-    // @ts-ignore
-    await window.ipcRenderer.invoke('rename-file', editingFile.name, renameValue, editingFile.category);
+    const problem = fileNameProblem(renameValue);
+    if (problem) {
+      showErrorToast(FILE_ERROR_MESSAGES[problem]);
+      return;
+    }
+
+    if (!reportFileResult(await window.auctor.renameFile(editingFile.name, renameValue, editingFile.category))) return;
+    // Unsaved edits move with the file
+    const oldPath = `${editingFile.category}/${editingFile.name}`;
+    const unsaved = unsavedContent(oldPath);
+    if (unsaved !== undefined) {
+      discardUnsavedContent(oldPath);
+      setUnsavedContent(`${editingFile.category}/${renameValue}`, unsaved);
+    }
     setEditingFile(null);
     setRenameValue('');
     refreshFiles();
@@ -124,7 +140,7 @@ export function FileTree({ onSelectFile, activeFile }: FileTreeProps) {
     setRenameValue(file.name);
   };
 
-  const startCreating = (category: string) => {
+  const startCreating = (category: ProjectCategory) => {
     setExpandedCategories(prev => ({ ...prev, [category]: true }));
     setIsCreating({ category });
     setNewFileName('');
@@ -168,8 +184,7 @@ export function FileTree({ onSelectFile, activeFile }: FileTreeProps) {
 
     setChapterOrder(reordered);
     setDraggedChapterName(null);
-    // @ts-ignore - ipcRenderer exposed in preload
-    await window.ipcRenderer.invoke('set-chapter-order', reordered);
+    await window.auctor.setChapterOrder(reordered);
   };
 
   return (
@@ -180,7 +195,7 @@ export function FileTree({ onSelectFile, activeFile }: FileTreeProps) {
 
       <div className="flex-1 overflow-y-auto auctor-scrollbar">
         
-        {CATEGORIES.map(category => (
+        {PROJECT_CATEGORIES.map(category => (
             <div key={category} className="mb-1">
                 <div 
                     className="flex items-center justify-between px-2 py-1 hover:bg-gray-100 dark:hover:bg-neutral-800 cursor-pointer text-xs font-bold sticky top-0"
@@ -280,6 +295,9 @@ export function FileTree({ onSelectFile, activeFile }: FileTreeProps) {
                                 ) : (
                                 <span className="truncate">{file.name.replace(/\.[^/.]+$/, "")}</span>
                                 )}
+                                {unsavedPaths.includes(`${file.category}/${file.name}`) && (
+                                    <span className="text-amber-500 text-xs shrink-0" title="Unsaved changes">●</span>
+                                )}
                             </div>
 
                             {/* Actions on Hover */}
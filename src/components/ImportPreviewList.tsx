@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  IMPORT_KIND_LABELS,
+  IMPORT_KIND_ORDER,
+  importActionLabel,
+  type ImportAction,
+  type ImportDecision,
+  type ImportItemStatus,
+  type ImportPreviewItem,
+} from '../utils/importPreview';
+
+interface ImportPreviewListProps {
+  items: ImportPreviewItem[];
+  decisions: Record<string, ImportDecision>;
+  onChange: (id: string, decision: ImportDecision) => void;
+}
+
+const STATUS_STYLES: Record<ImportItemStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-500/10 text-green-700 dark:text-green-300' },
+  match: { label: 'Match', className: 'bg-blue-500/10 text-blue-700 dark:text-blue-300' },
+  conflict: { label: 'Conflict', className: 'bg-amber-500/15 text-amber-700 dark:text-amber-300' },
+};
+
+const selectClass = 'text-xs rounded border border-gray-300 dark:border-neutral-600 bg-white dark:bg-neutral-900 px-1.5 py-1';
+
+const STATUS_NOUNS: Record<ImportItemStatus, [string, string]> = {
+  new: ['new', 'new'],
+  match: ['match', 'matches'],
+  conflict: ['conflict', 'conflicts'],
+};
+
+function countsLabel(items: ImportPreviewItem[]): string {
+  return (['new', 'match', 'conflict'] as ImportItemStatus[])
+    .map(status => [status, items.filter(i => i.status === status).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${count} ${STATUS_NOUNS[status][count === 1 ? 0 : 1]}`)
+    .join(', ');
+}
+
+export function ImportPreviewList({ items, decisions, onChange }: ImportPreviewListProps) {
+  // Groups of only new items start collapsed: there is nothing to decide
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>(() => {
+    const initial: Record<string, boolean> = {};
+    for (const kind of IMPORT_KIND_ORDER) {
+      const group = items.filter(i => i.kind === kind);
+      initial[kind] = group.length > 0 && group.every(i => i.status === 'new');
+    }
+    return initial;
+  });
+
+  const setGroupAction = (group: ImportPreviewItem[], action: ImportAction) => {
+    for (const item of group) {
+      if (item.actions.includes(action)) onChange(item.id, { ...decisions[item.id], action });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {IMPORT_KIND_ORDER.map((kind) => {
+        const group = items.filter(i => i.kind === kind);
+        if (group.length === 0) return null;
+        const isCollapsed = collapsed[kind];
+
+        return (
+          <div key={kind} className="rounded border border-gray-200 dark:border-neutral-700">
+            <div className="flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-neutral-900/40">
+              <button
+                onClick={() => setCollapsed(prev => ({ ...prev, [kind]: !prev[kind] }))}
+                className="flex items-center gap-1.5 text-sm font-medium"
+              >
+                {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                {IMPORT_KIND_LABELS[kind]}
+                <span className="text-xs font-normal text-neutral-500 dark:text-neutral-400">({countsLabel(group)})</span>
+              </button>
+              {group.length > 1 && (
+                <div className="flex items-center gap-2 text-xs">
+                  <button onClick={() => setGroupAction(group, 'skip')} className="text-neutral-500 hover:underline">Skip all</button>
+                  <button
+                    onClick={() => group.forEach(item => onChange(item.id, { ...decisions[item.id], action: item.defaultAction }))}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Reset
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {!isCollapsed && (
+              <ul className="divide-y divide-gray-100 dark:divide-neutral-700/60">
+                {group.map((item) => {
+                  const decision = decisions[item.id] || { action: item.defaultAction };
+                  const status = STATUS_STYLES[item.status];
+                  return (
+                    <li key={item.id} className={`px-3 py-2 flex items-start gap-3 ${decision.action === 'skip' ? 'opacity-60' : ''}`}>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium truncate" title={item.name}>{item.name}</span>
+                          <span className={`text-[10px] uppercase tracking-wide rounded px-1.5 py-0.5 shrink-0 ${status.className}`}>{status.label}</span>
+                        </div>
+                        {item.detail && <p className="text-xs text-neutral-600 dark:text-neutral-300 mt-0.5">{item.detail}</p>}
+                        {item.summary && <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-0.5 line-clamp-2">{item.summary}</p>}
+                      </div>
+                      <div className="flex flex-col items-end gap-1 shrink-0">
+                        <select
+                          value={decision.action}
+                          onChange={(e) => onChange(item.id, { ...decision, action: e.target.value as ImportAction })}
+                          className={selectClass}
+                        >
+                          {item.actions.map(action => (
+                            <option key={action} value={action}>{importActionLabel(item, action)}</option>
+                          ))}
+                        </select>
+                        {decision.action === 'merge' && item.targets.length > 1 && (
+                          <select
+                            value={decision.target ?? item.targets[0].ref}
+                            onChange={(e) => onChange(item.id, { ...decision, target: e.target.value })}
+                            className={`${selectClass} max-w-[180px]`}
+                            title="Merge into"
+                          >
+                            {item.targets.map(target => (
+                              <option key={target.ref} value={target.ref}>into {target.label}</option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,55 +1,77 @@
-import { useState, useEffect } from 'react';
-import { FileText, BookOpen, Users, MapPin, Package, Building2, CheckCircle2, Loader2, AlertCircle, X } from 'lucide-react';
-
-interface ImportSummary {
-    chapters: number;
-    characters: number;
-    places: number;
-    objects: number;
-    organisations: number;
+import { useState, useEffect, useRef } from 'react';
+import { FileText, BookOpen, Users, MapPin, Package, Building2, CheckCircle2, Loader2, AlertCircle, X, RotateCcw, ListChecks, GitMerge } from 'lucide-react';
+import { cancelAIRequest, createAIRequestId } from '../utils/aiRequests';
+import { defaultImportDecisions, type ImportDecision, type ImportPreviewItem, type ImportSummary } from '../utils/importPreview';
+import { ImportPreviewList } from './ImportPreviewList';
+import type { ImportProgress, ImportStage } from '../utils/ipcContract';
+
+interface ChunkProgress {
+    done: number;
+    total: number;
+    resumed: number;
 }
 
+export type ImportSource = 'text' | 'scrivener';
+
 interface ImportProgressModalProps {
     filePath: string;
+    /** A manuscript file analysed with AI, or a Scrivener project read as is. */
+    source?: ImportSource;
     onClose: () => void;
     onComplete: () => void;
 }
 
-type Stage = 'reading' | 'analyzing' | 'parsing' | 'creating' | 'finalizing' | 'done' | 'error';
+type Stage = ImportStage;
 
 const stageConfig: Record<Stage, { icon: typeof FileText; label: string }> = {
     reading: { icon: FileText, label: 'Reading file' },
     analyzing: { icon: BookOpen, label: 'Analysing with AI' },
-    parsing: { icon: FileText, label: 'Parsing results' },
+    parsing: { icon: Users, label: 'Merging characters and places' },
+    review: { icon: ListChecks, label: 'Review changes' },
     creating: { icon: Package, label: 'Creating project files' },
     finalizing: { icon: Building2, label: 'Finalising' },
     done: { icon: CheckCircle2, label: 'Import complete' },
     error: { icon: AlertCircle, label: 'Error' },
 };
 
-const stageOrder: Stage[] = ['reading', 'analyzing', 'parsing', 'creating', 'finalizing', 'done'];
+const stageOrder: Stage[] = ['reading', 'analyzing', 'parsing', 'review', 'creating', 'finalizing', 'done'];
+
+// A Scrivener project is already split into chapters and sheets, so there is no AI analysis
+const scrivenerStageOrder: Stage[] = stageOrder.filter(s => s !== 'analyzing' && s !== 'parsing');
 
-export function ImportProgressModal({ filePath, onClose, onComplete }: ImportProgressModalProps) {
+// Once files start being written the import runs to completion (see apply-import in main.ts)
+const cancellableStages: Stage[] = ['reading', 'analyzing', 'parsing'];
+
+export function ImportProgressModal({ filePath, source = 'text', onClose, onComplete }: ImportProgressModalProps) {
+    const stages = source === 'scrivener' ? scrivenerStageOrder : stageOrder;
     const [currentStage, setCurrentStage] = useState<Stage>('reading');
     const [detail, setDetail] = useState('Starting import...');
     const [summary, setSummary] = useState<ImportSummary | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [completedStages, setCompletedStages] = useState<Set<Stage>>(new Set());
+    const [chunkProgress, setChunkProgress] = useState<ChunkProgress | null>(null);
+    const [cancelling, setCancelling] = useState(false);
+    const [preview, setPreview] = useState<ImportPreviewItem[] | null>(null);
+    const [decisions, setDecisions] = useState<Record<string, ImportDecision>>({});
+    const [applying, setApplying] = useState(false);
+    const requestIdRef = useRef<string | null>(null);
+    const importIdRef = useRef<string | null>(null);
 
     useEffect(() => {
         // Listen for progress updates
-        const removeProgress = window.ipcRenderer.on('import-text-progress', (_: any, data: { stage: string; detail: string }) => {
-            const stage = data.stage as Stage;
+        const removeProgress = window.auctor.onImportTextProgress((data: ImportProgress) => {
+            const stage = data.stage;
             setCurrentStage(stage);
             setDetail(data.detail);
+            if (data.chunk) setChunkProgress(data.chunk);
 
             // Mark previous stages as completed
-            const idx = stageOrder.indexOf(stage);
+            const idx = stages.indexOf(stage);
             if (idx > 0) {
                 setCompletedStages(prev => {
                     const next = new Set(prev);
                     for (let i = 0; i < idx; i++) {
-                        next.add(stageOrder[i]);
+                        next.add(stages[i]);
                     }
                     return next;
                 });
@@ -57,22 +79,28 @@ export function ImportProgressModal({ filePath, onClose, onComplete }: ImportPro
             if (stage === 'done') {
                 setCompletedStages(prev => {
                     const next = new Set(prev);
-                    stageOrder.forEach(s => next.add(s));
+                    stages.forEach(s => next.add(s));
                     return next;
                 });
             }
         });
 
         // Start the import
+        const requestId = createAIRequestId();
+        requestIdRef.current = requestId;
         (async () => {
             try {
-                // @ts-ignore
-                const result = await window.ipcRenderer.invoke('import-text', filePath);
-                if (result.success) {
-                    setSummary(result.summary);
-                    setCurrentStage('done');
-                    setDetail('Import complete!');
-                    setCompletedStages(new Set(stageOrder));
+                const result = await (source === 'scrivener' ? window.auctor.importScrivener : window.auctor.importText)(filePath, requestId);
+                if (!result.success && result.cancelled) {
+                    onClose();
+                } else if (result.success) {
+                    // Nothing is written yet: the author reviews the preview first
+                    importIdRef.current = result.importId;
+                    setPreview(result.preview);
+                    setDecisions(defaultImportDecisions(result.preview));
+                    setCurrentStage('review');
+                    setDetail('Choose what to import');
+                    setCompletedStages(new Set(stages.slice(0, stages.indexOf('review'))));
                 } else {
                     setError(result.error || 'Unknown error');
                     setCurrentStage('error');
@@ -86,19 +114,54 @@ export function ImportProgressModal({ filePath, onClose, onComplete }: ImportPro
         return () => {
             removeProgress();
         };
-    }, [filePath]);
+    }, [filePath, source]);
 
     const isDone = currentStage === 'done';
     const isError = currentStage === 'error';
+    const isReview = currentStage === 'review' && preview !== null && !applying;
+    const canCancel = cancellableStages.includes(currentStage) && !cancelling;
+    const writeCount = preview ? preview.filter(item => decisions[item.id]?.action !== 'skip').length : 0;
+
+    const handleCancel = () => {
+        setCancelling(true);
+        setDetail('Cancelling...');
+        cancelAIRequest(requestIdRef.current);
+    };
+
+    const handleDiscard = async () => {
+        if (importIdRef.current) await window.auctor.discardImport(importIdRef.current);
+        onClose();
+    };
+
+    const handleApply = async () => {
+        const importId = importIdRef.current;
+        if (!importId) return;
+        setApplying(true);
+        try {
+            const result = await window.auctor.applyImport(importId, decisions);
+            if (result.success) {
+                setSummary(result.summary);
+                setCurrentStage('done');
+                setDetail('Import complete!');
+                setCompletedStages(new Set(stages));
+            } else {
+                setError(result.error || 'Unknown error');
+                setCurrentStage('error');
+            }
+        } catch (e) {
+            setError(String(e));
+            setCurrentStage('error');
+        }
+    };
 
     return (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
-            <div className="bg-white dark:bg-neutral-800 rounded-lg shadow-2xl w-full max-w-lg mx-4 overflow-hidden">
+            <div className={`bg-white dark:bg-neutral-800 rounded-lg shadow-2xl w-full ${isReview ? 'max-w-3xl' : 'max-w-lg'} mx-4 overflow-hidden flex flex-col max-h-[90vh]`}>
                 {/* Header */}
                 <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-neutral-700">
                     <h2 className="text-lg font-semibold flex items-center gap-2">
                         <FileText size={20} />
-                        Import Text
+                        {source === 'scrivener' ? 'Import Scrivener Project' : 'Import Text'}
                     </h2>
                     {(isDone || isError) && (
                         <button onClick={isDone ? () => { onComplete(); onClose(); } : onClose} className="text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-200" title="Close">
@@ -108,34 +171,70 @@ export function ImportProgressModal({ filePath, onClose, onComplete }: ImportPro
                 </div>
 
                 {/* Progress Steps */}
-                <div className="px-6 py-4 space-y-3">
-                    {stageOrder.filter(s => s !== 'done').map((stage) => {
+                {!isReview && <div className="px-6 py-4 space-y-3">
+                    {stages.filter(s => s !== 'done').map((stage) => {
                         const config = stageConfig[stage];
                         const Icon = config.icon;
                         const isActive = currentStage === stage;
                         const isCompleted = completedStages.has(stage);
 
                         return (
-                            <div key={stage} className={`flex items-center gap-3 transition-opacity ${isActive || isCompleted ? 'opacity-100' : 'opacity-40'}`}>
-                                {isCompleted ? (
-                                    <CheckCircle2 size={18} className="text-green-500 shrink-0" />
-                                ) : isActive ? (
-                                    <Loader2 size={18} className="text-blue-500 animate-spin shrink-0" />
-                                ) : (
-                                    <Icon size={18} className="text-neutral-400 shrink-0" />
-                                )}
-                                <span className={`text-sm ${isActive ? 'font-medium text-blue-600 dark:text-blue-400' : isCompleted ? 'text-green-700 dark:text-green-400' : ''}`}>
-                                    {config.label}
-                                </span>
-                                {isActive && (
-                                    <span className="text-xs text-neutral-500 dark:text-neutral-400 truncate ml-auto max-w-[200px]">
-                                        {detail}
+                            <div key={stage}>
+                                <div className={`flex items-center gap-3 transition-opacity ${isActive || isCompleted ? 'opacity-100' : 'opacity-40'}`}>
+                                    {isCompleted ? (
+                                        <CheckCircle2 size={18} className="text-green-500 shrink-0" />
+                                    ) : isActive ? (
+                                        <Loader2 size={18} className="text-blue-500 animate-spin shrink-0" />
+                                    ) : (
+                                        <Icon size={18} className="text-neutral-400 shrink-0" />
+                                    )}
+                                    <span className={`text-sm ${isActive ? 'font-medium text-blue-600 dark:text-blue-400' : isCompleted ? 'text-green-700 dark:text-green-400' : ''}`}>
+                                        {stage === 'reading' && source === 'scrivener' ? 'Reading Scrivener project' : config.label}
                                     </span>
+                                    {isActive && (
+                                        <span className="text-xs text-neutral-500 dark:text-neutral-400 truncate ml-auto max-w-[200px]" title={detail}>
+                                            {detail}
+                                        </span>
+                                    )}
+                                </div>
+
+                                {/* Per-passage progress of the AI analysis */}
+                                {stage === 'analyzing' && chunkProgress && isActive && (
+                                    <div className="pl-[30px] mt-2">
+                                        <div className="flex justify-between text-xs text-neutral-500 dark:text-neutral-400 mb-1">
+                                            <span>{chunkProgress.done} of {chunkProgress.total} AI calls</span>
+                                            {chunkProgress.resumed > 0 && (
+                                                <span className="flex items-center gap-1">
+                                                    <RotateCcw size={12} /> Resumed ({chunkProgress.resumed} already done)
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div className="h-1.5 rounded bg-gray-200 dark:bg-neutral-700 overflow-hidden">
+                                            <div
+                                                className="h-full bg-blue-500 transition-all"
+                                                style={{ width: `${(chunkProgress.done / Math.max(1, chunkProgress.total)) * 100}%` }}
+                                            />
+                                        </div>
+                                    </div>
                                 )}
                             </div>
                         );
                     })}
-                </div>
+                </div>}
+
+                {/* Review: what will be created, merged or skipped */}
+                {isReview && (
+                    <div className="px-6 py-4 overflow-y-auto">
+                        <p className="text-sm text-neutral-600 dark:text-neutral-300 mb-3">
+                            Nothing has been written yet. Choose what to create, merge into existing entries, or skip.
+                        </p>
+                        <ImportPreviewList
+                            items={preview}
+                            decisions={decisions}
+                            onChange={(id, decision) => setDecisions(prev => ({ ...prev, [id]: decision }))}
+                        />
+                    </div>
+                )}
 
                 {/* Error */}
                 {isError && error && (
@@ -157,6 +256,8 @@ export function ImportProgressModal({ filePath, onClose, onComplete }: ImportPro
                             <div className="flex items-center gap-2"><MapPin size={14} /> {summary.places} places</div>
                             <div className="flex items-center gap-2"><Package size={14} /> {summary.objects} objects</div>
                             <div className="flex items-center gap-2"><Building2 size={14} /> {summary.organisations} organisations</div>
+                            {!!summary.merged && <div className="flex items-center gap-2"><GitMerge size={14} /> {summary.merged} merged into existing</div>}
+                            {!!summary.skipped && <div className="flex items-center gap-2"><X size={14} /> {summary.skipped} skipped</div>}
                         </div>
                     </div>
                 )}
@@ -177,11 +278,37 @@ export function ImportProgressModal({ filePath, onClose, onComplete }: ImportPro
                         >
                             Close
                         </button>
+                    ) : isReview ? (
+                        <div className="flex items-center gap-3">
+                            <button
+                                onClick={handleDiscard}
+                                className="px-4 py-2 bg-neutral-600 text-white rounded hover:bg-neutral-700 transition-colors text-sm font-medium"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleApply}
+                                disabled={writeCount === 0}
+                                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+                            >
+                                Import {writeCount} {writeCount === 1 ? 'item' : 'items'}
+                            </button>
+                        </div>
                     ) : (
-                        <span className="text-xs text-neutral-500 dark:text-neutral-400 flex items-center gap-2">
-                            <Loader2 size={14} className="animate-spin" />
-                            This may take a minute for large texts...
-                        </span>
+                        <div className="flex items-center gap-3">
+                            <span className="text-xs text-neutral-500 dark:text-neutral-400 flex items-center gap-2">
+                                <Loader2 size={14} className="animate-spin" />
+                                {cancelling ? 'Cancelling...' : source === 'scrivener' ? 'Nothing is written until you review the import.' : 'Long manuscripts take a while; a cancelled import resumes where it stopped.'}
+                            </span>
+                            {canCancel && (
+                                <button
+                                    onClick={handleCancel}
+                                    className="px-4 py-2 bg-neutral-600 text-white rounded hover:bg-neutral-700 transition-colors text-sm font-medium"
+                                >
+                                    Cancel
+                                </button>
+                            )}
+                        </div>
                     )}
                 </div>
             </div>
@@ -11,8 +11,7 @@ export function NewProjectModal({ onConfirm, onCancel }: NewProjectModalProps) {
   const [overview, setOverview] = useState('');
 
   const handleBrowse = async () => {
-     // @ts-ignore
-     const result = await window.ipcRenderer.invoke('select-directory');
+     const result = await window.auctor.selectDirectory();
      if (result) {
          setLocation(result);
      }
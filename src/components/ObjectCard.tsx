@@ -1,7 +1,8 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Save, Package, FileText } from 'lucide-react'; // Changed icon to Package
 import { findChaptersWhereMentioned } from '../utils/chapterMentions';
+import { useUnsavedBuffer } from '../utils/unsavedChanges';
 
 interface ObjectData {
   name: string;
@@ -14,9 +15,10 @@ interface ObjectCardProps {
   initialContent: string;
   onSave: (content: string) => void;
   fileName: string;
+  filePath: string;
 }
 
-export function ObjectCard({ initialContent, onSave, fileName }: ObjectCardProps) {
+export function ObjectCard({ initialContent, onSave, fileName, filePath }: ObjectCardProps) {
   const [data, setData] = useState<ObjectData>({
     name: fileName.replace('.json', ''),
     aka: '',
@@ -50,11 +52,15 @@ export function ObjectCard({ initialContent, onSave, fileName }: ObjectCardProps
     setIsDirty(true);
   };
 
+  const serialize = useCallback(() => JSON.stringify(data, null, 2), [data]);
+
   const handleSave = () => {
-    onSave(JSON.stringify(data, null, 2));
+    onSave(serialize());
     setIsDirty(false);
   };
 
+  useUnsavedBuffer(filePath, isDirty, serialize, setIsDirty);
+
   useEffect(() => {
     let cancelled = false;
     const timer = setTimeout(() => {
@@ -1,6 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Save, Building2, Users, Plus, X, FileText } from 'lucide-react';
 import { findChaptersWhereMentioned } from '../utils/chapterMentions';
+import { useUnsavedBuffer } from '../utils/unsavedChanges';
 
 interface Member {
   name: string;
@@ -17,9 +18,10 @@ interface OrganisationCardProps {
   initialContent: string;
   onSave: (content: string) => void;
   fileName: string;
+  filePath: string;
 }
 
-export function OrganisationCard({ initialContent, onSave, fileName }: OrganisationCardProps) {
+export function OrganisationCard({ initialContent, onSave, fileName, filePath }: OrganisationCardProps) {
   const [data, setData] = useState<OrganisationData>({
     name: fileName.replace('.json', ''),
     goals: '',
@@ -78,8 +80,7 @@ export function OrganisationCard({ initialContent, onSave, fileName }: Organisat
 
   const refreshCharacterFiles = async () => {
     try {
-      // @ts-ignore
-      const files: any[] = await window.ipcRenderer.invoke('get-files');
+      const files: any[] = await window.auctor.getFiles();
       const chars = (files || [])
         .filter((f: any) => f.category === 'Characters' && typeof f.name === 'string')
         .map((f: any) => ({ name: f.name.replace('.json', ''), path: f.path }));
@@ -94,11 +95,15 @@ export function OrganisationCard({ initialContent, onSave, fileName }: Organisat
     setIsDirty(true);
   };
 
+  const serialize = useCallback(() => JSON.stringify(data, null, 2), [data]);
+
   const handleSave = () => {
-    onSave(JSON.stringify(data, null, 2));
+    onSave(serialize());
     setIsDirty(false);
   };
 
+  useUnsavedBuffer(filePath, isDirty, serialize, setIsDirty);
+
   const addMember = () => {
     setData({ ...data, members: [...data.members, { name: '', role: '' }] });
     setIsDirty(true);
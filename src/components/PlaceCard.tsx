@@ -1,6 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Save, MapPin, FileText } from 'lucide-react';
 import { findChaptersWhereMentioned } from '../utils/chapterMentions';
+import { useUnsavedBuffer } from '../utils/unsavedChanges';
 
 interface PlaceData {
   name: string;
@@ -12,9 +13,10 @@ interface PlaceCardProps {
   initialContent: string;
   onSave: (content: string) => void;
   fileName: string;
+  filePath: string;
 }
 
-export function PlaceCard({ initialContent, onSave, fileName }: PlaceCardProps) {
+export function PlaceCard({ initialContent, onSave, fileName, filePath }: PlaceCardProps) {
   const [data, setData] = useState<PlaceData>({
     name: fileName.replace('.json', ''),
     aka: '',
@@ -46,11 +48,15 @@ export function PlaceCard({ initialContent, onSave, fileName }: PlaceCardProps)
     setIsDirty(true);
   };
 
+  const serialize = useCallback(() => JSON.stringify(data, null, 2), [data]);
+
   const handleSave = () => {
-    onSave(JSON.stringify(data, null, 2));
+    onSave(serialize());
     setIsDirty(false);
   };
 
+  useUnsavedBuffer(filePath, isDirty, serialize, setIsDirty);
+
   useEffect(() => {
     let cancelled = false;
     const timer = setTimeout(() => {
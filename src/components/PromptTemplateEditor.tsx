@@ -0,0 +1,234 @@
+import { useState, useRef } from 'react';
+import { Plus, Trash2, RotateCcw, Eye, Code, AlertTriangle } from 'lucide-react';
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  CUSTOM_ACTION_ID_PREFIX,
+  PROMPT_KIND_LABELS,
+  PROMPT_VARIABLES,
+  SAMPLE_PROMPT_VARIABLES,
+  renderPromptTemplate,
+  resolvePromptTemplates,
+  validatePromptTemplate,
+  type CustomSelectionAction,
+  type PromptLibrary,
+  type PromptTemplateKind,
+} from '../utils/promptTemplates';
+
+interface PromptTemplateEditorProps {
+  library: PromptLibrary;
+  onChange: (library: PromptLibrary) => void;
+}
+
+const KIND_ORDER: PromptTemplateKind[] = ['selection', 'refine', 'critique', 'import'];
+
+export function PromptTemplateEditor({ library, onChange }: PromptTemplateEditorProps) {
+  const [selectedId, setSelectedId] = useState(BUILT_IN_PROMPT_TEMPLATES[0].id);
+  const [showPreview, setShowPreview] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const templates = resolvePromptTemplates(library);
+  const selected = templates.find(t => t.id === selectedId) ?? templates[0];
+  const builtIn = BUILT_IN_PROMPT_TEMPLATES.find(t => t.id === selected.id);
+  const isOverridden = !!builtIn && selected.template !== builtIn.template;
+  const problems = validatePromptTemplate(selected.template, selected.kind);
+
+  const updateAction = (id: string, patch: Partial<CustomSelectionAction>) => {
+    onChange({ ...library, actions: library.actions.map(a => a.id === id ? { ...a, ...patch } : a) });
+  };
+
+  const setTemplateText = (text: string) => {
+    if (selected.builtIn) {
+      const overrides = { ...library.overrides };
+      if (text === builtIn?.template) delete overrides[selected.id];
+      else overrides[selected.id] = text;
+      onChange({ ...library, overrides });
+    } else {
+      updateAction(selected.id, { template: text });
+    }
+  };
+
+  const handleAddAction = () => {
+    let n = library.actions.length + 1;
+    while (library.actions.some(a => a.id === `${CUSTOM_ACTION_ID_PREFIX}${n}`)) n++;
+    const action: CustomSelectionAction = {
+      id: `${CUSTOM_ACTION_ID_PREFIX}${n}`,
+      name: 'New Action',
+      menuLabel: '🪄 New Action',
+      description: '',
+      // Start from the Rewrite prompt, which has every section an action usually needs
+      template: templates.find(t => t.id === 'rewrite')!.template,
+    };
+    onChange({ ...library, actions: [...library.actions, action] });
+    setSelectedId(action.id);
+  };
+
+  const handleDeleteAction = () => {
+    onChange({ ...library, actions: library.actions.filter(a => a.id !== selected.id) });
+    setSelectedId(BUILT_IN_PROMPT_TEMPLATES[0].id);
+  };
+
+  // Inserts {{name}} at the cursor
+  const insertVariable = (name: string) => {
+    const el = textareaRef.current;
+    const token = `{{${name}}}`;
+    if (!el) return;
+    const start = el.selectionStart ?? selected.template.length;
+    const end = el.selectionEnd ?? start;
+    setTemplateText(selected.template.slice(0, start) + token + selected.template.slice(end));
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const fieldClass = "w-full bg-white dark:bg-neutral-800 border border-gray-200 dark:border-neutral-700 rounded px-2 py-1.5 text-sm text-gray-900 dark:text-white focus:outline-none focus:border-blue-500";
+
+  return (
+    <div className="flex h-full min-h-0">
+      {/* Template list */}
+      <div className="w-56 shrink-0 border-r border-gray-300 dark:border-neutral-700 overflow-y-auto py-3">
+        {KIND_ORDER.map(kind => (
+          <div key={kind} className="mb-3">
+            <div className="px-4 py-1 text-xs font-bold text-gray-400 dark:text-neutral-500 uppercase tracking-wider">{PROMPT_KIND_LABELS[kind]}</div>
+            {templates.filter(t => t.kind === kind).map(t => {
+              const overridden = t.builtIn && t.template !== BUILT_IN_PROMPT_TEMPLATES.find(b => b.id === t.id)?.template;
+              return (
+                <button
+                  key={t.id}
+                  onClick={() => setSelectedId(t.id)}
+                  className={`w-full text-left px-4 py-1.5 text-sm truncate ${
+                    t.id === selected.id
+                      ? 'bg-blue-50 dark:bg-neutral-700 text-blue-600 dark:text-blue-400'
+                      : 'text-gray-700 dark:text-neutral-300 hover:bg-gray-100 dark:hover:bg-neutral-700/50'
+                  }`}
+                  title={t.description}
+                >
+                  {t.name}{overridden && <span className="text-xs text-amber-500"> (edited)</span>}
+                </button>
+              );
+            })}
+            {kind === 'selection' && (
+              <button
+                onClick={handleAddAction}
+                className="flex items-center gap-1 px-4 py-1.5 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <Plus size={12} /> Add Action
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Editor */}
+      <div className="flex-1 min-w-0 flex flex-col p-4 gap-3 overflow-y-auto">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{selected.name}</h3>
+            {selected.builtIn && <p className="text-xs text-gray-500 dark:text-neutral-400">{selected.description}</p>}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={() => setShowPreview(!showPreview)}
+              className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-200 dark:bg-neutral-700 hover:bg-gray-300 dark:hover:bg-neutral-600 text-gray-600 dark:text-neutral-300 transition-colors"
+              title={showPreview ? 'Edit the template' : 'Preview with sample values'}
+            >
+              {showPreview ? <><Code size={12} /> Edit</> : <><Eye size={12} /> Preview</>}
+            </button>
+            {selected.builtIn ? (
+              <button
+                onClick={() => builtIn && setTemplateText(builtIn.template)}
+                disabled={!isOverridden}
+                className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-200 dark:bg-neutral-700 hover:bg-gray-300 dark:hover:bg-neutral-600 text-gray-600 dark:text-neutral-300 disabled:opacity-40 transition-colors"
+                title="Restore the built-in template"
+              >
+                <RotateCcw size={12} /> Reset
+              </button>
+            ) : (
+              <button
+                onClick={handleDeleteAction}
+                className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-200 dark:bg-neutral-700 hover:bg-red-100 dark:hover:bg-red-900/40 text-gray-600 dark:text-neutral-300 hover:text-red-600 transition-colors"
+                title="Delete this action"
+              >
+                <Trash2 size={12} /> Delete
+              </button>
+            )}
+          </div>
+        </div>
+
+        {!selected.builtIn && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-neutral-400 mb-1">Name</label>
+              <input
+                type="text"
+                value={selected.name}
+                onChange={(e) => updateAction(selected.id, { name: e.target.value })}
+                className={fieldClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-neutral-400 mb-1">Context menu label</label>
+              <input
+                type="text"
+                value={selected.menuLabel || ''}
+                onChange={(e) => updateAction(selected.id, { menuLabel: e.target.value })}
+                className={fieldClass}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs text-gray-500 dark:text-neutral-400 mb-1">Description</label>
+              <input
+                type="text"
+                value={selected.description}
+                onChange={(e) => updateAction(selected.id, { description: e.target.value })}
+                placeholder="What this action does (for your own reference)"
+                className={fieldClass}
+              />
+            </div>
+          </div>
+        )}
+
+        {showPreview ? (
+          <pre className="flex-1 min-h-[300px] whitespace-pre-wrap text-xs font-mono bg-gray-100 dark:bg-neutral-900 border border-gray-200 dark:border-neutral-700 rounded p-3 text-gray-800 dark:text-neutral-200 overflow-y-auto">
+            {renderPromptTemplate(selected.template, SAMPLE_PROMPT_VARIABLES)}
+          </pre>
+        ) : (
+          <textarea
+            ref={textareaRef}
+            value={selected.template}
+            onChange={(e) => setTemplateText(e.target.value)}
+            spellCheck={false}
+            className="flex-1 min-h-[300px] text-xs font-mono bg-white dark:bg-neutral-800 border border-gray-200 dark:border-neutral-700 rounded p-3 text-gray-900 dark:text-white focus:outline-none focus:border-blue-500 resize-none"
+          />
+        )}
+
+        {problems.length > 0 && (
+          <div className="text-xs text-amber-600 dark:text-amber-400 space-y-0.5">
+            {problems.map(p => (
+              <div key={p} className="flex items-center gap-1"><AlertTriangle size={12} /> {p}</div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <div className="text-xs text-gray-500 dark:text-neutral-400 mb-1">
+            Variables (click to insert). Wrap text in <code>{'{{#name}}…{{/name}}'}</code> to include it only when the variable has a value.
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {PROMPT_VARIABLES[selected.kind].map(v => (
+              <button
+                key={v.name}
+                onClick={() => insertVariable(v.name)}
+                disabled={showPreview}
+                title={v.description}
+                className="px-2 py-0.5 text-xs font-mono rounded bg-gray-200 dark:bg-neutral-700 hover:bg-blue-100 dark:hover:bg-neutral-600 text-gray-700 dark:text-neutral-300 disabled:opacity-40 transition-colors"
+              >
+                {`{{${v.name}}}`}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
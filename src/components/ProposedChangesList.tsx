@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { Check, X, ChevronDown, ChevronRight, FilePlus, FileEdit } from 'lucide-react';
+import { diffLines } from '../utils/lineDiff';
+import { stableStringify, type ProposedChange } from '../utils/worldbuilding';
+
+export type ProposedChangeStatus = 'pending' | 'applying' | 'accepted' | 'rejected' | 'failed';
+export type ReviewedChange = ProposedChange & { status: ProposedChangeStatus; error?: string };
+
+interface ProposedChangesListProps {
+  changes: ReviewedChange[];
+  onAccept: (id: string) => void;
+  onReject: (id: string) => void;
+  onAcceptAll: () => void;
+}
+
+function ChangeDiff({ change }: { change: ProposedChange }) {
+  const lines = useMemo(
+    () => diffLines(change.before === null ? '' : stableStringify(change.before), stableStringify(change.after)),
+    [change.before, change.after]
+  );
+
+  return (
+    <pre className="mt-2 max-h-64 overflow-auto rounded bg-white dark:bg-neutral-950 border border-gray-200 dark:border-neutral-800 text-[11px] leading-4 font-mono">
+      {lines.map((line, idx) => (
+        <div
+          key={idx}
+          className={
+            line.type === 'add'
+              ? 'bg-green-500/10 text-green-700 dark:text-green-300'
+              : line.type === 'remove'
+                ? 'bg-red-500/10 text-red-700 dark:text-red-300'
+                : 'text-gray-500 dark:text-neutral-500'
+          }
+        >
+          <span className="select-none px-1">{line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}</span>
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+export function ProposedChangesList({ changes, onAccept, onReject, onAcceptAll }: ProposedChangesListProps) {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const pendingCount = changes.filter(c => c.status === 'pending').length;
+
+  return (
+    <div className="rounded-lg border border-teal-500/30 bg-gray-100/60 dark:bg-neutral-800/40 p-2 space-y-2">
+      <div className="flex items-center justify-between px-1">
+        <span className="text-xs font-semibold text-gray-600 dark:text-neutral-300">
+          Proposed changes {pendingCount > 0 && <span className="text-gray-400 dark:text-neutral-500">({pendingCount} to review)</span>}
+        </span>
+        {pendingCount > 1 && (
+          <button onClick={onAcceptAll} className="text-xs text-teal-600 dark:text-teal-400 hover:underline">
+            Accept all
+          </button>
+        )}
+      </div>
+
+      {changes.map((change) => {
+        const isOpen = expanded[change.id] ?? change.status === 'pending';
+        return (
+          <div key={change.id} className="rounded bg-gray-50 dark:bg-neutral-900 border border-gray-200 dark:border-neutral-800 p-2">
+            <div className="flex items-start gap-2">
+              <button
+                onClick={() => setExpanded(prev => ({ ...prev, [change.id]: !isOpen }))}
+                className="mt-0.5 text-gray-400 dark:text-neutral-500 hover:text-gray-700 dark:hover:text-neutral-200"
+                title={isOpen ? 'Hide diff' : 'Show diff'}
+              >
+                {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+              </button>
+              {change.kind === 'create'
+                ? <FilePlus size={14} className="mt-0.5 shrink-0 text-green-500" />
+                : <FileEdit size={14} className="mt-0.5 shrink-0 text-blue-500" />}
+              <div className="flex-1 min-w-0">
+                <div className="text-xs font-medium text-gray-700 dark:text-neutral-200 truncate" title={change.path ?? 'auctor.json'}>
+                  {change.title}
+                </div>
+                {change.reason && <div className="text-xs text-gray-500 dark:text-neutral-400">{change.reason}</div>}
+                {change.status === 'failed' && change.error && (
+                  <div className="text-xs text-red-500 mt-1">{change.error}</div>
+                )}
+              </div>
+              {change.status === 'pending' || change.status === 'failed' ? (
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => onAccept(change.id)}
+                    title="Accept and save"
+                    className="p-1 rounded text-green-600 dark:text-green-400 hover:bg-green-500/10"
+                  >
+                    <Check size={14} />
+                  </button>
+                  <button
+                    onClick={() => onReject(change.id)}
+                    title="Reject"
+                    className="p-1 rounded text-red-500 hover:bg-red-500/10"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ) : (
+                <span className={`text-[10px] uppercase tracking-wider shrink-0 ${change.status === 'accepted' ? 'text-green-500' : 'text-gray-400 dark:text-neutral-500'}`}>
+                  {change.status === 'applying' ? 'Saving...' : change.status}
+                </span>
+              )}
+            </div>
+            {isOpen && <ChangeDiff change={change} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
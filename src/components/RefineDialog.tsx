@@ -7,6 +7,11 @@ import {
   RefreshCw, MessageSquare,
   Check, X, Loader2, ChevronDown
 } from 'lucide-react';
+import { loadProviderOptions, type ProviderOption } from '../utils/aiProviders';
+import { cancelAIRequest, createAIRequestId, type AIRequestEnd } from '../utils/aiRequests';
+import { buildAIContext, describeContextReport } from '../utils/aiContext';
+import { chapterPromptVariables, getPromptTemplate } from '../utils/promptLibrary';
+import { renderPromptTemplate } from '../utils/promptTemplates';
 
 interface RefineDialogProps {
   selectedHtml: string;
@@ -14,6 +19,9 @@ interface RefineDialogProps {
   chapterSummary: string;
   ageOffset: string;
   style: string;
+  pov: string;
+  subplots: string[];
+  chapterFile: string;
   onAccept: (refinedHtml: string) => void;
   onReject: () => void;
 }
@@ -24,19 +32,26 @@ export function RefineDialog({
   chapterSummary,
   ageOffset,
   style,
+  pov,
+  subplots,
+  chapterFile,
   onAccept,
   onReject,
 }: RefineDialogProps) {
   const [critique, setCritique] = useState('');
+  const [contextSummary, setContextSummary] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [loadingAction, setLoadingAction] = useState<string | null>(null);
   const [selectedProvider, setSelectedProvider] = useState<string>('openai');
-  const [availableProviders, setAvailableProviders] = useState<{id: string, label: string}[]>([]);
+  const [availableProviders, setAvailableProviders] = useState<ProviderOption[]>([]);
   const [showProviderDropdown, setShowProviderDropdown] = useState(false);
   const providerDropdownRef = useRef<HTMLDivElement>(null);
   const critiqueBufferRef = useRef('');
   const rewriteBufferRef = useRef('');
   const isRewritingRef = useRef(false);
+  // Only one critique/rewrite runs at a time; this is its id and, for rewrites, the text it replaced
+  const activeRequestIdRef = useRef<string | null>(null);
+  const preRewriteHtmlRef = useRef<string | null>(null);
 
   // Draggable & resizable state
   const [pos, setPos] = useState({ x: 0, y: 0 });
@@ -50,18 +65,10 @@ export function RefineDialog({
   useEffect(() => {
     const loadProviders = async () => {
       try {
-        // @ts-ignore
-        const result = await window.ipcRenderer.invoke('get-project-settings');
-        if (result.success && result.settings) {
-          const s = result.settings;
-          const providers: {id: string, label: string}[] = [];
-          if (s.apiKey) providers.push({ id: 'openai', label: `OpenAI (${s.openaiModel || 'gpt-4-turbo'})` });
-          if (s.googleApiKey) providers.push({ id: 'google', label: `Google (${s.googleModel?.replace('models/', '') || 'Gemini'})` });
-          if (s.anthropicApiKey) providers.push({ id: 'anthropic', label: `Claude (${s.anthropicModel || 'claude-sonnet-4-20250514'})` });
-          if (s.xaiApiKey) providers.push({ id: 'xai', label: `Grok (${s.xaiModel || 'grok-beta'})` });
-          if (providers.length === 0) providers.push({ id: 'openai', label: 'OpenAI' });
-          setAvailableProviders(providers);
-          setSelectedProvider(s.aiProvider || 'openai');
+        const providers = await loadProviderOptions();
+        if (providers) {
+          setAvailableProviders(providers.options);
+          setSelectedProvider(providers.active);
         }
       } catch {}
     };
@@ -156,75 +163,40 @@ export function RefineDialog({
     },
   });
 
-  // Fetch project context (characters, places, objects) for prompts
-  const fetchContext = useCallback(async () => {
-    let projectOverview = '';
-    try {
-      // @ts-ignore
-      const settingsResult = await window.ipcRenderer.invoke('get-project-settings');
-      if (settingsResult.success && settingsResult.settings) {
-        const { title, author, plot } = settingsResult.settings;
-        let header = '';
-        if (title) header += `Novel: ${title}`;
-        if (author) header += ` by ${author}`;
-        if (header) projectOverview += header + '\n';
-        if (plot) projectOverview += `Overall Plot: ${plot}\n`;
-      }
-    } catch {}
-
-    let entityContext = '';
-    try {
-      // @ts-ignore
-      const files: any[] = await window.ipcRenderer.invoke('get-files');
-      const entityFiles = files.filter((f: any) =>
-        (f.category === 'Characters' || f.category === 'Places' || f.category === 'Objects' || f.category === 'Organisations')
-      );
-      const lines: string[] = [];
-      for (const file of entityFiles) {
-        // @ts-ignore
-        const res = await window.ipcRenderer.invoke('read-file', file.path);
-        if (!res?.success) continue;
-        try {
-          const json = JSON.parse(res.content);
-          const name = json.name || file.name.replace('.json', '');
-          const aka = json.aka ? ` (aka ${json.aka})` : '';
-          if (file.category === 'Characters') {
-            const stage = json.lifeStages?.[0] || {};
-            lines.push(`[Character: ${name}${aka}. Appearance: ${stage.appearance || 'N/A'}. Personality: ${stage.personality || 'N/A'}. Motivation: ${stage.motivation || 'N/A'}]`);
-          } else if (file.category === 'Places') {
-            lines.push(`[Place: ${name}${aka}. Description: ${json.description || 'N/A'}]`);
-          } else if (file.category === 'Objects') {
-            lines.push(`[Object: ${name}${aka}. Description: ${json.description || 'N/A'}]`);
-          } else if (file.category === 'Organisations') {
-            const members = Array.isArray(json.members) ? json.members.map((m: any) => `${m.name}${m.role ? ' (' + m.role + ')' : ''}`).join(', ') : 'N/A';
-            lines.push(`[Organisation: ${name}. Goals: ${json.goals || 'N/A'}. Members: ${members}]`);
-          }
-        } catch {}
-      }
-      entityContext = lines.join('\n');
-    } catch {}
-
-    return { projectOverview, entityContext };
-  }, []);
-
-  // Build context sections for prompts
-  const buildContextSections = useCallback(async () => {
-    const { projectOverview, entityContext } = await fetchContext();
-    const sections: string[] = [];
-    if (projectOverview) sections.push(`Project Overview:\n${projectOverview}`);
-    if (chapterSummary?.trim()) sections.push(`Chapter Summary:\n${chapterSummary.trim()}`);
-    if (ageOffset?.trim() && ageOffset !== '0') sections.push(`Age Offset: ${ageOffset} years`);
-    if (style?.trim()) sections.push(`Writing Style Notes:\n${style.trim()}`);
-    if (entityContext) sections.push(`Characters, Places, Objects & Organisations:\n${entityContext}`);
-    return sections;
-  }, [fetchContext, chapterSummary, ageOffset, style]);
-
-  // Run critique on mount
+  // Renders one of the refine templates; what context goes in (and what doesn't fit) is decided in the main process
+  const buildPrompt = useCallback(async (templateId: string, selection: string, critiqueText?: string) => {
+    const chapterSettings = { summary: chapterSummary, ageOffset, style, pov, subplots };
+    const [context, template] = await Promise.all([
+      buildAIContext({
+        task: 'refine',
+        chapter: fullChapterText,
+        chapterFile,
+        chapterSettings,
+        selection,
+        providerOverride: selectedProvider,
+      }),
+      getPromptTemplate(templateId),
+    ]);
+    setContextSummary(describeContextReport(context.report));
+    return renderPromptTemplate(template?.template || '', chapterPromptVariables(context, {
+      chapterFile,
+      chapterSettings,
+      selection,
+      critique: critiqueText,
+    }));
+  }, [fullChapterText, chapterFile, chapterSummary, ageOffset, style, pov, subplots, selectedProvider]);
+
+  // Run critique on mount; abort whatever is still streaming when the dialog closes
   useEffect(() => {
     runCritique();
+    return () => { cancelAIRequest(activeRequestIdRef.current); };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const handleStop = () => {
+    cancelAIRequest(activeRequestIdRef.current);
+  };
+
   const runCritique = async () => {
     if (!editor) return;
     setIsLoading(true);
@@ -232,41 +204,29 @@ export function RefineDialog({
     setCritique('');
     critiqueBufferRef.current = '';
 
-    const currentText = editor.getText();
-    const sections = await buildContextSections();
-
-    const prompt = `Critique the following selected passage from a novel chapter. Focus on pacing, tone, character voice, consistency with the established world and plot, and any issues with clarity or flow.
+    const prompt = await buildPrompt('refine-critique', editor.getText());
 
-${sections.join('\n\n')}
-
-Full Chapter Reference (DO NOT critique this, just use for context):
-${fullChapterText}
-
----
-Selected Passage to Critique:
-${currentText}
----
-
-Provide a concise, actionable critique of the selected passage only.`;
-
-    // @ts-ignore
-    window.ipcRenderer.send('refine-text-completion', { prompt, channel: 'critique', providerOverride: selectedProvider });
+    const requestId = createAIRequestId();
+    activeRequestIdRef.current = requestId;
+    window.auctor.refineTextCompletion({ prompt, channel: 'critique', providerOverride: selectedProvider, requestId, chapter: chapterFile });
   };
 
   // Listen for critique streaming
   useEffect(() => {
-    // @ts-ignore
-    const removeChunk = window.ipcRenderer.on('refine-critique-chunk', (_event: any, chunk: string) => {
+    const removeChunk = window.auctor.onRefineCritiqueChunk((chunk: string, requestId?: string) => {
+      if (requestId !== activeRequestIdRef.current) return;
       critiqueBufferRef.current += chunk;
       setCritique(critiqueBufferRef.current);
     });
-    // @ts-ignore
-    const removeEnd = window.ipcRenderer.on('refine-critique-end', () => {
+    const removeEnd = window.auctor.onRefineCritiqueEnd((info?: AIRequestEnd) => {
+      if (info?.requestId !== activeRequestIdRef.current) return;
+      activeRequestIdRef.current = null;
       setIsLoading(false);
       setLoadingAction(null);
     });
-    // @ts-ignore
-    const removeError = window.ipcRenderer.on('refine-critique-error', (_event: any, error: string) => {
+    const removeError = window.auctor.onRefineCritiqueError((_error: string, requestId?: string) => {
+      if (requestId !== activeRequestIdRef.current) return;
+      activeRequestIdRef.current = null;
       setIsLoading(false);
       setLoadingAction(null);
     });
@@ -280,22 +240,29 @@ Provide a concise, actionable critique of the selected passage only.`;
 
   // Listen for rewrite streaming
   useEffect(() => {
-    // @ts-ignore
-    const removeChunk = window.ipcRenderer.on('refine-rewrite-chunk', (_event: any, chunk: string) => {
-      if (!isRewritingRef.current) return;
+    const removeChunk = window.auctor.onRefineRewriteChunk((chunk: string, requestId?: string) => {
+      if (!isRewritingRef.current || requestId !== activeRequestIdRef.current) return;
       editor?.commands.insertContent(chunk);
     });
-    // @ts-ignore
-    const removeEnd = window.ipcRenderer.on('refine-rewrite-end', () => {
+
+    const finishRewrite = (rollback: boolean) => {
+      // A stopped or failed rewrite restores the text it was replacing
+      if (rollback && preRewriteHtmlRef.current !== null) {
+        editor?.commands.setContent(preRewriteHtmlRef.current);
+      }
+      preRewriteHtmlRef.current = null;
+      activeRequestIdRef.current = null;
       isRewritingRef.current = false;
       setIsLoading(false);
       setLoadingAction(null);
+    };
+    const removeEnd = window.auctor.onRefineRewriteEnd((info?: AIRequestEnd) => {
+      if (info?.requestId !== activeRequestIdRef.current) return;
+      finishRewrite(!!info?.cancelled);
     });
-    // @ts-ignore
-    const removeError = window.ipcRenderer.on('refine-rewrite-error', (_event: any, error: string) => {
-      isRewritingRef.current = false;
-      setIsLoading(false);
-      setLoadingAction(null);
+    const removeError = window.auctor.onRefineRewriteError((_error: string, requestId?: string) => {
+      if (requestId !== activeRequestIdRef.current) return;
+      finishRewrite(true);
     });
 
     return () => {
@@ -311,46 +278,17 @@ Provide a concise, actionable critique of the selected passage only.`;
     setIsLoading(true);
     isRewritingRef.current = true;
 
-    const currentText = editor.getText();
-    const sections = await buildContextSections();
-
-    let instruction = '';
-    if (mode === 'rewrite') {
-      instruction = 'Rewrite the text to improve flow, tone, and clarity while maintaining the author\'s voice.';
-      setLoadingAction('Rewriting...');
-    } else if (mode === 'shorter') {
-      instruction = 'Rewrite the text to be more concise while staying true to the author\'s voice, meaning, tense, and point-of-view. Do not add new information or change events.';
-      setLoadingAction('Making shorter...');
-    } else {
-      instruction = 'Expand the text by adding vivid detail and color while staying true to the author\'s voice, tense, and point-of-view. Add concrete sensory detail, subtext, action beats, and specificity.';
-      setLoadingAction('Making longer...');
-    }
-
-    const critiqueGuidance = critique?.trim()
-      ? `\nCritique (use this feedback to guide your rewrite):\n${critique.trim()}\n`
-      : '';
-
-    const prompt = `You are an expert story editor.
-
-Task:
-${instruction}
-${critiqueGuidance}
-${sections.join('\n\n')}
-
-Full Chapter Reference (DO NOT output this):
-${fullChapterText}
-
-Text to ${mode}:
-${currentText}
-
-Output only the rewritten text. Do not include any explanation or markdown formatting unless appropriate for the story (e.g. italics).`;
+    setLoadingAction(mode === 'rewrite' ? 'Rewriting...' : mode === 'shorter' ? 'Making shorter...' : 'Making longer...');
+    const prompt = await buildPrompt(`refine-${mode}`, editor.getText(), critique?.trim());
 
     // Clear editor and stream new content
+    preRewriteHtmlRef.current = editor.getHTML();
     editor.commands.clearContent();
     rewriteBufferRef.current = '';
 
-    // @ts-ignore
-    window.ipcRenderer.send('refine-text-completion', { prompt, channel: 'rewrite', providerOverride: selectedProvider });
+    const requestId = createAIRequestId();
+    activeRequestIdRef.current = requestId;
+    window.auctor.refineTextCompletion({ prompt, channel: 'rewrite', providerOverride: selectedProvider, requestId, chapter: chapterFile });
   };
 
   const handleAccept = () => {
@@ -377,6 +315,14 @@ Output only the rewritten text. Do not include any explanation or markdown forma
             <div className="flex items-center gap-1 text-yellow-500 text-xs animate-pulse">
               <Loader2 size={12} className="animate-spin" />
               <span>{loadingAction}</span>
+              <button
+                onClick={handleStop}
+                onMouseDown={(e) => e.stopPropagation()}
+                className="ml-1 text-gray-400 hover:text-red-500 transition-colors"
+                title="Stop"
+              >
+                <X size={12} />
+              </button>
             </div>
           )}
         </div>
@@ -495,6 +441,9 @@ Output only the rewritten text. Do not include any explanation or markdown forma
           <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-100 dark:border-neutral-800">
             <MessageSquare size={13} className="text-green-500" />
             <span className="text-xs font-semibold text-gray-500 dark:text-neutral-400 uppercase tracking-wider">Critique</span>
+            {contextSummary && (
+              <span className="ml-auto text-[11px] text-gray-400 dark:text-neutral-500 truncate" title={contextSummary}>{contextSummary}</span>
+            )}
           </div>
           <div className="overflow-y-auto max-h-[25vh] px-4 py-3">
             {critique ? (
@@ -1,7 +1,15 @@
 import { useState, useEffect } from 'react';
-import { Save, BookOpen, Settings, Plus, Trash2, ChevronDown, ChevronUp, GitBranch, Upload } from 'lucide-react';
+import { Save, BookOpen, Settings, Plus, Trash2, ChevronDown, ChevronUp, GitBranch, Upload, RefreshCw, Sparkles } from 'lucide-react';
+import type { AIPriceEntry } from '../utils/aiUsage';
+import { EMPTY_PROMPT_LIBRARY, type PromptLibrary } from '../utils/promptTemplates';
+import { getPromptLibrary, savePromptLibrary } from '../utils/promptLibrary';
+import { PromptTemplateEditor } from './PromptTemplateEditor';
+import { getAIProviders, getEmbeddingBackends, type AIModelOption, type AIProviderDescriptor, type EmbeddingBackendDescriptor } from '../utils/aiProviders';
+import { DEFAULT_PDF_EXPORT_OPTIONS, PDF_FONT_FAMILIES, PDF_TRIM_SIZES, normalizePdfExportOptions, type PdfExportOptions, type PdfFontFamily } from '../utils/pdfExportOptions';
+import { AUTOSAVE_DELAY_LIMITS, DEFAULT_AUTOSAVE_OPTIONS, normalizeAutosaveOptions, type AutosaveOptions } from '../utils/autosaveOptions';
+import { DEFAULT_DOCX_EXPORT_OPTIONS, DOCX_FONTS, DOCX_PROFILES, normalizeDocxExportOptions, type DocxExportOptions, type DocxFont, type DocxProfile } from '../utils/docxExportOptions';
 
-type Tab = 'novel' | 'subplots' | 'settings';
+type Tab = 'novel' | 'subplots' | 'settings' | 'prompts';
 
 interface Subplot {
   id: string;
@@ -22,6 +30,8 @@ export function SettingsModal({ onClose, onSave }: SettingsModalProps) {
   const [title, setTitle] = useState('');
   const [subtitle, setSubtitle] = useState('');
   const [author, setAuthor] = useState('');
+  const [language, setLanguage] = useState('en');
+  const [coverImage, setCoverImage] = useState('');
   const [plot, setPlot] = useState('');
 
   // Subplots
@@ -37,62 +47,98 @@ export function SettingsModal({ onClose, onSave }: SettingsModalProps) {
   // Backup
   const [backupDirectory, setBackupDirectory] = useState('');
   
-  // AI
+  // AI — keys and models are keyed by provider id
+  const [providers, setProviders] = useState<AIProviderDescriptor[]>([]);
   const [aiProvider, setAiProvider] = useState('openai');
-  const [apiKey, setApiKey] = useState('');
-  const [googleApiKey, setGoogleApiKey] = useState('');
-  const [xaiApiKey, setXaiApiKey] = useState('');
-  const [anthropicApiKey, setAnthropicApiKey] = useState('');
-  const [googleModel, setGoogleModel] = useState('gemini-1.5-flash');
-  const [openaiModel, setOpenaiModel] = useState('gpt-4-turbo');
-  const [anthropicModel, setAnthropicModel] = useState('claude-sonnet-4-20250514');
-  const [xaiModel, setXaiModel] = useState('grok-beta');
-  const [availableModels, setAvailableModels] = useState<{id: string, name: string}[]>([]);
-  const [availableOpenaiModels, setAvailableOpenaiModels] = useState<{id: string, name: string}[]>([]);
+  const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
+  const [models, setModels] = useState<Record<string, string>>({});
+  const [baseUrls, setBaseUrls] = useState<Record<string, string>>({});
+  const [availableModels, setAvailableModels] = useState<Record<string, AIModelOption[]>>({});
   const [fetchingModels, setFetchingModels] = useState(false);
-  const [fetchingOpenaiModels, setFetchingOpenaiModels] = useState(false);
+  const [modelsError, setModelsError] = useState('');
+  const [contextTokenBudget, setContextTokenBudget] = useState(16000);
+  const [embeddingBackends, setEmbeddingBackends] = useState<EmbeddingBackendDescriptor[]>([]);
+  const [embeddingBackend, setEmbeddingBackend] = useState('local');
+  const [embeddingModel, setEmbeddingModel] = useState('');
+  const [indexStatus, setIndexStatus] = useState('');
+  const [rebuildingIndex, setRebuildingIndex] = useState(false);
+
+  // Autosave
+  const [autosave, setAutosave] = useState<AutosaveOptions>(DEFAULT_AUTOSAVE_OPTIONS);
+
+  // Usage & Costs
+  const [aiPrices, setAiPrices] = useState<AIPriceEntry[]>([]);
+  const [monthlyBudget, setMonthlyBudget] = useState(0);
+
+  // PDF Export
+  const [pdfExport, setPdfExport] = useState<PdfExportOptions>(DEFAULT_PDF_EXPORT_OPTIONS);
+
+  // Word Export
+  const [docxExport, setDocxExport] = useState<DocxExportOptions>(DEFAULT_DOCX_EXPORT_OPTIONS);
+
+  // Prompt templates (saved to .auctor/prompts.json, not auctor.json)
+  const [promptLibrary, setPromptLibrary] = useState<PromptLibrary>(EMPTY_PROMPT_LIBRARY);
 
   const [loading, setLoading] = useState(true);
 
+  const activeProvider = providers.find(p => p.id === aiProvider);
+  const activeApiKey = apiKeys[aiProvider] || '';
+  const activeBaseUrl = baseUrls[aiProvider] || '';
+
   useEffect(() => {
-    if (aiProvider === 'google' && googleApiKey) {
+    setModelsError('');
+    if (!activeProvider?.canListModels) return;
+    const hasCredentials = activeProvider.requiresKey ? !!activeApiKey : !!activeBaseUrl;
+    if (!hasCredentials) return;
+
+    // Debounced so typing a server URL doesn't fire a request per keystroke
+    const timer = setTimeout(() => {
         setFetchingModels(true);
-        // @ts-ignore
-        window.ipcRenderer.invoke('list-google-models', googleApiKey)
+        window.auctor.listAiModels(activeProvider.id, activeApiKey, activeBaseUrl)
             .then((res: any) => {
                 if (res.success) {
-                    setAvailableModels(res.models);
+                    setAvailableModels(prev => ({ ...prev, [activeProvider.id]: res.models }));
+                } else {
+                    setAvailableModels(prev => ({ ...prev, [activeProvider.id]: [] }));
+                    setModelsError(res.error || 'Could not load models');
                 }
             })
-            .catch(() => {}) 
+            .catch(() => {})
             .finally(() => setFetchingModels(false));
-    }
-  }, [aiProvider, googleApiKey]);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [activeProvider, activeApiKey, activeBaseUrl]);
 
-  useEffect(() => {
-    if (aiProvider === 'openai' && apiKey) {
-        setFetchingOpenaiModels(true);
-        // @ts-ignore
-        window.ipcRenderer.invoke('list-openai-models', apiKey)
-            .then((res: any) => {
-                if (res.success) {
-                    setAvailableOpenaiModels(res.models);
-                }
-            })
-            .catch(() => {})
-            .finally(() => setFetchingOpenaiModels(false));
+  // Spread provider fields from a settings payload (field names come from the registry)
+  const applyProviderSettings = (s: any, providerList: AIProviderDescriptor[]) => {
+    const keys: Record<string, string> = {};
+    const selected: Record<string, string> = {};
+    const urls: Record<string, string> = {};
+    for (const p of providerList) {
+        keys[p.id] = s[p.keySetting] || '';
+        selected[p.id] = s[p.modelSetting] || p.defaultModel;
+        if (p.baseUrlSetting) urls[p.id] = s[p.baseUrlSetting] || p.defaultBaseUrl || '';
     }
-  }, [aiProvider, apiKey]);
+    setApiKeys(keys);
+    setModels(selected);
+    setBaseUrls(urls);
+    if (s.aiProvider) setAiProvider(s.aiProvider);
+  };
 
   useEffect(() => {
     const loadSettings = async () => {
-        // @ts-ignore
-        const result = await window.ipcRenderer.invoke('get-project-settings');
+        const providerList = await getAIProviders();
+        setProviders(providerList);
+        setEmbeddingBackends(await getEmbeddingBackends());
+        setPromptLibrary(await getPromptLibrary());
+        const result = await window.auctor.getProjectSettings();
         if (result.success && result.settings) {
             const s = result.settings;
             setTitle(s.title || '');
             setSubtitle(s.subtitle || '');
             setAuthor(s.author || '');
+            setLanguage(s.language || 'en');
+            setCoverImage(s.coverImage || '');
             setPlot(s.plot || '');
           setBackupDirectory(s.backupDirectory || '');
             setSubplots(Array.isArray(s.subplots) ? s.subplots.map((sp: any) => ({
@@ -103,19 +149,18 @@ export function SettingsModal({ onClose, onSave }: SettingsModalProps) {
             setTheme(s.theme || 'dark');
             setFontFamily(s.fontFamily || 'sans-serif');
             setFontSize(s.fontSize || 16);
+            if (s.contextTokenBudget) setContextTokenBudget(s.contextTokenBudget);
+            setEmbeddingBackend(s.embeddingBackend || 'local');
+            setEmbeddingModel(s.embeddingModel || '');
+            setAiPrices(Array.isArray(s.aiPrices) ? s.aiPrices : []);
+            setMonthlyBudget(Number(s.monthlyBudget) || 0);
+            setPdfExport(normalizePdfExportOptions(s.pdfExport));
+            setDocxExport(normalizeDocxExportOptions(s.docxExport));
+            setAutosave(normalizeAutosaveOptions(s.autosave));
             
-            setAiProvider(s.aiProvider || 'openai');
-            setApiKey(s.apiKey || '');
-            setGoogleApiKey(s.googleApiKey || '');
-            setXaiApiKey(s.xaiApiKey || '');
-            setAnthropicApiKey(s.anthropicApiKey || '');
-            if (s.googleModel) setGoogleModel(s.googleModel);
-            if (s.openaiModel) setOpenaiModel(s.openaiModel);
-            if (s.anthropicModel) setAnthropicModel(s.anthropicModel);
-            if (s.xaiModel) setXaiModel(s.xaiModel);
+            applyProviderSettings(s, providerList);
         }
-        // @ts-ignore
-        const charsResult = await window.ipcRenderer.invoke('list-characters');
+        const charsResult = await window.auctor.listCharacters();
         if (charsResult.success) {
             setAvailableCharacters(charsResult.characters);
         }
@@ -124,11 +169,24 @@ export function SettingsModal({ onClose, onSave }: SettingsModalProps) {
     loadSettings();
   }, []);
 
-  const handleSave = () => {
+  const handleSave = async () => {
+    const promptResult = await savePromptLibrary(promptLibrary);
+    if (!promptResult?.success) {
+        alert('Failed to save prompt templates: ' + promptResult?.error);
+        return;
+    }
+    const providerFields: Record<string, string> = {};
+    for (const p of providers) {
+        providerFields[p.keySetting] = apiKeys[p.id] || '';
+        providerFields[p.modelSetting] = models[p.id] || p.defaultModel;
+        if (p.baseUrlSetting) providerFields[p.baseUrlSetting] = baseUrls[p.id] || '';
+    }
     onSave({ 
         title,
         subtitle,
         author,
+        language,
+        coverImage,
         plot,
         subplots,
         theme, 
@@ -136,41 +194,63 @@ export function SettingsModal({ onClose, onSave }: SettingsModalProps) {
         fontSize, 
         backupDirectory,
         aiProvider,
-        apiKey,
-        googleApiKey,
-        xaiApiKey,
-        anthropicApiKey,
-        googleModel,
-        openaiModel,
-        anthropicModel,
-        xaiModel
+        contextTokenBudget,
+        embeddingBackend,
+        embeddingModel,
+        aiPrices,
+        monthlyBudget,
+        pdfExport,
+        docxExport,
+        autosave,
+        ...providerFields
     });
   };
 
+  const updatePdfExport = (patch: Partial<PdfExportOptions>) => {
+    setPdfExport(prev => ({ ...prev, ...patch }));
+  };
+
+  const updateDocxExport = (patch: Partial<DocxExportOptions>) => {
+    setDocxExport(prev => ({ ...prev, ...patch }));
+  };
+
+  const updateAutosave = (patch: Partial<AutosaveOptions>) => {
+    setAutosave(prev => ({ ...prev, ...patch }));
+  };
+
+  const updatePrice = (index: number, patch: Partial<AIPriceEntry>) => {
+    setAiPrices(prev => prev.map((p, i) => i === index ? { ...p, ...patch } : p));
+  };
+
+  // Uses the saved settings, so a backend change only takes effect after Save
+  const handleRebuildIndex = async () => {
+    setRebuildingIndex(true);
+    setIndexStatus('');
+    const result = await window.auctor.rebuildRetrievalIndex();
+    setRebuildingIndex(false);
+    setIndexStatus(result?.success
+      ? `Indexed ${result.chunks} passages and entries from ${result.sources} files.`
+      : `Indexing failed: ${result?.error || 'unknown error'}`);
+  };
+
   const handleBrowseBackupDirectory = async () => {
-    // @ts-ignore
-    const selected = await window.ipcRenderer.invoke('select-directory');
+    const selected = await window.auctor.selectDirectory();
     if (selected) setBackupDirectory(selected);
   };
 
+  const handleBrowseCoverImage = async () => {
+    const selected = await window.auctor.selectCoverImage();
+    if (selected) setCoverImage(selected);
+  };
+
   const handleImportLlmSettings = async () => {
-    // @ts-ignore
-    const result = await window.ipcRenderer.invoke('import-llm-settings');
+    const result = await window.auctor.importLlmSettings();
     if (!result.success) {
         if (result.cancelled) return;
         alert(result.error || 'Failed to import LLM settings.');
         return;
     }
-    const s = result.settings;
-    setAiProvider(s.aiProvider);
-    setApiKey(s.apiKey || '');
-    setGoogleApiKey(s.googleApiKey || '');
-    setXaiApiKey(s.xaiApiKey || '');
-    setAnthropicApiKey(s.anthropicApiKey || '');
-    if (s.openaiModel) setOpenaiModel(s.openaiModel);
-    if (s.googleModel) setGoogleModel(s.googleModel);
-    if (s.anthropicModel) setAnthropicModel(s.anthropicModel);
-    if (s.xaiModel) setXaiModel(s.xaiModel);
+    applyProviderSettings(result.settings, providers);
   };
 
   const addSubplot = () => {
@@ -248,6 +328,17 @@ export function SettingsModal({ onClose, onSave }: SettingsModalProps) {
             <Settings size={15} />
             Settings
           </button>
+          <button
+            onClick={() => setActiveTab('prompts')}
+            className={`flex items-center gap-2 px-5 py-3 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === 'prompts'
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'border-transparent text-gray-500 dark:text-neutral-400 hover:text-gray-700 dark:hover:text-neutral-200'
+            }`}
+          >
+            <Sparkles size={15} />
+            Prompts
+          </button>
         </div>
 
         {/* Tab Content */}
@@ -286,6 +377,35 @@ export function SettingsModal({ onClose, onSave }: SettingsModalProps) {
                   className={inputClass}
                 />
               </div>
+              <div className="shrink-0 flex items-end gap-3">
+                <div className="w-28">
+                  <label className={labelClass}>Language</label>
+                  <input
+                    type="text"
+                    value={language}
+                    onChange={(e) => setLanguage(e.target.value)}
+                    placeholder="en"
+                    title="Language tag used in exported ebooks, e.g. en, en-GB, de"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className={labelClass}>Cover Image</label>
+                  <input
+                    type="text"
+                    value={coverImage}
+                    onChange={(e) => setCoverImage(e.target.value)}
+                    placeholder="Used as the EPUB cover (JPEG or PNG)"
+                    className={`${inputClassMuted} font-mono`}
+                  />
+                </div>
+                <button
+                  onClick={handleBrowseCoverImage}
+                  className="shrink-0 px-3 py-2 text-xs rounded bg-gray-200 dark:bg-neutral-700 hover:bg-gray-300 dark:hover:bg-neutral-600 text-gray-600 dark:text-neutral-300 transition-colors"
+                >
+                  Browse…
+                </button>
+              </div>
               <div className="flex-1 flex flex-col min-h-0">
                 <label className={`${labelClass} shrink-0`}>Plot</label>
                 <textarea
@@ -392,6 +512,11 @@ export function SettingsModal({ onClose, onSave }: SettingsModalProps) {
             </div>
           )}
 
+          {/* === PROMPTS TAB === */}
+          {activeTab === 'prompts' && (
+            <PromptTemplateEditor library={promptLibrary} onChange={setPromptLibrary} />
+          )}
+
           {/* === SETTINGS TAB === */}
           {activeTab === 'settings' && (
             <div className="p-6 space-y-6">
@@ -437,6 +562,44 @@ export function SettingsModal({ onClose, onSave }: SettingsModalProps) {
                 </div>
               </div>
 
+              {/* Autosave */}
+              <div className="space-y-4">
+                <h3 className="text-sm font-bold text-gray-500 dark:text-neutral-400 uppercase tracking-wider">Autosave</h3>
+                <div className="grid grid-cols-2 gap-4 items-end">
+                  <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-neutral-300 pb-3">
+                    <input
+                      type="checkbox"
+                      checked={autosave.enabled}
+                      onChange={(e) => updateAutosave({ enabled: e.target.checked })}
+                    />
+                    Save changes automatically
+                  </label>
+                  <div>
+                    <label className={labelClass}>After a Pause Of (seconds)</label>
+                    <input
+                      type="number"
+                      min={AUTOSAVE_DELAY_LIMITS.min}
+                      max={AUTOSAVE_DELAY_LIMITS.max}
+                      value={autosave.delaySeconds}
+                      disabled={!autosave.enabled}
+                      onChange={(e) => updateAutosave({ delaySeconds: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-neutral-300">
+                  <input
+                    type="checkbox"
+                    checked={autosave.saveOnFileSwitch}
+                    onChange={(e) => updateAutosave({ saveOnFileSwitch: e.target.checked })}
+                  />
+                  Save the open file when opening another one
+                </label>
+                <p className="text-xs text-gray-500 dark:text-neutral-400">
+                  Files with unsaved changes are marked with ● in the file tree and title bar. Unsaved changes are kept if Auctor closes unexpectedly and offered back when it starts again.
+                </p>
+              </div>
+
               {/* Backup */}
               <div className="space-y-4">
                 <h3 className="text-sm font-bold text-gray-500 dark:text-neutral-400 uppercase tracking-wider">Backup</h3>
@@ -460,6 +623,144 @@ export function SettingsModal({ onClose, onSave }: SettingsModalProps) {
                 </div>
               </div>
 
+              {/* PDF Export */}
+              <div className="space-y-4">
+                <h3 className="text-sm font-bold text-gray-500 dark:text-neutral-400 uppercase tracking-wider">PDF Export</h3>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>Trim Size</label>
+                    <select
+                      value={pdfExport.trimSize}
+                      onChange={(e) => updatePdfExport({ trimSize: e.target.value })}
+                      className={inputClass}
+                    >
+                      {PDF_TRIM_SIZES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Scene Break</label>
+                    <input
+                      type="text"
+                      value={pdfExport.sceneBreak}
+                      onChange={(e) => updatePdfExport({ sceneBreak: e.target.value })}
+                      placeholder="* * *"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Body Font</label>
+                    <select
+                      value={pdfExport.bodyFont}
+                      onChange={(e) => updatePdfExport({ bodyFont: e.target.value as PdfFontFamily })}
+                      className={inputClass}
+                    >
+                      {PDF_FONT_FAMILIES.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Heading Font</label>
+                    <select
+                      value={pdfExport.headingFont}
+                      onChange={(e) => updatePdfExport({ headingFont: e.target.value as PdfFontFamily })}
+                      className={inputClass}
+                    >
+                      {PDF_FONT_FAMILIES.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Font Size (pt)</label>
+                    <input
+                      type="number"
+                      min={7}
+                      max={18}
+                      step={0.5}
+                      value={pdfExport.fontSize}
+                      onChange={(e) => updatePdfExport({ fontSize: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Line Spacing</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={3}
+                      step={0.05}
+                      value={pdfExport.lineSpacing}
+                      onChange={(e) => updatePdfExport({ lineSpacing: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-4">
+                  {([
+                    ['marginTop', 'Top'],
+                    ['marginBottom', 'Bottom'],
+                    ['marginInside', 'Inside'],
+                    ['marginOutside', 'Outside'],
+                  ] as const).map(([key, label]) => (
+                    <div key={key}>
+                      <label className={labelClass}>{label} Margin (in)</label>
+                      <input
+                        type="number"
+                        min={0.25}
+                        max={2}
+                        step={0.125}
+                        value={pdfExport[key]}
+                        onChange={(e) => updatePdfExport({ [key]: Number(e.target.value) })}
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-neutral-400">
+                  Used by PDF exports. The inside margin is on the binding side and alternates between left- and right-hand pages.
+                </p>
+              </div>
+
+              {/* Word Export */}
+              <div className="space-y-4">
+                <h3 className="text-sm font-bold text-gray-500 dark:text-neutral-400 uppercase tracking-wider">Word Export</h3>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>Profile</label>
+                    <select
+                      value={docxExport.profile}
+                      onChange={(e) => updateDocxExport({ profile: e.target.value as DocxProfile })}
+                      className={inputClass}
+                    >
+                      {DOCX_PROFILES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Manuscript Font</label>
+                    <select
+                      value={docxExport.font}
+                      onChange={(e) => updateDocxExport({ font: e.target.value as DocxFont })}
+                      disabled={docxExport.profile !== 'smf'}
+                      className={`${inputClass} disabled:opacity-50`}
+                    >
+                      {DOCX_FONTS.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                  </div>
+                </div>
+                {docxExport.profile === 'smf' && (
+                  <div>
+                    <label className={labelClass}>Contact Details</label>
+                    <textarea
+                      value={docxExport.contact}
+                      onChange={(e) => updateDocxExport({ contact: e.target.value })}
+                      rows={4}
+                      placeholder={'Legal name\nStreet address\nCity, postcode\nemail@example.com'}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 dark:text-neutral-400">
+                  Used by Word exports. Standard Manuscript Format is 12pt, double-spaced with 1" margins, a surname / title / page header and the word count on the title page. Clean is a plain, book-like document.
+                </p>
+              </div>
+
               {/* AI Settings */}
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
@@ -479,155 +780,234 @@ export function SettingsModal({ onClose, onSave }: SettingsModalProps) {
                     onChange={(e) => setAiProvider(e.target.value)}
                     className={inputClass}
                   >
-                    <option value="openai">OpenAI (GPT-4)</option>
-                    <option value="google">Google Gemini</option>
-                    <option value="anthropic">Anthropic (Claude)</option>
-                    <option value="xai">xAI (Grok)</option>
+                    {providers.map(p => (
+                      <option key={p.id} value={p.id}>{p.label}</option>
+                    ))}
                   </select>
                 </div>
 
-                {aiProvider === 'openai' && (
+                {activeProvider && (() => {
+                  const p = activeProvider;
+                  const currentModel = models[p.id] || p.defaultModel;
+                  const modelOptions = availableModels[p.id] ?? p.models ?? [];
+                  return (
                   <div className="space-y-4">
+                    {p.baseUrlSetting && (
+                      <div>
+                        <label className={labelClass}>Server URL</label>
+                        <input
+                          type="text"
+                          value={activeBaseUrl}
+                          onChange={(e) => setBaseUrls(prev => ({ ...prev, [p.id]: e.target.value }))}
+                          placeholder={p.defaultBaseUrl}
+                          className={`${inputClass} font-mono`}
+                        />
+                        <p className="mt-1 text-xs text-gray-400 dark:text-neutral-500">
+                          Ollama: http://localhost:11434/v1 · LM Studio: http://localhost:1234/v1 · llama.cpp: http://localhost:8080/v1.
+                          A URL with a path is used as entered; /v1 is added only to a bare address such as http://localhost:11434.
+                        </p>
+                      </div>
+                    )}
                     <div>
-                      <label className={labelClass}>OpenAI API Key</label>
+                      <label className={labelClass}>{p.shortLabel} API Key{!p.requiresKey && ' (optional)'}</label>
                       <input 
                         type="password"
-                        value={apiKey}
-                        onChange={(e) => setApiKey(e.target.value)}
-                        placeholder="sk-..."
+                        value={activeApiKey}
+                        onChange={(e) => setApiKeys(prev => ({ ...prev, [p.id]: e.target.value }))}
+                        placeholder={p.keyPlaceholder}
                         className={`${inputClass} font-mono`}
                       />
                     </div>
                     <div>
                       <label className={labelClass}>
                         Model
-                        {fetchingOpenaiModels && <span className="ml-2 text-xs text-gray-400 dark:text-neutral-500">(Loading models...)</span>}
-                      </label>
-                      <select
-                        value={openaiModel}
-                        title="Select OpenAI model"
-                        onChange={(e) => setOpenaiModel(e.target.value)}
-                        disabled={fetchingOpenaiModels || availableOpenaiModels.length === 0}
-                        className={`${inputClass} disabled:opacity-50`}
-                      >
-                        {availableOpenaiModels.length > 0 ? (
-                          availableOpenaiModels.map(model => (
-                            <option key={model.id} value={model.id}>
-                              {model.name}
-                            </option>
-                          ))
-                        ) : (
-                          <option value={openaiModel}>{openaiModel || 'Enter API Key to load models'}</option>
-                        )}
-                      </select>
-                    </div>
-                  </div>
-                )}
-                
-                {aiProvider === 'google' && (
-                  <div className="space-y-4">
-                    <div>
-                      <label className={labelClass}>Google Gemini API Key</label>
-                      <input 
-                        type="password"
-                        value={googleApiKey}
-                        onChange={(e) => setGoogleApiKey(e.target.value)}
-                        placeholder="AIza..."
-                        className={`${inputClass} font-mono`}
-                      />
-                    </div>
-                    <div>
-                      <label className={labelClass}>
-                        Generative Model
                         {fetchingModels && <span className="ml-2 text-xs text-gray-400 dark:text-neutral-500">(Loading models...)</span>}
                       </label>
-                      <select 
-                        value={googleModel}
-                        title="Select generative model"
-                        onChange={(e) => setGoogleModel(e.target.value)}
-                        disabled={fetchingModels || availableModels.length === 0}
+                      {!p.requiresKey ? (
+                        // Local servers may not list models (or list them under other names), so allow free text
+                        <>
+                          <input
+                            type="text"
+                            list={`${p.id}-models`}
+                            value={currentModel}
+                            onChange={(e) => setModels(prev => ({ ...prev, [p.id]: e.target.value }))}
+                            placeholder="e.g. llama3.1:8b"
+                            className={`${inputClass} font-mono`}
+                          />
+                          <datalist id={`${p.id}-models`}>
+                            {modelOptions.map(model => (
+                              <option key={model.id} value={model.id} />
+                            ))}
+                          </datalist>
+                          {modelsError && (
+                            <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                              Couldn't list models from the server; enter the model name manually.
+                            </p>
+                          )}
+                        </>
+                      ) : (
+                      <select
+                        value={currentModel}
+                        title={`Select ${p.shortLabel} model`}
+                        onChange={(e) => setModels(prev => ({ ...prev, [p.id]: e.target.value }))}
+                        disabled={fetchingModels || modelOptions.length === 0}
                         className={`${inputClass} disabled:opacity-50`}
                       >
-                        {availableModels.length > 0 ? (
-                          availableModels.map(model => (
+                        {modelOptions.length > 0 ? (
+                          modelOptions.map(model => (
                             <option key={model.id} value={model.id}>
-                              {model.name.replace('models/', '')} ({model.id.replace('models/', '')})
+                              {model.name === model.id
+                                ? model.id.replace('models/', '')
+                                : `${model.name.replace('models/', '')} (${model.id.replace('models/', '')})`}
                             </option>
                           ))
                         ) : (
-                          <option value={googleModel}>{googleModel || 'Enter API Key to load models'}</option>
+                          <option value={currentModel}>{currentModel || 'Enter API Key to load models'}</option>
                         )}
                       </select>
+                      )}
                     </div>
                   </div>
-                )}
+                  );
+                })()}
 
-                {aiProvider === 'anthropic' && (
-                  <div className="space-y-4">
-                    <div>
-                      <label className={labelClass}>Anthropic API Key</label>
-                      <input 
-                        type="password"
-                        value={anthropicApiKey}
-                        onChange={(e) => setAnthropicApiKey(e.target.value)}
-                        placeholder="sk-ant-..."
-                        className={`${inputClass} font-mono`}
-                      />
-                    </div>
-                    <div>
-                      <label className={labelClass}>Model</label>
-                      <select
-                        value={anthropicModel}
-                        title="Select Claude model"
-                        onChange={(e) => setAnthropicModel(e.target.value)}
-                        className={inputClass}
-                      >
-                        <option value="claude-sonnet-4-20250514">Claude Sonnet 4</option>
-                        <option value="claude-opus-4-20250514">Claude Opus 4</option>
-                        <option value="claude-3-7-sonnet-20250219">Claude 3.7 Sonnet</option>
-                        <option value="claude-3-5-sonnet-20241022">Claude 3.5 Sonnet</option>
-                        <option value="claude-3-5-haiku-20241022">Claude 3.5 Haiku</option>
-                        <option value="claude-3-opus-20240229">Claude 3 Opus</option>
-                      </select>
-                    </div>
-                  </div>
-                )}
+                <div>
+                  <label className={labelClass}>Context Budget (tokens)</label>
+                  <input
+                    type="number"
+                    min={2000}
+                    step={1000}
+                    value={contextTokenBudget}
+                    onChange={(e) => setContextTokenBudget(parseInt(e.target.value) || 0)}
+                    className={inputClass}
+                  />
+                  <p className="mt-1 text-xs text-gray-400 dark:text-neutral-500">
+                    How much project context (plot, chapter, characters, places...) rewrites, refine and critiques may send. The most relevant entities for the chapter are kept first.
+                  </p>
+                </div>
 
-                {aiProvider === 'xai' && (
-                  <div className="space-y-4">
-                    <div>
-                      <label className={labelClass}>xAI API Key (Grok)</label>
-                      <input 
-                        type="password"
-                        value={xaiApiKey}
-                        onChange={(e) => setXaiApiKey(e.target.value)}
-                        placeholder="xai-..."
-                        className={`${inputClass} font-mono`}
-                      />
-                    </div>
-                    <div>
-                      <label className={labelClass}>xAI Model</label>
-                      <select
-                        value={xaiModel}
-                        onChange={(e) => setXaiModel(e.target.value)}
-                        className={inputClass}
-                        title="xAI Model"
-                      >
-                        <option value="grok-3">Grok 3</option>
-                        <option value="grok-3-fast">Grok 3 Fast</option>
-                        <option value="grok-3-mini">Grok 3 Mini</option>
-                        <option value="grok-3-mini-fast">Grok 3 Mini Fast</option>
-                        <option value="grok-2">Grok 2</option>
-                        <option value="grok-2-mini">Grok 2 Mini</option>
-                        <option value="grok-beta">Grok Beta</option>
-                      </select>
-                    </div>
+                <div>
+                  <label className={labelClass}>Retrieval Embeddings</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={embeddingBackend}
+                      title="Select embedding backend"
+                      onChange={(e) => { setEmbeddingBackend(e.target.value); setEmbeddingModel(''); }}
+                      className={inputClass}
+                    >
+                      {embeddingBackends.map(b => (
+                        <option key={b.id} value={b.id}>{b.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleRebuildIndex}
+                      disabled={rebuildingIndex}
+                      title="Rebuild the retrieval index"
+                      className="flex items-center gap-1.5 px-3 text-xs rounded bg-gray-200 dark:bg-neutral-700 hover:bg-gray-300 dark:hover:bg-neutral-600 text-gray-600 dark:text-neutral-300 disabled:opacity-50 transition-colors shrink-0"
+                    >
+                      <RefreshCw size={12} className={rebuildingIndex ? 'animate-spin' : ''} /> Rebuild
+                    </button>
                   </div>
-                )}
+                  {embeddingBackend !== 'local' && (
+                    <input
+                      type="text"
+                      value={embeddingModel}
+                      onChange={(e) => setEmbeddingModel(e.target.value)}
+                      placeholder={embeddingBackends.find(b => b.id === embeddingBackend)?.defaultModel}
+                      className={`${inputClass} font-mono mt-2`}
+                    />
+                  )}
+                  <p className="mt-1 text-xs text-gray-400 dark:text-neutral-500">
+                    {indexStatus || 'Used to find related passages across the whole novel. Remote backends use the key of the matching provider above.'}
+                  </p>
+                </div>
 
                 <p className="text-xs text-gray-400 dark:text-neutral-500">Keys are stored locally in your project's .env file</p>
               </div>
 
+              {/* Usage & Costs */}
+              <div className="space-y-4">
+                <h3 className="text-sm font-bold text-gray-500 dark:text-neutral-400 uppercase tracking-wider">Usage &amp; Costs</h3>
+                <div>
+                  <label className={labelClass}>Monthly Budget (USD)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={monthlyBudget}
+                    onChange={(e) => setMonthlyBudget(Math.max(0, Number(e.target.value) || 0))}
+                    className={inputClass}
+                  />
+                  <p className="mt-1 text-xs text-gray-400 dark:text-neutral-500">
+                    The status bar warns when this month's AI spend reaches 80% of the budget and again when it is exceeded. 0 turns warnings off.
+                  </p>
+                </div>
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="text-sm text-gray-600 dark:text-neutral-300">Prices (USD per million tokens)</label>
+                    <button
+                      onClick={() => setAiPrices(prev => [...prev, { provider: aiProvider, model: models[aiProvider] || '', inputPerMillion: 0, outputPerMillion: 0 }])}
+                      className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      <Plus size={12} /> Add Price
+                    </button>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="grid grid-cols-[7rem_1fr_5.5rem_5.5rem_1.5rem] gap-2 text-xs text-gray-400 dark:text-neutral-500">
+                      <span>Provider</span><span>Model</span><span>Input</span><span>Output</span><span />
+                    </div>
+                    {aiPrices.map((price, idx) => (
+                      <div key={idx} className="grid grid-cols-[7rem_1fr_5.5rem_5.5rem_1.5rem] gap-2 items-center">
+                        <select
+                          value={price.provider}
+                          title="Provider"
+                          onChange={(e) => updatePrice(idx, { provider: e.target.value })}
+                          className="bg-white dark:bg-neutral-800 border border-gray-200 dark:border-neutral-700 rounded px-1 py-1 text-xs"
+                        >
+                          <option value="">Any</option>
+                          {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                        </select>
+                        <input
+                          type="text"
+                          value={price.model}
+                          title="Model id; end with * to match every model starting with it"
+                          onChange={(e) => updatePrice(idx, { model: e.target.value })}
+                          className="bg-white dark:bg-neutral-800 border border-gray-200 dark:border-neutral-700 rounded px-2 py-1 text-xs font-mono"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={price.inputPerMillion}
+                          title="Input tokens, USD per million"
+                          onChange={(e) => updatePrice(idx, { inputPerMillion: Number(e.target.value) || 0 })}
+                          className="bg-white dark:bg-neutral-800 border border-gray-200 dark:border-neutral-700 rounded px-2 py-1 text-xs"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={price.outputPerMillion}
+                          title="Output tokens, USD per million"
+                          onChange={(e) => updatePrice(idx, { outputPerMillion: Number(e.target.value) || 0 })}
+                          className="bg-white dark:bg-neutral-800 border border-gray-200 dark:border-neutral-700 rounded px-2 py-1 text-xs"
+                        />
+                        <button
+                          onClick={() => setAiPrices(prev => prev.filter((_, i) => i !== idx))}
+                          className="text-gray-400 hover:text-red-500 transition-colors"
+                          title="Remove price"
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-400 dark:text-neutral-500">
+                    Used to cost the token usage recorded for every AI call. A model ending in * matches every model starting with it. Changing a price re-prices past usage too.
+                  </p>
+                </div>
+              </div>
+
             </div>
           )}
         </div>
@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { BarChart3, X, AlertTriangle } from 'lucide-react';
+import { budgetLevel, formatCost, formatTokens, getUsageReport, USAGE_FEATURE_LABELS, type UsageReport, type UsageTotals } from '../utils/aiUsage';
+
+interface UsageReportModalProps {
+    onClose: () => void;
+}
+
+type Tab = 'day' | 'feature' | 'model' | 'chapter';
+
+const tabLabels: Record<Tab, string> = {
+    day: 'Per day',
+    feature: 'Per feature',
+    model: 'Per model',
+    chapter: 'Per chapter',
+};
+
+const columnLabels: Record<Tab, string> = {
+    day: 'Day',
+    feature: 'Feature',
+    model: 'Model',
+    chapter: 'Chapter',
+};
+
+function costCell(totals: UsageTotals) {
+    if (totals.calls > 0 && totals.unpricedCalls === totals.calls) return '—';
+    return formatCost(totals.cost) + (totals.unpricedCalls > 0 ? '*' : '');
+}
+
+export function UsageReportModal({ onClose }: UsageReportModalProps) {
+    const [report, setReport] = useState<UsageReport | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [tab, setTab] = useState<Tab>('day');
+
+    useEffect(() => {
+        getUsageReport(31).then(r => {
+            setReport(r);
+            setLoading(false);
+        });
+    }, []);
+
+    const rows: { label: string; totals: UsageTotals }[] = !report ? [] : {
+        day: report.byDay.map(d => ({ label: d.day, totals: d })),
+        feature: report.byFeature.map(f => ({ label: USAGE_FEATURE_LABELS[f.feature] || f.feature, totals: f })),
+        model: report.byModel.map(m => ({ label: `${m.provider} / ${m.model}`, totals: m })),
+        chapter: report.byChapter.map(c => ({ label: c.chapter.replace(/\.md$/i, ''), totals: c })),
+    }[tab];
+
+    const level = report ? budgetLevel(report) : 'none';
+    const budgetShare = report && report.monthlyBudget ? Math.min(1, report.monthTotals.cost / report.monthlyBudget) : 0;
+    const hasUnpriced = rows.some(r => r.totals.unpricedCalls > 0);
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-neutral-800 rounded-lg shadow-2xl w-full max-w-2xl mx-4 overflow-hidden flex flex-col max-h-[85vh]">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-neutral-700">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <BarChart3 size={20} />
+                        AI Usage
+                    </h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-neutral-600 dark:hover:text-neutral-200" title="Close">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="px-6 py-8 text-sm text-neutral-500">Loading usage...</div>
+                ) : !report ? (
+                    <div className="px-6 py-8 text-sm text-red-500">Could not load the usage ledger.</div>
+                ) : (
+                    <>
+                        {/* Month summary */}
+                        <div className="px-6 py-4 grid grid-cols-3 gap-4 border-b border-gray-200 dark:border-neutral-700">
+                            <div>
+                                <div className="text-xs uppercase tracking-wider text-neutral-500">This month ({report.month})</div>
+                                <div className="text-xl font-semibold">{costCell(report.monthTotals)}</div>
+                            </div>
+                            <div>
+                                <div className="text-xs uppercase tracking-wider text-neutral-500">Tokens (in / out)</div>
+                                <div className="text-xl font-semibold">
+                                    {formatTokens(report.monthTotals.inputTokens)} / {formatTokens(report.monthTotals.outputTokens)}
+                                </div>
+                            </div>
+                            <div>
+                                <div className="text-xs uppercase tracking-wider text-neutral-500">All time</div>
+                                <div className="text-xl font-semibold">{costCell(report.allTime)}</div>
+                                <div className="text-xs text-neutral-500">{report.allTime.calls} calls</div>
+                            </div>
+
+                            {report.monthlyBudget > 0 && (
+                                <div className="col-span-3">
+                                    <div className="flex justify-between text-xs text-neutral-500 mb-1">
+                                        <span className="flex items-center gap-1">
+                                            {level !== 'ok' && <AlertTriangle size={12} className={level === 'over' ? 'text-red-500' : 'text-amber-500'} />}
+                                            {level === 'over' ? 'Monthly budget exceeded' : level === 'warning' ? 'Approaching monthly budget' : 'Monthly budget'}
+                                        </span>
+                                        <span>{formatCost(report.monthTotals.cost)} of {formatCost(report.monthlyBudget)}</span>
+                                    </div>
+                                    <div className="h-2 rounded bg-gray-200 dark:bg-neutral-700 overflow-hidden">
+                                        <div
+                                            className={`h-full ${level === 'over' ? 'bg-red-500' : level === 'warning' ? 'bg-amber-500' : 'bg-blue-500'}`}
+                                            style={{ width: `${budgetShare * 100}%` }}
+                                        />
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Breakdown */}
+                        <div className="flex gap-1 px-6 pt-3">
+                            {(Object.keys(tabLabels) as Tab[]).map(t => (
+                                <button
+                                    key={t}
+                                    onClick={() => setTab(t)}
+                                    className={`px-3 py-1 text-xs rounded ${tab === t ? 'bg-blue-600 text-white' : 'text-gray-600 dark:text-neutral-300 hover:bg-gray-100 dark:hover:bg-neutral-700'}`}
+                                >
+                                    {tabLabels[t]}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="px-6 py-3 overflow-y-auto">
+                            {rows.length === 0 ? (
+                                <p className="text-sm text-neutral-500 py-4">No AI calls recorded {tab === 'day' ? 'yet' : 'this month'}.</p>
+                            ) : (
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-xs text-left text-neutral-500 border-b border-gray-200 dark:border-neutral-700">
+                                            <th className="py-1 font-medium">{columnLabels[tab]}</th>
+                                            <th className="py-1 font-medium text-right">Calls</th>
+                                            <th className="py-1 font-medium text-right">Input</th>
+                                            <th className="py-1 font-medium text-right">Output</th>
+                                            <th className="py-1 font-medium text-right">Cost</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {rows.map(row => (
+                                            <tr key={row.label} className="border-b border-gray-100 dark:border-neutral-700/50">
+                                                <td className="py-1 truncate max-w-[240px]" title={row.label}>{row.label}</td>
+                                                <td className="py-1 text-right tabular-nums">{row.totals.calls}</td>
+                                                <td className="py-1 text-right tabular-nums">{formatTokens(row.totals.inputTokens)}</td>
+                                                <td className="py-1 text-right tabular-nums">{formatTokens(row.totals.outputTokens)}</td>
+                                                <td className="py-1 text-right tabular-nums">{costCell(row.totals)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                            <p className="mt-3 text-xs text-neutral-500">
+                                {tab === 'day' ? 'Last 31 days with activity.' : 'Current month.'}{' '}
+                                {hasUnpriced && '* Some calls use a model with no price set; their tokens are counted but not costed. '}
+                                Prices and the monthly budget are set in Project Settings.
+                            </p>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,65 @@
+// Renderer side of the context builder (electron/contextBuilder.ts). The
+// types mirror the main process ones.
+
+export type ContextTask = 'rewrite' | 'refine' | 'critique';
+
+export type ContextRequest = {
+  task: ContextTask;
+  chapter: string;
+  chapterFile?: string;
+  chapterSettings?: { summary?: string; ageOffset?: string; style?: string; pov?: string; subplots?: string[] };
+  selection?: string;
+  providerOverride?: string;
+};
+
+export type ContextReportItem = { kind: string; name: string; tokens: number; reason: string };
+
+export type ContextReport = {
+  provider: string;
+  budget: number;
+  usedTokens: number;
+  included: ContextReportItem[];
+  dropped: ContextReportItem[];
+  chapterTruncated: boolean;
+};
+
+export type BuiltContext = {
+  projectOverview: string;
+  chapterNotes: string;
+  subplots: string;
+  entities: string;
+  relatedPassages: string;
+  chapterText: string;
+  report: ContextReport;
+};
+
+/** Builds prompt context in the main process. Falls back to the chapter alone if that fails. */
+export async function buildAIContext(request: ContextRequest): Promise<BuiltContext> {
+  try {
+    const result = await window.auctor.buildAiContext(request);
+    if (result?.success) return result.context;
+    console.error('Error building AI context:', result?.error);
+  } catch (e) {
+    console.error('Error building AI context:', e);
+  }
+  return {
+    projectOverview: '',
+    chapterNotes: '',
+    subplots: '',
+    entities: '',
+    relatedPassages: '',
+    chapterText: request.chapter,
+    report: { provider: '', budget: 0, usedTokens: 0, included: [], dropped: [], chapterTruncated: false },
+  };
+}
+
+/** One-line summary of a context report, e.g. for a chat notice or a tooltip. */
+export function describeContextReport(report: ContextReport): string {
+  const entities = report.included.filter(i => ['Character', 'Place', 'Object', 'Organisation'].includes(i.kind)).length;
+  let text = `Context: ~${report.usedTokens.toLocaleString()} of ${report.budget.toLocaleString()} tokens, ${entities} ${entities === 1 ? 'entity' : 'entities'}`;
+  const passages = report.included.filter(i => i.kind === 'Passage').length;
+  if (passages > 0) text += `, ${passages} related ${passages === 1 ? 'passage' : 'passages'}`;
+  if (report.dropped.length > 0) text += `, ${report.dropped.length} left out (${report.dropped.map(d => d.name).join(', ')})`;
+  if (report.chapterTruncated) text += ', chapter cut to the passage around the selection';
+  return text;
+}
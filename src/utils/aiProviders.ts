@@ -0,0 +1,75 @@
+export type AIModelOption = { id: string; name: string };
+
+// Mirrors AIProviderDescriptor in electron/aiProviders.ts
+export type AIProviderDescriptor = {
+  id: string;
+  label: string;
+  shortLabel: string;
+  keyEnvVar: string;
+  keySetting: string;
+  modelSetting: string;
+  defaultModel: string;
+  keyPlaceholder: string;
+  requiresKey: boolean;
+  baseUrlSetting?: string;
+  defaultBaseUrl?: string;
+  models?: AIModelOption[];
+  canListModels: boolean;
+};
+
+export type ProviderOption = { id: string; label: string };
+
+export async function getAIProviders(): Promise<AIProviderDescriptor[]> {
+  try {
+    const res = await window.auctor.listAiProviders();
+    return res?.success && Array.isArray(res.providers) ? res.providers : [];
+  } catch {
+    return [];
+  }
+}
+
+// Mirrors EmbeddingBackendDescriptor in electron/embeddings.ts
+export type EmbeddingBackendDescriptor = {
+  id: string;
+  label: string;
+  providerId: string | null;
+  defaultModel: string;
+};
+
+export async function getEmbeddingBackends(): Promise<EmbeddingBackendDescriptor[]> {
+  try {
+    const res = await window.auctor.listEmbeddingBackends();
+    return res?.success && Array.isArray(res.backends) ? res.backends : [];
+  } catch {
+    return [];
+  }
+}
+
+const modelDisplayName = (modelId: string) => modelId.replace('models/', '');
+
+/** Keyed providers need a key; keyless (local) ones need an endpoint and a model. */
+export const isProviderConfigured = (p: AIProviderDescriptor, s: Record<string, any>) =>
+  p.requiresKey
+    ? !!s[p.keySetting]
+    : !!(p.baseUrlSetting && s[p.baseUrlSetting] && s[p.modelSetting]);
+
+/**
+ * Builds the provider picker entries (status bar, Refine dialog) from the
+ * project settings: one entry per configured provider.
+ */
+export async function loadProviderOptions(): Promise<{ options: ProviderOption[]; active: string } | null> {
+  const providers = await getAIProviders();
+  const result = await window.auctor.getProjectSettings();
+  if (!result?.success || !result.settings) return null;
+
+  const s = result.settings;
+  const options: ProviderOption[] = providers
+    .filter((p) => isProviderConfigured(p, s))
+    .map((p) => ({ id: p.id, label: `${p.shortLabel} (${modelDisplayName(s[p.modelSetting] || p.defaultModel)})` }));
+
+  if (options.length === 0 && providers.length > 0) {
+    options.push({ id: providers[0].id, label: providers[0].shortLabel });
+  }
+
+  return { options, active: s.aiProvider || providers[0]?.id || 'openai' };
+}
@@ -0,0 +1,17 @@
+// Request ids tie streamed AI events back to the job that started them, and
+// let the UI abort a job via `cancel-ai-request` (see electron/aiRequests.ts).
+
+export type AIRequestEnd = { requestId?: string; cancelled?: boolean };
+
+export function createAIRequestId(): string {
+  return crypto.randomUUID();
+}
+
+export async function cancelAIRequest(requestId: string | null | undefined): Promise<void> {
+  if (!requestId) return;
+  try {
+    await window.auctor.cancelAiRequest(requestId);
+  } catch (err) {
+    console.error('Error cancelling AI request:', err);
+  }
+}
@@ -0,0 +1,73 @@
+// Renderer side of the AI usage ledger (electron/usageLedger.ts). The types
+// mirror the main process ones.
+
+export type UsageFeature = 'assistant' | 'critique' | 'refine' | 'rewrite' | 'import';
+
+export type AIPriceEntry = {
+  provider: string;
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+};
+
+export type UsageTotals = {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+  unpricedCalls: number;
+};
+
+export type UsageReport = {
+  month: string;
+  monthTotals: UsageTotals;
+  monthlyBudget: number;
+  allTime: UsageTotals;
+  byDay: (UsageTotals & { day: string })[];
+  byFeature: (UsageTotals & { feature: UsageFeature })[];
+  byModel: (UsageTotals & { provider: string; model: string })[];
+  byChapter: (UsageTotals & { chapter: string })[];
+};
+
+export const USAGE_FEATURE_LABELS: Record<UsageFeature, string> = {
+  assistant: 'AI Assistant',
+  critique: 'Critique',
+  refine: 'Refine Text',
+  rewrite: 'Rewrite / Shorter / Longer',
+  import: 'Import',
+};
+
+/** Share of the monthly budget at which the status bar starts warning. */
+export const BUDGET_WARNING_SHARE = 0.8;
+
+export async function getUsageReport(days?: number): Promise<UsageReport | null> {
+  try {
+    const result = await window.auctor.getUsageReport(days);
+    if (result?.success) return result.report;
+    console.error('Error loading usage report:', result?.error);
+  } catch (e) {
+    console.error('Error loading usage report:', e);
+  }
+  return null;
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+/** Cents for small amounts, so a few cheap calls don't all read "$0.00". */
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+export function budgetLevel(report: UsageReport): 'none' | 'ok' | 'warning' | 'over' {
+  if (!report.monthlyBudget) return 'none';
+  const share = report.monthTotals.cost / report.monthlyBudget;
+  if (share >= 1) return 'over';
+  if (share >= BUDGET_WARNING_SHARE) return 'warning';
+  return 'ok';
+}
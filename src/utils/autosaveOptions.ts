@@ -0,0 +1,33 @@
+// Options for saving edits automatically, stored in auctor.json as `autosave`.
+// Used by the settings screen and by App, which runs the autosave over the
+// unsaved buffers in src/utils/unsavedChanges.ts.
+
+export type AutosaveOptions = {
+  /** Save a file once the author has paused typing for `delaySeconds`. */
+  enabled: boolean;
+  delaySeconds: number;
+  /** Save the open file when another one is opened. */
+  saveOnFileSwitch: boolean;
+};
+
+export const AUTOSAVE_DELAY_LIMITS = { min: 1, max: 600 };
+
+export const DEFAULT_AUTOSAVE_OPTIONS: AutosaveOptions = {
+  enabled: true,
+  delaySeconds: 5,
+  saveOnFileSwitch: true,
+};
+
+/** Fills in defaults for missing or unknown values. */
+export function normalizeAutosaveOptions(raw: any): AutosaveOptions {
+  const d = DEFAULT_AUTOSAVE_OPTIONS;
+  const o = raw && typeof raw === 'object' ? raw : {};
+  const delay = Number(o.delaySeconds);
+  return {
+    enabled: typeof o.enabled === 'boolean' ? o.enabled : d.enabled,
+    delaySeconds: Number.isFinite(delay)
+      ? Math.min(AUTOSAVE_DELAY_LIMITS.max, Math.max(AUTOSAVE_DELAY_LIMITS.min, Math.round(delay)))
+      : d.delaySeconds,
+    saveOnFileSwitch: typeof o.saveOnFileSwitch === 'boolean' ? o.saveOnFileSwitch : d.saveOnFileSwitch,
+  };
+}
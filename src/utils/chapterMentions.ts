@@ -1,3 +1,5 @@
+import { entityMatchers, extractChapterPlainText } from './chapterText';
+
 type FileItem = {
   name: string;
   path: string;
@@ -9,60 +11,14 @@ type ChapterRef = {
   path: string;
 };
 
-const uniq = (items: string[]) => Array.from(new Set(items));
-
-const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-const splitAliases = (aka: string | undefined | null): string[] => {
-  if (!aka) return [];
-  return aka
-    .split(/[,\n;]/g)
-    .map((t) => t.trim())
-    .filter(Boolean);
-};
-
-const buildTermMatchers = (terms: string[]): RegExp[] => {
-  const cleaned = uniq(
-    terms
-      .map((t) => (t ?? '').trim())
-      .filter((t) => t.length > 0)
-  );
-
-  // Word-ish boundaries: don't match inside larger tokens.
-  // Uses unicode-aware letters/numbers.
-  return cleaned.map((term) => {
-    const escaped = escapeRegExp(term);
-    return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, 'iu');
-  });
-};
-
-const extractChapterPlainText = (raw: string): string => {
-  let text = raw;
-  const match = raw.match(/<text>([\s\S]*?)<\/text>/i);
-  if (match) text = match[1];
-
-  text = text
-    .replace(/<\s*\/p\s*>/gi, '\n\n')
-    .replace(/<br\s*\/?>/gi, '\n')
-    .replace(/<[^>]+>/g, ' ')
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>');
-
-  return text;
-};
-
 async function getAllFiles(): Promise<FileItem[]> {
-  // @ts-ignore
-  const files: FileItem[] = await window.ipcRenderer.invoke('get-files');
+  const files: FileItem[] = await window.auctor.getFiles();
   return Array.isArray(files) ? files : [];
 }
 
 async function readFile(relativePath: string): Promise<string | null> {
   try {
-    // @ts-ignore
-    const res = await window.ipcRenderer.invoke('read-file', relativePath);
+    const res = await window.auctor.readFile(relativePath);
     if (!res?.success) return null;
     return String(res.content ?? '');
   } catch {
@@ -72,8 +28,7 @@ async function readFile(relativePath: string): Promise<string | null> {
 
 async function getChapterOrder(): Promise<string[] | null> {
   try {
-    // @ts-ignore
-    const res = await window.ipcRenderer.invoke('get-chapter-order');
+    const res = await window.auctor.getChapterOrder();
     if (!res?.success || !Array.isArray(res.order)) return null;
     return res.order.filter((x: any) => typeof x === 'string');
   } catch {
@@ -99,8 +54,7 @@ const sortChapters = async (chapters: ChapterRef[]): Promise<ChapterRef[]> => {
 };
 
 export async function findChaptersWhereMentioned(entityName: string, entityAka?: string): Promise<ChapterRef[]> {
-  const terms = uniq([entityName, ...splitAliases(entityAka)]).filter(Boolean);
-  const matchers = buildTermMatchers(terms);
+  const matchers = entityMatchers(entityName, entityAka);
   if (matchers.length === 0) return [];
 
   const files = await getAllFiles();
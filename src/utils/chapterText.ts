@@ -0,0 +1,50 @@
+// Pure text helpers for chapter files, shared by the renderer (chapterMentions)
+// and the main process (assistant tools, story bible). No DOM or IPC access here.
+
+export const uniq = (items: string[]) => Array.from(new Set(items));
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const splitAliases = (aka: string | undefined | null): string[] => {
+  if (!aka) return [];
+  return aka
+    .split(/[,\n;]/g)
+    .map((t) => t.trim())
+    .filter(Boolean);
+};
+
+export const buildTermMatchers = (terms: string[]): RegExp[] => {
+  const cleaned = uniq(
+    terms
+      .map((t) => (t ?? '').trim())
+      .filter((t) => t.length > 0)
+  );
+
+  // Word-ish boundaries: don't match inside larger tokens.
+  // Uses unicode-aware letters/numbers.
+  return cleaned.map((term) => {
+    const escaped = escapeRegExp(term);
+    return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, 'iu');
+  });
+};
+
+/** Matchers for an entity's name and aliases, as used to find the chapters that mention it. */
+export const entityMatchers = (entityName: string, entityAka?: string | null): RegExp[] =>
+  buildTermMatchers(uniq([entityName, ...splitAliases(entityAka)]).filter(Boolean));
+
+export const extractChapterPlainText = (raw: string): string => {
+  let text = raw;
+  const match = raw.match(/<text>([\s\S]*?)<\/text>/i);
+  if (match) text = match[1];
+
+  text = text
+    .replace(/<\s*\/p\s*>/gi, '\n\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+
+  return text;
+};
@@ -0,0 +1,43 @@
+// Options for File → Export to Word, stored in auctor.json as `docxExport`.
+// Shared by the settings screen and the exporter in the main process
+// (electron/docxExport.ts).
+
+/**
+ * "smf" is Standard Manuscript Format, for submitting to agents and editors;
+ * "clean" is a plain, book-like document.
+ */
+export type DocxProfile = 'smf' | 'clean';
+
+export type DocxFont = 'Courier New' | 'Times New Roman';
+
+export type DocxExportOptions = {
+  profile: DocxProfile;
+  /** Body font for the SMF profile; the clean profile always uses Times New Roman. */
+  font: DocxFont;
+  /** Name, address, phone and email for the top of the SMF title page, one per line. */
+  contact: string;
+};
+
+export const DOCX_PROFILES: { id: DocxProfile; label: string }[] = [
+  { id: 'smf', label: 'Standard Manuscript Format' },
+  { id: 'clean', label: 'Clean' },
+];
+
+export const DOCX_FONTS: DocxFont[] = ['Courier New', 'Times New Roman'];
+
+export const DEFAULT_DOCX_EXPORT_OPTIONS: DocxExportOptions = {
+  profile: 'smf',
+  font: 'Times New Roman',
+  contact: '',
+};
+
+/** Fills in defaults for missing or unknown values. */
+export function normalizeDocxExportOptions(raw: any): DocxExportOptions {
+  const d = DEFAULT_DOCX_EXPORT_OPTIONS;
+  const o = raw && typeof raw === 'object' ? raw : {};
+  return {
+    profile: DOCX_PROFILES.some(p => p.id === o.profile) ? o.profile : d.profile,
+    font: DOCX_FONTS.includes(o.font) ? o.font : d.font,
+    contact: typeof o.contact === 'string' ? o.contact.trim() : d.contact,
+  };
+}
@@ -0,0 +1,174 @@
+// Named export profiles, stored in auctor.json as `exportProfiles`. A profile
+// says what goes into an export (which chapters, summaries and critiques,
+// front and back matter) and how chapters are headed; the page layout for
+// each format stays under PDF Export and Word Export in Project Settings.
+// Shared by the export dialog and the main process, which applies a profile
+// to the manuscript before handing it to the format's writer.
+
+export type ExportFormat = 'pdf' | 'epub' | 'docx';
+
+export type ChapterSelection = 'all' | 'range' | 'selected';
+
+export type ChapterHeadingStyle = 'title' | 'number' | 'numberAndTitle';
+
+export type ChapterNumbering = 'arabic' | 'roman' | 'words';
+
+export type ExportProfile = {
+  id: string;
+  name: string;
+  format: ExportFormat;
+  chapters: ChapterSelection;
+  /** First and last chapter of a range, counted from 1 in reading order. */
+  rangeFrom: number;
+  rangeTo: number;
+  /** Chapter files for a "selected" export. */
+  selectedChapters: string[];
+  includeSummaries: boolean;
+  includeCritiques: boolean;
+  dedication: string;
+  copyrightPage: boolean;
+  /** Copyright page text; empty uses "Copyright © <year> <author>. All rights reserved." */
+  copyright: string;
+  acknowledgements: string;
+  aboutTheAuthor: string;
+  chapterHeading: ChapterHeadingStyle;
+  numbering: ChapterNumbering;
+  /** Word before the number, e.g. "Chapter" or "Part"; may be empty. */
+  chapterLabel: string;
+};
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string }[] = [
+  { id: 'pdf', label: 'PDF', extension: 'pdf' },
+  { id: 'epub', label: 'EPUB', extension: 'epub' },
+  { id: 'docx', label: 'Word (DOCX)', extension: 'docx' },
+];
+
+export const CHAPTER_HEADING_STYLES: { id: ChapterHeadingStyle; label: string }[] = [
+  { id: 'title', label: 'Title only' },
+  { id: 'number', label: 'Number only' },
+  { id: 'numberAndTitle', label: 'Number and title' },
+];
+
+export const CHAPTER_NUMBERINGS: { id: ChapterNumbering; label: string }[] = [
+  { id: 'arabic', label: '1, 2, 3' },
+  { id: 'roman', label: 'I, II, III' },
+  { id: 'words', label: 'One, Two, Three' },
+];
+
+const PROFILE_DEFAULTS: Omit<ExportProfile, 'id' | 'name' | 'format'> = {
+  chapters: 'all',
+  rangeFrom: 1,
+  rangeTo: 1,
+  selectedChapters: [],
+  includeSummaries: false,
+  includeCritiques: false,
+  dedication: '',
+  copyrightPage: false,
+  copyright: '',
+  acknowledgements: '',
+  aboutTheAuthor: '',
+  chapterHeading: 'title',
+  numbering: 'arabic',
+  chapterLabel: 'Chapter',
+};
+
+/** The profiles a project starts with: one per format. */
+export const DEFAULT_EXPORT_PROFILES: ExportProfile[] = [
+  { ...PROFILE_DEFAULTS, id: 'print', name: 'Print (PDF)', format: 'pdf', copyrightPage: true },
+  { ...PROFILE_DEFAULTS, id: 'ebook', name: 'Ebook (EPUB)', format: 'epub', copyrightPage: true },
+  { ...PROFILE_DEFAULTS, id: 'manuscript', name: 'Manuscript (Word)', format: 'docx', chapterHeading: 'numberAndTitle' },
+];
+
+export function newExportProfile(format: ExportFormat = 'pdf'): ExportProfile {
+  return {
+    ...PROFILE_DEFAULTS,
+    id: `profile-${Date.now().toString(36)}`,
+    name: 'New profile',
+    format,
+  };
+}
+
+const text = (value: unknown, fallback: string) => typeof value === 'string' ? value : fallback;
+const positive = (value: unknown, fallback: number) => {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n >= 1 ? n : fallback;
+};
+
+/** Fills in defaults for missing or unknown values. */
+export function normalizeExportProfile(raw: any): ExportProfile {
+  const d = PROFILE_DEFAULTS;
+  const o = raw && typeof raw === 'object' ? raw : {};
+  const oneOf = <T extends string>(value: unknown, options: { id: T }[], fallback: T): T =>
+    options.some(option => option.id === value) ? (value as T) : fallback;
+  const rangeFrom = positive(o.rangeFrom, d.rangeFrom);
+  return {
+    id: typeof o.id === 'string' && o.id ? o.id : newExportProfile().id,
+    name: text(o.name, '').trim() || 'Untitled profile',
+    format: oneOf(o.format, EXPORT_FORMATS, 'pdf'),
+    chapters: oneOf(o.chapters, [{ id: 'all' }, { id: 'range' }, { id: 'selected' }], d.chapters),
+    rangeFrom,
+    rangeTo: Math.max(rangeFrom, positive(o.rangeTo, rangeFrom)),
+    selectedChapters: Array.isArray(o.selectedChapters) ? o.selectedChapters.filter((f: unknown) => typeof f === 'string') : [],
+    includeSummaries: !!o.includeSummaries,
+    includeCritiques: !!o.includeCritiques,
+    dedication: text(o.dedication, d.dedication),
+    copyrightPage: !!o.copyrightPage,
+    copyright: text(o.copyright, d.copyright),
+    acknowledgements: text(o.acknowledgements, d.acknowledgements),
+    aboutTheAuthor: text(o.aboutTheAuthor, d.aboutTheAuthor),
+    chapterHeading: oneOf(o.chapterHeading, CHAPTER_HEADING_STYLES, d.chapterHeading),
+    numbering: oneOf(o.numbering, CHAPTER_NUMBERINGS, d.numbering),
+    chapterLabel: text(o.chapterLabel, d.chapterLabel).trim(),
+  };
+}
+
+/** The saved profiles, or the defaults for a project that has none. */
+export function normalizeExportProfiles(raw: any): ExportProfile[] {
+  if (!Array.isArray(raw) || raw.length === 0) return DEFAULT_EXPORT_PROFILES.map(p => ({ ...p }));
+  const seen = new Set<string>();
+  return raw.map(normalizeExportProfile).filter(p => !seen.has(p.id) && !!seen.add(p.id));
+}
+
+// --- Chapter headings ---
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+function numberInWords(n: number): string {
+  if (n < 20) return ONES[n];
+  if (n < 100) return TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10].toLowerCase()}` : '');
+  if (n < 1000) {
+    const rest = n % 100;
+    return `${ONES[Math.floor(n / 100)]} Hundred${rest ? ` and ${numberInWords(rest)}` : ''}`;
+  }
+  return String(n);
+}
+
+function romanNumeral(n: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+  ];
+  let out = '';
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      out += numeral;
+      n -= value;
+    }
+  }
+  return out;
+}
+
+export function formatChapterNumber(n: number, numbering: ChapterNumbering): string {
+  if (numbering === 'roman') return romanNumeral(n);
+  if (numbering === 'words') return numberInWords(n);
+  return String(n);
+}
+
+/** The heading for chapter `n` (from 1), e.g. "Chapter Three: The Road". */
+export function chapterHeading(profile: ExportProfile, n: number, title: string): string {
+  if (profile.chapterHeading === 'title') return title;
+  const number = [profile.chapterLabel, formatChapterNumber(n, profile.numbering)].filter(Boolean).join(' ');
+  return profile.chapterHeading === 'number' || !title ? number : `${number}: ${title}`;
+}
@@ -0,0 +1,63 @@
+// Renderer side of the import review step (electron/importMerge.ts). The
+// types mirror the main process ones.
+
+export type ImportItemKind = 'Chapter' | 'Character' | 'Place' | 'Object' | 'Organisation' | 'Subplot' | 'Plot';
+export type ImportItemStatus = 'new' | 'match' | 'conflict';
+export type ImportAction = 'create' | 'merge' | 'skip';
+
+export type ImportPreviewItem = {
+  id: string;
+  kind: ImportItemKind;
+  name: string;
+  summary: string;
+  status: ImportItemStatus;
+  detail: string;
+  targets: { ref: string; label: string }[];
+  actions: ImportAction[];
+  defaultAction: ImportAction;
+};
+
+export type ImportDecision = { action: ImportAction; target?: string };
+
+export type ImportSummary = {
+  chapters: number;
+  characters: number;
+  places: number;
+  objects: number;
+  organisations: number;
+  merged?: number;
+  skipped?: number;
+};
+
+export const IMPORT_KIND_ORDER: ImportItemKind[] = ['Chapter', 'Character', 'Place', 'Object', 'Organisation', 'Subplot', 'Plot'];
+
+export const IMPORT_KIND_LABELS: Record<ImportItemKind, string> = {
+  Chapter: 'Chapters',
+  Character: 'Characters',
+  Place: 'Places',
+  Object: 'Objects',
+  Organisation: 'Organisations',
+  Subplot: 'Subplots',
+  Plot: 'Plot',
+};
+
+/** What each action does to this particular item, worded for the action picker. */
+export function importActionLabel(item: ImportPreviewItem, action: ImportAction): string {
+  if (action === 'skip') return 'Skip';
+  if (action === 'merge') {
+    if (item.kind === 'Chapter') return 'Replace text';
+    if (item.kind === 'Plot') return 'Append';
+    return 'Merge';
+  }
+  if (item.kind === 'Plot') return item.status === 'new' ? 'Set' : 'Replace';
+  if (item.kind === 'Chapter' && item.status === 'conflict') return 'Create copy';
+  return item.status === 'new' ? 'Create' : 'Create separately';
+}
+
+export function defaultImportDecisions(items: ImportPreviewItem[]): Record<string, ImportDecision> {
+  const decisions: Record<string, ImportDecision> = {};
+  for (const item of items) {
+    decisions[item.id] = { action: item.defaultAction, target: item.targets[0]?.ref };
+  }
+  return decisions;
+}
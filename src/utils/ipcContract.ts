@@ -0,0 +1,374 @@
+// The IPC contract between the main process and the renderer: every channel,
+// what it takes and what it returns. The preload exposes only these channels
+// (as `window.auctor`), and the main process registers its handlers and sends
+// its events through electron/ipc.ts, so both ends are checked against the
+// same types. Types from the main process are mirrored here, as elsewhere in
+// src/utils, because the renderer does not import from electron/.
+
+import type { AIModelOption, AIProviderDescriptor, EmbeddingBackendDescriptor } from './aiProviders';
+import type { AIRequestEnd } from './aiRequests';
+import type { BuiltContext, ContextRequest } from './aiContext';
+import type { AIPriceEntry, UsageReport } from './aiUsage';
+import type { AutosaveOptions } from './autosaveOptions';
+import type { DocxExportOptions } from './docxExportOptions';
+import type { ExportProfile } from './exportProfiles';
+import type { ImportDecision, ImportPreviewItem, ImportSummary } from './importPreview';
+import type { PdfExportOptions } from './pdfExportOptions';
+import type { FileErrorCode, ProjectCategory } from './projectFiles';
+import type { PromptLibrary } from './promptTemplates';
+import type { ProposedChange } from './worldbuilding';
+
+// --- Payloads ---
+
+/** Handlers report failure in the result instead of rejecting. */
+export type IpcFailure = {
+  success: false;
+  error?: string;
+  cancelled?: boolean;
+  /** Set by the file handlers; see src/utils/projectFiles.ts. */
+  code?: FileErrorCode;
+};
+
+export type IpcResult<T = {}> = ({ success: true } & T) | IpcFailure;
+
+/** auctor.json settings, with defaults filled in, plus the provider keys from .env. */
+export type ProjectSettings = {
+  title: string;
+  subtitle: string;
+  author: string;
+  language: string;
+  coverImage: string;
+  plot: string;
+  subplots: any[];
+  theme: string;
+  fontFamily: string;
+  fontSize: number;
+  backupDirectory: string;
+  contextTokenBudget: number;
+  embeddingBackend: string;
+  embeddingModel: string;
+  aiPrices: AIPriceEntry[];
+  monthlyBudget: number;
+  pdfExport: PdfExportOptions;
+  docxExport: DocxExportOptions;
+  autosave: AutosaveOptions;
+  aiProvider: string;
+  /** Provider keys, models and endpoints, named by the AI provider registry. */
+  [setting: string]: any;
+};
+
+/** The provider fields of ProjectSettings. */
+export type ProviderSettings = { aiProvider: string; [setting: string]: string };
+
+export type ProjectFile = { name: string; path: string; category: ProjectCategory; isDirectory: boolean };
+
+// Mirrors ChatSession and ChatSessionSummary in electron/chatSessions.ts
+export type ChatDisplayMessage = { role: 'user' | 'ai' | 'tool'; content: string };
+
+/** What the model sees: AI SDK model messages, including tool calls and results. */
+export type ChatHistoryMessage = { role: 'user' | 'assistant' | 'tool'; content: any };
+
+export type ChatSession = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  pinnedChapter: string | null;
+  messages: ChatDisplayMessage[];
+  history: ChatHistoryMessage[];
+};
+
+export type ChatSessionSummary = Omit<ChatSession, 'messages' | 'history'> & {
+  messageCount: number;
+  preview: string;
+};
+
+// Mirrors UnsavedBuffer in electron/unsavedBuffers.ts
+export type UnsavedBuffer = { path: string; content: string; updatedAt: string };
+
+// Mirrors ProjectFileChange in electron/projectWatcher.ts
+export type ProjectFileChange = { path: string; kind: 'changed' | 'removed' };
+
+export type ChatCompletionEnd = AIRequestEnd & { responseMessages?: ChatHistoryMessage[] };
+
+export type GenerateAICompletionRequest = {
+  /** Single-shot prompt; ignored when `messages` is given. */
+  prompt?: string;
+  /** Full conversation (user, assistant and tool turns), oldest first. */
+  messages?: ChatHistoryMessage[];
+  conversationId?: string;
+  providerOverride?: string;
+  requestId?: string;
+  /** Open chapter file, recorded with the usage. */
+  chapter?: string | null;
+  /** Ledger tag; the chat panel's chapter critique is booked as 'critique'. */
+  feature?: 'assistant' | 'critique';
+};
+
+export type RefineTextRequest = {
+  prompt: string;
+  channel: 'critique' | 'rewrite';
+  providerOverride?: string;
+  requestId?: string;
+  chapter?: string | null;
+};
+
+export type RewriteTextRequest = Omit<RefineTextRequest, 'channel'>;
+
+export type ImportStage = 'reading' | 'analyzing' | 'parsing' | 'review' | 'creating' | 'finalizing' | 'done' | 'error';
+
+export type ImportProgress = {
+  stage: ImportStage;
+  detail: string;
+  /** AI calls done out of the total (passages plus the plot summary). */
+  chunk?: { done: number; total: number; resumed: number };
+};
+
+export type RetrievalIndexStats = { backend: string; model: string; sources: number; chunks: number; embedded: number };
+
+export type ExportChapterOption = { file: string; title: string };
+
+// --- Channels ---
+
+/** Request/response channels (`ipcRenderer.invoke` / `ipcMain.handle`). */
+export type InvokeChannels = {
+  // Projects and files
+  'select-directory': () => string | null;
+  'select-cover-image': () => string | null;
+  'create-project': (project: { name: string; location: string; overview: string }) => IpcResult<{ path: string }>;
+  'get-files': () => ProjectFile[];
+  'get-chapter-order': () => IpcResult<{ order: string[] }>;
+  'set-chapter-order': (order: string[]) => IpcResult<{ order: string[] }>;
+  'create-file': (fileName: string, content?: string, category?: ProjectCategory) => IpcResult<{ path: string }>;
+  'delete-file': (fileName: string, category: ProjectCategory) => IpcResult;
+  'rename-file': (oldName: string, newName: string, category: ProjectCategory) => IpcResult;
+  'read-file': (relativePath: string) => IpcResult<{ content: string }>;
+  'save-file': (relativePath: string, content: string) => IpcResult;
+  'list-characters': () => IpcResult<{ characters: string[] }>;
+  /** Unsaved edits left by a crash, if the author chooses to restore them. */
+  'restore-unsaved-buffers': () => IpcResult<{ buffers: UnsavedBuffer[] }>;
+
+  // Settings
+  'get-project-settings': () => IpcResult<{ settings: ProjectSettings }>;
+  'save-project-settings': (settings: ProjectSettings) => IpcResult;
+  'import-llm-settings': () => IpcResult<{ settings: ProviderSettings }>;
+
+  // AI
+  'list-ai-providers': () => IpcResult<{ providers: AIProviderDescriptor[] }>;
+  'list-embedding-backends': () => IpcResult<{ backends: EmbeddingBackendDescriptor[] }>;
+  'list-ai-models': (providerId: string, apiKey: string, baseUrl?: string) => IpcResult<{ models: AIModelOption[] }>;
+  'rebuild-retrieval-index': () => IpcResult<RetrievalIndexStats>;
+  'build-ai-context': (request: ContextRequest) => IpcResult<{ context: BuiltContext }>;
+  'cancel-ai-request': (requestId: string) => IpcResult<{ cancelled: boolean }>;
+  'get-usage-report': (days?: number) => IpcResult<{ report: UsageReport }>;
+
+  // Export
+  'get-export-profiles': () => IpcResult<{ profiles: ExportProfile[]; chapters: ExportChapterOption[] }>;
+  'save-export-profiles': (profiles: ExportProfile[]) => IpcResult<{ profiles: ExportProfile[] }>;
+  'export-manuscript': (profile: ExportProfile) => IpcResult<{ filePath: string }>;
+
+  // Prompt library
+  'get-prompt-library': () => IpcResult<{ library: PromptLibrary }>;
+  'save-prompt-library': (library: PromptLibrary) => IpcResult<{ library: PromptLibrary }>;
+
+  // Chat sessions
+  'list-chat-sessions': (query?: string) => IpcResult<{ sessions: ChatSessionSummary[] }>;
+  'read-chat-session': (id: string) => IpcResult<{ session: ChatSession }>;
+  'save-chat-session': (session: Omit<ChatSession, 'updatedAt' | 'pinnedChapter'>) => IpcResult<{ session: ChatSession }>;
+  'rename-chat-session': (id: string, title: string) => IpcResult;
+  'delete-chat-session': (id: string) => IpcResult;
+  'pin-chat-session': (id: string, chapter: string | null) => IpcResult;
+  'get-pinned-chat-session': (chapter: string) => IpcResult<{ id: string | null }>;
+
+  // Import
+  'import-text': (filePath: string, requestId?: string) => IpcResult<{ importId: string; preview: ImportPreviewItem[] }>;
+  'import-scrivener': (scrivPath: string, requestId?: string) => IpcResult<{ importId: string; preview: ImportPreviewItem[] }>;
+  'apply-import': (importId: string, decisions: Record<string, ImportDecision>) => IpcResult<{ summary: ImportSummary }>;
+  'discard-import': (importId: string) => IpcResult;
+};
+
+/** One-way renderer-to-main messages (`ipcRenderer.send` / `ipcMain.on`). */
+export type SendChannels = {
+  'editor-selected-changed': (isSelected: boolean) => void;
+  /** A file's unsaved content, or null once it is saved or discarded. */
+  'update-unsaved-buffer': (relativePath: string, content: string | null) => void;
+  // Streaming AI jobs; progress comes back as events tagged with the requestId
+  'generate-ai-completion': (request: GenerateAICompletionRequest) => void;
+  'refine-text-completion': (request: RefineTextRequest) => void;
+  'rewrite-text-completion': (request: RewriteTextRequest) => void;
+};
+
+/**
+ * Main-to-renderer events (`webContents.send`). Streamed chunks and errors
+ * carry the requestId as their last argument; end events carry it in the
+ * payload.
+ */
+export type EventChannels = {
+  // Menu commands
+  'new-project': () => void;
+  'open-settings': () => void;
+  'open-export': () => void;
+  'save-current-file': () => void;
+  'import-text-start': (filePath: string) => void;
+  'import-scrivener-start': (scrivPath: string) => void;
+  'editor-find': () => void;
+  'editor-find-next': () => void;
+  'editor-find-previous': () => void;
+  'editor-replace': () => void;
+  'editor-replace-selection': () => void;
+  'format-bold': () => void;
+  'format-italic': () => void;
+  'run-selection-action': (actionId: string) => void;
+  'refine-selection': () => void;
+  'main-process-message': (message: string) => void;
+
+  // Project files changed outside Auctor
+  'project-files-changed': (changes: ProjectFileChange[]) => void;
+
+  // AI Assistant
+  'ai-completion-chunk': (chunk: string, requestId: string) => void;
+  'ai-completion-end': (info: ChatCompletionEnd) => void;
+  'ai-completion-error': (error: string, requestId: string) => void;
+  'ai-tool-call': (message: string, requestId: string) => void;
+  'ai-proposed-change': (change: ProposedChange, requestId: string) => void;
+  'ai-usage-recorded': () => void;
+
+  // Rewrite and Refine
+  'rewrite-text-start': (requestId: string) => void;
+  'rewrite-text-chunk': (chunk: string, requestId: string) => void;
+  'rewrite-text-end': (info: AIRequestEnd) => void;
+  'rewrite-text-error': (error: string, requestId: string) => void;
+  'refine-critique-chunk': (chunk: string, requestId: string) => void;
+  'refine-critique-end': (info: AIRequestEnd) => void;
+  'refine-critique-error': (error: string, requestId: string) => void;
+  'refine-rewrite-chunk': (chunk: string, requestId: string) => void;
+  'refine-rewrite-end': (info: AIRequestEnd) => void;
+  'refine-rewrite-error': (error: string, requestId: string) => void;
+
+  // Import
+  'import-text-progress': (progress: ImportProgress) => void;
+};
+
+export type InvokeChannel = keyof InvokeChannels;
+export type SendChannel = keyof SendChannels;
+export type EventChannel = keyof EventChannels;
+
+// Written out as records so adding a channel above without listing it here
+// (or the reverse) is a compile error; the preload exposes exactly these.
+const INVOKE_CHANNEL_SET: Record<InvokeChannel, true> = {
+  'select-directory': true,
+  'select-cover-image': true,
+  'create-project': true,
+  'get-files': true,
+  'get-chapter-order': true,
+  'set-chapter-order': true,
+  'create-file': true,
+  'delete-file': true,
+  'rename-file': true,
+  'read-file': true,
+  'save-file': true,
+  'list-characters': true,
+  'restore-unsaved-buffers': true,
+  'get-project-settings': true,
+  'save-project-settings': true,
+  'import-llm-settings': true,
+  'list-ai-providers': true,
+  'list-embedding-backends': true,
+  'list-ai-models': true,
+  'rebuild-retrieval-index': true,
+  'build-ai-context': true,
+  'cancel-ai-request': true,
+  'get-usage-report': true,
+  'get-export-profiles': true,
+  'save-export-profiles': true,
+  'export-manuscript': true,
+  'get-prompt-library': true,
+  'save-prompt-library': true,
+  'list-chat-sessions': true,
+  'read-chat-session': true,
+  'save-chat-session': true,
+  'rename-chat-session': true,
+  'delete-chat-session': true,
+  'pin-chat-session': true,
+  'get-pinned-chat-session': true,
+  'import-text': true,
+  'import-scrivener': true,
+  'apply-import': true,
+  'discard-import': true,
+};
+
+const SEND_CHANNEL_SET: Record<SendChannel, true> = {
+  'editor-selected-changed': true,
+  'update-unsaved-buffer': true,
+  'generate-ai-completion': true,
+  'refine-text-completion': true,
+  'rewrite-text-completion': true,
+};
+
+const EVENT_CHANNEL_SET: Record<EventChannel, true> = {
+  'new-project': true,
+  'open-settings': true,
+  'open-export': true,
+  'save-current-file': true,
+  'import-text-start': true,
+  'import-scrivener-start': true,
+  'editor-find': true,
+  'editor-find-next': true,
+  'editor-find-previous': true,
+  'editor-replace': true,
+  'editor-replace-selection': true,
+  'format-bold': true,
+  'format-italic': true,
+  'run-selection-action': true,
+  'refine-selection': true,
+  'main-process-message': true,
+  'project-files-changed': true,
+  'ai-completion-chunk': true,
+  'ai-completion-end': true,
+  'ai-completion-error': true,
+  'ai-tool-call': true,
+  'ai-proposed-change': true,
+  'ai-usage-recorded': true,
+  'rewrite-text-start': true,
+  'rewrite-text-chunk': true,
+  'rewrite-text-end': true,
+  'rewrite-text-error': true,
+  'refine-critique-chunk': true,
+  'refine-critique-end': true,
+  'refine-critique-error': true,
+  'refine-rewrite-chunk': true,
+  'refine-rewrite-end': true,
+  'refine-rewrite-error': true,
+  'import-text-progress': true,
+};
+
+export const INVOKE_CHANNELS = Object.keys(INVOKE_CHANNEL_SET) as InvokeChannel[];
+export const SEND_CHANNELS = Object.keys(SEND_CHANNEL_SET) as SendChannel[];
+export const EVENT_CHANNELS = Object.keys(EVENT_CHANNEL_SET) as EventChannel[];
+
+// --- Renderer API ---
+// `window.auctor` has one function per channel, named after it:
+// `read-file` is `readFile(relativePath)`, `ai-completion-chunk` is
+// `onAiCompletionChunk(listener)`, which returns a function that removes the
+// listener.
+
+type CamelCase<S extends string> = S extends `${infer Head}-${infer Tail}` ? `${Head}${Capitalize<CamelCase<Tail>>}` : S;
+
+export type InvokeArgs<C extends InvokeChannel> = Parameters<InvokeChannels[C]>;
+export type InvokeResult<C extends InvokeChannel> = ReturnType<InvokeChannels[C]>;
+export type SendArgs<C extends SendChannel> = Parameters<SendChannels[C]>;
+export type EventArgs<C extends EventChannel> = Parameters<EventChannels[C]>;
+
+export type AuctorApi =
+  & { [C in InvokeChannel as CamelCase<C>]: (...args: InvokeArgs<C>) => Promise<InvokeResult<C>> }
+  & { [C in SendChannel as CamelCase<C>]: (...args: SendArgs<C>) => void }
+  & { [C in EventChannel as `on${Capitalize<CamelCase<C>>}`]: (listener: EventChannels[C]) => () => void };
+
+export function apiName(channel: string): string {
+  return channel.replace(/-(\w)/g, (_, c: string) => c.toUpperCase());
+}
+
+export function eventApiName(channel: string): string {
+  const name = apiName(channel);
+  return `on${name[0].toUpperCase()}${name.slice(1)}`;
+}
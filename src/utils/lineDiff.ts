@@ -0,0 +1,60 @@
+// Line diff (longest common subsequence) for texts such as pretty-printed
+// entity JSON or two versions of a chapter. Lines shared at the start and end
+// are matched first; the LCS over what is left is quadratic, so past
+// MAX_LCS_CELLS the middle is shown as removed and re-added as a whole.
+
+export type DiffLine = { type: 'same' | 'add' | 'remove'; text: string };
+
+const MAX_LCS_CELLS = 1_000_000;
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const beforeLines = before ? before.split('\n') : [];
+  const afterLines = after ? after.split('\n') : [];
+
+  let start = 0;
+  while (start < beforeLines.length && start < afterLines.length && beforeLines[start] === afterLines[start]) start++;
+  let end = 0;
+  while (
+    end < beforeLines.length - start && end < afterLines.length - start &&
+    beforeLines[beforeLines.length - 1 - end] === afterLines[afterLines.length - 1 - end]
+  ) end++;
+
+  const same = (lines: string[]) => lines.map((text): DiffLine => ({ type: 'same', text }));
+  const a = beforeLines.slice(start, beforeLines.length - end);
+  const b = afterLines.slice(start, afterLines.length - end);
+  return [
+    ...same(beforeLines.slice(0, start)),
+    ...((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS
+      ? [...a.map((text): DiffLine => ({ type: 'remove', text })), ...b.map((text): DiffLine => ({ type: 'add', text }))]
+      : diffMiddle(a, b)),
+    ...same(beforeLines.slice(beforeLines.length - end)),
+  ];
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'remove', text: a[i++] });
+    } else {
+      result.push({ type: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'remove', text: a[i++] });
+  while (j < b.length) result.push({ type: 'add', text: b[j++] });
+  return result;
+}
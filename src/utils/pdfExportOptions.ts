@@ -0,0 +1,74 @@
+// Page layout options for File → Export to PDF, stored in auctor.json as
+// `pdfExport`. Shared by the settings screen and the exporter in the main
+// process (electron/pdfExport.ts). Sizes are in inches; the exporter
+// converts them to PDF points.
+
+export type PdfFontFamily = 'Times' | 'Helvetica' | 'Courier';
+
+export type PdfExportOptions = {
+  trimSize: string;
+  marginTop: number;
+  marginBottom: number;
+  /** Margin on the binding side: left on recto (odd) pages, right on verso. */
+  marginInside: number;
+  marginOutside: number;
+  bodyFont: PdfFontFamily;
+  headingFont: PdfFontFamily;
+  /** Body text size in points. */
+  fontSize: number;
+  /** Line height as a multiple of the font size. */
+  lineSpacing: number;
+  /** Printed between scenes, e.g. "* * *". */
+  sceneBreak: string;
+};
+
+export const PDF_TRIM_SIZES: { id: string; label: string; width: number; height: number }[] = [
+  { id: '5x8', label: '5 × 8 in', width: 5, height: 8 },
+  { id: '5.25x8', label: '5.25 × 8 in', width: 5.25, height: 8 },
+  { id: '5.5x8.5', label: '5.5 × 8.5 in', width: 5.5, height: 8.5 },
+  { id: '6x9', label: '6 × 9 in (trade paperback)', width: 6, height: 9 },
+  { id: 'a5', label: 'A5 (148 × 210 mm)', width: 5.827, height: 8.268 },
+  { id: 'a4', label: 'A4 (210 × 297 mm)', width: 8.268, height: 11.693 },
+  { id: 'letter', label: 'US Letter (8.5 × 11 in)', width: 8.5, height: 11 },
+];
+
+// The standard PDF fonts, which need no embedding
+export const PDF_FONT_FAMILIES: PdfFontFamily[] = ['Times', 'Helvetica', 'Courier'];
+
+export const DEFAULT_PDF_EXPORT_OPTIONS: PdfExportOptions = {
+  trimSize: '6x9',
+  marginTop: 0.75,
+  marginBottom: 0.75,
+  marginInside: 0.875,
+  marginOutside: 0.625,
+  bodyFont: 'Times',
+  headingFont: 'Times',
+  fontSize: 11,
+  lineSpacing: 1.35,
+  sceneBreak: '* * *',
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+};
+
+/** Fills in defaults and keeps every value in a range that still lays out. */
+export function normalizePdfExportOptions(raw: any): PdfExportOptions {
+  const d = DEFAULT_PDF_EXPORT_OPTIONS;
+  const o = raw && typeof raw === 'object' ? raw : {};
+  const font = (value: unknown, fallback: PdfFontFamily) =>
+    PDF_FONT_FAMILIES.includes(value as PdfFontFamily) ? (value as PdfFontFamily) : fallback;
+  return {
+    trimSize: PDF_TRIM_SIZES.some(t => t.id === o.trimSize) ? o.trimSize : d.trimSize,
+    marginTop: clamp(o.marginTop, 0.25, 2, d.marginTop),
+    marginBottom: clamp(o.marginBottom, 0.25, 2, d.marginBottom),
+    marginInside: clamp(o.marginInside, 0.25, 2, d.marginInside),
+    marginOutside: clamp(o.marginOutside, 0.25, 2, d.marginOutside),
+    bodyFont: font(o.bodyFont, d.bodyFont),
+    headingFont: font(o.headingFont, d.headingFont),
+    fontSize: clamp(o.fontSize, 7, 18, d.fontSize),
+    lineSpacing: clamp(o.lineSpacing, 1, 3, d.lineSpacing),
+    sceneBreak: typeof o.sceneBreak === 'string' && o.sceneBreak.trim() ? o.sceneBreak.trim() : d.sceneBreak,
+  };
+}
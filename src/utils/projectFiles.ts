@@ -0,0 +1,58 @@
+// Rules for the files the author manages in the project folders. The main
+// process enforces them on every file IPC handler (electron/projectFiles.ts);
+// the renderer checks names with the same rules before asking, and presents
+// the error codes the handlers return.
+
+export const PROJECT_CATEGORIES = ['Chapters', 'Characters', 'Places', 'Objects', 'Organisations'] as const;
+
+export type ProjectCategory = typeof PROJECT_CATEGORIES[number];
+
+export type FileErrorCode =
+  | 'invalid-path'
+  | 'outside-project'
+  | 'unknown-category'
+  | 'invalid-name'
+  | 'reserved-name'
+  | 'not-found'
+  | 'already-exists'
+  | 'io-error';
+
+export const FILE_ERROR_MESSAGES: Record<FileErrorCode, string> = {
+  'invalid-path': 'That is not a valid project file path.',
+  'outside-project': 'That path is outside the project folder.',
+  'unknown-category': `Files can only be kept in ${PROJECT_CATEGORIES.join(', ')}.`,
+  'invalid-name': 'File names cannot be empty, contain < > : " / \\ | ? * or control characters, have extra spaces, end with a dot or space, or be longer than 120 characters.',
+  'reserved-name': 'That file name is reserved by the operating system or the project.',
+  'not-found': 'The file does not exist.',
+  'already-exists': 'A file with that name already exists.',
+  'io-error': 'The file could not be read or written.',
+};
+
+const MAX_FILENAME_LENGTH = 120;
+
+/** Makes a string safe to use in a file name; used for export and backup file names. */
+export function sanitizeFilenamePart(input: string): string {
+  const cleaned = (input || '')
+    .replace(/[<>:"/\\|?*\x00-\x1F]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[. ]+$/g, '')
+    .slice(0, MAX_FILENAME_LENGTH);
+  return cleaned.length > 0 ? cleaned : 'Auctor Project';
+}
+
+// Windows device names (with any extension), and dot files, which the project
+// keeps for itself (.auctor, .env)
+const RESERVED_NAME_PATTERN = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+
+export function isProjectCategory(value: unknown): value is ProjectCategory {
+  return typeof value === 'string' && (PROJECT_CATEGORIES as readonly string[]).includes(value);
+}
+
+/** Why `name` cannot be used as a file name, or null when it can. */
+export function fileNameProblem(name: unknown): 'invalid-name' | 'reserved-name' | null {
+  if (typeof name !== 'string' || name.length === 0) return 'invalid-name';
+  if (name.startsWith('.') || RESERVED_NAME_PATTERN.test(name)) return 'reserved-name';
+  // A valid name is one sanitizing would leave as it is
+  return sanitizeFilenamePart(name) === name ? null : 'invalid-name';
+}
@@ -0,0 +1,63 @@
+// Renderer access to the project's prompt library (electron/promptLibrary.ts)
+// and the variables the chapter features fill templates with.
+import type { BuiltContext } from './aiContext';
+import {
+  EMPTY_PROMPT_LIBRARY,
+  findPromptTemplate,
+  getBuiltInPromptTemplate,
+  type PromptLibrary,
+  type PromptTemplate,
+  type PromptVariables,
+} from './promptTemplates';
+
+export async function getPromptLibrary(): Promise<PromptLibrary> {
+  try {
+    const result = await window.auctor.getPromptLibrary();
+    if (result?.success) return result.library;
+    console.error('Error loading prompt library:', result?.error);
+  } catch (e) {
+    console.error('Error loading prompt library:', e);
+  }
+  return EMPTY_PROMPT_LIBRARY;
+}
+
+export async function savePromptLibrary(library: PromptLibrary): Promise<{ success: boolean; error?: string }> {
+  return window.auctor.savePromptLibrary(library);
+}
+
+/** The project's version of a template; built-in ids fall back to the shipped text. */
+export async function getPromptTemplate(id: string): Promise<PromptTemplate | null> {
+  const template = findPromptTemplate(await getPromptLibrary(), id);
+  if (template) return template;
+  try {
+    return getBuiltInPromptTemplate(id);
+  } catch {
+    return null;
+  }
+}
+
+export function chapterPromptVariables(
+  context: BuiltContext,
+  extra: {
+    chapterFile?: string;
+    chapterSettings?: { summary?: string; ageOffset?: string; style?: string; pov?: string };
+    selection?: string;
+    critique?: string;
+  } = {},
+): PromptVariables {
+  return {
+    chapterText: context.chapterText,
+    chapterTitle: (extra.chapterFile || '').replace(/\.[^.]+$/, ''),
+    summary: extra.chapterSettings?.summary,
+    style: extra.chapterSettings?.style,
+    pov: extra.chapterSettings?.pov,
+    ageOffset: extra.chapterSettings?.ageOffset,
+    chapterNotes: context.chapterNotes,
+    projectOverview: context.projectOverview,
+    subplots: context.subplots,
+    entities: context.entities,
+    relatedPassages: context.relatedPassages,
+    selection: extra.selection,
+    critique: extra.critique,
+  };
+}
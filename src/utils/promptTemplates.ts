@@ -0,0 +1,446 @@
+// Prompt templates shared by the renderer and the main process (import). No
+// DOM or IPC access here; loading and saving the project's overrides goes
+// through the `get-prompt-library`/`save-prompt-library` handlers.
+//
+// Syntax: `{{name}}` inserts a variable, `{{#name}}...{{/name}}` keeps its
+// body only when the variable is non-empty and `{{^name}}...{{/name}}` only
+// when it is empty. A section tag alone on its line takes the line with it.
+
+export type PromptTemplateKind = 'selection' | 'refine' | 'critique' | 'import';
+
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  kind: PromptTemplateKind;
+  description: string;
+  template: string;
+  /** Editor context-menu label; selection actions only. */
+  menuLabel?: string;
+  /** Shipped with the app (may be overridden) rather than added by the author. */
+  builtIn: boolean;
+};
+
+/** Author-defined selection action, listed in the editor context menu. */
+export type CustomSelectionAction = {
+  id: string;
+  name: string;
+  menuLabel: string;
+  description: string;
+  template: string;
+};
+
+/** What a project stores in .auctor/prompts.json. */
+export type PromptLibrary = {
+  /** Template text by built-in template id. */
+  overrides: Record<string, string>;
+  actions: CustomSelectionAction[];
+};
+
+export type PromptVariables = Record<string, string | undefined | null>;
+
+export const EMPTY_PROMPT_LIBRARY: PromptLibrary = { overrides: {}, actions: [] };
+
+export const CUSTOM_ACTION_ID_PREFIX = 'custom-';
+
+type PromptVariable = { name: string; description: string };
+
+const CHAPTER_VARIABLES: PromptVariable[] = [
+  { name: 'chapterText', description: 'The chapter (cut to the passage around the selection when over budget)' },
+  { name: 'chapterTitle', description: 'Chapter file name without extension' },
+  { name: 'summary', description: 'Chapter summary from the chapter settings' },
+  { name: 'style', description: 'Writing style from the chapter settings' },
+  { name: 'pov', description: 'Point-of-view character' },
+  { name: 'ageOffset', description: 'Age offset from the chapter settings' },
+  { name: 'chapterNotes', description: 'Summary, style, POV and age offset as one block' },
+  { name: 'projectOverview', description: 'Title, author and overall plot of the novel' },
+  { name: 'subplots', description: 'Subplots active in this chapter' },
+  { name: 'entities', description: 'Most relevant characters, places, objects and organisations' },
+  { name: 'relatedPassages', description: 'Similar passages from other chapters' },
+];
+
+export const PROMPT_VARIABLES: Record<PromptTemplateKind, PromptVariable[]> = {
+  selection: [
+    { name: 'selection', description: 'The selected text' },
+    ...CHAPTER_VARIABLES,
+  ],
+  refine: [
+    { name: 'selection', description: 'The text in the Refine dialog' },
+    { name: 'critique', description: 'The critique shown in the dialog (rewrites only)' },
+    ...CHAPTER_VARIABLES,
+  ],
+  critique: CHAPTER_VARIABLES,
+  import: [
+    { name: 'text', description: 'Extraction: the passage being analysed' },
+    { name: 'chapterTitle', description: 'Extraction: title of the chapter the passage is from' },
+    { name: 'position', description: 'Extraction: e.g. "part 2 of 3" when a chapter is analysed in parts' },
+    { name: 'knownNames', description: 'Extraction: names already found in earlier passages' },
+    { name: 'chapterSummaries', description: 'Synthesis: every chapter title with its summary' },
+    { name: 'subplotCandidates', description: 'Synthesis: story threads noticed while reading' },
+  ],
+};
+
+export const PROMPT_KIND_LABELS: Record<PromptTemplateKind, string> = {
+  selection: 'Selection actions',
+  refine: 'Refine dialog',
+  critique: 'Chapter critique',
+  import: 'Import',
+};
+
+// Each optional section ends with its own blank line, so absent ones leave no gap
+const CONTEXT_SECTIONS = `{{#projectOverview}}
+Project Overview:
+{{projectOverview}}
+
+{{/projectOverview}}
+{{#chapterNotes}}
+Chapter Notes:
+{{chapterNotes}}
+
+{{/chapterNotes}}
+{{#subplots}}
+Active Subplots in this Chapter:
+{{subplots}}
+
+{{/subplots}}`;
+
+const selectionTemplate = (instruction: string) => `You are an expert story editor.
+
+Task:
+${instruction}
+
+${CONTEXT_SECTIONS}
+Project Context (Characters, Places, Objects, Organisations):
+{{entities}}
+
+{{#relatedPassages}}
+Related Passages from Other Chapters (for consistency; DO NOT OUTPUT THESE):
+{{relatedPassages}}
+
+{{/relatedPassages}}
+Chapter Reference (DO NOT OUTPUT THIS):
+{{chapterText}}
+
+Selected Text:
+{{selection}}
+
+Output only the rewritten text. Do not include any explanation or markdown formatting unless appropriate for the story (e.g. italics).`;
+
+const refineTemplate = (instruction: string, textLabel: string) => `You are an expert story editor.
+
+Task:
+${instruction}
+
+{{#critique}}
+Critique (use this feedback to guide your rewrite):
+{{critique}}
+
+{{/critique}}
+${CONTEXT_SECTIONS}
+{{#entities}}
+Characters, Places, Objects & Organisations:
+{{entities}}
+
+{{/entities}}
+{{#relatedPassages}}
+Related Passages from Other Chapters:
+{{relatedPassages}}
+
+{{/relatedPassages}}
+Full Chapter Reference (DO NOT output this):
+{{chapterText}}
+
+${textLabel}:
+{{selection}}
+
+Output only the rewritten text. Do not include any explanation or markdown formatting unless appropriate for the story (e.g. italics).`;
+
+const IMPORT_CHUNK_TEMPLATE = `You are helping import a novel into a writing application. The novel is analysed one passage at a time; this is a passage from the chapter "{{chapterTitle}}"{{#position}} ({{position}}){{/position}}.
+
+Extract the worldbuilding that appears in this passage:
+
+1. **summary**: What happens in this passage (1-3 sentences).
+2. **characters**: Named characters who appear or are discussed. For each: name (full name), aka (aliases or nicknames, comma-separated, or empty string), age (e.g. "Adult", "30s", or empty string), appearance, personality, motivation (only what this passage shows; empty string when unknown), relationships (array of {target: "other character name", description: "relationship"}).
+3. **places**: Named or significant locations. For each: name, aka, description.
+4. **objects**: Objects that matter to the story. For each: name, aka, description, properties (notable properties or significance).
+5. **organisations**: Organisations, groups or factions. For each: name, goals, members (array of {name, role}).
+6. **subplots**: Story threads this passage develops. For each: title (short), description.
+{{#knownNames}}
+
+Names already found earlier in the novel (reuse exactly these spellings when the passage refers to the same person, place or thing):
+{{knownNames}}
+{{/knownNames}}
+
+Respond with ONLY valid JSON in this exact structure (no markdown code fences). Do not repeat the passage text:
+{
+  "summary": "...",
+  "characters": [{ "name": "...", "aka": "...", "age": "...", "appearance": "...", "personality": "...", "motivation": "...", "relationships": [{ "target": "...", "description": "..." }] }],
+  "places": [{ "name": "...", "aka": "...", "description": "..." }],
+  "objects": [{ "name": "...", "aka": "...", "description": "...", "properties": "..." }],
+  "organisations": [{ "name": "...", "goals": "...", "members": [{ "name": "...", "role": "..." }] }],
+  "subplots": [{ "title": "...", "description": "..." }]
+}
+
+Passage:
+
+{{text}}`;
+
+const IMPORT_SYNTHESIS_TEMPLATE = `You are helping import a novel into a writing application. Below are the summaries of every chapter, in order, and the story threads noticed while reading them.
+
+Chapter summaries:
+{{chapterSummaries}}
+{{#subplotCandidates}}
+
+Story threads noticed while reading (may overlap or repeat):
+{{subplotCandidates}}
+{{/subplotCandidates}}
+
+Write:
+1. **plot**: The overall plot of the novel (one paragraph).
+2. **subplots**: The distinct subplots, merging threads that are the same. For each: id (unique kebab-case identifier), title (short), description (brief).
+
+Respond with ONLY valid JSON in this exact structure (no markdown code fences):
+{
+  "plot": "...",
+  "subplots": [{ "id": "...", "title": "...", "description": "..." }]
+}`;
+
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'rewrite',
+    name: 'Rewrite Text',
+    kind: 'selection',
+    menuLabel: '✨ Rewrite Text',
+    description: 'Editor context menu: rewrites the selection in place.',
+    template: selectionTemplate(`Rewrite the selected text to improve flow, tone, and clarity while maintaining the author's voice.`),
+    builtIn: true,
+  },
+  {
+    id: 'shorter',
+    name: 'Make Shorter',
+    kind: 'selection',
+    menuLabel: '✂️ Make Shorter',
+    description: 'Editor context menu: tightens the selection in place.',
+    template: selectionTemplate(`Rewrite the selected text to be more concise while staying true to the author's voice, meaning, tense, and point-of-view. Do not add new information or change events; keep the same intent and key beats, just tighter.`),
+    builtIn: true,
+  },
+  {
+    id: 'longer',
+    name: 'Make Longer',
+    kind: 'selection',
+    menuLabel: '➕ Make Longer',
+    description: 'Editor context menu: expands the selection in place.',
+    template: selectionTemplate(`Expand the selected text by adding vivid detail and color while staying true to the author's voice, tense, and point-of-view. Add concrete sensory detail, subtext, action beats, and specificity where it fits. Use the provided Characters/Places/Objects context when relevant to enrich the prose (without inventing new named entities or contradicting established facts).`),
+    builtIn: true,
+  },
+  {
+    id: 'refine-critique',
+    name: 'Refine: Critique',
+    kind: 'refine',
+    description: 'Critique of the passage, run when the Refine dialog opens.',
+    template: `Critique the following selected passage from a novel chapter. Focus on pacing, tone, character voice, consistency with the established world and plot, and any issues with clarity or flow.
+
+${CONTEXT_SECTIONS}
+{{#entities}}
+Characters, Places, Objects & Organisations:
+{{entities}}
+
+{{/entities}}
+{{#relatedPassages}}
+Related Passages from Other Chapters:
+{{relatedPassages}}
+
+{{/relatedPassages}}
+Full Chapter Reference (DO NOT critique this, just use for context):
+{{chapterText}}
+
+---
+Selected Passage to Critique:
+{{selection}}
+---
+
+Provide a concise, actionable critique of the selected passage only.`,
+    builtIn: true,
+  },
+  {
+    id: 'refine-rewrite',
+    name: 'Refine: Rewrite',
+    kind: 'refine',
+    description: 'Rewrite button in the Refine dialog.',
+    template: refineTemplate(`Rewrite the text to improve flow, tone, and clarity while maintaining the author's voice.`, 'Text to rewrite'),
+    builtIn: true,
+  },
+  {
+    id: 'refine-shorter',
+    name: 'Refine: Make Shorter',
+    kind: 'refine',
+    description: 'Shorter button in the Refine dialog.',
+    template: refineTemplate(`Rewrite the text to be more concise while staying true to the author's voice, meaning, tense, and point-of-view. Do not add new information or change events.`, 'Text to shorten'),
+    builtIn: true,
+  },
+  {
+    id: 'refine-longer',
+    name: 'Refine: Make Longer',
+    kind: 'refine',
+    description: 'Longer button in the Refine dialog.',
+    template: refineTemplate(`Expand the text by adding vivid detail and color while staying true to the author's voice, tense, and point-of-view. Add concrete sensory detail, subtext, action beats, and specificity.`, 'Text to lengthen'),
+    builtIn: true,
+  },
+  {
+    id: 'critique-chapter',
+    name: 'Critique Current Chapter',
+    kind: 'critique',
+    description: 'AI Assistant "Critique Current Chapter". Must end with the paragraph ratings instruction for the rating overlay to work.',
+    template: `Critique the following writing sample. Focus on pacing, tone, character voice, and consistency with the established world and plot. The most relevant characters, places, objects, and organisations are included below; use your tools to look up anything else you need.
+
+${CONTEXT_SECTIONS}
+{{#entities}}
+Characters, Places, Objects & Organisations:
+{{entities}}
+
+{{/entities}}
+---
+{{chapterText}}
+---
+
+After your written critique, rate each text paragraph in the chapter on a scale of 1 (poor) to 10 (excellent) for writing quality and how well it fits the story. Only count <p> elements that contain actual text (skip empty paragraphs and headings). Number them sequentially starting from 1. Output the ratings as a JSON array inside <paragraph_ratings> tags at the very end of your response, like: <paragraph_ratings>[{"paragraph":1,"rating":7},{"paragraph":2,"rating":5}]</paragraph_ratings>`,
+    builtIn: true,
+  },
+  {
+    id: 'import-chunk',
+    name: 'Import: Extract Passage',
+    kind: 'import',
+    description: 'Run on each passage of an imported manuscript to find characters, places, objects, organisations and story threads. Must keep asking for the same JSON structure.',
+    template: IMPORT_CHUNK_TEMPLATE,
+    builtIn: true,
+  },
+  {
+    id: 'import-synthesis',
+    name: 'Import: Plot & Subplots',
+    kind: 'import',
+    description: 'Run once at the end of an import to write the overall plot and subplots from the chapter summaries. Must keep asking for the same JSON structure.',
+    template: IMPORT_SYNTHESIS_TEMPLATE,
+    builtIn: true,
+  },
+];
+
+/** Built-ins with the project's overrides applied, followed by the custom actions. */
+export function resolvePromptTemplates(library: PromptLibrary): PromptTemplate[] {
+  const builtIns = BUILT_IN_PROMPT_TEMPLATES.map((t) =>
+    typeof library.overrides[t.id] === 'string' ? { ...t, template: library.overrides[t.id] } : t
+  );
+  const custom: PromptTemplate[] = library.actions.map((a) => ({ ...a, kind: 'selection', builtIn: false }));
+  return [...builtIns, ...custom];
+}
+
+export function findPromptTemplate(library: PromptLibrary, id: string): PromptTemplate | null {
+  return resolvePromptTemplates(library).find((t) => t.id === id) ?? null;
+}
+
+export function getBuiltInPromptTemplate(id: string): PromptTemplate {
+  const template = BUILT_IN_PROMPT_TEMPLATES.find((t) => t.id === id);
+  if (!template) throw new Error(`Unknown prompt template: ${id}`);
+  return template;
+}
+
+const SECTION_PATTERN = /\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const isEmpty = (value: string | undefined | null) => !value || !value.trim();
+
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  // Standalone section tags disappear with their line
+  let text = template.replace(/^[ \t]*(\{\{[#^/]\s*\w+\s*\}\})[ \t]*\r?\n/gm, '$1');
+
+  // Innermost sections resolve first; repeat until none are left
+  let previous: string;
+  do {
+    previous = text;
+    text = text.replace(SECTION_PATTERN, (_, type: string, name: string, body: string) => {
+      const show = type === '#' ? !isEmpty(variables[name]) : isEmpty(variables[name]);
+      return show ? body : '';
+    });
+  } while (text !== previous);
+
+  // Tidy the blank lines removed sections leave, before values (which may contain blank lines) go in
+  text = text.replace(/\n{3,}/g, '\n\n');
+  // Trailing newlines on values would double up with the template's own
+  return text.replace(VARIABLE_PATTERN, (_, name: string) => (variables[name] ?? '').replace(/\s+$/, '')).trim();
+}
+
+/** Variable names a template uses, in order of first use. */
+export function listTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(/\{\{[#^/]?\s*(\w+)\s*\}\}/g)) names.add(match[1]);
+  return [...names];
+}
+
+/** Problems worth showing in the editor: unknown variables and unbalanced sections. */
+export function validatePromptTemplate(template: string, kind: PromptTemplateKind): string[] {
+  const known = new Set(PROMPT_VARIABLES[kind].map((v) => v.name));
+  const problems = listTemplateVariables(template)
+    .filter((name) => !known.has(name))
+    .map((name) => `Unknown variable {{${name}}}`);
+
+  const stack: string[] = [];
+  for (const match of template.matchAll(/\{\{([#^/])\s*(\w+)\s*\}\}/g)) {
+    if (match[1] !== '/') stack.push(match[2]);
+    else if (stack.pop() !== match[2]) {
+      problems.push(`{{/${match[2]}}} does not close the section opened before it`);
+      return problems;
+    }
+  }
+  if (stack.length > 0) problems.push(`Section {{#${stack[stack.length - 1]}}} is never closed`);
+  return problems;
+}
+
+/** Sanitises a library read from disk or sent by the renderer. */
+export function normalizePromptLibrary(raw: any): PromptLibrary {
+  const overrides: Record<string, string> = {};
+  if (raw?.overrides && typeof raw.overrides === 'object') {
+    for (const t of BUILT_IN_PROMPT_TEMPLATES) {
+      const value = raw.overrides[t.id];
+      // An override identical to the shipped text is dropped so later app updates still reach it
+      if (typeof value === 'string' && value.trim() && value !== t.template) overrides[t.id] = value;
+    }
+  }
+
+  const seen = new Set<string>();
+  const actions: CustomSelectionAction[] = [];
+  for (const a of Array.isArray(raw?.actions) ? raw.actions : []) {
+    if (!a || typeof a.template !== 'string' || !a.template.trim()) continue;
+    const id = typeof a.id === 'string' && a.id.startsWith(CUSTOM_ACTION_ID_PREFIX) ? a.id : `${CUSTOM_ACTION_ID_PREFIX}${actions.length + 1}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const name = typeof a.name === 'string' && a.name.trim() ? a.name.trim() : 'Custom action';
+    actions.push({
+      id,
+      name,
+      menuLabel: typeof a.menuLabel === 'string' && a.menuLabel.trim() ? a.menuLabel.trim() : name,
+      description: typeof a.description === 'string' ? a.description : '',
+      template: a.template,
+    });
+  }
+  return { overrides, actions };
+}
+
+/** Stand-in values for previewing a template in the editor. */
+export const SAMPLE_PROMPT_VARIABLES: PromptVariables = {
+  selection: 'The rain had not stopped for three days. Mara pulled her coat tighter and stepped onto the pier.',
+  critique: 'The opening sentence is strong, but the second one rushes past the setting.',
+  chapterText: 'Chapter 3\n\nThe rain had not stopped for three days. Mara pulled her coat tighter and stepped onto the pier.\n\nThe ferryman was waiting, as he always was.',
+  chapterTitle: 'Chapter 3',
+  summary: 'Mara arrives at the harbour to meet the ferryman.',
+  style: 'Sparse, close third person',
+  pov: 'Mara',
+  ageOffset: '',
+  chapterNotes: 'Chapter Summary: Mara arrives at the harbour to meet the ferryman.\nPoint of View: Mara\nWriting Style Notes: Sparse, close third person',
+  projectOverview: 'Novel: The Drowned Coast by A. Writer\nOverall Plot: A ferryman\'s apprentice uncovers what the tide hides.',
+  subplots: '- The Ledger: Mara searches for her father\'s missing ledger.',
+  entities: '[Character: Mara. Appearance: Tall, salt-stained coat. Personality: Stubborn. Motivation: Find her father.]\n[Place: The Pier. Description: Rotting boards over black water.]',
+  relatedPassages: '[Chapter 1, paragraph 4] Her father had kept the ledger in a tin box under the floorboards.',
+  text: 'The rain had not stopped for three days. Mara pulled her coat tighter and stepped onto the pier.',
+  position: 'part 1 of 2',
+  knownNames: 'Mara, The Pier, The Ferryman',
+  chapterSummaries: 'Chapter 1: Mara finds her father\'s empty tin box.\nChapter 2: Mara arrives at the harbour to meet the ferryman.',
+  subplotCandidates: '- The Ledger: Mara searches for her father\'s missing ledger.',
+};
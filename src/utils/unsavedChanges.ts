@@ -0,0 +1,145 @@
+// Edits that have not been saved to the project yet. While an editor's
+// content differs from its file, the editor keeps it here as the file's
+// unsaved buffer (useUnsavedBuffer). App autosaves the buffers, the file
+// tree and title bar mark them, and every change is mirrored to the main
+// process (`update-unsaved-buffer`), which keeps the buffers for recovery
+// after a crash and asks before closing or switching projects loses them.
+// Changes are announced with an `auctor-unsaved-changed` event.
+
+import { useEffect, useState } from 'react';
+import type { IpcResult } from './ipcContract';
+
+const buffers = new Map<string, string>();
+// Editors whose latest content is not in their buffer yet, by path; calling
+// the function copies it in (see useUnsavedBuffer)
+const pendingUpdates = new Map<string, () => void>();
+
+// Serializing a whole chapter on every keystroke is too slow, so a buffer
+// follows its editor after a pause in typing, or as soon as it is read
+const BUFFER_UPDATE_DELAY_MS = 500;
+
+// Paths come with either separator depending on where they were read
+const keyOf = (path: string) => path.replace(/\\/g, '/');
+
+function notifyUnsavedChanged(paths: string[]) {
+  window.dispatchEvent(new CustomEvent('auctor-unsaved-changed', { detail: { paths } }));
+}
+
+export function unsavedContent(path: string): string | undefined {
+  pendingUpdates.get(keyOf(path))?.();
+  return buffers.get(keyOf(path));
+}
+
+export function hasUnsavedChanges(path: string): boolean {
+  return buffers.has(keyOf(path));
+}
+
+export function unsavedPaths(): string[] {
+  return [...buffers.keys()];
+}
+
+export function setUnsavedContent(path: string, content: string) {
+  const key = keyOf(path);
+  if (buffers.get(key) === content) return;
+  buffers.set(key, content);
+  window.auctor.updateUnsavedBuffer(key, content);
+  notifyUnsavedChanged([key]);
+}
+
+export function discardUnsavedContent(path: string) {
+  const key = keyOf(path);
+  pendingUpdates.delete(key);
+  if (!buffers.delete(key)) return;
+  window.auctor.updateUnsavedBuffer(key, null);
+  notifyUnsavedChanged([key]);
+}
+
+/**
+ * Saves `content` to the file, by default its unsaved buffer. The buffer is
+ * dropped once saved, unless it was edited again while the save ran.
+ */
+export async function saveFileContent(path: string, content = unsavedContent(path)): Promise<IpcResult> {
+  if (content === undefined) return { success: true };
+  const key = keyOf(path);
+  const before = buffers.get(key);
+  const result = await window.auctor.saveFile(path, content);
+  if (result.success && buffers.get(key) === before) discardUnsavedContent(key);
+  return result;
+}
+
+/** Forgets every buffer; for when the main process has already saved or discarded them. */
+export function resetUnsavedChanges() {
+  const paths = unsavedPaths();
+  buffers.clear();
+  pendingUpdates.clear();
+  if (paths.length > 0) notifyUnsavedChanged(paths);
+}
+
+/** Takes back the buffers a crash left behind, if the author wants them. */
+export async function restoreUnsavedChanges(): Promise<string[]> {
+  const result = await window.auctor.restoreUnsavedBuffers();
+  if (!result.success) {
+    console.error('Error restoring unsaved changes:', result.error);
+    return [];
+  }
+  for (const buffer of result.buffers) setUnsavedContent(buffer.path, buffer.content);
+  return result.buffers.map(b => keyOf(b.path));
+}
+
+/** The paths with unsaved buffers, kept up to date; edits to a buffer don't re-render. */
+export function useUnsavedPaths(): string[] {
+  const [paths, setPaths] = useState(unsavedPaths);
+  useEffect(() => {
+    const handler = () => setPaths(prev => {
+      const next = unsavedPaths();
+      return next.join('\n') === prev.join('\n') ? prev : next;
+    });
+    handler();
+    window.addEventListener('auctor-unsaved-changed', handler);
+    return () => window.removeEventListener('auctor-unsaved-changed', handler);
+  }, []);
+  return paths;
+}
+
+/**
+ * Connects an editor's dirty flag to its file's buffer: while dirty, the
+ * editor's content (from `serialize`) is the buffer; once the buffer is
+ * saved elsewhere (by autosave, say) the flag is cleared; and an editor
+ * opened on a file that still has a buffer starts out dirty. Call it after
+ * the effects that load the file, since those reset the flag, and memoize
+ * `serialize` on the content it reads: a new function means new content.
+ */
+export function useUnsavedBuffer(path: string, isDirty: boolean, serialize: () => string, setDirty: (dirty: boolean) => void) {
+  useEffect(() => {
+    if (hasUnsavedChanges(path)) setDirty(true);
+    const handler = (event: Event) => {
+      const paths = (event as CustomEvent<{ paths: string[] }>).detail?.paths ?? [];
+      if (paths.includes(keyOf(path)) && !hasUnsavedChanges(path)) setDirty(false);
+    };
+    window.addEventListener('auctor-unsaved-changed', handler);
+    // An editor closed before the pause still leaves its latest content behind
+    return () => {
+      window.removeEventListener('auctor-unsaved-changed', handler);
+      pendingUpdates.get(keyOf(path))?.();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [path]);
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const key = keyOf(path);
+    const update = () => {
+      if (pendingUpdates.get(key) !== update) return;
+      pendingUpdates.delete(key);
+      clearTimeout(timer);
+      setUnsavedContent(key, serialize());
+    };
+    pendingUpdates.set(key, update);
+    // The first edit marks the file as unsaved at once
+    const timer = setTimeout(update, hasUnsavedChanges(key) ? BUFFER_UPDATE_DELAY_MS : 0);
+    return () => {
+      clearTimeout(timer);
+      if (pendingUpdates.get(key) === update) pendingUpdates.delete(key);
+    };
+  }, [isDirty, path, serialize]);
+}
@@ -0,0 +1,201 @@
+// Saving worldbuilding data from outside the cards (e.g. accepted assistant
+// proposals) the same way the cards do: `save-file`/`create-file` for entity
+// JSON, `save-project-settings` for subplots, reciprocal relationships for
+// characters, then an `auctor-files-changed` event.
+
+export type ProposedChangeCategory = 'Characters' | 'Places' | 'Objects' | 'Organisations' | 'Subplots';
+
+// Mirrors ProposedChange in electron/proposalTools.ts
+export type ProposedChange = {
+  id: string;
+  kind: 'create' | 'update';
+  category: ProposedChangeCategory;
+  path: string | null;
+  title: string;
+  reason: string;
+  before: any | null;
+  after: any;
+};
+
+type Relationship = { target: string; description: string };
+
+const normalizeName = (s: string) => s.trim().toLowerCase();
+
+/** JSON with sorted keys, so key order doesn't count as a change. */
+export function stableStringify(value: any, indent = 2): string {
+  const sortKeys = (v: any): any => {
+    if (Array.isArray(v)) return v.map(sortKeys);
+    if (v && typeof v === 'object') {
+      return Object.fromEntries(Object.keys(v).sort().map((k) => [k, sortKeys(v[k])]));
+    }
+    return v;
+  };
+  return JSON.stringify(sortKeys(value), null, indent);
+}
+
+export function notifyFilesChanged(paths: string[] = []) {
+  window.dispatchEvent(new CustomEvent('auctor-files-changed', { detail: { paths } }));
+}
+
+async function findCharacterPath(name: string): Promise<string | null> {
+  const files: any[] = await window.auctor.getFiles();
+  const target = normalizeName(name);
+  const found = (files || []).find((f: any) =>
+    f.category === 'Characters' && typeof f.name === 'string' && normalizeName(f.name.replace(/\.json$/i, '')) === target
+  );
+  return found?.path ?? null;
+}
+
+// Read-modify-write updates of the same file, one at a time, so two updates
+// made together (a card saving several relationships that point at one
+// character, say) don't both read the old content and drop each other's edit
+const fileUpdateQueues = new Map<string, Promise<unknown>>();
+
+function queueFileUpdate<T>(path: string, update: () => Promise<T>): Promise<T> {
+  const previous = fileUpdateQueues.get(path) ?? Promise.resolve();
+  const result = previous.then(update, update);
+  const settled = result.then(() => {}, () => {});
+  fileUpdateQueues.set(path, settled);
+  settled.then(() => {
+    if (fileUpdateQueues.get(path) === settled) fileUpdateQueues.delete(path);
+  });
+  return result;
+}
+
+/**
+ * Makes `rel.target`'s character file point back at `selfName` with the same
+ * description. Returns true when the other file was written. `knownPath`
+ * skips the lookup when the caller already has the target's file.
+ */
+export async function syncReciprocalRelationship(selfName: string, rel: Relationship, knownPath?: string | null): Promise<boolean> {
+  const target = rel.target?.trim();
+  const description = rel.description?.trim();
+  const self = selfName?.trim();
+
+  if (!target || !description || !self) return false;
+  if (normalizeName(target) === normalizeName(self)) return false;
+
+  const targetPath = knownPath ?? await findCharacterPath(target);
+  if (!targetPath) return false;
+
+  return queueFileUpdate(targetPath, () => writeReciprocalRelationship(targetPath, self, description));
+}
+
+async function writeReciprocalRelationship(targetPath: string, self: string, description: string): Promise<boolean> {
+  const readRes = await window.auctor.readFile(targetPath);
+  if (!readRes?.success) return false;
+
+  let other: any;
+  try {
+    other = JSON.parse(readRes.content);
+  } catch {
+    other = {};
+  }
+
+  const existing: any[] = Array.isArray(other.relationships) ? other.relationships : [];
+  const idx = existing.findIndex((r: any) => normalizeName(String(r?.target ?? '')) === normalizeName(self));
+
+  if (idx === -1) {
+    other.relationships = [...existing, { target: self, description }];
+  } else {
+    const currentDesc = String(existing[idx]?.description ?? '');
+    if (currentDesc === description) return false;
+    const updated = [...existing];
+    updated[idx] = { ...updated[idx], target: self, description };
+    other.relationships = updated;
+  }
+
+  await window.auctor.saveFile(targetPath, JSON.stringify(other, null, 2));
+
+  // Let other parts of the UI know files may have changed.
+  notifyFilesChanged([targetPath]);
+  return true;
+}
+
+const withoutRelationships = ({ relationships: _ignored, ...rest }: any) => rest;
+
+/**
+ * Accepting one character's change writes reciprocal relationships into
+ * others, which may have pending proposals of their own. When relationships
+ * are the only thing that moved, replay the proposal's relationship edits on
+ * top of the file instead of refusing it.
+ */
+function rebaseCharacterChange(change: ProposedChange, current: any): any | null {
+  if (change.category !== 'Characters' || !change.before || !current) return null;
+  if (stableStringify(withoutRelationships(current)) !== stableStringify(withoutRelationships(change.before))) return null;
+
+  const beforeRels: Relationship[] = Array.isArray(change.before.relationships) ? change.before.relationships : [];
+  const edits = (Array.isArray(change.after.relationships) ? change.after.relationships : []).filter((rel: Relationship) =>
+    !beforeRels.some(b => normalizeName(b.target) === normalizeName(rel.target) && b.description === rel.description)
+  );
+  const merged: Relationship[] = Array.isArray(current.relationships) ? [...current.relationships] : [];
+  for (const rel of edits) {
+    const idx = merged.findIndex(r => normalizeName(String(r?.target ?? '')) === normalizeName(rel.target));
+    if (idx === -1) merged.push(rel);
+    else merged[idx] = { ...merged[idx], ...rel };
+  }
+  return { ...change.after, relationships: merged };
+}
+
+async function applySubplotChange(change: ProposedChange) {
+  const result = await window.auctor.getProjectSettings();
+  if (!result?.success || !result.settings) throw new Error('Could not read project settings.');
+
+  const subplots: any[] = Array.isArray(result.settings.subplots) ? result.settings.subplots : [];
+  const idx = subplots.findIndex((sp) =>
+    (change.before?.id && sp.id === change.before.id) || normalizeName(String(sp.title ?? '')) === normalizeName(change.after.title)
+  );
+
+  if (change.before ? idx === -1 || stableStringify(subplots[idx]) !== stableStringify(change.before) : idx !== -1) {
+    throw new Error(`"${change.after.title}" was changed since this was proposed. Ask the assistant again.`);
+  }
+
+  const next = idx === -1 ? [...subplots, change.after] : subplots.map((sp, i) => (i === idx ? change.after : sp));
+  const saved = await window.auctor.saveProjectSettings({ ...result.settings, subplots: next });
+  if (!saved?.success) throw new Error(saved?.error || 'Could not save subplots.');
+}
+
+/**
+ * Applies one accepted proposal. Refuses (throws) when the target changed
+ * since the proposal was made, rather than overwriting the author's edits.
+ */
+export async function applyProposedChange(change: ProposedChange): Promise<void> {
+  if (change.category === 'Subplots') {
+    await applySubplotChange(change);
+    notifyFilesChanged();
+    return;
+  }
+
+  const relPath = change.path!;
+  const readRes = await window.auctor.readFile(relPath);
+  let current: any = null;
+  if (readRes?.success) {
+    try { current = JSON.parse(readRes.content); } catch { current = readRes.content; }
+  }
+
+  const unchanged = change.before === null
+    ? current === null
+    : current !== null && stableStringify(current) === stableStringify(change.before);
+  const after = unchanged ? change.after : rebaseCharacterChange(change, current);
+  if (!after) {
+    throw new Error(`${relPath} was changed since this was proposed. Ask the assistant again.`);
+  }
+
+  const content = JSON.stringify(after, null, 2);
+  if (current === null) {
+    const fileName = relPath.split('/').pop()!;
+    const created = await window.auctor.createFile(fileName, content, change.category);
+    if (created && created.success === false) throw new Error(created.error || `Could not create ${relPath}.`);
+  } else {
+    const saved = await window.auctor.saveFile(relPath, content);
+    if (saved && saved.success === false) throw new Error(saved.error || `Could not save ${relPath}.`);
+  }
+
+  if (change.category === 'Characters' && Array.isArray(after.relationships)) {
+    for (const rel of after.relationships as Relationship[]) {
+      await syncReciprocalRelationship(after.name, rel);
+    }
+  }
+
+  notifyFilesChanged([relPath]);
+}
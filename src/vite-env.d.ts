@@ -1,10 +1,6 @@
 /// <reference types="vite/client" />
 
+// Exposed by electron/preload.ts; see src/utils/ipcContract.ts
 interface Window {
-  ipcRenderer: {
-    invoke: (channel: string, ...args: any[]) => Promise<any>;
-    send: (channel: string, ...args: any[]) => void;
-    on: (channel: string, listener: (event: any, ...args: any[]) => void) => () => void;
-    off: (channel: string, listener: (event: any, ...args: any[]) => void) => void;
-  };
+  auctor: import('./utils/ipcContract').AuctorApi;
 }
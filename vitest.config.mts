@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts, whose Electron plugins would build and
+// launch the app. Tests sit next to the module they cover.
+export default defineConfig({
+  test: {
+    include: ['electron/**/*.test.ts', 'src/**/*.test.ts'],
+    environment: 'node',
+  },
+})